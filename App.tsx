@@ -1,25 +1,52 @@
 import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, LinkingOptions } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
-import { Provider as PaperProvider } from 'react-native-paper';
+import { Provider as PaperProvider, ActivityIndicator } from 'react-native-paper';
 import { theme } from './src/theme';
 import AuthNavigator from './src/navigation/AuthNavigator';
 import MainNavigator from './src/navigation/MainNavigator';
+import OnboardingNavigator from './src/navigation/OnboardingNavigator';
 import { AuthProvider, useAuth } from './src/contexts/AuthContext';
 import { WalletProvider } from './src/contexts/WalletContext';
 import { View } from 'react-native';
 
 const Stack = createNativeStackNavigator();
 
+// Group invites (GroupAccess.inviteLink) open the JoinInvite screen once
+// the user is signed in and onboarded
+const linking: LinkingOptions<ReactNavigation.RootParamList> = {
+  prefixes: [Linking.createURL('/')],
+  config: {
+    screens: {
+      Main: {
+        screens: {
+          JoinInvite: 'invite/:groupId/:code',
+        },
+      },
+    },
+  },
+};
+
 function AppContent() {
-  const { user } = useAuth();
+  const { user, loading, onboarded } = useAuth();
+
+  if (loading) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
 
   return (
     <View style={{ flex: 1 }}>
-      <NavigationContainer>
+      <NavigationContainer linking={linking}>
         <Stack.Navigator screenOptions={{ headerShown: false }}>
           {!user ? (
             <Stack.Screen name="Auth" component={AuthNavigator} />
+          ) : !onboarded ? (
+            <Stack.Screen name="Onboarding" component={OnboardingNavigator} />
           ) : (
             <Stack.Screen name="Main" component={MainNavigator} />
           )}
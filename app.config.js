@@ -1,6 +1,8 @@
 export default {
   name: 'GatherPay',
   slug: 'gatherpay',
+  // Invite links (gatherpay://invite/...)
+  scheme: 'gatherpay',
   version: '1.0.0',
   orientation: 'portrait',
   userInterfaceStyle: 'light',
@@ -20,6 +22,12 @@ export default {
       backgroundColor: '#ffffff'
     },
     package: 'com.yourusername.gatherpay',
+    config: {
+      // Google Maps SDK key for the group map (iOS uses Apple Maps)
+      googleMaps: {
+        apiKey: process.env.GOOGLE_MAPS_API_KEY
+      }
+    },
     permissions: [
       'ACCESS_FINE_LOCATION',
       'ACCESS_COARSE_LOCATION'
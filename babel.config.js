@@ -10,6 +10,8 @@ module.exports = function(api) {
           extensions: ['.ios.js', '.android.js', '.js', '.ts', '.tsx', '.json'],
           alias: {
             '@': './src',
+            // Code the Cloud Functions run too, such as the split strategies
+            '@shared': './functions/src/shared',
           },
         },
       ],
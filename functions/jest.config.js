@@ -0,0 +1,20 @@
+// Unit tests run anywhere. The emulator and security rules suites need
+// Firestore, so they only run through `firebase emulators:exec`
+// (npm run test:emulator).
+const project = (name, setupFiles = []) => ({
+  displayName: name,
+  testEnvironment: 'node',
+  testMatch: [`<rootDir>/test/${name}/**/*.test.ts`],
+  setupFiles,
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/test/tsconfig.json' }],
+  },
+});
+
+module.exports = {
+  projects: [
+    project('unit'),
+    project('emulator', ['<rootDir>/test/emulator/env.ts']),
+    project('rules'),
+  ],
+};
@@ -0,0 +1,99 @@
+import { FieldValue, Transaction as FirestoreTransaction } from 'firebase-admin/firestore';
+import { db } from './config';
+import { CollateralHold } from './types';
+import { Money } from './shared/Money';
+
+export const GROUP_COLLATERAL_AMOUNT = 200; // ₹200 held per group joined or created
+
+export class CollateralError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'CollateralError';
+  }
+}
+
+export interface CollateralState {
+  userId: string;
+  groupId: string;
+  balance: number;
+  held: number;
+  consented: boolean; // Agreed to collateral holds during onboarding
+  hold: CollateralHold | null;
+}
+
+// Holds part of a wallet's balance for as long as the user is in a group.
+// Like EscrowManager, `load` does the reads and must run before any writes
+// in the caller's transaction; `place` and `release` only write.
+export class CollateralManager {
+  static holdRef(groupId: string, userId: string) {
+    return db.collection('collateral_holds').doc(`${groupId}_${userId}`);
+  }
+
+  static async load(
+    transaction: FirestoreTransaction,
+    groupId: string,
+    userId: string
+  ): Promise<CollateralState> {
+    const [userDoc, holdDoc] = await Promise.all([
+      transaction.get(db.collection('users').doc(userId)),
+      transaction.get(this.holdRef(groupId, userId)),
+    ]);
+
+    if (!userDoc.exists) {
+      throw new CollateralError('Wallet not found', 'WALLET_NOT_FOUND');
+    }
+
+    const user = userDoc.data()!;
+    const wallet = user.wallet || {};
+    return {
+      userId,
+      groupId,
+      balance: wallet.balance || 0,
+      held: wallet.held || 0,
+      consented: !!user.collateralConsentAt,
+      hold: holdDoc.exists ? { id: holdDoc.id, ...holdDoc.data() } as CollateralHold : null,
+    };
+  }
+
+  static available(state: CollateralState): number {
+    return Money.of(state.balance).subtract(Money.of(state.held)).max(Money.ZERO).toRupees();
+  }
+
+  static place(transaction: FirestoreTransaction, state: CollateralState) {
+    if (state.hold?.status === 'active') {
+      return;
+    }
+    if (!state.consented) {
+      throw new CollateralError('Please finish setting up your account first', 'COLLATERAL_CONSENT_REQUIRED');
+    }
+    if (this.available(state) < GROUP_COLLATERAL_AMOUNT) {
+      throw new CollateralError(
+        `You need ₹${GROUP_COLLATERAL_AMOUNT} available in your wallet to join a group`,
+        'INSUFFICIENT_COLLATERAL'
+      );
+    }
+
+    const held = Money.of(state.held).add(Money.of(GROUP_COLLATERAL_AMOUNT)).toRupees();
+    transaction.update(db.collection('users').doc(state.userId), { 'wallet.held': held });
+    transaction.set(this.holdRef(state.groupId, state.userId), {
+      userId: state.userId,
+      groupId: state.groupId,
+      amount: GROUP_COLLATERAL_AMOUNT,
+      status: 'active',
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  static release(transaction: FirestoreTransaction, state: CollateralState) {
+    if (state.hold?.status !== 'active') {
+      return;
+    }
+
+    const held = Money.of(state.held).subtract(Money.of(state.hold.amount)).max(Money.ZERO).toRupees();
+    transaction.update(db.collection('users').doc(state.userId), { 'wallet.held': held });
+    transaction.update(this.holdRef(state.groupId, state.userId), {
+      status: 'released',
+      releasedAt: FieldValue.serverTimestamp(),
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions/v2';
+import { db } from './config';
+import { OrderProcessor } from './OrderProcessor';
+import { Notifier } from './Notifier';
+import { DeadlineKind } from './types';
+
+const BATCH_SIZE = 100;
+
+const MESSAGES: Record<DeadlineKind, (groupName: string) => { title: string; body: string }> = {
+  gathering: (groupName) => ({
+    title: 'Group closed',
+    body: `${groupName} didn't reach enough members in time. Your collateral has been released.`,
+  }),
+  screenshot: (groupName) => ({
+    title: 'Order cancelled',
+    body: `The order for ${groupName} wasn't uploaded in time. Your collateral has been released.`,
+  }),
+  approval: (groupName) => ({
+    title: 'Order cancelled',
+    body: `Not every split for ${groupName} was approved in time. Your collateral has been released.`,
+  }),
+  delivery: (groupName) => ({
+    title: 'Order cancelled',
+    body: `Items for ${groupName} weren't handed over in time. Any share still held has been refunded.`,
+  }),
+};
+
+// Groups carry at most one running deadline (see GroupLifecycle); this
+// cancels the ones that passed and tells their members
+export class DeadlineManager {
+  static async expireDue(): Promise<number> {
+    const due = await db.collection('groups')
+      .where('deadline.at', '<=', Timestamp.now())
+      .limit(BATCH_SIZE)
+      .get();
+
+    let expired = 0;
+    for (const groupDoc of due.docs) {
+      try {
+        const result = await OrderProcessor.expireDeadline(groupDoc.id);
+        if (!result) continue;
+        expired++;
+
+        const message = MESSAGES[result.kind](result.groupName);
+        await Promise.all(result.memberIds.map(userId => Notifier.notify(userId, {
+          type: 'deadline_expired',
+          ...message,
+          data: { groupId: groupDoc.id },
+        })));
+      } catch (error) {
+        // Left for the next run
+        logger.error('Failed to expire group deadline', { groupId: groupDoc.id, error });
+      }
+    }
+    return expired;
+  }
+}
@@ -0,0 +1,265 @@
+import { FieldValue, Transaction as FirestoreTransaction } from 'firebase-admin/firestore';
+import { db } from './config';
+import { Escrow, EscrowHolding, OrderSplit } from './types';
+import { LedgerTransaction, LedgerAccounts, LedgerError } from './Ledger';
+import { RewardEngine } from './RewardEngine';
+import { Money } from './shared/Money';
+
+const PLATFORM_FEE_PERCENTAGE = 2; // 2% platform fee, taken as funds are released
+
+export class EscrowError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'EscrowError';
+  }
+}
+
+// Members' shares sit in the group's escrow account from the moment the
+// split is fully approved until each member picks up their items. All
+// methods run inside the caller's Firestore transaction; `load` and the
+// ledger loads must happen before any of the writing methods are called.
+export class EscrowManager {
+  static escrowRef(orderId: string) {
+    return db.collection('escrows').doc(orderId);
+  }
+
+  static async load(orderId: string, transaction: FirestoreTransaction): Promise<Escrow | null> {
+    const escrowDoc = await transaction.get(this.escrowRef(orderId));
+    return escrowDoc.exists ? { id: escrowDoc.id, ...escrowDoc.data() } as Escrow : null;
+  }
+
+  // Ledger accounts touched when locking, releasing or refunding
+  static accounts(groupId: string, leaderId: string, userIds: string[]): string[] {
+    return [
+      LedgerAccounts.groupEscrow(groupId),
+      LedgerAccounts.userWallet(leaderId),
+      LedgerAccounts.PLATFORM_FEES,
+      LedgerAccounts.REWARDS,
+      ...userIds.map(userId => LedgerAccounts.userWallet(userId)),
+    ];
+  }
+
+  static lock(
+    transaction: FirestoreTransaction,
+    ledger: LedgerTransaction,
+    params: { groupId: string; orderId: string; leaderId: string; splits: OrderSplit[] }
+  ): Escrow {
+    const { groupId, orderId, leaderId } = params;
+
+    // The leader pays the delivery platform directly, so only the other
+    // members' shares are held
+    const memberSplits = params.splits.filter(split => split.userId !== leaderId);
+    if (memberSplits.length === 0) {
+      throw new EscrowError('No member shares to hold', 'NOTHING_TO_HOLD');
+    }
+
+    // Coin offsets are funded from the rewards pool, so the escrow holds
+    // each member's full share
+    const grossOf = (split: OrderSplit) => Money.of(split.finalAmount).add(Money.of(split.coinDiscount || 0));
+    const totalCoinDiscount = Money.sum(memberSplits.map(split => Money.of(split.coinDiscount || 0))).toRupees();
+    const totalHeld = Money.sum(memberSplits.map(grossOf)).toRupees();
+
+    let journalEntryId: string;
+    try {
+      journalEntryId = ledger.post({
+        description: `Escrow hold for group order in ${groupId}`,
+        groupId,
+        orderId,
+        lines: [
+          ...memberSplits.map(split => ({
+            accountId: LedgerAccounts.userWallet(split.userId),
+            amount: -split.finalAmount,
+          })),
+          ...(totalCoinDiscount > 0
+            ? [{ accountId: LedgerAccounts.REWARDS, amount: -totalCoinDiscount }]
+            : []),
+          { accountId: LedgerAccounts.groupEscrow(groupId), amount: totalHeld },
+        ],
+      }, `escrow_lock_${orderId}`);
+    } catch (error) {
+      if (error instanceof LedgerError && error.code === 'INSUFFICIENT_BALANCE') {
+        const short = memberSplits.find(split =>
+          ledger.availableOf(LedgerAccounts.userWallet(split.userId)) < split.finalAmount
+        );
+        throw new EscrowError(
+          short ? `User ${short.userId} has insufficient balance` : 'A member has insufficient balance',
+          'INSUFFICIENT_BALANCE'
+        );
+      }
+      throw error;
+    }
+
+    const holdings: Record<string, EscrowHolding> = Object.fromEntries(
+      memberSplits.map(split => [split.userId, {
+        userId: split.userId,
+        amount: grossOf(split).toRupees(),
+        status: 'held',
+        ...(split.coinsApplied && {
+          coinsApplied: split.coinsApplied,
+          coinDiscount: split.coinDiscount,
+        }),
+      }])
+    );
+
+    memberSplits.forEach(split => {
+      transaction.set(db.collection('transactions').doc(`escrow_lock_${orderId}_${split.userId}`), {
+        type: 'debit',
+        amount: split.finalAmount,
+        description: `Held in escrow for group order in ${groupId}`,
+        timestamp: FieldValue.serverTimestamp(),
+        userId: split.userId,
+        groupId,
+        orderId,
+        status: 'completed',
+        journalEntryId,
+      });
+    });
+
+    const escrow: Omit<Escrow, 'id'> = {
+      groupId,
+      orderId,
+      leaderId,
+      holdings,
+      status: 'holding',
+    };
+    transaction.set(this.escrowRef(orderId), {
+      ...escrow,
+      totalHeld,
+      lockedAt: FieldValue.serverTimestamp(),
+    });
+
+    return { id: orderId, ...escrow };
+  }
+
+  // Pays one member's holding out to the leader, less the platform fee
+  static release(
+    transaction: FirestoreTransaction,
+    ledger: LedgerTransaction,
+    escrow: Escrow,
+    userId: string
+  ): EscrowHolding {
+    const holding = escrow.holdings[userId];
+    if (!holding) {
+      throw new EscrowError('No funds held for this member', 'HOLDING_NOT_FOUND');
+    }
+    if (holding.status !== 'held') {
+      throw new EscrowError(`Funds were already ${holding.status}`, 'HOLDING_CLOSED');
+    }
+
+    const { groupId, orderId, leaderId } = escrow;
+    const [fee, leaderShare] = Money.of(holding.amount).splitPercent(PLATFORM_FEE_PERCENTAGE);
+    const platformFee = fee.toRupees();
+    const leaderAmount = leaderShare.toRupees();
+
+    const journalEntryId = ledger.post({
+      description: `Escrow release for group order in ${groupId}`,
+      groupId,
+      orderId,
+      userId,
+      lines: [
+        { accountId: LedgerAccounts.groupEscrow(groupId), amount: -holding.amount },
+        { accountId: LedgerAccounts.userWallet(leaderId), amount: leaderAmount },
+        { accountId: LedgerAccounts.PLATFORM_FEES, amount: platformFee },
+      ],
+    }, `escrow_release_${orderId}_${userId}`);
+
+    transaction.set(db.collection('transactions').doc(`escrow_release_${orderId}_${userId}`), {
+      type: 'credit',
+      amount: leaderAmount,
+      description: `Released from escrow for group order in ${groupId}`,
+      timestamp: FieldValue.serverTimestamp(),
+      userId: leaderId,
+      groupId,
+      orderId,
+      status: 'completed',
+      platformFee,
+      journalEntryId,
+    });
+
+    const released: EscrowHolding = { ...holding, status: 'released', platformFee };
+    this.close(transaction, escrow, [released]);
+    return released;
+  }
+
+  // Returns every holding still in escrow (or only those of `userIds`) to
+  // the members' wallets. The part paid with coins goes back to the
+  // rewards pool and the coins are credited again as a fresh lot.
+  static refund(
+    transaction: FirestoreTransaction,
+    ledger: LedgerTransaction,
+    escrow: Escrow,
+    userIds?: string[]
+  ): EscrowHolding[] {
+    const { groupId, orderId } = escrow;
+    const refundable = Object.values(escrow.holdings).filter(holding =>
+      holding.status === 'held' && (!userIds || userIds.includes(holding.userId))
+    );
+
+    const refunded = refundable.map(holding => {
+      const coinDiscount = holding.coinDiscount || 0;
+      const cashAmount = Money.of(holding.amount).subtract(Money.of(coinDiscount)).toRupees();
+
+      const journalEntryId = ledger.post({
+        description: `Escrow refund for group order in ${groupId}`,
+        groupId,
+        orderId,
+        userId: holding.userId,
+        lines: [
+          { accountId: LedgerAccounts.groupEscrow(groupId), amount: -holding.amount },
+          { accountId: LedgerAccounts.userWallet(holding.userId), amount: cashAmount },
+          ...(coinDiscount > 0
+            ? [{ accountId: LedgerAccounts.REWARDS, amount: coinDiscount }]
+            : []),
+        ],
+      }, `escrow_refund_${orderId}_${holding.userId}`);
+
+      if (holding.coinsApplied) {
+        RewardEngine.award(transaction, holding.userId, holding.coinsApplied,
+          'Coins returned from cancelled group order', { groupId, orderId });
+      }
+
+      transaction.set(db.collection('transactions').doc(`escrow_refund_${orderId}_${holding.userId}`), {
+        type: 'credit',
+        amount: cashAmount,
+        description: `Escrow refund for group order in ${groupId}`,
+        timestamp: FieldValue.serverTimestamp(),
+        userId: holding.userId,
+        groupId,
+        orderId,
+        status: 'completed',
+        journalEntryId,
+      });
+
+      return { ...holding, status: 'refunded' } as EscrowHolding;
+    });
+
+    this.close(transaction, escrow, refunded);
+    return refunded;
+  }
+
+  static hasHeldFunds(escrow: Escrow | null): boolean {
+    return !!escrow && Object.values(escrow.holdings).some(holding => holding.status === 'held');
+  }
+
+  private static close(transaction: FirestoreTransaction, escrow: Escrow, changed: EscrowHolding[]) {
+    if (changed.length === 0) return;
+
+    changed.forEach(holding => {
+      escrow.holdings[holding.userId] = holding;
+    });
+
+    const updates: { [key: string]: any } = {
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+    changed.forEach(holding => {
+      updates[`holdings.${holding.userId}`] = holding;
+    });
+    if (!this.hasHeldFunds(escrow)) {
+      escrow.status = 'settled';
+      updates.status = 'settled';
+      updates.settledAt = FieldValue.serverTimestamp();
+    }
+
+    transaction.update(this.escrowRef(escrow.orderId), updates);
+  }
+}
@@ -0,0 +1,72 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from './config';
+import { Notifier } from './Notifier';
+import { leaderOf } from './GroupManager';
+import { itemMRPOf } from './cartLines';
+import { CartLine } from './types';
+import { Money } from './shared/Money';
+
+type Entry = { itemMRP?: number; lines?: CartLine[] };
+
+const sumItems = (entries: Entry[]) =>
+  Money.sum(entries.map(entry => Money.of(itemMRPOf(entry)))).toRupees();
+
+// Keeps `committedAmount` on each group: the members' carts while the group
+// is gathering, then the order's items until the split is submitted
+export class FundingTracker {
+  static itemsTotal(items: Record<string, Entry> = {}): number {
+    return sumItems(Object.values(items));
+  }
+
+  static async recompute(groupId: string): Promise<void> {
+    const groupRef = db.collection('groups').doc(groupId);
+
+    const reached = await db.runTransaction(async (transaction) => {
+      const groupDoc = await transaction.get(groupRef);
+      if (!groupDoc.exists) return null;
+
+      const group = groupDoc.data()!;
+      let committedAmount: number;
+      if (group.currentOrder?.status === 'pending') {
+        const orderDoc = await transaction.get(db.collection('orders').doc(group.currentOrder.id));
+        committedAmount = this.itemsTotal(orderDoc.data()?.items);
+      } else if (group.status === 'open') {
+        const carts = await transaction.get(groupRef.collection('carts'));
+        committedAmount = sumItems(carts.docs
+          .filter(cart => group.members?.[cart.id])
+          .map(cart => cart.data()));
+      } else {
+        // Frozen once the split is in
+        return null;
+      }
+
+      const targetReached = committedAmount >= group.targetAmount;
+      const notifyLeader = targetReached && group.status === 'open' && !group.targetReachedAt;
+
+      const updates: { [key: string]: any } = {};
+      if (committedAmount !== group.committedAmount) {
+        updates.committedAmount = committedAmount;
+      }
+      if (notifyLeader) {
+        updates.targetReachedAt = FieldValue.serverTimestamp();
+      } else if (!targetReached && group.targetReachedAt) {
+        // Notify again if the carts drop below the target and climb back
+        updates.targetReachedAt = FieldValue.delete();
+      }
+      if (Object.keys(updates).length > 0) {
+        transaction.update(groupRef, updates);
+      }
+
+      return notifyLeader ? { leaderId: leaderOf(group), name: group.name as string, committedAmount } : null;
+    });
+
+    if (reached) {
+      await Notifier.notify(reached.leaderId, {
+        type: 'target_reached',
+        title: 'Target reached',
+        body: `${reached.name} has ₹${reached.committedAmount} in carts. Start the order when you're ready.`,
+        data: { groupId },
+      });
+    }
+  }
+}
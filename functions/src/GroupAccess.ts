@@ -0,0 +1,224 @@
+import { randomBytes } from 'crypto';
+import { DocumentData, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { db } from './config';
+import { GroupManager, MAX_GROUP_MEMBERS, leaderOf, visibilityOf } from './GroupManager';
+import { Notifier } from './Notifier';
+
+const DEFAULT_INVITE_HOURS = 48;
+const MAX_INVITE_HOURS = 7 * 24;
+
+export interface InviteInput {
+  maxUses?: number;
+  expiresInHours?: number;
+}
+
+export interface CreatedInvite {
+  code: string;
+  maxUses: number;
+  expiresAt: string; // ISO, callables can't return Timestamps
+}
+
+// What someone opening an invite sees before joining; invite-only groups
+// can't be read by non-members
+export interface InvitePreview {
+  name: string;
+  description: string;
+  platform: string;
+  targetAmount: number;
+  memberCount: number;
+  usesLeft: number;
+  expiresAt: string;
+}
+
+export class AccessError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'AccessError';
+  }
+}
+
+const requireGroup = (group: DocumentData | undefined) => {
+  if (!group) {
+    throw new AccessError('Group not found', 'GROUP_NOT_FOUND');
+  }
+  return group;
+};
+
+const validateInvite = (invite: DocumentData | undefined) => {
+  if (!invite || invite.revoked) {
+    throw new AccessError('This invite is no longer valid', 'INVITE_INVALID');
+  }
+  if (invite.expiresAt.toMillis() <= Date.now()) {
+    throw new AccessError('This invite has expired', 'INVITE_EXPIRED');
+  }
+  if (invite.uses >= invite.maxUses) {
+    throw new AccessError('This invite has been used up', 'INVITE_USED_UP');
+  }
+  return invite;
+};
+
+// Invites (groups/{groupId}/invites/{code}) let people in to any group,
+// private or not. Join requests (groups/{groupId}/join_requests/{userId})
+// queue for the leader in approval groups.
+export class GroupAccess {
+  static async createInvite(userId: string, groupId: string, input: InviteInput): Promise<CreatedInvite> {
+    const maxUses = input.maxUses ?? MAX_GROUP_MEMBERS - 1;
+    const hours = input.expiresInHours ?? DEFAULT_INVITE_HOURS;
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_GROUP_MEMBERS - 1) {
+      throw new AccessError(`An invite can be used 1 to ${MAX_GROUP_MEMBERS - 1} times`, 'INVALID_MAX_USES');
+    }
+    if (typeof hours !== 'number' || hours <= 0 || hours > MAX_INVITE_HOURS) {
+      throw new AccessError(`An invite can last up to ${MAX_INVITE_HOURS / 24} days`, 'INVALID_EXPIRY');
+    }
+
+    const groupRef = db.collection('groups').doc(groupId);
+    const group = requireGroup((await groupRef.get()).data());
+    if (leaderOf(group) !== userId) {
+      throw new AccessError('Only the group leader can create invites', 'NOT_LEADER');
+    }
+    if (group.status !== 'open') {
+      throw new AccessError('This group is no longer accepting new members', 'GROUP_CLOSED');
+    }
+
+    // Short enough to type, long enough not to guess
+    const code = randomBytes(6).toString('hex');
+    const expiresAt = Timestamp.fromMillis(Date.now() + hours * 60 * 60 * 1000);
+    await groupRef.collection('invites').doc(code).set({
+      createdBy: userId,
+      maxUses,
+      uses: 0,
+      expiresAt,
+      revoked: false,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    return { code, maxUses, expiresAt: expiresAt.toDate().toISOString() };
+  }
+
+  static async revokeInvite(userId: string, groupId: string, code: string): Promise<void> {
+    const groupRef = db.collection('groups').doc(groupId);
+    const group = requireGroup((await groupRef.get()).data());
+    if (leaderOf(group) !== userId) {
+      throw new AccessError('Only the group leader can revoke invites', 'NOT_LEADER');
+    }
+
+    const inviteRef = groupRef.collection('invites').doc(code);
+    if (!(await inviteRef.get()).exists) {
+      throw new AccessError('Invite not found', 'INVITE_NOT_FOUND');
+    }
+    await inviteRef.update({ revoked: true });
+  }
+
+  static async previewInvite(groupId: string, code: string): Promise<InvitePreview> {
+    const groupRef = db.collection('groups').doc(groupId);
+    const [groupDoc, inviteDoc] = await Promise.all([
+      groupRef.get(),
+      groupRef.collection('invites').doc(code).get(),
+    ]);
+    const group = requireGroup(groupDoc.data());
+    const invite = validateInvite(inviteDoc.data());
+
+    return {
+      name: group.name,
+      description: group.description || '',
+      platform: group.platform,
+      targetAmount: group.targetAmount,
+      memberCount: group.memberCount,
+      usesLeft: invite.maxUses - invite.uses,
+      expiresAt: invite.expiresAt.toDate().toISOString(),
+    };
+  }
+
+  static async joinWithInvite(userId: string, groupId: string, code: string, memberName?: string): Promise<void> {
+    await db.runTransaction(async (transaction) => {
+      const groupRef = db.collection('groups').doc(groupId);
+      const inviteRef = groupRef.collection('invites').doc(code);
+      const [groupDoc, inviteDoc] = await Promise.all([transaction.get(groupRef), transaction.get(inviteRef)]);
+      const group = requireGroup(groupDoc.data());
+      validateInvite(inviteDoc.data());
+
+      await GroupManager.admit(transaction, groupRef, group, userId, memberName);
+      transaction.update(inviteRef, { uses: FieldValue.increment(1) });
+    });
+  }
+
+  static async requestToJoin(userId: string, groupId: string, memberName?: string): Promise<void> {
+    const group = await db.runTransaction(async (transaction) => {
+      const groupRef = db.collection('groups').doc(groupId);
+      const requestRef = groupRef.collection('join_requests').doc(userId);
+      const [groupDoc, requestDoc] = await Promise.all([transaction.get(groupRef), transaction.get(requestRef)]);
+      const group = requireGroup(groupDoc.data());
+
+      if (visibilityOf(group) !== 'approval') {
+        throw new AccessError('This group doesn\'t take join requests', 'REQUESTS_CLOSED');
+      }
+      if (group.status !== 'open') {
+        throw new AccessError('This group is no longer accepting new members', 'GROUP_CLOSED');
+      }
+      if (group.members?.[userId]) {
+        throw new AccessError('You are already a member of this group', 'ALREADY_MEMBER');
+      }
+      if (requestDoc.data()?.status === 'pending') {
+        throw new AccessError('You have already asked to join', 'ALREADY_REQUESTED');
+      }
+      // An invite from the leader still gets them in
+      if (requestDoc.data()?.status === 'rejected') {
+        throw new AccessError('The leader turned down your request', 'REQUEST_REJECTED');
+      }
+
+      transaction.set(requestRef, {
+        userId,
+        name: memberName || null,
+        status: 'pending',
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      return group;
+    });
+
+    await Notifier.notify(leaderOf(group), {
+      type: 'join_requested',
+      title: 'New join request',
+      body: `${memberName || 'Someone'} wants to join ${group.name}.`,
+      data: { groupId },
+    });
+  }
+
+  // Approving runs the same join as an invite, so the requester needs the
+  // collateral in their wallet at that point
+  static async decideJoinRequest(userId: string, groupId: string, requesterId: string, approve: boolean): Promise<void> {
+    const group = await db.runTransaction(async (transaction) => {
+      const groupRef = db.collection('groups').doc(groupId);
+      const requestRef = groupRef.collection('join_requests').doc(requesterId);
+      const [groupDoc, requestDoc] = await Promise.all([transaction.get(groupRef), transaction.get(requestRef)]);
+      const group = requireGroup(groupDoc.data());
+
+      if (leaderOf(group) !== userId) {
+        throw new AccessError('Only the group leader can answer join requests', 'NOT_LEADER');
+      }
+      const request = requestDoc.data();
+      if (request?.status !== 'pending') {
+        throw new AccessError('This request has already been answered', 'REQUEST_NOT_PENDING');
+      }
+
+      if (approve) {
+        await GroupManager.admit(transaction, groupRef, group, requesterId, request.name || undefined);
+      } else {
+        transaction.update(requestRef, {
+          status: 'rejected',
+          decidedBy: userId,
+          decidedAt: FieldValue.serverTimestamp(),
+        });
+      }
+      return group;
+    });
+
+    await Notifier.notify(requesterId, {
+      type: approve ? 'join_approved' : 'join_rejected',
+      title: approve ? 'Request approved' : 'Request declined',
+      body: approve
+        ? `You're now a member of ${group.name}.`
+        : `The leader of ${group.name} turned down your request.`,
+      data: { groupId },
+    });
+  }
+}
@@ -0,0 +1,235 @@
+import { DocumentData, FieldValue, Transaction as FirestoreTransaction } from 'firebase-admin/firestore';
+import { db } from './config';
+import { deadlineFor } from './deadlines';
+import { DeadlineKind, GroupStatus, LifecycleEvent, OrderItem, OrderSplit, OrderStatus } from './types';
+
+export const MIN_ORDER_MEMBERS = 2;
+
+export class LifecycleError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'LifecycleError';
+  }
+}
+
+export interface LifecycleTarget {
+  groupId: string;
+  group: DocumentData;
+  orderId?: string;
+  order?: DocumentData; // Missing until the order is started
+  actorId: string | null; // null for scheduled jobs
+}
+
+// Fields written alongside the status change
+export interface LifecycleUpdates {
+  group?: { [key: string]: any };
+  order?: { [key: string]: any };
+}
+
+interface EventDefinition {
+  group?: { from: GroupStatus[]; to: GroupStatus };
+  order?: {
+    from: OrderStatus[] | null; // null creates the order
+    to: OrderStatus | ((order: DocumentData) => OrderStatus);
+    stamp?: string; // Order field set to the time of the change
+  };
+  deadline?: DeadlineKind | null | ((order: DocumentData) => DeadlineKind | null); // null clears it
+  guard?: (target: LifecycleTarget) => void;
+}
+
+const activeMemberCount = (members: Record<string, boolean> = {}) =>
+  Object.values(members).filter(Boolean).length;
+
+const orderItems = (order?: DocumentData) =>
+  Object.values(order?.items || {}) as OrderItem[];
+
+// The handover clock doesn't run while support staff review a reused
+// screenshot, since nothing can be collected until they clear it
+const deliveryDeadline = (order: DocumentData): DeadlineKind | null =>
+  (order.fraudReview?.status === 'open' ? null : 'delivery');
+
+// Every status change of a group and its order. Money moves in the
+// processors that fire these events, in the same transaction.
+const EVENTS: Record<LifecycleEvent, EventDefinition> = {
+  start_order: {
+    group: { from: ['open'], to: 'ordering' },
+    order: { from: null, to: 'pending' },
+    deadline: 'screenshot',
+    guard: ({ group }) => {
+      if (activeMemberCount(group.members) < MIN_ORDER_MEMBERS) {
+        throw new LifecycleError(`Need at least ${MIN_ORDER_MEMBERS} members to start an order`, 'NOT_ENOUGH_MEMBERS');
+      }
+    },
+  },
+  submit_split: {
+    group: { from: ['ordering'], to: 'ordered' },
+    order: { from: ['pending'], to: 'splitting', stamp: 'splitAt' },
+    // A member who never approves would otherwise hold everyone's
+    // collateral for good
+    deadline: 'approval',
+    guard: ({ order }) => {
+      if (orderItems(order).length < MIN_ORDER_MEMBERS) {
+        throw new LifecycleError(`At least ${MIN_ORDER_MEMBERS} members must add items`, 'NOT_ENOUGH_ITEMS');
+      }
+    },
+  },
+  lock_escrow: {
+    order: { from: ['splitting'], to: 'delivering', stamp: 'escrowLockedAt' },
+    deadline: deliveryDeadline,
+  },
+  open_dispute: {
+    order: { from: ['splitting', 'delivering'], to: 'disputed', stamp: 'disputedAt' },
+    deadline: null, // Support staff decide the order's fate
+  },
+  // Funds are only locked once every split is approved
+  reject_dispute: {
+    order: { from: ['disputed'], to: (order) => (order.escrowLockedAt ? 'delivering' : 'splitting') },
+    deadline: (order) => (order.escrowLockedAt ? deliveryDeadline(order) : 'approval'),
+  },
+  uphold_dispute: {
+    group: { from: ['ordered'], to: 'cancelled' },
+    order: { from: ['disputed'], to: 'cancelled', stamp: 'cancelledAt' },
+    deadline: null,
+  },
+  complete: {
+    group: { from: ['ordered'], to: 'completed' },
+    order: { from: ['delivering'], to: 'completed', stamp: 'completedAt' },
+    deadline: null,
+    guard: ({ order }) => {
+      const splits = Object.values(order?.splits || {}) as OrderSplit[];
+      if (splits.length === 0 || !splits.every(split => split.approved)) {
+        throw new LifecycleError('Not all splits have been approved', 'SPLITS_NOT_APPROVED');
+      }
+      if (!orderItems(order).every(item => item.received || item.noShow)) {
+        throw new LifecycleError('Some members have not collected their items', 'DELIVERY_PENDING');
+      }
+    },
+  },
+  cancel_order: {
+    group: { from: ['ordering', 'ordered'], to: 'cancelled' },
+    order: { from: ['pending', 'splitting', 'delivering'], to: 'cancelled', stamp: 'cancelledAt' },
+    deadline: null,
+    guard: ({ order }) => {
+      if (orderItems(order).some(item => item.received || item.noShow)) {
+        throw new LifecycleError('Items have already been handed over', 'DELIVERY_STARTED');
+      }
+    },
+  },
+  // A group that never started its order
+  cancel_group: {
+    group: { from: ['open'], to: 'cancelled' },
+    deadline: null,
+  },
+  // The screenshot, approval or handover deadline passed; whatever was
+  // handed over stays settled
+  expire_order: {
+    group: { from: ['ordering', 'ordered'], to: 'cancelled' },
+    order: { from: ['pending', 'splitting', 'delivering'], to: 'cancelled', stamp: 'cancelledAt' },
+    deadline: null,
+  },
+};
+
+const orderStatusError = (from: OrderStatus) => {
+  switch (from) {
+    case 'completed':
+      return new LifecycleError('Order already completed', 'ORDER_COMPLETED');
+    case 'cancelled':
+      return new LifecycleError('Order was cancelled', 'ORDER_CANCELLED');
+    case 'disputed':
+      return new LifecycleError('Order is under dispute', 'ORDER_DISPUTED');
+    default:
+      return new LifecycleError(`This can't be done while the order is ${from}`, 'INVALID_ORDER_STATUS');
+  }
+};
+
+// The only code that changes `status` on groups and orders; firestore.rules
+// keep the app from writing either. Each event is recorded in the group's
+// `transitions` subcollection.
+export class GroupLifecycle {
+  // Throws if the event can't happen in the current state
+  static check(event: LifecycleEvent, target: LifecycleTarget): void {
+    const definition = EVENTS[event];
+
+    if (definition.group && !definition.group.from.includes(target.group.status)) {
+      throw new LifecycleError(`This can't be done while the group is ${target.group.status}`, 'INVALID_GROUP_STATUS');
+    }
+
+    if (definition.order?.from === null) {
+      if (target.group.currentOrder) {
+        throw new LifecycleError('This group already has an order', 'ORDER_EXISTS');
+      }
+    } else if (definition.order) {
+      if (!target.order || !target.orderId) {
+        throw new LifecycleError('Order not found', 'ORDER_NOT_FOUND');
+      }
+      if (!definition.order.from.includes(target.order.status)) {
+        throw orderStatusError(target.order.status);
+      }
+    }
+
+    definition.guard?.(target);
+  }
+
+  // Writes the status change with `updates`, keeps the group's copy of the
+  // order status and its deadline in step and appends the audit entry.
+  // Starting an order creates it at `target.orderId`.
+  static fire(
+    transaction: FirestoreTransaction,
+    event: LifecycleEvent,
+    target: LifecycleTarget,
+    updates: LifecycleUpdates = {}
+  ): void {
+    this.check(event, target);
+    const definition = EVENTS[event];
+    const now = FieldValue.serverTimestamp();
+    const groupRef = db.collection('groups').doc(target.groupId);
+
+    const groupUpdates: { [key: string]: any } = { ...updates.group };
+    let groupChange: { from: GroupStatus; to: GroupStatus } | null = null;
+    let orderChange: { id: string; from: OrderStatus | null; to: OrderStatus } | null = null;
+
+    if (definition.group) {
+      groupChange = { from: target.group.status, to: definition.group.to };
+      groupUpdates.status = definition.group.to;
+    }
+
+    if (definition.deadline !== undefined) {
+      const kind = typeof definition.deadline === 'function'
+        ? definition.deadline(target.order!)
+        : definition.deadline;
+      groupUpdates.deadline = kind ? deadlineFor(kind) : null;
+    }
+
+    if (definition.order) {
+      const orderId = target.orderId!;
+      const orderRef = db.collection('orders').doc(orderId);
+      const from = definition.order.from === null ? null : target.order!.status as OrderStatus;
+      const to = typeof definition.order.to === 'function'
+        ? definition.order.to(target.order!)
+        : definition.order.to;
+      orderChange = { id: orderId, from, to };
+
+      const orderUpdates = {
+        ...updates.order,
+        status: to,
+        ...(definition.order.stamp && { [definition.order.stamp]: now }),
+      };
+      if (from === null) {
+        transaction.set(orderRef, { ...orderUpdates, createdAt: now });
+        groupUpdates.currentOrder = { id: orderId, status: to };
+      } else {
+        transaction.update(orderRef, orderUpdates);
+        groupUpdates['currentOrder.status'] = to;
+      }
+    }
+
+    transaction.update(groupRef, { ...groupUpdates, lastUpdated: now });
+    transaction.set(groupRef.collection('transitions').doc(), {
+      event,
+      actorId: target.actorId,
+      group: groupChange,
+      order: orderChange,
+      at: now,
+    });
+  }
+}
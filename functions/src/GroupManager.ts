@@ -0,0 +1,287 @@
+import { DocumentData, DocumentReference, FieldValue, Transaction as FirestoreTransaction } from 'firebase-admin/firestore';
+import { geohashForLocation } from 'geofire-common';
+import { db } from './config';
+import { CollateralManager } from './CollateralManager';
+import { PlatformId, isPlatformId } from './platforms';
+import { deadlineFor } from './deadlines';
+import { GroupVisibility } from './types';
+
+export const MAX_GROUP_MEMBERS = 10;
+
+const VISIBILITIES: GroupVisibility[] = ['public', 'invite_only', 'approval'];
+
+export interface GroupInput {
+  name: string;
+  description: string;
+  targetAmount: number;
+  platform: PlatformId;
+  visibility?: GroupVisibility;
+  location: {
+    latitude: number;
+    longitude: number;
+  };
+}
+
+export interface LeaveResult {
+  deleted: boolean;
+  newLeaderId?: string;
+}
+
+export class GroupError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'GroupError';
+  }
+}
+
+// Precision 10 (~1m cells); discovery queries by prefix
+const geohashFor = (location: { latitude: number; longitude: number }) =>
+  geohashForLocation([location.latitude, location.longitude], 10);
+
+// Groups created before visibility modes were added are public
+export const visibilityOf = (group: DocumentData): GroupVisibility => group.visibility || 'public';
+
+export const activeMembers = (members: Record<string, boolean> = {}) =>
+  Object.keys(members).filter(userId => members[userId]);
+
+// Groups created before `leaderId` was added are led by their creator
+export const leaderOf = (group: DocumentData): string => group.leaderId || group.createdBy;
+
+// Written here rather than by the app: a member who has just left can no
+// longer post to the group chat
+export const postSystemMessage = (
+  transaction: FirestoreTransaction,
+  groupId: string,
+  text: string,
+  extra: Record<string, unknown> = {}
+) => {
+  transaction.set(db.collection('groups').doc(groupId).collection('messages').doc(), {
+    _id: Date.now().toString(),
+    text,
+    ...extra,
+    createdAt: FieldValue.serverTimestamp(),
+    system: true,
+    user: {
+      _id: 'system',
+      name: 'System',
+    },
+  });
+};
+
+// Membership changes go through here so the collateral hold and the
+// member list always change together
+export class GroupManager {
+  static async createGroup(userId: string, input: GroupInput): Promise<string> {
+    if (!input.name?.trim()) {
+      throw new GroupError('Please enter a group name', 'INVALID_NAME');
+    }
+    if (typeof input.targetAmount !== 'number' || isNaN(input.targetAmount) || input.targetAmount <= 0) {
+      throw new GroupError('Please enter a valid target amount', 'INVALID_AMOUNT');
+    }
+    if (!isPlatformId(input.platform)) {
+      throw new GroupError('Please choose a delivery platform', 'INVALID_PLATFORM');
+    }
+    if (typeof input.location?.latitude !== 'number' || typeof input.location?.longitude !== 'number') {
+      throw new GroupError('Group location is required', 'INVALID_LOCATION');
+    }
+    if (input.visibility !== undefined && !VISIBILITIES.includes(input.visibility)) {
+      throw new GroupError('Please choose who can join the group', 'INVALID_VISIBILITY');
+    }
+
+    const groupRef = db.collection('groups').doc();
+    await db.runTransaction(async (transaction) => {
+      const collateral = await CollateralManager.load(transaction, groupRef.id, userId);
+      CollateralManager.place(transaction, collateral);
+
+      transaction.set(groupRef, {
+        name: input.name.trim(),
+        description: input.description?.trim() || '',
+        targetAmount: input.targetAmount,
+        platform: input.platform,
+        visibility: input.visibility || 'public',
+        createdBy: userId,
+        leaderId: userId,
+        createdAt: FieldValue.serverTimestamp(),
+        status: 'open',
+        memberCount: 1,
+        members: { [userId]: true },
+        location: {
+          latitude: input.location.latitude,
+          longitude: input.location.longitude,
+        },
+        geohash: geohashFor(input.location),
+        deadline: deadlineFor('gathering'),
+        lastUpdated: FieldValue.serverTimestamp(),
+      });
+    });
+
+    return groupRef.id;
+  }
+
+  // Members can move the meeting point, so the geohash follows the location
+  // whenever a group is written. Discovery also filters on visibility, which
+  // older groups don't have yet.
+  static async syncDiscovery(groupId: string, group: DocumentData | undefined): Promise<void> {
+    if (typeof group?.location?.latitude !== 'number' || typeof group?.location?.longitude !== 'number') {
+      return;
+    }
+
+    const updates: { [key: string]: any } = {};
+    const geohash = geohashFor(group.location);
+    if (group.geohash !== geohash) {
+      updates.geohash = geohash;
+    }
+    if (!group.visibility) {
+      updates.visibility = 'public';
+    }
+    if (Object.keys(updates).length > 0) {
+      await db.collection('groups').doc(groupId).update(updates);
+    }
+  }
+
+  static async joinGroup(userId: string, groupId: string, memberName?: string): Promise<void> {
+    await db.runTransaction(async (transaction) => {
+      const groupRef = db.collection('groups').doc(groupId);
+      const groupDoc = await transaction.get(groupRef);
+      if (!groupDoc.exists) {
+        throw new GroupError('Group not found', 'GROUP_NOT_FOUND');
+      }
+
+      const group = groupDoc.data()!;
+      // Private groups are joined with an invite or an approved request
+      // (GroupAccess)
+      if (visibilityOf(group) === 'invite_only') {
+        throw new GroupError('This group can only be joined with an invite', 'INVITE_REQUIRED');
+      }
+      if (visibilityOf(group) === 'approval') {
+        throw new GroupError('Ask the leader to let you in to this group', 'APPROVAL_REQUIRED');
+      }
+
+      await this.admit(transaction, groupRef, group, userId, memberName);
+    });
+  }
+
+  // Does its own reads, so callers must have finished theirs
+  static async admit(
+    transaction: FirestoreTransaction,
+    groupRef: DocumentReference,
+    group: DocumentData,
+    userId: string,
+    memberName?: string
+  ): Promise<void> {
+    if (group.status !== 'open') {
+      throw new GroupError('This group is no longer accepting new members', 'GROUP_CLOSED');
+    }
+    if (group.members?.[userId]) {
+      throw new GroupError('You are already a member of this group', 'ALREADY_MEMBER');
+    }
+    if (activeMembers(group.members).length >= MAX_GROUP_MEMBERS) {
+      throw new GroupError('This group is already full', 'GROUP_FULL');
+    }
+
+    const collateral = await CollateralManager.load(transaction, groupRef.id, userId);
+    CollateralManager.place(transaction, collateral);
+
+    transaction.update(groupRef, {
+      [`members.${userId}`]: true,
+      memberCount: FieldValue.increment(1),
+      lastUpdated: FieldValue.serverTimestamp(),
+    });
+    // A request left pending is settled by joining another way
+    transaction.delete(groupRef.collection('join_requests').doc(userId));
+    postSystemMessage(transaction, groupRef.id, `${memberName || 'A new member'} has joined the group.`);
+  }
+
+  // A leader leaving hands the group to the next member, or deletes it if
+  // nobody is left
+  static async leaveGroup(userId: string, groupId: string, memberName?: string): Promise<LeaveResult> {
+    return db.runTransaction(async (transaction) => {
+      const groupRef = db.collection('groups').doc(groupId);
+      const groupDoc = await transaction.get(groupRef);
+      if (!groupDoc.exists) {
+        throw new GroupError('Group not found', 'GROUP_NOT_FOUND');
+      }
+
+      const group = groupDoc.data()!;
+      if (!group.members?.[userId]) {
+        throw new GroupError('You are not a member of this group', 'NOT_MEMBER');
+      }
+
+      // Once the order starts, the leader has paid the platform and every
+      // member's split has to settle, with their collateral backing the
+      // no-show penalty
+      if (group.status !== 'open') {
+        throw new GroupError('Members can\'t leave once the order has started', 'ORDER_STARTED');
+      }
+      const isLeader = leaderOf(group) === userId;
+
+      const collateral = await CollateralManager.load(transaction, groupId, userId);
+      CollateralManager.release(transaction, collateral);
+
+      // Their cart no longer counts towards the target
+      transaction.delete(groupRef.collection('carts').doc(userId));
+
+      const remainingMembers = activeMembers(group.members).filter(memberId => memberId !== userId);
+      if (isLeader && remainingMembers.length === 0) {
+        transaction.delete(groupRef);
+        return { deleted: true };
+      }
+
+      const updates: { [key: string]: any } = {
+        [`members.${userId}`]: false,
+        memberCount: remainingMembers.length,
+        lastUpdated: FieldValue.serverTimestamp(),
+      };
+      if (isLeader) {
+        updates.leaderId = remainingMembers[0];
+      }
+      transaction.update(groupRef, updates);
+      postSystemMessage(transaction, groupId, isLeader
+        ? 'Group leadership has been transferred to a new member as the previous leader left.'
+        : `${memberName || 'A member'} has left the group.`);
+
+      return {
+        deleted: false,
+        ...(isLeader && { newLeaderId: remainingMembers[0] }),
+      };
+    });
+  }
+
+  static async handOffLeadership(userId: string, groupId: string, newLeaderId: string): Promise<void> {
+    await db.runTransaction(async (transaction) => {
+      const groupRef = db.collection('groups').doc(groupId);
+      const groupDoc = await transaction.get(groupRef);
+      if (!groupDoc.exists) {
+        throw new GroupError('Group not found', 'GROUP_NOT_FOUND');
+      }
+
+      const group = groupDoc.data()!;
+      if (leaderOf(group) !== userId) {
+        throw new GroupError('Only the group leader can hand off leadership', 'NOT_LEADER');
+      }
+      this.validateNewLeader(group, newLeaderId);
+
+      const newLeaderDoc = await transaction.get(db.collection('users').doc(newLeaderId));
+      transaction.update(groupRef, {
+        leaderId: newLeaderId,
+        lastUpdated: FieldValue.serverTimestamp(),
+      });
+      postSystemMessage(transaction, groupId,
+        `${newLeaderDoc.data()?.name || 'Another member'} is now the group leader.`);
+    });
+  }
+
+  // Leadership only moves while the group is open, for the same reason the
+  // leader can't leave later
+  static validateNewLeader(group: DocumentData, newLeaderId: string) {
+    if (group.status !== 'open') {
+      throw new GroupError('Leadership can\'t change once the order has started', 'GROUP_CLOSED');
+    }
+    if (!group.members?.[newLeaderId]) {
+      throw new GroupError('The new leader must be a member of the group', 'NOT_MEMBER');
+    }
+    if (leaderOf(group) === newLeaderId) {
+      throw new GroupError('They are already the group leader', 'ALREADY_LEADER');
+    }
+  }
+}
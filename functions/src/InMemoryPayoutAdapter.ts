@@ -0,0 +1,75 @@
+import {
+  PayoutAdapter,
+  DestinationInput,
+  RegisteredDestination,
+  DestinationVerification,
+  PayoutRequest,
+  ProviderPayout,
+  PayoutError,
+} from './PayoutAdapter';
+
+// Stand-in payout provider for the emulator. Destinations always verify and
+// payouts stay `processing` until `settle` is called, unless `autoSettle`
+// is on, in which case the next status check reports them as paid. State
+// lives in the function instance, so it is lost when the emulator restarts.
+export class InMemoryPayoutAdapter implements PayoutAdapter {
+  readonly name = 'in_memory';
+
+  private destinations = new Map<string, DestinationInput>();
+  private payouts = new Map<string, ProviderPayout>();
+  private sequence = 0;
+
+  constructor(private autoSettle: boolean = true) {}
+
+  private nextId(prefix: string) {
+    this.sequence += 1;
+    return `${prefix}_${this.sequence.toString().padStart(6, '0')}`;
+  }
+
+  async registerDestination(input: DestinationInput): Promise<RegisteredDestination> {
+    const fundAccountId = this.nextId('fa');
+    this.destinations.set(fundAccountId, input);
+    return { fundAccountId };
+  }
+
+  async verifyDestination(fundAccountId: string): Promise<DestinationVerification> {
+    if (!this.destinations.has(fundAccountId)) {
+      return { verified: false, failureReason: 'Unknown destination' };
+    }
+    return { verified: true, accountHolderName: 'Test Account Holder' };
+  }
+
+  async createPayout(request: PayoutRequest): Promise<ProviderPayout> {
+    if (!this.destinations.has(request.fundAccountId)) {
+      throw new PayoutError('Unknown destination', 'DESTINATION_NOT_FOUND');
+    }
+
+    const payout: ProviderPayout = {
+      providerPayoutId: this.nextId('pout'),
+      status: 'processing',
+    };
+    this.payouts.set(payout.providerPayoutId, payout);
+    return payout;
+  }
+
+  async fetchPayout(providerPayoutId: string): Promise<ProviderPayout> {
+    const payout = this.payouts.get(providerPayoutId);
+    if (!payout) {
+      throw new PayoutError('Payout not found', 'PAYOUT_NOT_FOUND');
+    }
+
+    if (this.autoSettle && payout.status === 'processing') {
+      this.settle(providerPayoutId, 'paid');
+    }
+    return this.payouts.get(providerPayoutId)!;
+  }
+
+  // Simulates the provider settling (or failing/reversing) a payout
+  settle(providerPayoutId: string, status: ProviderPayout['status'], failureReason?: string) {
+    const payout = this.payouts.get(providerPayoutId);
+    if (!payout) {
+      throw new PayoutError('Payout not found', 'PAYOUT_NOT_FOUND');
+    }
+    this.payouts.set(providerPayoutId, { ...payout, status, failureReason });
+  }
+}
@@ -0,0 +1,147 @@
+import { DocumentData, FieldValue, Timestamp, Transaction as FirestoreTransaction } from 'firebase-admin/firestore';
+import { db } from './config';
+import { GroupManager, activeMembers, leaderOf, postSystemMessage } from './GroupManager';
+import { LeaderPollStatus } from './types';
+
+const POLL_HOURS = 24;
+
+export class ElectionError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'ElectionError';
+  }
+}
+
+const isRunning = (poll: DocumentData | undefined) =>
+  poll?.status === 'open' && poll.closesAt.toMillis() > Date.now();
+
+// A candidate wins once more than half of the current members vote for
+// them; votes from members who left no longer count
+const winnerOf = (votes: Record<string, string>, members: string[]): string | null => {
+  const counts: Record<string, number> = {};
+  members.forEach(memberId => {
+    const candidateId = votes[memberId];
+    if (candidateId && members.includes(candidateId)) {
+      counts[candidateId] = (counts[candidateId] || 0) + 1;
+    }
+  });
+  const majority = Math.floor(members.length / 2) + 1;
+  return Object.keys(counts).find(candidateId => counts[candidateId] >= majority) || null;
+};
+
+// One poll runs per group at a time (`leaderPollId`). It is posted to the
+// group chat when the first member is nominated.
+export class LeaderElection {
+  private static async loadMemberGroup(transaction: FirestoreTransaction, groupId: string, userId: string) {
+    const groupDoc = await transaction.get(db.collection('groups').doc(groupId));
+    if (!groupDoc.exists) {
+      throw new ElectionError('Group not found', 'GROUP_NOT_FOUND');
+    }
+
+    const group = groupDoc.data()!;
+    if (!group.members?.[userId]) {
+      throw new ElectionError('Only group members can take part in leader polls', 'NOT_MEMBER');
+    }
+    return group;
+  }
+
+  static async nominate(userId: string, groupId: string, candidateId: string, memberName?: string): Promise<string> {
+    return db.runTransaction(async (transaction) => {
+      const groupRef = db.collection('groups').doc(groupId);
+      const group = await this.loadMemberGroup(transaction, groupId, userId);
+      GroupManager.validateNewLeader(group, candidateId);
+
+      const pollsRef = groupRef.collection('leader_polls');
+      const currentDoc = group.leaderPollId ? await transaction.get(pollsRef.doc(group.leaderPollId)) : null;
+      const current = currentDoc?.data();
+
+      if (currentDoc && isRunning(current)) {
+        if (current!.candidates.includes(candidateId)) {
+          throw new ElectionError('They have already been nominated', 'ALREADY_NOMINATED');
+        }
+        transaction.update(currentDoc.ref, { candidates: FieldValue.arrayUnion(candidateId) });
+        return currentDoc.id;
+      }
+
+      const candidateDoc = await transaction.get(db.collection('users').doc(candidateId));
+      if (currentDoc && current?.status === 'open') {
+        transaction.update(currentDoc.ref, { status: 'expired' });
+      }
+
+      const pollRef = pollsRef.doc();
+      transaction.set(pollRef, {
+        startedBy: userId,
+        candidates: [leaderOf(group), candidateId],
+        votes: {},
+        status: 'open',
+        createdAt: FieldValue.serverTimestamp(),
+        closesAt: Timestamp.fromMillis(Date.now() + POLL_HOURS * 60 * 60 * 1000),
+      });
+      transaction.update(groupRef, { leaderPollId: pollRef.id });
+      postSystemMessage(
+        transaction,
+        groupId,
+        `${memberName || 'A member'} nominated ${candidateDoc.data()?.name || 'a member'} for group leader. Vote in the poll.`,
+        { pollId: pollRef.id }
+      );
+
+      return pollRef.id;
+    });
+  }
+
+  // Returns the poll's status after the vote
+  static async vote(userId: string, groupId: string, pollId: string, candidateId: string): Promise<LeaderPollStatus> {
+    return db.runTransaction(async (transaction) => {
+      const groupRef = db.collection('groups').doc(groupId);
+      const group = await this.loadMemberGroup(transaction, groupId, userId);
+
+      const pollRef = groupRef.collection('leader_polls').doc(pollId);
+      const pollDoc = await transaction.get(pollRef);
+      if (!pollDoc.exists) {
+        throw new ElectionError('Poll not found', 'POLL_NOT_FOUND');
+      }
+
+      const poll = pollDoc.data()!;
+      if (poll.status !== 'open') {
+        throw new ElectionError('This poll has closed', 'POLL_CLOSED');
+      }
+      // Leadership is fixed once the order starts
+      if (!isRunning(poll) || group.status !== 'open') {
+        transaction.update(pollRef, { status: 'expired' });
+        transaction.update(groupRef, { leaderPollId: FieldValue.delete() });
+        return 'expired';
+      }
+
+      const members = activeMembers(group.members);
+      if (!poll.candidates.includes(candidateId) || !members.includes(candidateId)) {
+        throw new ElectionError('They are not standing in this poll', 'INVALID_CANDIDATE');
+      }
+
+      const votes = { ...poll.votes, [userId]: candidateId };
+      const winnerId = winnerOf(votes, members);
+      if (!winnerId) {
+        transaction.update(pollRef, { [`votes.${userId}`]: candidateId });
+        return 'open';
+      }
+
+      const winnerDoc = await transaction.get(db.collection('users').doc(winnerId));
+      const winnerName = winnerDoc.data()?.name || 'A member';
+      transaction.update(pollRef, {
+        [`votes.${userId}`]: candidateId,
+        status: 'elected',
+        winnerId,
+        closedAt: FieldValue.serverTimestamp(),
+      });
+      transaction.update(groupRef, {
+        leaderPollId: FieldValue.delete(),
+        ...(winnerId !== leaderOf(group) && { leaderId: winnerId }),
+        lastUpdated: FieldValue.serverTimestamp(),
+      });
+      postSystemMessage(transaction, groupId, winnerId === leaderOf(group)
+        ? `${winnerName} stays the group leader.`
+        : `${winnerName} was elected group leader.`);
+
+      return 'elected';
+    });
+  }
+}
@@ -0,0 +1,205 @@
+import { FieldValue, Transaction } from 'firebase-admin/firestore';
+import { db } from './config';
+import { Money } from './shared/Money';
+
+// Every rupee lives in exactly one account. Money entering or leaving
+// GatherPay passes through the external account, so the balances of all
+// accounts always sum to zero.
+export const LedgerAccounts = {
+  userWallet: (userId: string) => `user:${userId}`,
+  groupEscrow: (groupId: string) => `escrow:${groupId}`,
+  PLATFORM_FEES: 'platform:fees',
+  REWARDS: 'platform:rewards',
+  PENDING_PAYOUTS: 'platform:pending_payouts',
+  EXTERNAL: 'external:bank',
+} as const;
+
+export interface JournalLine {
+  accountId: string;
+  amount: number; // Positive increases the account balance, negative decreases it
+}
+
+export interface JournalEntryInput {
+  description: string;
+  lines: JournalLine[];
+  groupId?: string;
+  orderId?: string;
+  userId?: string;
+}
+
+export interface PostOptions {
+  // Lets the entry spend collateral held on a wallet (e.g. no-show penalties)
+  allowHeld?: boolean;
+}
+
+export interface ReconciliationResult {
+  accountId: string;
+  storedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  balanced: boolean;
+}
+
+export class LedgerError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+const USER_PREFIX = 'user:';
+
+const isUserAccount = (accountId: string) => accountId.startsWith(USER_PREFIX);
+
+const accountRef = (accountId: string) => isUserAccount(accountId)
+  ? db.collection('users').doc(accountId.slice(USER_PREFIX.length))
+  : db.collection('ledger_accounts').doc(accountId);
+
+const readBalance = (accountId: string, data: any): number => {
+  if (!data) return 0;
+  return isUserAccount(accountId) ? data.wallet?.balance || 0 : data.balance || 0;
+};
+
+const readHeld = (accountId: string, data: any): number => {
+  return isUserAccount(accountId) ? data?.wallet?.held || 0 : 0;
+};
+
+// Posts balanced journal entries inside a Firestore transaction. Balances are
+// read once, kept in memory while entries are posted, and written back
+// together with the entries on commit.
+export class LedgerTransaction {
+  private balances = new Map<string, number>();
+  private held = new Map<string, number>();
+  private touched = new Set<string>();
+  private entries: { id: string; input: JournalEntryInput }[] = [];
+
+  constructor(private transaction: Transaction) {}
+
+  async load(accountIds: string[]) {
+    const pending = Array.from(new Set(accountIds)).filter(id => !this.balances.has(id));
+    const snapshots = await Promise.all(pending.map(id => this.transaction.get(accountRef(id))));
+
+    snapshots.forEach((snapshot, index) => {
+      const accountId = pending[index];
+      if (isUserAccount(accountId) && !snapshot.exists) {
+        throw new LedgerError(`Wallet not found for ${accountId}`, 'ACCOUNT_NOT_FOUND');
+      }
+      this.balances.set(accountId, readBalance(accountId, snapshot.data()));
+      this.held.set(accountId, readHeld(accountId, snapshot.data()));
+    });
+  }
+
+  balanceOf(accountId: string): number {
+    const balance = this.balances.get(accountId);
+    if (balance === undefined) {
+      throw new LedgerError(`Account ${accountId} was not loaded`, 'ACCOUNT_NOT_LOADED');
+    }
+    return balance;
+  }
+
+  // Balance minus collateral held on the wallet
+  availableOf(accountId: string): number {
+    return Money.of(this.balanceOf(accountId))
+      .subtract(Money.of(this.held.get(accountId) || 0))
+      .max(Money.ZERO)
+      .toRupees();
+  }
+
+  post(input: JournalEntryInput, entryId?: string, options: PostOptions = {}): string {
+    if (input.lines.length < 2) {
+      throw new LedgerError('A journal entry needs at least two lines', 'INVALID_ENTRY');
+    }
+
+    // A line in fractions of a paisa would be rounded away on posting
+    if (input.lines.some(line => !Money.isExact(line.amount))) {
+      throw new LedgerError('Journal lines must be in whole paise', 'INVALID_AMOUNT');
+    }
+    if (!Money.sum(input.lines.map(line => Money.of(line.amount))).isZero()) {
+      throw new LedgerError('Journal entry does not balance', 'UNBALANCED_ENTRY');
+    }
+
+    const next = new Map<string, number>();
+    input.lines.forEach(line => {
+      const current = next.get(line.accountId) ?? this.balanceOf(line.accountId);
+      next.set(line.accountId, Money.of(current).add(Money.of(line.amount)).toRupees());
+    });
+
+    next.forEach((balance, accountId) => {
+      // Only GatherPay's own accounts may run negative (e.g. external)
+      if (isUserAccount(accountId) && balance < 0) {
+        throw new LedgerError('Insufficient balance', 'INSUFFICIENT_BALANCE');
+      }
+
+      // Wallets can't spend into their held collateral unless allowed
+      const spent = balance < this.balanceOf(accountId);
+      if (isUserAccount(accountId) && spent && !options.allowHeld &&
+          Money.of(balance).lessThan(Money.of(this.held.get(accountId) || 0))) {
+        throw new LedgerError('Insufficient available balance', 'INSUFFICIENT_BALANCE');
+      }
+    });
+
+    next.forEach((balance, accountId) => {
+      this.balances.set(accountId, balance);
+      this.touched.add(accountId);
+    });
+
+    const id = entryId || db.collection('ledger_entries').doc().id;
+    this.entries.push({ id, input });
+    return id;
+  }
+
+  commit() {
+    this.touched.forEach(accountId => {
+      const balance = this.balances.get(accountId)!;
+      if (isUserAccount(accountId)) {
+        this.transaction.update(accountRef(accountId), { 'wallet.balance': balance });
+      } else {
+        this.transaction.set(accountRef(accountId), {
+          balance,
+          updatedAt: FieldValue.serverTimestamp(),
+        }, { merge: true });
+      }
+    });
+
+    this.entries.forEach(({ id, input }) => {
+      const { lines, ...details } = input;
+      this.transaction.set(db.collection('ledger_entries').doc(id), {
+        ...Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined)),
+        lines,
+        accounts: Array.from(new Set(lines.map(line => line.accountId))),
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    });
+
+    this.touched.clear();
+    this.entries = [];
+  }
+}
+
+export class Ledger {
+  // Recomputes an account's balance from its journal entries and compares it
+  // with the balance stored on the account
+  static async reconcile(accountId: string): Promise<ReconciliationResult> {
+    const [accountDoc, entries] = await Promise.all([
+      accountRef(accountId).get(),
+      db.collection('ledger_entries').where('accounts', 'array-contains', accountId).get(),
+    ]);
+
+    const ledgerBalance = Money.sum(entries.docs.flatMap(entry =>
+      ((entry.data().lines || []) as JournalLine[])
+        .filter(line => line.accountId === accountId)
+        .map(line => Money.of(line.amount))
+    ));
+
+    const storedBalance = readBalance(accountId, accountDoc.data());
+    const difference = Money.of(storedBalance).subtract(ledgerBalance).toRupees();
+
+    return {
+      accountId,
+      storedBalance,
+      ledgerBalance: ledgerBalance.toRupees(),
+      difference,
+      balanced: difference === 0,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  PaymentGateway,
+  GatewayOrder,
+  CheckoutResult,
+  PaymentConfirmation,
+  PaymentGatewayError,
+} from './PaymentGateway';
+
+const MOCK_SECRET = 'gatherpay_mock_secret';
+
+// FNV-1a, enough to make mock signatures deterministic and tamper-evident
+const hash = (value: string) => {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193) >>> 0;
+  }
+  return result.toString(16).padStart(8, '0');
+};
+
+const sign = (orderId: string, paymentId: string) => `mock_sig_${hash(`${orderId}|${paymentId}|${MOCK_SECRET}`)}`;
+
+// Offline stand-in for Razorpay, used by the emulator. Order ids come from
+// the receipt and signatures use the same scheme as the app's mock
+// checkout, so the same top-up always produces the same payment.
+export class MockPaymentGateway implements PaymentGateway {
+  readonly name = 'mock' as const;
+
+  async createOrder(amount: number, receipt: string): Promise<GatewayOrder> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new PaymentGatewayError('Invalid amount', 'INVALID_AMOUNT');
+    }
+
+    return {
+      id: `mock_order_${hash(receipt)}`,
+      amount,
+      currency: 'INR',
+      receipt,
+      gateway: this.name,
+    };
+  }
+
+  async verifySignature(result: CheckoutResult): Promise<boolean> {
+    return result.signature === sign(result.orderId, result.paymentId);
+  }
+
+  async fetchConfirmation(order: GatewayOrder, result: CheckoutResult): Promise<PaymentConfirmation> {
+    return {
+      event: 'payment.captured',
+      orderId: order.id,
+      paymentId: result.paymentId,
+      amount: order.amount,
+    };
+  }
+}
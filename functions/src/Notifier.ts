@@ -0,0 +1,48 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions/v2';
+import { db } from './config';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+export interface NotificationInput {
+  type: string;
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+// Notifications are kept in Firestore for the in-app list and pushed
+// through Expo when the user has registered a device
+export class Notifier {
+  static async notify(userId: string, notification: NotificationInput): Promise<void> {
+    await db.collection('notifications').add({
+      userId,
+      ...notification,
+      read: false,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    const userDoc = await db.collection('users').doc(userId).get();
+    const pushToken = userDoc.data()?.pushToken;
+    if (!pushToken) return;
+
+    // A failed push still leaves the in-app notification
+    try {
+      const response = await fetch(EXPO_PUSH_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          to: pushToken,
+          title: notification.title,
+          body: notification.body,
+          data: { type: notification.type, ...notification.data },
+        }),
+      });
+      if (!response.ok) {
+        logger.warn('Expo push was rejected', { userId, status: response.status });
+      }
+    } catch (error) {
+      logger.warn('Failed to send push notification', { userId, error });
+    }
+  }
+}
@@ -0,0 +1,996 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from './config';
+import {
+  CartEntry,
+  DeadlineKind,
+  OrderFraudReview,
+  OrderItem,
+  OrderSplit,
+  ParsedReceipt,
+  SplitCharges,
+  SplitOptions,
+} from './types';
+import { LedgerTransaction, LedgerAccounts, LedgerError } from './Ledger';
+import { EscrowManager, EscrowError } from './EscrowManager';
+import { CollateralManager, CollateralError } from './CollateralManager';
+import { RewardEngine, RewardError } from './RewardEngine';
+import { GroupLifecycle, LifecycleError } from './GroupLifecycle';
+import { leaderOf } from './GroupManager';
+import { deadlineFor } from './deadlines';
+import { Notifier } from './Notifier';
+import { itemMRPOf } from './cartLines';
+import { SplitStrategies, SplitError } from './shared/SplitStrategies';
+import { Money } from './shared/Money';
+import { ScreenshotVerifier } from './shared/ScreenshotVerifier';
+import { ScreenshotFingerprint, FingerprintError } from './ScreenshotFingerprint';
+
+const LEADER_REWARD_PERCENTAGE = 5; // 5% of order amount as reward coins
+const NO_SHOW_PENALTY_MINUTES = 10;
+const NO_SHOW_PENALTY_PERCENTAGE = 20; // 20% penalty for no-shows
+const MAX_RETRIES = 3;
+
+export type DisputeType = 'payment' | 'delivery' | 'quality' | 'other';
+
+export interface DisputeInput {
+  type: DisputeType;
+  description: string;
+  evidence: string | null;
+}
+
+const DISPUTE_TYPES: DisputeType[] = ['payment', 'delivery', 'quality', 'other'];
+
+export interface ExpiredDeadline {
+  kind: DeadlineKind;
+  groupName: string;
+  memberIds: string[];
+}
+
+export class OrderProcessingError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'OrderProcessingError';
+  }
+}
+
+export class OrderProcessor {
+  private static async validateOrder(orderId: string, transaction: any) {
+    const orderRef = db.collection('orders').doc(orderId);
+    const orderDoc = await transaction.get(orderRef);
+    
+    if (!orderDoc.exists) {
+      throw new OrderProcessingError('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    const orderData = orderDoc.data();
+    if (orderData.status === 'completed') {
+      throw new OrderProcessingError('Order already completed', 'ORDER_COMPLETED');
+    }
+
+    if (orderData.status === 'cancelled') {
+      throw new OrderProcessingError('Order was cancelled', 'ORDER_CANCELLED');
+    }
+
+    return orderData;
+  }
+
+  private static async loadGroup(groupId: string, transaction: any) {
+    const groupDoc = await transaction.get(db.collection('groups').doc(groupId));
+    if (!groupDoc.exists) {
+      throw new OrderProcessingError('Group not found', 'GROUP_NOT_FOUND');
+    }
+    return groupDoc.data();
+  }
+
+  private static async validateLeader(groupId: string, leaderId: string, transaction: any) {
+    const groupData = await this.loadGroup(groupId, transaction);
+    if (leaderOf(groupData) !== leaderId) {
+      throw new OrderProcessingError('Only the group leader can do this', 'NOT_LEADER');
+    }
+
+    return groupData;
+  }
+
+  // Money stays put while support staff look into a reused screenshot;
+  // refunds and cancelling still go ahead
+  private static checkNotUnderReview(orderData: any) {
+    if (orderData.fraudReview?.status === 'open') {
+      throw new OrderProcessingError(
+        'This order\'s screenshot is being reviewed, so nothing can be settled yet',
+        'UNDER_FRAUD_REVIEW'
+      );
+    }
+  }
+
+  // A cancelled order ends the group, so its members' collateral is freed
+  private static async loadGroupCollateral(groupId: string, transaction: any) {
+    const groupDoc = await transaction.get(db.collection('groups').doc(groupId));
+    if (!groupDoc.exists) {
+      return [];
+    }
+
+    const members = groupDoc.data().members || {};
+    return Promise.all(
+      Object.keys(members)
+        .filter(userId => members[userId])
+        .map(userId => CollateralManager.load(transaction, groupId, userId))
+    );
+  }
+
+  static async startOrder(groupId: string, leaderId: string): Promise<string> {
+    try {
+      return await db.runTransaction(async (transaction) => {
+        const groupData = await this.validateLeader(groupId, leaderId, transaction);
+        const groupRef = db.collection('groups').doc(groupId);
+
+        // Members' carts become the order's items
+        const memberIds = Object.keys(groupData.members).filter(memberId => groupData.members[memberId]);
+        const carts = await Promise.all(memberIds.map(memberId =>
+          transaction.get(groupRef.collection('carts').doc(memberId))
+        ));
+        const items: Record<string, OrderItem> = {};
+        carts.forEach((cartDoc: any) => {
+          if (!cartDoc.exists) return;
+          const cart = cartDoc.data() as CartEntry;
+          items[cart.userId] = {
+            userId: cart.userId,
+            items: cart.items,
+            ...(cart.lines && { lines: cart.lines }),
+            itemMRP: itemMRPOf(cart),
+            received: false,
+            // Leadership may have moved to a member who planned to use coins
+            ...(cart.coinsToApply && cart.userId !== leaderId && { coinsToApply: cart.coinsToApply }),
+          };
+        });
+
+        const orderId = db.collection('orders').doc().id;
+        GroupLifecycle.fire(transaction, 'start_order', { groupId, group: groupData, orderId, actorId: leaderId }, {
+          order: {
+            groupId,
+            leaderId,
+            totalAmount: 0,
+            totalTax: 0,
+            totalDiscount: 0,
+            items,
+            splits: {},
+            screenshot: null,
+          },
+        });
+
+        return orderId;
+      });
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      if (error instanceof LifecycleError) {
+        throw new OrderProcessingError(error.message, error.code);
+      }
+      throw new OrderProcessingError('Failed to start order', 'PROCESSING_ERROR');
+    }
+  }
+
+  // The strategy decides who carries the tax, fees and discount
+  // (SplitStrategies); coins then come off each member's share
+  static async calculateSplit(
+    items: Pick<OrderItem, 'userId' | 'itemMRP' | 'lines' | 'coinsToApply'>[],
+    charges: SplitCharges,
+    options: SplitOptions = { strategy: 'proportional' }
+  ): Promise<OrderSplit[]> {
+    try {
+      // Input validation
+      if (!Array.isArray(items) || items.length === 0) {
+        throw new OrderProcessingError('Invalid items array', 'INVALID_ITEMS');
+      }
+      if (typeof charges.tax !== 'number' || charges.tax < 0) {
+        throw new OrderProcessingError('Invalid tax amount', 'INVALID_TAX');
+      }
+      if (typeof charges.fees !== 'number' || charges.fees < 0) {
+        throw new OrderProcessingError('Invalid fee amount', 'INVALID_FEES');
+      }
+      if (typeof charges.discount !== 'number' || charges.discount < 0) {
+        throw new OrderProcessingError('Invalid discount amount', 'INVALID_DISCOUNT');
+      }
+
+      const shares = SplitStrategies.calculate(items, charges, options);
+      return shares.map((share, index) => {
+        const item = items[index];
+
+        // Coins cover part of the share; the rest is paid in cash
+        const { coinsApplied, coinDiscount } = RewardEngine.offsetFor(share.shareAmount, item.coinsToApply || 0);
+        const finalAmount = Money.of(share.shareAmount).subtract(Money.of(coinDiscount)).toRupees();
+
+        return {
+          userId: item.userId,
+          originalAmount: item.itemMRP,
+          taxShare: share.taxShare,
+          feeShare: share.feeShare,
+          discountShare: share.discountShare,
+          ...(share.adjustment !== 0 && { adjustment: share.adjustment }),
+          finalAmount,
+          ...(coinsApplied > 0 && { coinsApplied, coinDiscount }),
+          approved: false
+        };
+      });
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      if (error instanceof SplitError) {
+        throw new OrderProcessingError(error.message, error.code);
+      }
+      throw new OrderProcessingError('Failed to calculate split', 'CALCULATION_ERROR');
+    }
+  }
+
+  static async submitSplit(
+    orderId: string,
+    leaderId: string,
+    charges: SplitCharges,
+    options: SplitOptions,
+    screenshot: string,
+    screenshotPath: string,
+    receipt: ParsedReceipt | null = null
+  ): Promise<OrderSplit[]> {
+    let result: { splits: OrderSplit[]; flagged: { groupId: string; groupName: string; memberIds: string[] } | null };
+    try {
+      // Hashed before the transaction so the download doesn't hold it open
+      const fingerprint = await ScreenshotFingerprint.of(screenshotPath);
+
+      result = await db.runTransaction(async (transaction) => {
+        const orderData = await this.validateOrder(orderId, transaction);
+        const groupData = await this.validateLeader(orderData.groupId, leaderId, transaction);
+        const target = { groupId: orderData.groupId, group: groupData, orderId, order: orderData, actorId: leaderId };
+
+        if (orderData.status !== 'pending') {
+          throw new OrderProcessingError('Split has already been calculated', 'INVALID_ORDER_STATUS');
+        }
+        if (!screenshot) {
+          throw new OrderProcessingError('Please upload the order screenshot first', 'MISSING_SCREENSHOT');
+        }
+        if (ScreenshotFingerprint.groupOf(screenshotPath) !== orderData.groupId) {
+          throw new OrderProcessingError('Screenshot was uploaded for another group', 'INVALID_SCREENSHOT_PATH');
+        }
+        GroupLifecycle.check('submit_split', target);
+
+        const matches = await ScreenshotFingerprint.findMatches(transaction, fingerprint, orderId);
+
+        const items = (Object.values(orderData.items || {}) as OrderItem[])
+          .map(item => ({ ...item, itemMRP: itemMRPOf(item) }));
+        const splits = await this.calculateSplit(items, charges, options);
+        const totalAmount = Money.sum(splits
+          .map(split => Money.of(split.finalAmount).add(Money.of(split.coinDiscount || 0))))
+          .toRupees();
+
+        const updates: { [key: string]: any } = {
+          splits: Object.fromEntries(splits.map(split => [split.userId, split])),
+          totalTax: charges.tax,
+          totalFees: charges.fees,
+          totalDiscount: charges.discount,
+          splitOptions: options,
+          totalAmount,
+          screenshot,
+          screenshotPath,
+          // Members see any mismatch before they approve their split
+          screenshotCheck: ScreenshotVerifier.check(receipt, items, charges),
+        };
+        splits.forEach(split => {
+          updates[`items.${split.userId}.itemMRP`] = split.originalAmount;
+          updates[`items.${split.userId}.finalAmount`] = split.finalAmount;
+        });
+
+        // A screenshot from an earlier order goes to the fraud review queue;
+        // members are told through the order and settlement waits for staff
+        if (matches.length > 0) {
+          transaction.set(db.collection('fraud_reviews').doc(orderId), {
+            orderId,
+            groupId: orderData.groupId,
+            leaderId,
+            reason: 'screenshot_reuse',
+            screenshot,
+            screenshotPath,
+            matches,
+            status: 'open',
+            createdAt: FieldValue.serverTimestamp(),
+            updatedAt: FieldValue.serverTimestamp(),
+          });
+          const fraudReview: OrderFraudReview = {
+            status: 'open',
+            reason: 'screenshot_reuse',
+            matchedOrders: matches.length,
+          };
+          updates.fraudReview = fraudReview;
+        }
+        ScreenshotFingerprint.record(transaction, fingerprint, {
+          orderId,
+          groupId: orderData.groupId,
+          leaderId,
+          path: screenshotPath,
+        });
+
+        GroupLifecycle.fire(transaction, 'submit_split', target, { order: updates });
+
+        const members = groupData.members || {};
+        return {
+          splits,
+          flagged: matches.length > 0
+            ? {
+              groupId: orderData.groupId as string,
+              groupName: groupData.name as string,
+              memberIds: Object.keys(members).filter(userId => members[userId] && userId !== leaderId),
+            }
+            : null,
+        };
+      });
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      if (error instanceof LifecycleError || error instanceof FingerprintError) {
+        throw new OrderProcessingError(error.message, error.code);
+      }
+      throw new OrderProcessingError('Failed to submit split', 'PROCESSING_ERROR');
+    }
+
+    const { flagged } = result;
+    if (flagged) {
+      await Promise.all(flagged.memberIds.map(userId => Notifier.notify(userId, {
+        type: 'screenshot_reused',
+        title: 'Order screenshot flagged',
+        body: `The screenshot for ${flagged.groupName} looks like one from an earlier order. ` +
+          'Support staff are checking it, and nothing is paid out until they do.',
+        data: { groupId: flagged.groupId },
+      })));
+    }
+    return result.splits;
+  }
+
+  static async approveSplit(orderId: string, userId: string): Promise<boolean> {
+    try {
+      return await db.runTransaction(async (transaction) => {
+        const orderData = await this.validateOrder(orderId, transaction);
+        if (orderData.status !== 'splitting') {
+          throw new OrderProcessingError('Order is not awaiting split approval', 'INVALID_ORDER_STATUS');
+        }
+        const groupData = await this.loadGroup(orderData.groupId, transaction);
+
+        const split = orderData.splits?.[userId];
+        if (!split) {
+          throw new OrderProcessingError('Split not found', 'SPLIT_NOT_FOUND');
+        }
+        if (split.approved) {
+          throw new OrderProcessingError('Split already approved', 'ALREADY_APPROVED');
+        }
+
+        // Move to delivery once the last member approves
+        const splits = Object.values(orderData.splits as Record<string, OrderSplit>);
+        const allApproved = splits.every(other => other.userId === userId || other.approved);
+
+        const ledger = new LedgerTransaction(transaction);
+        await ledger.load(allApproved
+          ? EscrowManager.accounts(orderData.groupId, orderData.leaderId, splits.map(other => other.userId))
+          : [LedgerAccounts.userWallet(userId)]);
+
+        const coinStates = allApproved
+          ? await Promise.all(splits
+              .filter(other => (other.coinsApplied || 0) > 0)
+              .map(other => RewardEngine.loadSpend(transaction, other.userId)))
+          : [];
+
+        // Catch a short wallet at approval time rather than when the last
+        // member approves and the funds are locked
+        if (userId !== orderData.leaderId && ledger.availableOf(LedgerAccounts.userWallet(userId)) < split.finalAmount) {
+          throw new OrderProcessingError('Insufficient balance to cover your share', 'INSUFFICIENT_BALANCE');
+        }
+
+        const updates: { [key: string]: any } = {
+          [`splits.${userId}.approved`]: true,
+        };
+        if (allApproved) {
+          EscrowManager.lock(transaction, ledger, {
+            groupId: orderData.groupId,
+            orderId,
+            leaderId: orderData.leaderId,
+            splits,
+          });
+          ledger.commit();
+
+          coinStates.forEach(state => {
+            const coinSplit = splits.find(other => other.userId === state.userId)!;
+            RewardEngine.spend(transaction, state, coinSplit.coinsApplied!, 'split_offset',
+              `Applied to group order share (₹${coinSplit.coinDiscount})`,
+              { groupId: orderData.groupId, orderId });
+          });
+
+          GroupLifecycle.fire(transaction, 'lock_escrow', {
+            groupId: orderData.groupId,
+            group: groupData,
+            orderId,
+            order: orderData,
+            actorId: userId,
+          }, { order: updates });
+        } else {
+          transaction.update(db.collection('orders').doc(orderId), updates);
+        }
+
+        return allApproved;
+      });
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      if (error instanceof EscrowError || error instanceof RewardError || error instanceof LifecycleError) {
+        throw new OrderProcessingError(error.message, error.code);
+      }
+      throw new OrderProcessingError('Failed to approve split', 'PROCESSING_ERROR');
+    }
+  }
+
+  static async confirmReceipt(orderId: string, userId: string): Promise<void> {
+    try {
+      await db.runTransaction(async (transaction) => {
+        const orderData = await this.validateOrder(orderId, transaction);
+        if (orderData.status !== 'delivering') {
+          throw new OrderProcessingError('Order is not out for delivery', 'INVALID_ORDER_STATUS');
+        }
+        this.checkNotUnderReview(orderData);
+
+        const item = orderData.items?.[userId];
+        if (!item) {
+          throw new OrderProcessingError('User item not found', 'ITEM_NOT_FOUND');
+        }
+        if (item.received || item.noShow) {
+          throw new OrderProcessingError('Receipt already recorded', 'ALREADY_RECEIVED');
+        }
+
+        // The leader's own share was never held
+        if (userId !== orderData.leaderId) {
+          const escrow = await EscrowManager.load(orderId, transaction);
+          if (!escrow) {
+            throw new OrderProcessingError('No escrow found for this order', 'ESCROW_NOT_FOUND');
+          }
+
+          const ledger = new LedgerTransaction(transaction);
+          await ledger.load(EscrowManager.accounts(escrow.groupId, escrow.leaderId, []));
+          EscrowManager.release(transaction, ledger, escrow, userId);
+          ledger.commit();
+        }
+
+        transaction.update(db.collection('orders').doc(orderId), {
+          [`items.${userId}.received`]: true,
+          [`items.${userId}.receivedAt`]: FieldValue.serverTimestamp(),
+        });
+      });
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      if (error instanceof EscrowError) {
+        throw new OrderProcessingError(error.message, error.code);
+      }
+      throw new OrderProcessingError('Failed to confirm receipt', 'PROCESSING_ERROR');
+    }
+  }
+
+  // Settlements are keyed per order (or per no-show) so a retried request
+  // finds the record of the first attempt instead of moving money again
+  private static async runSettlement(
+    idempotencyKey: string,
+    settle: (transaction: any) => Promise<{ [key: string]: any }>
+  ): Promise<boolean> {
+    let retryCount = 0;
+
+    while (true) {
+      try {
+        await db.runTransaction(async (transaction) => {
+          const settlementRef = db.collection('settlements').doc(idempotencyKey);
+          const settlementDoc = await transaction.get(settlementRef);
+          if (settlementDoc.exists) {
+            return;
+          }
+
+          const summary = await settle(transaction);
+          transaction.set(settlementRef, {
+            ...summary,
+            settledAt: FieldValue.serverTimestamp(),
+          });
+        });
+
+        return true;
+      } catch (error) {
+        retryCount++;
+        // Business rule failures will fail the same way again, so only
+        // transient errors (network, contention) are retried
+        if (
+          error instanceof OrderProcessingError ||
+          error instanceof LedgerError ||
+          error instanceof EscrowError ||
+          error instanceof CollateralError ||
+          error instanceof LifecycleError ||
+          retryCount >= MAX_RETRIES
+        ) {
+          throw error;
+        }
+        // Wait before retrying (exponential backoff)
+        await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 1000));
+      }
+    }
+  }
+
+  static async processOrderCompletion(orderId: string, leaderId: string): Promise<boolean> {
+    const idempotencyKey = `order_${orderId}`;
+
+    return this.runSettlement(idempotencyKey, async (transaction) => {
+      // Validate order and group
+      const orderData = await this.validateOrder(orderId, transaction);
+      const groupId: string = orderData.groupId;
+      const groupData = await this.loadGroup(groupId, transaction);
+      const members = Object.keys(groupData.members).filter(userId => groupData.members[userId]);
+      const target = { groupId, group: groupData, orderId, order: orderData, actorId: leaderId };
+
+      if (orderData.leaderId !== leaderId) {
+        throw new OrderProcessingError('Only the group leader can complete the order', 'NOT_LEADER');
+      }
+      if (orderData.status !== 'delivering') {
+        throw new OrderProcessingError('Order is not out for delivery', 'INVALID_ORDER_STATUS');
+      }
+      this.checkNotUnderReview(orderData);
+      // Every split approved and every member's items handed over
+      GroupLifecycle.check('complete', target);
+      const splits = Object.values(orderData.splits || {}) as OrderSplit[];
+
+      // Members' shares reached the leader as each pickup was confirmed, so
+      // the escrow must be empty by now
+      const escrow = await EscrowManager.load(orderId, transaction);
+      if (EscrowManager.hasHeldFunds(escrow)) {
+        throw new OrderProcessingError('Funds are still held in escrow', 'ESCROW_NOT_SETTLED');
+      }
+
+      const memberSplits = splits.filter(split => split.userId !== leaderId);
+      const unknownMember = memberSplits.find(split => !members.includes(split.userId));
+      if (unknownMember) {
+        throw new OrderProcessingError(`User ${unknownMember.userId} is not a group member`, 'NOT_MEMBER');
+      }
+
+      const holdings = Object.values(escrow?.holdings || {});
+      // Each release already split its holding between the leader and the
+      // fee, so these add up exactly
+      const collected = Money.sum(holdings
+        .filter(holding => holding.status === 'released')
+        .map(holding => Money.of(holding.amount)));
+      const fees = Money.sum(holdings.map(holding => Money.of(holding.platformFee || 0)));
+      const collectedAmount = collected.toRupees();
+      const platformFee = fees.toRupees();
+      const leaderAmount = collected.subtract(fees).toRupees();
+      const rewardCoins = Math.floor(orderData.totalAmount * (LEADER_REWARD_PERCENTAGE / 100));
+
+      // The group closes with the order, so everyone's collateral is freed
+      const collateral = await Promise.all(
+        members.map(userId => CollateralManager.load(transaction, groupId, userId))
+      );
+      collateral.forEach(state => CollateralManager.release(transaction, state));
+
+      RewardEngine.award(transaction, leaderId, rewardCoins, 'Leader reward for group order', {
+        groupId,
+        orderId,
+      });
+
+      GroupLifecycle.fire(transaction, 'complete', target, {
+        order: {
+          platformFee,
+          processedAt: FieldValue.serverTimestamp(),
+        },
+      });
+
+      return {
+        type: 'order_completion',
+        groupId,
+        orderId,
+        leaderId,
+        collectedAmount,
+        leaderAmount,
+        platformFee,
+        rewardCoins,
+      };
+    });
+  }
+
+  static async processNoShow(orderId: string, userId: string, leaderId: string): Promise<boolean> {
+    const idempotencyKey = `noshow_${orderId}_${userId}`;
+
+    try {
+      return await this.runSettlement(idempotencyKey, async (transaction) => {
+        // Validate order and user
+        const orderData = await this.validateOrder(orderId, transaction);
+        const groupId: string = orderData.groupId;
+        if (orderData.leaderId !== leaderId) {
+          throw new OrderProcessingError('Only the group leader can mark no-shows', 'NOT_LEADER');
+        }
+        if (orderData.status !== 'delivering') {
+          throw new OrderProcessingError('Order is not out for delivery', 'INVALID_ORDER_STATUS');
+        }
+        this.checkNotUnderReview(orderData);
+
+        const userItem = orderData.items[userId];
+        
+        if (!userItem) {
+          throw new OrderProcessingError('User item not found', 'ITEM_NOT_FOUND');
+        }
+
+        if (userItem.noShow) {
+          throw new OrderProcessingError('User already marked as no-show', 'ALREADY_NO_SHOW');
+        }
+
+        if (userItem.received) {
+          throw new OrderProcessingError('User already collected their items', 'ALREADY_RECEIVED');
+        }
+
+        // Calculate penalty
+        const penaltyAmount = Money.of(userItem.finalAmount).percent(NO_SHOW_PENALTY_PERCENTAGE).toRupees();
+
+        const escrow = await EscrowManager.load(orderId, transaction);
+        if (!escrow) {
+          throw new OrderProcessingError('No escrow found for this order', 'ESCROW_NOT_FOUND');
+        }
+
+        // Validate user wallet
+        const userAccount = LedgerAccounts.userWallet(userId);
+        const leaderAccount = LedgerAccounts.userWallet(leaderId);
+        const ledger = new LedgerTransaction(transaction);
+        await ledger.load([userAccount, ...EscrowManager.accounts(groupId, leaderId, [])]);
+        if (ledger.balanceOf(userAccount) < penaltyAmount) {
+          throw new OrderProcessingError('Insufficient balance for penalty', 'INSUFFICIENT_BALANCE');
+        }
+
+        // The leader already bought the items, so the member's held share
+        // is released to them as if the items had been collected
+        EscrowManager.release(transaction, ledger, escrow, userId);
+
+        // Move the penalty from the user's wallet to the leader's
+        const journalEntryId = ledger.post({
+          description: `No-show penalty for group order in ${groupId}`,
+          groupId,
+          orderId,
+          userId,
+          lines: [
+            { accountId: userAccount, amount: -penaltyAmount },
+            { accountId: leaderAccount, amount: penaltyAmount },
+          ],
+        }, idempotencyKey, { allowHeld: true });
+        ledger.commit();
+
+        // User penalty deduction
+        transaction.set(db.collection('transactions').doc(`${idempotencyKey}_${userId}`), {
+          type: 'debit',
+          amount: penaltyAmount,
+          description: `No-show penalty for group order in ${groupId}`,
+          timestamp: FieldValue.serverTimestamp(),
+          userId,
+          groupId,
+          orderId,
+          status: 'completed',
+          journalEntryId
+        });
+
+        // Leader penalty receipt
+        transaction.set(db.collection('transactions').doc(`${idempotencyKey}_${leaderId}`), {
+          type: 'credit',
+          amount: penaltyAmount,
+          description: `Received no-show penalty for group order in ${groupId}`,
+          timestamp: FieldValue.serverTimestamp(),
+          userId: leaderId,
+          groupId,
+          orderId,
+          status: 'completed',
+          journalEntryId
+        });
+
+        // Update order item status
+        transaction.update(db.collection('orders').doc(orderId), {
+          [`items.${userId}.noShow`]: true,
+          [`items.${userId}.noShowPenalty`]: penaltyAmount,
+          [`items.${userId}.noShowTimestamp`]: FieldValue.serverTimestamp()
+        });
+
+        return {
+          type: 'no_show',
+          groupId,
+          orderId,
+          userId,
+          leaderId,
+          penaltyAmount,
+        };
+      });
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      if (error instanceof EscrowError) {
+        throw new OrderProcessingError(error.message, error.code);
+      }
+      throw new OrderProcessingError('Failed to process no-show penalty', 'PROCESSING_ERROR');
+    }
+  }
+
+  static async cancelOrder(orderId: string, leaderId: string): Promise<void> {
+    try {
+      await db.runTransaction(async (transaction) => {
+        const orderData = await this.validateOrder(orderId, transaction);
+        const groupData = await this.validateLeader(orderData.groupId, leaderId, transaction);
+        const target = { groupId: orderData.groupId, group: groupData, orderId, order: orderData, actorId: leaderId };
+        GroupLifecycle.check('cancel_order', target);
+
+        const escrow = await EscrowManager.load(orderId, transaction);
+        const collateral = await this.loadGroupCollateral(orderData.groupId, transaction);
+
+        if (escrow) {
+          const ledger = new LedgerTransaction(transaction);
+          await ledger.load(EscrowManager.accounts(
+            escrow.groupId,
+            escrow.leaderId,
+            Object.keys(escrow.holdings)
+          ));
+          EscrowManager.refund(transaction, ledger, escrow);
+          ledger.commit();
+        }
+        collateral.forEach(state => CollateralManager.release(transaction, state));
+
+        GroupLifecycle.fire(transaction, 'cancel_order', target);
+      });
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      if (error instanceof LifecycleError) {
+        throw new OrderProcessingError(error.message, error.code);
+      }
+      throw new OrderProcessingError('Failed to cancel order', 'PROCESSING_ERROR');
+    }
+  }
+
+  // Run by the expireDeadlines job. Returns null if the group moved on
+  // before the job reached it.
+  static async expireDeadline(groupId: string): Promise<ExpiredDeadline | null> {
+    return db.runTransaction(async (transaction) => {
+      const groupDoc = await transaction.get(db.collection('groups').doc(groupId));
+      const groupData = groupDoc.data();
+      const deadline = groupData?.deadline;
+      if (!groupData || !deadline || deadline.at.toMillis() > Date.now()) {
+        return null;
+      }
+
+      const memberIds = Object.keys(groupData.members || {}).filter(userId => groupData.members[userId]);
+      const collateral = await this.loadGroupCollateral(groupId, transaction);
+
+      if (deadline.kind === 'gathering') {
+        collateral.forEach(state => CollateralManager.release(transaction, state));
+        GroupLifecycle.fire(transaction, 'cancel_group', { groupId, group: groupData, actorId: null });
+      } else {
+        // An order deadline left on a group without an order has nothing
+        // to expire
+        const orderId: string | undefined = groupData.currentOrder?.id;
+        if (!orderId) {
+          return null;
+        }
+
+        const orderDoc = await transaction.get(db.collection('orders').doc(orderId));
+        const escrow = await EscrowManager.load(orderId, transaction);
+
+        // Shares already released for collected items stay with the leader
+        if (escrow) {
+          const ledger = new LedgerTransaction(transaction);
+          await ledger.load(EscrowManager.accounts(
+            escrow.groupId,
+            escrow.leaderId,
+            Object.keys(escrow.holdings)
+          ));
+          EscrowManager.refund(transaction, ledger, escrow);
+          ledger.commit();
+        }
+        collateral.forEach(state => CollateralManager.release(transaction, state));
+
+        GroupLifecycle.fire(transaction, 'expire_order', {
+          groupId,
+          group: groupData,
+          orderId,
+          order: orderDoc.data(),
+          actorId: null,
+        });
+      }
+
+      return { kind: deadline.kind, groupName: groupData.name, memberIds };
+    });
+  }
+
+  // Holds the order until support staff resolve the dispute
+  static async openDispute(orderId: string, userId: string, input: DisputeInput): Promise<string> {
+    if (!DISPUTE_TYPES.includes(input.type)) {
+      throw new OrderProcessingError('Please choose what went wrong', 'INVALID_DISPUTE_TYPE');
+    }
+    if (!input.description?.trim()) {
+      throw new OrderProcessingError('Please describe the issue', 'INVALID_DESCRIPTION');
+    }
+
+    try {
+      return await db.runTransaction(async (transaction) => {
+        const orderData = await this.validateOrder(orderId, transaction);
+        const groupData = await this.loadGroup(orderData.groupId, transaction);
+        if (!groupData.members?.[userId]) {
+          throw new OrderProcessingError('Only group members can report an issue', 'NOT_MEMBER');
+        }
+
+        const disputeRef = db.collection('disputes').doc();
+        GroupLifecycle.fire(transaction, 'open_dispute', {
+          groupId: orderData.groupId,
+          group: groupData,
+          orderId,
+          order: orderData,
+          actorId: userId,
+        }, {
+          order: { hasDispute: true, disputeId: disputeRef.id },
+        });
+
+        transaction.set(disputeRef, {
+          orderId,
+          groupId: orderData.groupId,
+          userId,
+          type: input.type,
+          description: input.description.trim(),
+          evidence: input.evidence || null,
+          status: 'pending',
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+
+        return disputeRef.id;
+      });
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      if (error instanceof LifecycleError) {
+        throw new OrderProcessingError(error.message, error.code);
+      }
+      throw new OrderProcessingError('Failed to report the issue', 'PROCESSING_ERROR');
+    }
+  }
+
+  // Upholding a dispute refunds whatever is still held and cancels the
+  // order; rejecting it puts the order back where it was
+  static async resolveDispute(disputeId: string, upheld: boolean, resolverId: string): Promise<void> {
+    try {
+      await db.runTransaction(async (transaction) => {
+        const disputeRef = db.collection('disputes').doc(disputeId);
+        const disputeDoc = await transaction.get(disputeRef);
+        if (!disputeDoc.exists) {
+          throw new OrderProcessingError('Dispute not found', 'DISPUTE_NOT_FOUND');
+        }
+
+        const dispute = disputeDoc.data()!;
+        if (dispute.status !== 'pending') {
+          throw new OrderProcessingError('Dispute already resolved', 'DISPUTE_RESOLVED');
+        }
+
+        const orderData = await this.validateOrder(dispute.orderId, transaction);
+        if (orderData.status !== 'disputed') {
+          throw new OrderProcessingError('Order is not under dispute', 'INVALID_ORDER_STATUS');
+        }
+        const groupData = await this.loadGroup(orderData.groupId, transaction);
+        const target = {
+          groupId: orderData.groupId,
+          group: groupData,
+          orderId: dispute.orderId,
+          order: orderData,
+          actorId: resolverId,
+        };
+        GroupLifecycle.check(upheld ? 'uphold_dispute' : 'reject_dispute', target);
+
+        if (upheld) {
+          const escrow = await EscrowManager.load(dispute.orderId, transaction);
+          const collateral = await this.loadGroupCollateral(orderData.groupId, transaction);
+          if (escrow) {
+            const ledger = new LedgerTransaction(transaction);
+            await ledger.load(EscrowManager.accounts(
+              escrow.groupId,
+              escrow.leaderId,
+              Object.keys(escrow.holdings)
+            ));
+            EscrowManager.refund(transaction, ledger, escrow);
+            ledger.commit();
+          }
+          collateral.forEach(state => CollateralManager.release(transaction, state));
+
+          GroupLifecycle.fire(transaction, 'uphold_dispute', target);
+        } else {
+          GroupLifecycle.fire(transaction, 'reject_dispute', target);
+        }
+
+        transaction.update(disputeRef, {
+          status: upheld ? 'upheld' : 'rejected',
+          resolvedAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      });
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      if (error instanceof LifecycleError) {
+        throw new OrderProcessingError(error.message, error.code);
+      }
+      throw new OrderProcessingError('Failed to resolve dispute', 'PROCESSING_ERROR');
+    }
+  }
+
+  // Clearing a review lets the order settle as usual; confirming the reuse
+  // refunds whatever is still held and cancels the order
+  static async resolveFraudReview(orderId: string, confirmed: boolean, resolverId: string): Promise<void> {
+    try {
+      await db.runTransaction(async (transaction) => {
+        const reviewRef = db.collection('fraud_reviews').doc(orderId);
+        const reviewDoc = await transaction.get(reviewRef);
+        if (!reviewDoc.exists) {
+          throw new OrderProcessingError('Fraud review not found', 'FRAUD_REVIEW_NOT_FOUND');
+        }
+        if (reviewDoc.data()!.status !== 'open') {
+          throw new OrderProcessingError('Fraud review already resolved', 'FRAUD_REVIEW_RESOLVED');
+        }
+
+        const orderRef = db.collection('orders').doc(orderId);
+        const orderDoc = await transaction.get(orderRef);
+        if (!orderDoc.exists) {
+          throw new OrderProcessingError('Order not found', 'ORDER_NOT_FOUND');
+        }
+        const orderData = orderDoc.data()!;
+        const status = confirmed ? 'confirmed' : 'cleared';
+
+        // A cancelled order was refunded already, so only the review closes
+        if (confirmed && orderData.status !== 'cancelled') {
+          const groupData = await this.loadGroup(orderData.groupId, transaction);
+          const target = { groupId: orderData.groupId, group: groupData, orderId, order: orderData, actorId: resolverId };
+          GroupLifecycle.check('cancel_order', target);
+
+          const escrow = await EscrowManager.load(orderId, transaction);
+          const collateral = await this.loadGroupCollateral(orderData.groupId, transaction);
+          if (escrow) {
+            const ledger = new LedgerTransaction(transaction);
+            await ledger.load(EscrowManager.accounts(
+              escrow.groupId,
+              escrow.leaderId,
+              Object.keys(escrow.holdings)
+            ));
+            EscrowManager.refund(transaction, ledger, escrow);
+            ledger.commit();
+          }
+          collateral.forEach(state => CollateralManager.release(transaction, state));
+
+          GroupLifecycle.fire(transaction, 'cancel_order', target, {
+            order: { 'fraudReview.status': status },
+          });
+        } else {
+          transaction.update(orderRef, { 'fraudReview.status': status });
+          // The handover clock was held back while the review was open
+          if (!confirmed && orderData.status === 'delivering') {
+            transaction.update(db.collection('groups').doc(orderData.groupId), {
+              deadline: deadlineFor('delivery'),
+            });
+          }
+        }
+
+        transaction.update(reviewRef, {
+          status,
+          resolvedBy: resolverId,
+          resolvedAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      });
+    } catch (error) {
+      if (error instanceof OrderProcessingError) {
+        throw error;
+      }
+      if (error instanceof LifecycleError) {
+        throw new OrderProcessingError(error.message, error.code);
+      }
+      throw new OrderProcessingError('Failed to resolve fraud review', 'PROCESSING_ERROR');
+    }
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,41 @@
+export type PaymentGatewayName = 'razorpay' | 'mock';
+
+// Amounts are in paise, as the gateways expect them
+export interface GatewayOrder {
+  id: string;
+  amount: number;
+  currency: 'INR';
+  receipt: string;
+  gateway: PaymentGatewayName;
+}
+
+// What the app's checkout sheet hands back
+export interface CheckoutResult {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+}
+
+// Shape of the gateway's payment webhook once the payment settles
+export interface PaymentConfirmation {
+  event: 'payment.captured' | 'payment.failed';
+  orderId: string;
+  paymentId: string;
+  amount: number;
+  failureReason?: string;
+}
+
+export interface PaymentGateway {
+  readonly name: PaymentGatewayName;
+  createOrder(amount: number, receipt: string, notes?: Record<string, string>): Promise<GatewayOrder>;
+  verifySignature(result: CheckoutResult): Promise<boolean>;
+  // Null while the payment is still being processed
+  fetchConfirmation(order: GatewayOrder, result: CheckoutResult): Promise<PaymentConfirmation | null>;
+}
+
+export class PaymentGatewayError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'PaymentGatewayError';
+  }
+}
@@ -0,0 +1,198 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { logger } from 'firebase-functions/v2';
+import {
+  db,
+  isEmulator,
+  PAYMENT_GATEWAY,
+  RAZORPAY_KEY_ID,
+  RAZORPAY_KEY_SECRET,
+} from './config';
+import { LedgerTransaction, LedgerAccounts } from './Ledger';
+import {
+  PaymentGateway,
+  PaymentGatewayName,
+  PaymentGatewayError,
+  PaymentConfirmation,
+  GatewayOrder,
+  CheckoutResult,
+} from './PaymentGateway';
+import { Money } from './shared/Money';
+import { RazorpayGateway } from './RazorpayGateway';
+import { MockPaymentGateway } from './MockPaymentGateway';
+
+export type TopUpStatus = 'captured' | 'failed' | 'pending';
+
+export interface TopUpConfirmation {
+  status: TopUpStatus;
+  amount: number;
+  failureReason?: string;
+}
+
+const paymentRef = (orderId: string) => db.collection('payments').doc(orderId);
+
+export class PaymentHandler {
+  static getGateway(name: PaymentGatewayName = PAYMENT_GATEWAY.value() as PaymentGatewayName): PaymentGateway {
+    if (name === 'razorpay') {
+      return new RazorpayGateway(RAZORPAY_KEY_ID.value(), RAZORPAY_KEY_SECRET.value());
+    }
+    if (name === 'mock' && isEmulator()) {
+      return new MockPaymentGateway();
+    }
+    throw new PaymentGatewayError('Payments are not configured', 'GATEWAY_NOT_CONFIGURED');
+  }
+
+  // Creates the gateway order the app opens checkout for, and the payment
+  // record that tracks it through created -> authorized -> captured/failed
+  static async createTopUpOrder(userId: string, amount: number, description: string): Promise<GatewayOrder> {
+    const gateway = this.getGateway();
+    // The gateway charges whole paise, so the payment records the same amount
+    const money = Money.of(amount);
+    const order = await gateway.createOrder(
+      money.paise,
+      `topup_${userId.slice(0, 12)}_${Date.now()}`,
+      { userId }
+    );
+
+    await paymentRef(order.id).set({
+      userId,
+      amount: money.toRupees(),
+      description,
+      gateway: gateway.name,
+      receipt: order.receipt,
+      status: 'created',
+      type: 'topup',
+      timestamp: FieldValue.serverTimestamp(),
+    });
+
+    return order;
+  }
+
+  // Called by the app after checkout. The signature and the payment status
+  // are both checked with the gateway; the wallet is only credited here or
+  // by the webhook, whichever sees the captured payment first.
+  static async confirmTopUp(userId: string, result: CheckoutResult): Promise<TopUpConfirmation> {
+    const paymentDoc = await paymentRef(result.orderId).get();
+    if (!paymentDoc.exists || paymentDoc.data()!.userId !== userId) {
+      throw new PaymentGatewayError('Payment not found', 'PAYMENT_NOT_FOUND');
+    }
+
+    // A failed or cancelled checkout can still be captured later (e.g. a
+    // slow UPI payment), so only a capture is final
+    const payment = paymentDoc.data()!;
+    if (payment.status === 'captured') {
+      return { status: 'captured', amount: payment.amount };
+    }
+
+    const gateway = this.getGateway(payment.gateway);
+    if (!(await gateway.verifySignature(result))) {
+      throw new PaymentGatewayError('Payment signature verification failed', 'INVALID_SIGNATURE');
+    }
+
+    await paymentDoc.ref.update({
+      paymentId: result.paymentId,
+      status: 'authorized',
+    });
+
+    const order: GatewayOrder = {
+      id: paymentDoc.id,
+      amount: Money.of(payment.amount).paise,
+      currency: 'INR',
+      receipt: payment.receipt,
+      gateway: payment.gateway,
+    };
+    const confirmation = await gateway.fetchConfirmation(order, result);
+    if (!confirmation) {
+      return { status: 'pending', amount: payment.amount };
+    }
+
+    await this.handleConfirmation(confirmation);
+    return confirmation.event === 'payment.captured'
+      ? { status: 'captured', amount: payment.amount }
+      : { status: 'failed', amount: payment.amount, failureReason: confirmation.failureReason || 'Payment failed' };
+  }
+
+  // The user closed checkout or it failed before a payment was made
+  static async cancelTopUp(userId: string, orderId: string, cancelled: boolean, reason: string) {
+    await db.runTransaction(async (transaction) => {
+      const paymentDoc = await transaction.get(paymentRef(orderId));
+      if (!paymentDoc.exists || paymentDoc.data()!.userId !== userId) {
+        throw new PaymentGatewayError('Payment not found', 'PAYMENT_NOT_FOUND');
+      }
+      if (paymentDoc.data()!.status !== 'created') {
+        return;
+      }
+
+      transaction.update(paymentDoc.ref, {
+        status: cancelled ? 'cancelled' : 'failed',
+        failureReason: reason,
+      });
+    });
+  }
+
+  // Applies a gateway webhook to its payment. Safe to call more than once:
+  // a captured payment is left alone, but a capture still credits a payment
+  // that was marked failed or cancelled.
+  static async handleConfirmation(confirmation: PaymentConfirmation): Promise<void> {
+    await db.runTransaction(async (transaction) => {
+      const paymentDoc = await transaction.get(paymentRef(confirmation.orderId));
+      // Not one of ours (or already cleaned up); acknowledged so the
+      // gateway stops retrying
+      if (!paymentDoc.exists) {
+        logger.warn('Payment confirmation for unknown order', { orderId: confirmation.orderId });
+        return;
+      }
+
+      const payment = paymentDoc.data()!;
+      if (payment.status === 'captured') {
+        return;
+      }
+
+      if (confirmation.event === 'payment.failed') {
+        transaction.update(paymentDoc.ref, {
+          status: 'failed',
+          paymentId: confirmation.paymentId,
+          failureReason: confirmation.failureReason || 'Payment failed',
+        });
+        return;
+      }
+
+      if (confirmation.amount !== Money.of(payment.amount).paise) {
+        throw new PaymentGatewayError('Captured amount does not match the order', 'AMOUNT_MISMATCH');
+      }
+
+      const walletAccount = LedgerAccounts.userWallet(payment.userId);
+      const ledger = new LedgerTransaction(transaction);
+      await ledger.load([LedgerAccounts.EXTERNAL, walletAccount]);
+
+      // Credit the wallet through the ledger
+      const journalEntryId = ledger.post({
+        description: payment.description,
+        userId: payment.userId,
+        lines: [
+          { accountId: LedgerAccounts.EXTERNAL, amount: -payment.amount },
+          { accountId: walletAccount, amount: payment.amount },
+        ],
+      }, `topup_${confirmation.orderId}`);
+      ledger.commit();
+
+      transaction.update(paymentDoc.ref, {
+        status: 'captured',
+        paymentId: confirmation.paymentId,
+        journalEntryId,
+        capturedAt: FieldValue.serverTimestamp(),
+      });
+
+      transaction.set(db.collection('transactions').doc(`topup_${confirmation.orderId}`), {
+        type: 'credit',
+        amount: payment.amount,
+        description: payment.description,
+        timestamp: FieldValue.serverTimestamp(),
+        userId: payment.userId,
+        status: 'completed',
+        journalEntryId,
+        paymentId: confirmation.paymentId,
+        isTestTransaction: payment.gateway === 'mock',
+      });
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { PayoutStatus } from './types';
+
+export interface DestinationInput {
+  type: 'upi' | 'bank';
+  vpa?: string;
+  accountNumber?: string;
+  ifsc?: string;
+}
+
+export interface RegisteredDestination {
+  fundAccountId: string;
+}
+
+export interface DestinationVerification {
+  verified: boolean;
+  accountHolderName?: string;
+  failureReason?: string;
+}
+
+// Amounts are in paise, as the providers expect them
+export interface PayoutRequest {
+  payoutId: string;
+  fundAccountId: string;
+  amount: number;
+}
+
+export interface ProviderPayout {
+  providerPayoutId: string;
+  status: Exclude<PayoutStatus, 'requested'>;
+  failureReason?: string;
+}
+
+export interface PayoutAdapter {
+  readonly name: string;
+  registerDestination(input: DestinationInput): Promise<RegisteredDestination>;
+  verifyDestination(fundAccountId: string): Promise<DestinationVerification>;
+  createPayout(request: PayoutRequest): Promise<ProviderPayout>;
+  fetchPayout(providerPayoutId: string): Promise<ProviderPayout>;
+}
+
+export class PayoutError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'PayoutError';
+  }
+}
+
+const VPA_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z]{2,64}$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const ACCOUNT_NUMBER_PATTERN = /^\d{9,18}$/;
+
+export const validateDestination = (input: DestinationInput) => {
+  if (input.type === 'upi') {
+    if (!input.vpa || !VPA_PATTERN.test(input.vpa)) {
+      throw new PayoutError('Please enter a valid UPI ID (e.g. name@bank)', 'INVALID_VPA');
+    }
+    return;
+  }
+
+  if (!input.accountNumber || !ACCOUNT_NUMBER_PATTERN.test(input.accountNumber)) {
+    throw new PayoutError('Please enter a valid bank account number', 'INVALID_ACCOUNT_NUMBER');
+  }
+  if (!input.ifsc || !IFSC_PATTERN.test(input.ifsc)) {
+    throw new PayoutError('Please enter a valid IFSC code', 'INVALID_IFSC');
+  }
+};
@@ -0,0 +1,289 @@
+import { FieldValue, Transaction as FirestoreTransaction } from 'firebase-admin/firestore';
+import { db, isEmulator } from './config';
+import { Payout, PayoutDestination, PayoutStatus } from './types';
+import { LedgerTransaction, LedgerAccounts, LedgerError, JournalLine } from './Ledger';
+import { PayoutAdapter, PayoutError, DestinationInput, validateDestination } from './PayoutAdapter';
+import { InMemoryPayoutAdapter } from './InMemoryPayoutAdapter';
+import { Money } from './shared/Money';
+
+const MIN_PAYOUT_AMOUNT = 100;
+
+// Allowed moves in the payout lifecycle
+const TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  requested: ['processing', 'failed'],
+  processing: ['paid', 'failed'],
+  paid: ['reversed'],
+  failed: [],
+  reversed: [],
+};
+
+const TRANSITION_DESCRIPTIONS: Record<PayoutStatus, string> = {
+  requested: 'Withdrawal requested',
+  processing: 'Withdrawal processing',
+  paid: 'Withdrawal paid',
+  failed: 'Withdrawal failed, amount refunded',
+  reversed: 'Withdrawal reversed by bank, amount refunded',
+};
+
+let activeAdapter: PayoutAdapter | null = null;
+
+const describeDestination = (destination: PayoutDestination) => destination.type === 'upi'
+  ? `UPI ${destination.vpa}`
+  : `bank account ${destination.maskedAccountNumber}`;
+
+export class PayoutManager {
+  // The in-memory stand-in is only used by the emulator; a deployed
+  // backend must be given a real provider with `setAdapter`
+  static getAdapter(): PayoutAdapter {
+    if (!activeAdapter) {
+      if (!isEmulator()) {
+        throw new PayoutError('Payouts are not configured', 'PAYOUTS_NOT_CONFIGURED');
+      }
+      activeAdapter = new InMemoryPayoutAdapter();
+    }
+    return activeAdapter;
+  }
+
+  static setAdapter(adapter: PayoutAdapter) {
+    activeAdapter = adapter;
+  }
+
+  static async addDestination(userId: string, input: DestinationInput): Promise<PayoutDestination> {
+    const normalized: DestinationInput = input.type === 'upi'
+      ? { type: 'upi', vpa: input.vpa?.trim().toLowerCase() }
+      : { type: 'bank', accountNumber: input.accountNumber?.trim(), ifsc: input.ifsc?.trim().toUpperCase() };
+    validateDestination(normalized);
+
+    const { fundAccountId } = await this.getAdapter().registerDestination(normalized);
+
+    const destinationRef = db.collection('payout_destinations').doc();
+    const destination: Omit<PayoutDestination, 'id'> = normalized.type === 'upi'
+      ? { userId, type: 'upi', vpa: normalized.vpa, fundAccountId, verified: false }
+      : {
+          userId,
+          type: 'bank',
+          maskedAccountNumber: `XXXX${normalized.accountNumber!.slice(-4)}`,
+          ifsc: normalized.ifsc,
+          fundAccountId,
+          verified: false,
+        };
+
+    await destinationRef.set({
+      ...destination,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    return { id: destinationRef.id, ...destination };
+  }
+
+  static async verifyDestination(userId: string, destinationId: string): Promise<PayoutDestination> {
+    const destinationRef = db.collection('payout_destinations').doc(destinationId);
+    const destinationDoc = await destinationRef.get();
+    if (!destinationDoc.exists || destinationDoc.data()!.userId !== userId) {
+      throw new PayoutError('Payout destination not found', 'DESTINATION_NOT_FOUND');
+    }
+
+    const destination = { id: destinationDoc.id, ...destinationDoc.data() } as PayoutDestination;
+    if (destination.verified) {
+      return destination;
+    }
+
+    const verification = await this.getAdapter().verifyDestination(destination.fundAccountId);
+    if (!verification.verified) {
+      throw new PayoutError(verification.failureReason || 'Could not verify this destination', 'VERIFICATION_FAILED');
+    }
+
+    await destinationRef.update({
+      verified: true,
+      accountHolderName: verification.accountHolderName || null,
+      verifiedAt: FieldValue.serverTimestamp(),
+    });
+
+    return { ...destination, verified: true, accountHolderName: verification.accountHolderName };
+  }
+
+  // Moves the amount out of the wallet into pending payouts, then hands
+  // the payout to the provider
+  static async requestPayout(userId: string, destinationId: string, amount: number): Promise<Payout> {
+    if (isNaN(amount) || amount < MIN_PAYOUT_AMOUNT) {
+      throw new PayoutError(`Minimum withdrawal amount is ₹${MIN_PAYOUT_AMOUNT}`, 'INVALID_AMOUNT');
+    }
+
+    const payoutRef = db.collection('payouts').doc();
+    const destination = await db.runTransaction(async (transaction) => {
+      const destinationDoc = await transaction.get(db.collection('payout_destinations').doc(destinationId));
+      if (!destinationDoc.exists || destinationDoc.data()!.userId !== userId) {
+        throw new PayoutError('Payout destination not found', 'DESTINATION_NOT_FOUND');
+      }
+      const destination = { id: destinationDoc.id, ...destinationDoc.data() } as PayoutDestination;
+      if (!destination.verified) {
+        throw new PayoutError('Please verify this destination first', 'DESTINATION_NOT_VERIFIED');
+      }
+
+      const walletAccount = LedgerAccounts.userWallet(userId);
+      const ledger = new LedgerTransaction(transaction);
+      await ledger.load([walletAccount, LedgerAccounts.PENDING_PAYOUTS]);
+
+      let journalEntryId: string;
+      try {
+        journalEntryId = ledger.post({
+          description: `Withdrawal to ${describeDestination(destination)}`,
+          userId,
+          lines: [
+            { accountId: walletAccount, amount: -amount },
+            { accountId: LedgerAccounts.PENDING_PAYOUTS, amount },
+          ],
+        }, `payout_${payoutRef.id}_requested`);
+      } catch (error) {
+        if (error instanceof LedgerError && error.code === 'INSUFFICIENT_BALANCE') {
+          throw new PayoutError('Insufficient available balance', 'INSUFFICIENT_BALANCE');
+        }
+        throw error;
+      }
+      ledger.commit();
+
+      transaction.set(payoutRef, {
+        userId,
+        destinationId,
+        amount,
+        status: 'requested',
+        statusHistory: { requested: FieldValue.serverTimestamp() },
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      this.recordTransition(transaction, payoutRef.id, userId, amount, 'requested', destination, journalEntryId);
+
+      return destination;
+    });
+
+    let payout: Payout = { id: payoutRef.id, userId, destinationId, amount, status: 'requested' };
+    try {
+      const providerPayout = await this.getAdapter().createPayout({
+        payoutId: payoutRef.id,
+        fundAccountId: destination.fundAccountId,
+        amount: Money.of(amount).paise,
+      });
+      payout = await this.transition(payoutRef.id, providerPayout.status, {
+        providerPayoutId: providerPayout.providerPayoutId,
+        failureReason: providerPayout.failureReason,
+      });
+    } catch (error) {
+      if (error instanceof PayoutError && error.code !== 'INVALID_TRANSITION') {
+        payout = await this.transition(payoutRef.id, 'failed', { failureReason: error.message });
+      } else {
+        throw error;
+      }
+    }
+
+    return payout;
+  }
+
+  // Pulls the provider's latest status, the same update a payout webhook
+  // would deliver
+  static async syncPayout(userId: string, payoutId: string): Promise<Payout> {
+    const payoutDoc = await db.collection('payouts').doc(payoutId).get();
+    if (!payoutDoc.exists || payoutDoc.data()!.userId !== userId) {
+      throw new PayoutError('Payout not found', 'PAYOUT_NOT_FOUND');
+    }
+
+    const payout = { id: payoutDoc.id, ...payoutDoc.data() } as Payout;
+    if (!payout.providerPayoutId || TRANSITIONS[payout.status].length === 0) {
+      return payout;
+    }
+
+    const providerPayout = await this.getAdapter().fetchPayout(payout.providerPayoutId);
+    if (providerPayout.status === payout.status) {
+      return payout;
+    }
+    return this.transition(payoutId, providerPayout.status, { failureReason: providerPayout.failureReason });
+  }
+
+  static async transition(
+    payoutId: string,
+    status: PayoutStatus,
+    details: { providerPayoutId?: string; failureReason?: string } = {}
+  ): Promise<Payout> {
+    return db.runTransaction(async (transaction) => {
+      const payoutRef = db.collection('payouts').doc(payoutId);
+      const payoutDoc = await transaction.get(payoutRef);
+      if (!payoutDoc.exists) {
+        throw new PayoutError('Payout not found', 'PAYOUT_NOT_FOUND');
+      }
+
+      const payout = { id: payoutDoc.id, ...payoutDoc.data() } as Payout;
+      if (payout.status === status) {
+        return payout;
+      }
+      if (!TRANSITIONS[payout.status].includes(status)) {
+        throw new PayoutError(`Cannot move a ${payout.status} payout to ${status}`, 'INVALID_TRANSITION');
+      }
+
+      const destinationDoc = await transaction.get(db.collection('payout_destinations').doc(payout.destinationId));
+      const destination = { id: destinationDoc.id, ...destinationDoc.data() } as PayoutDestination;
+
+      const walletAccount = LedgerAccounts.userWallet(payout.userId);
+      const lines: JournalLine[] | null = status === 'paid'
+        ? [
+            { accountId: LedgerAccounts.PENDING_PAYOUTS, amount: -payout.amount },
+            { accountId: LedgerAccounts.EXTERNAL, amount: payout.amount },
+          ]
+        : status === 'failed'
+        ? [
+            { accountId: LedgerAccounts.PENDING_PAYOUTS, amount: -payout.amount },
+            { accountId: walletAccount, amount: payout.amount },
+          ]
+        : status === 'reversed'
+        ? [
+            { accountId: LedgerAccounts.EXTERNAL, amount: -payout.amount },
+            { accountId: walletAccount, amount: payout.amount },
+          ]
+        : null;
+
+      let journalEntryId: string | undefined;
+      if (lines) {
+        const ledger = new LedgerTransaction(transaction);
+        await ledger.load(lines.map(line => line.accountId));
+        journalEntryId = ledger.post({
+          description: `${TRANSITION_DESCRIPTIONS[status]} (${describeDestination(destination)})`,
+          userId: payout.userId,
+          lines,
+        }, `payout_${payoutId}_${status}`);
+        ledger.commit();
+      }
+
+      const updates: { [key: string]: any } = {
+        status,
+        [`statusHistory.${status}`]: FieldValue.serverTimestamp(),
+      };
+      if (details.providerPayoutId) updates.providerPayoutId = details.providerPayoutId;
+      if (details.failureReason) updates.failureReason = details.failureReason;
+      transaction.update(payoutRef, updates);
+
+      this.recordTransition(transaction, payoutId, payout.userId, payout.amount, status, destination, journalEntryId);
+
+      return { ...payout, ...details, status };
+    });
+  }
+
+  // Every status change shows up in the wallet's transaction history
+  private static recordTransition(
+    transaction: FirestoreTransaction,
+    payoutId: string,
+    userId: string,
+    amount: number,
+    status: PayoutStatus,
+    destination: PayoutDestination,
+    journalEntryId?: string
+  ) {
+    transaction.set(db.collection('transactions').doc(`payout_${payoutId}_${status}`), {
+      type: 'withdrawal',
+      amount,
+      description: `${TRANSITION_DESCRIPTIONS[status]} (${describeDestination(destination)})`,
+      timestamp: FieldValue.serverTimestamp(),
+      userId,
+      payoutId,
+      payoutStatus: status,
+      status: status === 'paid' ? 'completed' : status === 'failed' || status === 'reversed' ? 'failed' : 'pending',
+      ...(journalEntryId && { journalEntryId }),
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  PaymentGateway,
+  GatewayOrder,
+  CheckoutResult,
+  PaymentConfirmation,
+  PaymentGatewayError,
+} from './PaymentGateway';
+
+const API_URL = 'https://api.razorpay.com/v1';
+
+interface RazorpayPayment {
+  id: string;
+  order_id: string;
+  amount: number;
+  status: 'created' | 'authorized' | 'captured' | 'refunded' | 'failed';
+  error_description?: string;
+}
+
+const hmac = (secret: string, payload: string | Buffer) =>
+  createHmac('sha256', secret).update(payload).digest('hex');
+
+const safeEqual = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+export class RazorpayGateway implements PaymentGateway {
+  readonly name = 'razorpay' as const;
+
+  constructor(private keyId: string, private keySecret: string) {
+    if (!keyId || !keySecret) {
+      throw new PaymentGatewayError('Razorpay is not configured', 'GATEWAY_NOT_CONFIGURED');
+    }
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const credentials = Buffer.from(`${this.keyId}:${this.keySecret}`).toString('base64');
+    const response = await fetch(`${API_URL}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Basic ${credentials}`,
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      throw new PaymentGatewayError(`Razorpay API error (${response.status})`, 'API_ERROR');
+    }
+    return response.json() as Promise<T>;
+  }
+
+  async createOrder(amount: number, receipt: string, notes?: Record<string, string>): Promise<GatewayOrder> {
+    const order = await this.request<{ id: string; amount: number; receipt: string }>('/orders', {
+      method: 'POST',
+      body: JSON.stringify({ amount, currency: 'INR', receipt, notes }),
+    });
+
+    return { ...order, currency: 'INR', gateway: this.name };
+  }
+
+  async verifySignature(result: CheckoutResult): Promise<boolean> {
+    const expected = hmac(this.keySecret, `${result.orderId}|${result.paymentId}`);
+    return safeEqual(expected, result.signature);
+  }
+
+  async fetchConfirmation(order: GatewayOrder, result: CheckoutResult): Promise<PaymentConfirmation | null> {
+    const payment = await this.request<RazorpayPayment>(`/payments/${result.paymentId}`);
+    if (payment.order_id !== order.id) {
+      throw new PaymentGatewayError('Payment does not belong to this order', 'ORDER_MISMATCH');
+    }
+
+    return RazorpayGateway.toConfirmation(payment);
+  }
+
+  static toConfirmation(payment: RazorpayPayment): PaymentConfirmation | null {
+    if (payment.status !== 'captured' && payment.status !== 'failed') {
+      return null;
+    }
+
+    return {
+      event: payment.status === 'captured' ? 'payment.captured' : 'payment.failed',
+      orderId: payment.order_id,
+      paymentId: payment.id,
+      amount: payment.amount,
+      ...(payment.error_description && { failureReason: payment.error_description }),
+    };
+  }
+
+  // Checks the X-Razorpay-Signature header against the raw request body
+  static verifyWebhook(rawBody: Buffer, signature: string, webhookSecret: string): boolean {
+    return !!signature && safeEqual(hmac(webhookSecret, rawBody), signature);
+  }
+}
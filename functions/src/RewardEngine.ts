@@ -0,0 +1,228 @@
+import { FieldValue, Timestamp, Transaction as FirestoreTransaction } from 'firebase-admin/firestore';
+import { db, REWARD_COINS_PER_RUPEE } from './config';
+import { CoinEntryKind } from './types';
+import { LedgerTransaction, LedgerAccounts } from './Ledger';
+import { CoinOffset, DEFAULT_REWARD_CONFIG, RewardConfig, RewardRules } from './shared/RewardRules';
+
+export class RewardError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'RewardError';
+  }
+}
+
+interface CoinLot {
+  id: string;
+  remaining: number;
+}
+
+// Lots a user can spend from, oldest expiry first
+export interface CoinSpendState {
+  userId: string;
+  lots: CoinLot[];
+}
+
+type CoinRefs = { groupId?: string; orderId?: string };
+
+const coinEntries = () => db.collection('coin_entries');
+
+export class RewardEngine {
+  static getConfig(): RewardConfig {
+    return { ...DEFAULT_REWARD_CONFIG, coinsPerRupee: REWARD_COINS_PER_RUPEE.value() };
+  }
+
+  static coinsToRupees(coins: number): number {
+    return RewardRules.coinsToRupees(this.getConfig(), coins);
+  }
+
+  static offsetFor(amount: number, coins: number): CoinOffset {
+    return RewardRules.offsetFor(this.getConfig(), amount, coins);
+  }
+
+  // Reads the user's unexpired lots; must run before any writes in the
+  // transaction
+  static async loadSpend(transaction: FirestoreTransaction, userId: string): Promise<CoinSpendState> {
+    const snapshot = await transaction.get(coinEntries()
+      .where('userId', '==', userId)
+      .where('kind', '==', 'earn')
+      .where('remaining', '>', 0));
+
+    const now = new Date();
+    const lots = snapshot.docs
+      .map(lot => ({
+        id: lot.id,
+        remaining: lot.data().remaining as number,
+        expiresAt: (lot.data().expiresAt as Timestamp | undefined)?.toDate(),
+      }))
+      .filter(lot => !RewardRules.isExpired(lot.expiresAt, now))
+      .sort((a, b) => (a.expiresAt?.getTime() || Infinity) - (b.expiresAt?.getTime() || Infinity))
+      .map(({ id, remaining }) => ({ id, remaining }));
+
+    return { userId, lots };
+  }
+
+  static spendable(state: CoinSpendState): number {
+    return state.lots.reduce((sum, lot) => sum + lot.remaining, 0);
+  }
+
+  // Writes only; `state` must come from `loadSpend` in the same transaction
+  static spend(
+    transaction: FirestoreTransaction,
+    state: CoinSpendState,
+    coins: number,
+    kind: Extract<CoinEntryKind, 'redeem' | 'split_offset'>,
+    description: string,
+    refs: CoinRefs = {}
+  ) {
+    if (coins <= 0) return;
+    if (this.spendable(state) < coins) {
+      throw new RewardError('Not enough reward coins', 'INSUFFICIENT_COINS');
+    }
+
+    let outstanding = coins;
+    for (const lot of state.lots) {
+      if (outstanding === 0) break;
+      const used = Math.min(lot.remaining, outstanding);
+      lot.remaining -= used;
+      outstanding -= used;
+      transaction.update(coinEntries().doc(lot.id), { remaining: lot.remaining });
+    }
+
+    transaction.set(coinEntries().doc(), {
+      userId: state.userId,
+      kind,
+      coins: -coins,
+      description,
+      createdAt: FieldValue.serverTimestamp(),
+      ...refs,
+    });
+    transaction.update(db.collection('users').doc(state.userId), {
+      'wallet.rewardCoins': FieldValue.increment(-coins),
+    });
+  }
+
+  // Writes only; safe to call after other writes in the transaction
+  static award(
+    transaction: FirestoreTransaction,
+    userId: string,
+    coins: number,
+    description: string,
+    refs: CoinRefs = {}
+  ) {
+    if (coins <= 0) return;
+
+    this.createLot(transaction, userId, coins, description, refs);
+    transaction.update(db.collection('users').doc(userId), {
+      'wallet.rewardCoins': FieldValue.increment(coins),
+    });
+  }
+
+  private static createLot(
+    transaction: FirestoreTransaction,
+    userId: string,
+    coins: number,
+    description: string,
+    refs: CoinRefs = {}
+  ) {
+    const expiresAt = RewardRules.expiresAt(this.getConfig(), new Date());
+    transaction.set(coinEntries().doc(), {
+      userId,
+      kind: 'earn',
+      coins,
+      remaining: coins,
+      description,
+      expiresAt: Timestamp.fromDate(expiresAt),
+      createdAt: FieldValue.serverTimestamp(),
+      ...refs,
+    });
+  }
+
+  // Coins credited before the coin ledger existed have no lot to spend
+  // from; give them one so the wallet total and the lots agree
+  static async adoptUntrackedCoins(userId: string): Promise<number> {
+    return db.runTransaction(async (transaction) => {
+      const userDoc = await transaction.get(db.collection('users').doc(userId));
+      const state = await this.loadSpend(transaction, userId);
+
+      const untracked = (userDoc.data()?.wallet?.rewardCoins || 0) - this.spendable(state);
+      if (untracked <= 0) return 0;
+
+      this.createLot(transaction, userId, untracked, 'Existing reward coins');
+      return untracked;
+    });
+  }
+
+  static async redeem(userId: string, coins: number): Promise<number> {
+    const { minRedemptionCoins } = this.getConfig();
+    if (!Number.isInteger(coins) || coins < minRedemptionCoins) {
+      throw new RewardError(`You can redeem ${minRedemptionCoins} coins or more`, 'INVALID_AMOUNT');
+    }
+
+    const amount = this.coinsToRupees(coins);
+
+    await db.runTransaction(async (transaction) => {
+      const state = await this.loadSpend(transaction, userId);
+      const walletAccount = LedgerAccounts.userWallet(userId);
+      const ledger = new LedgerTransaction(transaction);
+      await ledger.load([LedgerAccounts.REWARDS, walletAccount]);
+
+      this.spend(transaction, state, coins, 'redeem', `Redeemed for ₹${amount}`);
+
+      // The rewards pool pays out the rupee value
+      const journalEntryId = ledger.post({
+        description: `Redeemed ${coins} reward coins`,
+        userId,
+        lines: [
+          { accountId: LedgerAccounts.REWARDS, amount: -amount },
+          { accountId: walletAccount, amount },
+        ],
+      });
+      ledger.commit();
+
+      transaction.set(db.collection('transactions').doc(), {
+        type: 'credit',
+        amount,
+        description: 'Reward coins redeemed',
+        timestamp: FieldValue.serverTimestamp(),
+        userId,
+        status: 'completed',
+        journalEntryId,
+      });
+    });
+
+    return amount;
+  }
+
+  // Lapses lots past their expiry date; returns the number of coins expired
+  static async expireCoins(userId: string): Promise<number> {
+    return db.runTransaction(async (transaction) => {
+      const lots = await transaction.get(coinEntries()
+        .where('userId', '==', userId)
+        .where('kind', '==', 'earn')
+        .where('expiresAt', '<=', Timestamp.now()));
+
+      let expired = 0;
+      lots.docs.forEach(lot => {
+        const remaining = lot.data().remaining || 0;
+        if (remaining <= 0) return;
+
+        expired += remaining;
+        transaction.update(lot.ref, { remaining: 0 });
+        transaction.set(coinEntries().doc(), {
+          userId,
+          kind: 'expire',
+          coins: -remaining,
+          description: 'Reward coins expired',
+          createdAt: FieldValue.serverTimestamp(),
+        });
+      });
+
+      if (expired > 0) {
+        transaction.update(db.collection('users').doc(userId), {
+          'wallet.rewardCoins': FieldValue.increment(-expired),
+        });
+      }
+      return expired;
+    });
+  }
+}
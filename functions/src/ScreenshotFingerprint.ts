@@ -0,0 +1,151 @@
+import { FieldValue, Transaction as FirestoreTransaction } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import sharp from 'sharp';
+import { db } from './config';
+import { ScreenshotMatch } from './types';
+
+export class FingerprintError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'FingerprintError';
+  }
+}
+
+// A difference hash: the screenshot is shrunk to 17x16 greys and each bit
+// says whether a pixel is darker than its right-hand neighbour. Re-saved,
+// resized or lightly edited copies of an image land within a few bits.
+const HASH_WIDTH = 16;
+const HASH_HEIGHT = 16;
+
+// Grey levels a pixel must be darker by to set its bit. Screenshots are
+// mostly flat colour, and recompression noise would otherwise flip the bits
+// of neighbours that are all but equal.
+const MIN_CONTRAST = 8;
+
+// Bits that may differ for two screenshots to count as the same image
+const REUSE_DISTANCE = 12;
+
+// The hash is split into bands for lookup. Two hashes within
+// REUSE_DISTANCE bits share at least BAND_COUNT - REUSE_DISTANCE bands.
+const BAND_COUNT = 16;
+const BAND_LENGTH = (HASH_WIDTH * HASH_HEIGHT) / 4 / BAND_COUNT; // Hex digits
+
+// Flat bands (white space around the content) turn up in most screenshots
+// and would crowd out real matches, so they aren't looked up
+const FLAT_BAND = /:(0+|f+)$/;
+
+const MAX_CANDIDATES = 100;
+
+// Nearly blank images hash alike whatever they show
+const MIN_SET_BITS = 24;
+
+// Screenshots are uploaded by the app to orders/{groupId}/
+const SCREENSHOT_PATH = /^orders\/([^/]+)\/[^/]+$/;
+
+const bitCount = (nibble: number) => {
+  let count = 0;
+  for (let n = nibble; n > 0; n >>= 1) count += n & 1;
+  return count;
+};
+
+export class ScreenshotFingerprint {
+  // The group the upload belongs to, or null for any other path
+  static groupOf(path: string): string | null {
+    return path.match(SCREENSHOT_PATH)?.[1] ?? null;
+  }
+
+  static async of(path: string): Promise<string> {
+    if (!this.groupOf(path)) {
+      throw new FingerprintError('Screenshot was not uploaded for an order', 'INVALID_SCREENSHOT_PATH');
+    }
+
+    const file = getStorage().bucket().file(path);
+    const [exists] = await file.exists();
+    if (!exists) {
+      throw new FingerprintError('Screenshot upload not found', 'SCREENSHOT_NOT_FOUND');
+    }
+    const [contents] = await file.download();
+
+    let pixels: Buffer;
+    try {
+      pixels = await sharp(contents)
+        .grayscale()
+        .resize(HASH_WIDTH + 1, HASH_HEIGHT, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+    } catch (error) {
+      throw new FingerprintError('Screenshot is not a readable image', 'INVALID_SCREENSHOT');
+    }
+
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      for (let x = 0; x < HASH_WIDTH; x += 4) {
+        let nibble = 0;
+        for (let bit = 0; bit < 4; bit++) {
+          const index = y * (HASH_WIDTH + 1) + x + bit;
+          nibble = (nibble << 1) | (pixels[index] + MIN_CONTRAST < pixels[index + 1] ? 1 : 0);
+        }
+        hash += nibble.toString(16);
+      }
+    }
+    return hash;
+  }
+
+  static distance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+      distance += bitCount(parseInt(a[i], 16) ^ parseInt(b[i], 16));
+    }
+    return distance;
+  }
+
+  static bandsOf(hash: string): string[] {
+    return Array.from({ length: BAND_COUNT }, (_, band) =>
+      `${band}:${hash.slice(band * BAND_LENGTH, (band + 1) * BAND_LENGTH)}`);
+  }
+
+  // Earlier orders whose screenshot looks like this one. Reads only, so it
+  // can run before the transaction's writes.
+  static async findMatches(
+    transaction: FirestoreTransaction,
+    hash: string,
+    orderId: string
+  ): Promise<ScreenshotMatch[]> {
+    const setBits = Array.from(hash).reduce((count, digit) => count + bitCount(parseInt(digit, 16)), 0);
+    if (setBits < MIN_SET_BITS) return [];
+
+    const bands = this.bandsOf(hash).filter(band => !FLAT_BAND.test(band));
+    if (bands.length === 0) return [];
+
+    const candidates = await transaction.get(db.collection('screenshot_hashes')
+      .where('bands', 'array-contains-any', bands)
+      .limit(MAX_CANDIDATES));
+
+    return candidates.docs
+      .filter(doc => doc.id !== orderId)
+      .map(doc => ({
+        orderId: doc.id,
+        groupId: doc.data().groupId as string,
+        leaderId: doc.data().leaderId as string,
+        distance: this.distance(hash, doc.data().hash),
+      }))
+      .filter(match => match.distance <= REUSE_DISTANCE)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  // One per order, kept so later uploads are checked against it
+  static record(
+    transaction: FirestoreTransaction,
+    hash: string,
+    order: { orderId: string; groupId: string; leaderId: string; path: string }
+  ): void {
+    transaction.set(db.collection('screenshot_hashes').doc(order.orderId), {
+      hash,
+      bands: this.bandsOf(hash),
+      groupId: order.groupId,
+      leaderId: order.leaderId,
+      path: order.path,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from './config';
+import { LedgerTransaction, LedgerAccounts, LedgerError } from './Ledger';
+import { Money } from './shared/Money';
+
+const MIN_TRANSACTION_AMOUNT = 1;
+const MAX_TRANSACTION_AMOUNT = 10000;
+const MAX_DAILY_TRANSACTION_LIMIT = 50000;
+
+export class WalletError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'WalletError';
+  }
+}
+
+export class WalletManager {
+  static validateAmount(amount: number) {
+    if (typeof amount !== 'number' || isNaN(amount) || amount <= 0) {
+      throw new WalletError('Invalid transaction amount', 'INVALID_AMOUNT');
+    }
+    if (!Money.isExact(amount)) {
+      throw new WalletError('Amount can\'t have fractions of a paisa', 'INVALID_AMOUNT');
+    }
+    if (amount < MIN_TRANSACTION_AMOUNT) {
+      throw new WalletError(`Minimum transaction amount is ₹${MIN_TRANSACTION_AMOUNT}`, 'INVALID_AMOUNT');
+    }
+    if (amount > MAX_TRANSACTION_AMOUNT) {
+      throw new WalletError(`Maximum transaction amount is ₹${MAX_TRANSACTION_AMOUNT}`, 'INVALID_AMOUNT');
+    }
+  }
+
+  static async checkDailyLimit(userId: string, amount: number) {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const snapshot = await db.collection('transactions')
+      .where('userId', '==', userId)
+      .where('timestamp', '>=', today)
+      .where('type', 'in', ['credit', 'debit', 'transfer_out', 'withdrawal'])
+      .get();
+
+    const dailyTotal = snapshot.docs.reduce((sum, doc) => {
+      const data = doc.data();
+      // A withdrawal records every status change; count it once
+      if (data.type === 'withdrawal' && data.payoutStatus !== 'requested') {
+        return sum;
+      }
+      return sum + (data.amount || 0);
+    }, 0);
+
+    if (dailyTotal + amount > MAX_DAILY_TRANSACTION_LIMIT) {
+      throw new WalletError(`Daily transaction limit of ₹${MAX_DAILY_TRANSACTION_LIMIT} exceeded`, 'DAILY_LIMIT_EXCEEDED');
+    }
+  }
+
+  static async transfer(fromUserId: string, toUserId: string, amount: number, description: string) {
+    if (fromUserId === toUserId) {
+      throw new WalletError('Cannot transfer money to yourself', 'INVALID_RECIPIENT');
+    }
+    this.validateAmount(amount);
+    await this.checkDailyLimit(fromUserId, amount);
+
+    await db.runTransaction(async (transaction) => {
+      const recipientDoc = await transaction.get(db.collection('users').doc(toUserId));
+      if (!recipientDoc.exists) {
+        throw new WalletError('Recipient not found', 'RECIPIENT_NOT_FOUND');
+      }
+
+      const senderAccount = LedgerAccounts.userWallet(fromUserId);
+      const recipientAccount = LedgerAccounts.userWallet(toUserId);
+      const ledger = new LedgerTransaction(transaction);
+      await ledger.load([senderAccount, recipientAccount]);
+
+      let journalEntryId: string;
+      try {
+        journalEntryId = ledger.post({
+          description,
+          userId: fromUserId,
+          lines: [
+            { accountId: senderAccount, amount: -amount },
+            { accountId: recipientAccount, amount },
+          ],
+        });
+      } catch (error) {
+        if (error instanceof LedgerError && error.code === 'INSUFFICIENT_BALANCE') {
+          throw new WalletError('Insufficient available balance', 'INSUFFICIENT_BALANCE');
+        }
+        throw error;
+      }
+      ledger.commit();
+
+      // Sender's transaction
+      transaction.set(db.collection('transactions').doc(), {
+        type: 'transfer_out',
+        amount,
+        description,
+        timestamp: FieldValue.serverTimestamp(),
+        userId: fromUserId,
+        toUserId,
+        status: 'completed',
+        journalEntryId,
+      });
+
+      // Recipient's transaction
+      transaction.set(db.collection('transactions').doc(), {
+        type: 'transfer_in',
+        amount,
+        description,
+        timestamp: FieldValue.serverTimestamp(),
+        userId: toUserId,
+        fromUserId,
+        status: 'completed',
+        journalEntryId,
+      });
+    });
+  }
+}
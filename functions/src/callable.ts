@@ -0,0 +1,80 @@
+import { onCall, CallableOptions, CallableRequest, HttpsError } from 'firebase-functions/v2/https';
+import { logger } from 'firebase-functions/v2';
+import { LedgerError } from './Ledger';
+import { EscrowError } from './EscrowManager';
+import { CollateralError } from './CollateralManager';
+import { RewardError } from './RewardEngine';
+import { PaymentGatewayError } from './PaymentGateway';
+import { PayoutError } from './PayoutAdapter';
+import { WalletError } from './WalletManager';
+import { GroupError } from './GroupManager';
+import { ElectionError } from './LeaderElection';
+import { AccessError } from './GroupAccess';
+import { OrderProcessingError } from './OrderProcessor';
+import { LifecycleError } from './GroupLifecycle';
+import { SplitError } from './shared/SplitStrategies';
+import { MoneyError } from './shared/Money';
+
+// Errors that describe a business rule; their message is safe to show and
+// their code reaches the app in the error details
+const DOMAIN_ERRORS = [
+  LedgerError,
+  EscrowError,
+  CollateralError,
+  RewardError,
+  PaymentGatewayError,
+  PayoutError,
+  WalletError,
+  GroupError,
+  ElectionError,
+  AccessError,
+  OrderProcessingError,
+  LifecycleError,
+  SplitError,
+  MoneyError,
+];
+
+type Handler<Request, Response> = (
+  userId: string,
+  data: Request,
+  request: CallableRequest<Request>
+) => Promise<Response>;
+
+// Every endpoint acts for the signed-in user, never for a user id sent by
+// the app
+export const authedCall = <Request, Response>(
+  handler: Handler<Request, Response>,
+  options: CallableOptions = {}
+) => onCall<Request, Promise<Response>>(options, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'You must be logged in');
+  }
+
+  try {
+    return await handler(request.auth.uid, request.data || ({} as Request), request);
+  } catch (error) {
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    if (DOMAIN_ERRORS.some(ErrorClass => error instanceof ErrorClass)) {
+      const { message, code } = error as Error & { code: string };
+      throw new HttpsError('failed-precondition', message, { code });
+    }
+    logger.error('Callable failed', error);
+    throw new HttpsError('internal', 'Something went wrong, please try again');
+  }
+});
+
+export const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpsError('invalid-argument', `${field} is required`);
+  }
+  return value;
+};
+
+export const requireNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || isNaN(value)) {
+    throw new HttpsError('invalid-argument', `${field} must be a number`);
+  }
+  return value;
+};
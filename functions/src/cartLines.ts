@@ -0,0 +1,15 @@
+import { CartLine } from './types';
+import { Money } from './shared/Money';
+
+const lineTotal = (line: CartLine) =>
+  (Number.isFinite(line.quantity) && Number.isFinite(line.unitMRP) && line.quantity > 0 && line.unitMRP > 0
+    ? Money.of(line.quantity * line.unitMRP)
+    : Money.ZERO);
+
+// Carts and order items are written by the app, so their total is worked
+// out again from the lines rather than trusting `itemMRP`. Items saved
+// before lines were added only have `itemMRP`.
+export const itemMRPOf = (entry: { itemMRP?: number; lines?: CartLine[] }): number =>
+  (Array.isArray(entry.lines) && entry.lines.length > 0
+    ? Money.sum(entry.lines.map(lineTotal)).toRupees()
+    : entry.itemMRP || 0);
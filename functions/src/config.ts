@@ -0,0 +1,30 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { setGlobalOptions } from 'firebase-functions/v2';
+import { defineInt, defineSecret, defineString } from 'firebase-functions/params';
+
+initializeApp();
+
+export const db = getFirestore();
+
+// Close to the users; the app's functions client must use the same region
+export const REGION = 'asia-south1';
+setGlobalOptions({ region: REGION });
+
+// `mock` is only honoured by the emulator, so a misconfigured deploy can't
+// credit wallets without a real payment
+export const PAYMENT_GATEWAY = defineString('PAYMENT_GATEWAY', { default: 'mock' });
+export const RAZORPAY_KEY_ID = defineString('RAZORPAY_KEY_ID', { default: '' });
+export const RAZORPAY_KEY_SECRET = defineSecret('RAZORPAY_KEY_SECRET');
+export const RAZORPAY_WEBHOOK_SECRET = defineSecret('RAZORPAY_WEBHOOK_SECRET');
+
+// How long a group may sit in each stage before it is cancelled
+export const GATHERING_DEADLINE_HOURS = defineInt('GATHERING_DEADLINE_HOURS', { default: 24 });
+export const SCREENSHOT_DEADLINE_HOURS = defineInt('SCREENSHOT_DEADLINE_HOURS', { default: 2 });
+export const APPROVAL_DEADLINE_HOURS = defineInt('APPROVAL_DEADLINE_HOURS', { default: 4 });
+export const DELIVERY_DEADLINE_HOURS = defineInt('DELIVERY_DEADLINE_HOURS', { default: 6 });
+
+// Reward coins per rupee, for earning, redeeming and split offsets alike
+export const REWARD_COINS_PER_RUPEE = defineInt('REWARD_COINS_PER_RUPEE', { default: 10 });
+
+export const isEmulator = () => process.env.FUNCTIONS_EMULATOR === 'true';
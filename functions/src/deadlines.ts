@@ -0,0 +1,22 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import {
+  GATHERING_DEADLINE_HOURS,
+  SCREENSHOT_DEADLINE_HOURS,
+  APPROVAL_DEADLINE_HOURS,
+  DELIVERY_DEADLINE_HOURS,
+} from './config';
+import { DeadlineKind } from './types';
+
+const HOURS: Record<DeadlineKind, { value: () => number }> = {
+  gathering: GATHERING_DEADLINE_HOURS,
+  screenshot: SCREENSHOT_DEADLINE_HOURS,
+  approval: APPROVAL_DEADLINE_HOURS,
+  delivery: DELIVERY_DEADLINE_HOURS,
+};
+
+// Stored on the group as `deadline`; the expireDeadlines job cancels groups
+// whose deadline has passed
+export const deadlineFor = (kind: DeadlineKind) => ({
+  kind,
+  at: Timestamp.fromMillis(Date.now() + HOURS[kind].value() * 60 * 60 * 1000),
+});
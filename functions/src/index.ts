@@ -0,0 +1,368 @@
+import { onRequest, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import { onDocumentWritten, onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { logger } from 'firebase-functions/v2';
+import { RAZORPAY_KEY_SECRET, RAZORPAY_WEBHOOK_SECRET } from './config';
+import { authedCall, requireString, requireNumber } from './callable';
+import { WalletManager } from './WalletManager';
+import { PaymentHandler, TopUpConfirmation } from './PaymentHandler';
+import { RazorpayGateway } from './RazorpayGateway';
+import { CheckoutResult, GatewayOrder } from './PaymentGateway';
+import { PayoutManager } from './PayoutManager';
+import { DestinationInput } from './PayoutAdapter';
+import { RewardEngine } from './RewardEngine';
+import { GroupManager, GroupInput, LeaveResult } from './GroupManager';
+import { LeaderElection } from './LeaderElection';
+import { GroupAccess, InviteInput, CreatedInvite, InvitePreview } from './GroupAccess';
+import { OrderProcessor, DisputeInput } from './OrderProcessor';
+import { FundingTracker } from './FundingTracker';
+import { SplitStrategies } from './shared/SplitStrategies';
+import { ScreenshotVerifier } from './shared/ScreenshotVerifier';
+import { RewardConfig } from './shared/RewardRules';
+import { DeadlineManager } from './DeadlineManager';
+import { LeaderPollStatus, OrderSplit, ParsedReceipt, Payout, PayoutDestination, SplitOptions } from './types';
+
+// Every balance change happens here. The app can read wallets and ledgers
+// but firestore.rules keep it from writing them.
+
+// Top-ups
+
+export const createTopUpOrder = authedCall<{ amount: number; description?: string }, GatewayOrder>(
+  async (userId, data) => {
+    const amount = requireNumber(data.amount, 'amount');
+    WalletManager.validateAmount(amount);
+    await WalletManager.checkDailyLimit(userId, amount);
+    return PaymentHandler.createTopUpOrder(userId, amount, data.description || 'Added money to wallet');
+  },
+  { secrets: [RAZORPAY_KEY_SECRET] }
+);
+
+export const confirmTopUp = authedCall<CheckoutResult, TopUpConfirmation>(
+  async (userId, data) => PaymentHandler.confirmTopUp(userId, {
+    orderId: requireString(data.orderId, 'orderId'),
+    paymentId: requireString(data.paymentId, 'paymentId'),
+    signature: requireString(data.signature, 'signature'),
+  }),
+  { secrets: [RAZORPAY_KEY_SECRET] }
+);
+
+export const cancelTopUp = authedCall<{ orderId: string; cancelled?: boolean; reason?: string }, void>(
+  async (userId, data) => PaymentHandler.cancelTopUp(
+    userId,
+    requireString(data.orderId, 'orderId'),
+    !!data.cancelled,
+    data.reason || 'Payment failed'
+  )
+);
+
+// Razorpay's payment webhook settles top-ups the app never confirmed (e.g.
+// the app was closed during checkout)
+export const razorpayWebhook = onRequest({ secrets: [RAZORPAY_WEBHOOK_SECRET] }, async (req, res) => {
+  const signature = req.get('x-razorpay-signature') || '';
+  if (!RazorpayGateway.verifyWebhook(req.rawBody, signature, RAZORPAY_WEBHOOK_SECRET.value())) {
+    res.status(401).send('Invalid signature');
+    return;
+  }
+
+  const payment = req.body?.payload?.payment?.entity;
+  const confirmation = payment && RazorpayGateway.toConfirmation(payment);
+  if (confirmation) {
+    try {
+      await PaymentHandler.handleConfirmation(confirmation);
+    } catch (error) {
+      logger.error('Failed to apply Razorpay webhook', error);
+      res.status(500).send('Failed to apply payment');
+      return;
+    }
+  }
+  res.status(200).send('OK');
+});
+
+// Transfers
+
+export const transferMoney = authedCall<{ toUserId: string; amount: number; description: string }, void>(
+  async (userId, data) => WalletManager.transfer(
+    userId,
+    requireString(data.toUserId, 'toUserId'),
+    requireNumber(data.amount, 'amount'),
+    requireString(data.description, 'description')
+  )
+);
+
+// Reward coins
+
+export const redeemCoins = authedCall<{ coins: number }, { amount: number }>(
+  async (userId, data) => ({
+    amount: await RewardEngine.redeem(userId, requireNumber(data.coins, 'coins')),
+  })
+);
+
+// Also returns the reward config, so the app shows the deployed rate
+export const syncRewardCoins = authedCall<
+  Record<string, never>,
+  { expired: number; adopted: number; config: RewardConfig }
+>(
+  async (userId) => {
+    const expired = await RewardEngine.expireCoins(userId);
+    const adopted = await RewardEngine.adoptUntrackedCoins(userId);
+    return { expired, adopted, config: RewardEngine.getConfig() };
+  }
+);
+
+// Withdrawals
+
+export const addPayoutDestination = authedCall<DestinationInput, PayoutDestination>(
+  async (userId, data) => PayoutManager.addDestination(userId, data)
+);
+
+export const verifyPayoutDestination = authedCall<{ destinationId: string }, PayoutDestination>(
+  async (userId, data) => PayoutManager.verifyDestination(userId, requireString(data.destinationId, 'destinationId'))
+);
+
+export const requestPayout = authedCall<{ destinationId: string; amount: number }, Payout>(
+  async (userId, data) => {
+    const amount = requireNumber(data.amount, 'amount');
+    WalletManager.validateAmount(amount);
+    await WalletManager.checkDailyLimit(userId, amount);
+    return PayoutManager.requestPayout(userId, requireString(data.destinationId, 'destinationId'), amount);
+  }
+);
+
+export const syncPayout = authedCall<{ payoutId: string }, Payout>(
+  async (userId, data) => PayoutManager.syncPayout(userId, requireString(data.payoutId, 'payoutId'))
+);
+
+// Group membership (collateral)
+
+export const createGroup = authedCall<GroupInput, { groupId: string }>(
+  async (userId, data) => ({ groupId: await GroupManager.createGroup(userId, data) })
+);
+
+// Shown in the group's join and leave messages
+const memberName = (request: CallableRequest) =>
+  request.auth?.token.name || request.auth?.token.phone_number;
+
+// Private groups need an invite code
+export const joinGroup = authedCall<{ groupId: string; inviteCode?: string }, void>(
+  async (userId, data, request) => (data.inviteCode
+    ? GroupAccess.joinWithInvite(
+      userId,
+      requireString(data.groupId, 'groupId'),
+      requireString(data.inviteCode, 'inviteCode'),
+      memberName(request)
+    )
+    : GroupManager.joinGroup(
+      userId,
+      requireString(data.groupId, 'groupId'),
+      memberName(request)
+    ))
+);
+
+export const leaveGroup = authedCall<{ groupId: string }, LeaveResult>(
+  async (userId, data, request) => GroupManager.leaveGroup(
+    userId,
+    requireString(data.groupId, 'groupId'),
+    memberName(request)
+  )
+);
+
+// Invites and join requests
+
+export const createInvite = authedCall<{ groupId: string } & InviteInput, CreatedInvite>(
+  async (userId, data) => GroupAccess.createInvite(userId, requireString(data.groupId, 'groupId'), {
+    maxUses: data.maxUses,
+    expiresInHours: data.expiresInHours,
+  })
+);
+
+export const revokeInvite = authedCall<{ groupId: string; code: string }, void>(
+  async (userId, data) => GroupAccess.revokeInvite(
+    userId,
+    requireString(data.groupId, 'groupId'),
+    requireString(data.code, 'code')
+  )
+);
+
+export const previewInvite = authedCall<{ groupId: string; code: string }, InvitePreview>(
+  async (userId, data) => GroupAccess.previewInvite(
+    requireString(data.groupId, 'groupId'),
+    requireString(data.code, 'code')
+  )
+);
+
+export const requestToJoin = authedCall<{ groupId: string }, void>(
+  async (userId, data, request) => GroupAccess.requestToJoin(
+    userId,
+    requireString(data.groupId, 'groupId'),
+    memberName(request)
+  )
+);
+
+export const decideJoinRequest = authedCall<{ groupId: string; userId: string; approve: boolean }, void>(
+  async (userId, data) => GroupAccess.decideJoinRequest(
+    userId,
+    requireString(data.groupId, 'groupId'),
+    requireString(data.userId, 'userId'),
+    !!data.approve
+  )
+);
+
+// Leadership
+
+export const handOffLeadership = authedCall<{ groupId: string; newLeaderId: string }, void>(
+  async (userId, data) => GroupManager.handOffLeadership(
+    userId,
+    requireString(data.groupId, 'groupId'),
+    requireString(data.newLeaderId, 'newLeaderId')
+  )
+);
+
+export const nominateLeader = authedCall<{ groupId: string; candidateId: string }, { pollId: string }>(
+  async (userId, data, request) => ({
+    pollId: await LeaderElection.nominate(
+      userId,
+      requireString(data.groupId, 'groupId'),
+      requireString(data.candidateId, 'candidateId'),
+      memberName(request)
+    ),
+  })
+);
+
+export const voteForLeader = authedCall<
+  { groupId: string; pollId: string; candidateId: string },
+  { status: LeaderPollStatus }
+>(
+  async (userId, data) => ({
+    status: await LeaderElection.vote(
+      userId,
+      requireString(data.groupId, 'groupId'),
+      requireString(data.pollId, 'pollId'),
+      requireString(data.candidateId, 'candidateId')
+    ),
+  })
+);
+
+// Keeps groups discoverable by geohash after their location changes
+export const onGroupWritten = onDocumentWritten('groups/{groupId}', async (event) =>
+  GroupManager.syncDiscovery(event.params.groupId, event.data?.after.data())
+);
+
+// Funding progress
+
+export const onCartWritten = onDocumentWritten('groups/{groupId}/carts/{userId}', async (event) =>
+  FundingTracker.recompute(event.params.groupId)
+);
+
+// Members can still change their items while the order is pending
+export const onOrderUpdated = onDocumentUpdated('orders/{orderId}', async (event) => {
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (after && FundingTracker.itemsTotal(before?.items) !== FundingTracker.itemsTotal(after.items)) {
+    await FundingTracker.recompute(after.groupId);
+  }
+});
+
+// Orders (splits, escrow and settlement). Status changes go through
+// GroupLifecycle.
+
+export const startOrder = authedCall<{ groupId: string }, { orderId: string }>(
+  async (userId, data) => ({
+    orderId: await OrderProcessor.startOrder(requireString(data.groupId, 'groupId'), userId),
+  })
+);
+
+export const submitSplit = authedCall<
+  {
+    orderId: string;
+    totalTax: number;
+    totalFees?: number;
+    totalDiscount: number;
+    splitOptions?: SplitOptions;
+    screenshot: string;
+    screenshotPath: string; // Storage path of the upload, hashed to catch reused screenshots
+    receipt?: ParsedReceipt; // Read from the screenshot on the leader's phone
+  },
+  OrderSplit[]
+>(
+  async (userId, data) => OrderProcessor.submitSplit(
+    requireString(data.orderId, 'orderId'),
+    userId,
+    {
+      tax: requireNumber(data.totalTax, 'totalTax'),
+      fees: data.totalFees === undefined ? 0 : requireNumber(data.totalFees, 'totalFees'),
+      discount: requireNumber(data.totalDiscount, 'totalDiscount'),
+    },
+    SplitStrategies.parseOptions(data.splitOptions),
+    requireString(data.screenshot, 'screenshot'),
+    requireString(data.screenshotPath, 'screenshotPath'),
+    ScreenshotVerifier.sanitize(data.receipt)
+  )
+);
+
+export const approveSplit = authedCall<{ orderId: string }, { locked: boolean }>(
+  async (userId, data) => ({
+    locked: await OrderProcessor.approveSplit(requireString(data.orderId, 'orderId'), userId),
+  })
+);
+
+export const confirmReceipt = authedCall<{ orderId: string }, void>(
+  async (userId, data) => OrderProcessor.confirmReceipt(requireString(data.orderId, 'orderId'), userId)
+);
+
+export const processNoShow = authedCall<{ orderId: string; userId: string }, void>(
+  async (userId, data) => {
+    await OrderProcessor.processNoShow(
+      requireString(data.orderId, 'orderId'),
+      requireString(data.userId, 'userId'),
+      userId
+    );
+  }
+);
+
+export const completeOrder = authedCall<{ orderId: string }, void>(
+  async (userId, data) => {
+    await OrderProcessor.processOrderCompletion(requireString(data.orderId, 'orderId'), userId);
+  }
+);
+
+export const cancelOrder = authedCall<{ orderId: string }, void>(
+  async (userId, data) => OrderProcessor.cancelOrder(requireString(data.orderId, 'orderId'), userId)
+);
+
+export const openDispute = authedCall<{ orderId: string } & DisputeInput, { disputeId: string }>(
+  async (userId, data) => ({
+    disputeId: await OrderProcessor.openDispute(requireString(data.orderId, 'orderId'), userId, {
+      type: data.type,
+      description: requireString(data.description, 'description'),
+      evidence: typeof data.evidence === 'string' ? data.evidence : null,
+    }),
+  })
+);
+
+// Cancels groups whose gathering, screenshot or handover deadline passed
+export const expireDeadlines = onSchedule('every 15 minutes', async () => {
+  const expired = await DeadlineManager.expireDue();
+  if (expired > 0) {
+    logger.info('Expired group deadlines', { expired });
+  }
+});
+
+// Disputes are decided by support staff, who carry the `admin` claim
+export const resolveDispute = authedCall<{ disputeId: string; upheld: boolean }, void>(
+  async (userId, data, request) => {
+    if (request.auth?.token.admin !== true) {
+      throw new HttpsError('permission-denied', 'Only support staff can resolve disputes');
+    }
+    await OrderProcessor.resolveDispute(requireString(data.disputeId, 'disputeId'), !!data.upheld, userId);
+  }
+);
+
+// Reused screenshots wait in the fraud review queue for the same staff
+export const resolveFraudReview = authedCall<{ orderId: string; confirmed: boolean }, void>(
+  async (userId, data, request) => {
+    if (request.auth?.token.admin !== true) {
+      throw new HttpsError('permission-denied', 'Only support staff can resolve fraud reviews');
+    }
+    await OrderProcessor.resolveFraudReview(requireString(data.orderId, 'orderId'), !!data.confirmed, userId);
+  }
+);
@@ -0,0 +1,8 @@
+// Delivery platforms a group can order from; the app's catalog, with names
+// and free-delivery thresholds, is src/config/platforms.ts
+export const PLATFORM_IDS = ['blinkit', 'instamart', 'swiggymart', 'other'] as const;
+
+export type PlatformId = typeof PLATFORM_IDS[number];
+
+export const isPlatformId = (value: unknown): value is PlatformId =>
+  typeof value === 'string' && (PLATFORM_IDS as readonly string[]).includes(value);
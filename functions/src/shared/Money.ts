@@ -0,0 +1,122 @@
+export class MoneyError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'MoneyError';
+  }
+}
+
+// An amount in whole paise. Documents and callables still carry rupees, so
+// amounts are converted with Money.of() on the way in and toRupees() on the
+// way out; everything in between is integer arithmetic and can't drift.
+export class Money {
+  static readonly ZERO = new Money(0);
+
+  private constructor(readonly paise: number) {}
+
+  // Rounds to the nearest paisa
+  static of(rupees: number): Money {
+    if (typeof rupees !== 'number' || !isFinite(rupees)) {
+      throw new MoneyError('Amount must be a number', 'INVALID_AMOUNT');
+    }
+    return new Money(Math.round(rupees * 100));
+  }
+
+  static fromPaise(paise: number): Money {
+    if (!Number.isInteger(paise)) {
+      throw new MoneyError('Paise must be a whole number', 'INVALID_AMOUNT');
+    }
+    return new Money(paise);
+  }
+
+  // True when the rupee amount has no fraction of a paisa
+  static isExact(rupees: number): boolean {
+    return isFinite(rupees) && Math.abs(rupees * 100 - Math.round(rupees * 100)) < 1e-6;
+  }
+
+  static sum(amounts: Money[]): Money {
+    return new Money(amounts.reduce((total, amount) => total + amount.paise, 0));
+  }
+
+  add(other: Money): Money {
+    return new Money(this.paise + other.paise);
+  }
+
+  subtract(other: Money): Money {
+    return new Money(this.paise - other.paise);
+  }
+
+  max(other: Money): Money {
+    return this.paise >= other.paise ? this : other;
+  }
+
+  isZero(): boolean {
+    return this.paise === 0;
+  }
+
+  isNegative(): boolean {
+    return this.paise < 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.paise < other.paise;
+  }
+
+  // `percentage` of this amount, rounded to the nearest paisa
+  percent(percentage: number): Money {
+    return new Money(Math.round((this.paise * percentage) / 100));
+  }
+
+  // Splits off `percentage` and returns it with what is left; the two
+  // always add back up to this amount
+  splitPercent(percentage: number): [Money, Money] {
+    const part = this.percent(percentage);
+    return [part, this.subtract(part)];
+  }
+
+  // Shares in proportion to `weights`. Each share is rounded down and the
+  // paise left over go to the shares that lost the most (largest
+  // remainder), so the shares always add up to this amount.
+  allocate(weights: number[]): Money[] {
+    if (this.paise === 0) return weights.map(() => Money.ZERO);
+    if (this.paise < 0) {
+      return this.negate().allocate(weights).map(share => share.negate());
+    }
+    if (weights.some(weight => weight < 0)) {
+      throw new MoneyError('Weights can\'t be negative', 'INVALID_WEIGHTS');
+    }
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+    if (weightSum <= 0) {
+      throw new MoneyError('Nothing to allocate the amount to', 'INVALID_WEIGHTS');
+    }
+
+    const exact = weights.map(weight => (this.paise * weight) / weightSum);
+    const parts = exact.map(Math.floor);
+    let remainder = this.paise - parts.reduce((sum, part) => sum + part, 0);
+    exact
+      .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+      .sort((a, b) => b.fraction - a.fraction || a.index - b.index)
+      .forEach(({ index }) => {
+        if (remainder > 0) {
+          parts[index] += 1;
+          remainder -= 1;
+        }
+      });
+    return parts.map(part => new Money(part));
+  }
+
+  negate(): Money {
+    return new Money(-this.paise);
+  }
+
+  equals(other: Money): boolean {
+    return this.paise === other.paise;
+  }
+
+  toRupees(): number {
+    return this.paise / 100;
+  }
+
+  toString(): string {
+    return (this.paise / 100).toFixed(2);
+  }
+}
@@ -0,0 +1,115 @@
+import { PlatformId } from '../platforms';
+import { ParsedReceipt, ReceiptLine } from '../types';
+import { Money } from './Money';
+
+type SummaryField = 'subtotal' | 'tax' | 'fees' | 'discount' | 'grandTotal';
+
+// Labels of the bill summary rows. Grand total is tried first since most of
+// the other labels also contain "total".
+const SUMMARY_LABELS: [SummaryField, RegExp][] = [
+  ['grandTotal', /grand\s*total|to\s*pay|bill\s*total|total\s*(paid|payable|amount)|order\s*total|amount\s*paid/i],
+  ['subtotal', /item\s*total|sub\s*-?\s*total|items?\s*mrp|mrp\s*total|cart\s*total/i],
+  ['tax', /\btax(es)?\b|\bgst\b|\bcess\b/i],
+  ['fees', /delivery|handling|platform\s*fee|small\s*cart|surge|packaging|convenience|late\s*night|rain\s*fee/i],
+  ['discount', /discount|coupon|offer|promo|cashback/i],
+];
+
+// The same rows under the names a platform uses that the generic labels miss
+const PLATFORM_LABELS: Partial<Record<PlatformId, [SummaryField, RegExp][]>> = {
+  blinkit: [['fees', /feeding\s*india|tip/i]],
+  instamart: [['grandTotal', /paid\s*via/i], ['fees', /restaurant\s*charges|tip/i]],
+  swiggymart: [['grandTotal', /paid\s*via/i], ['fees', /tip/i]],
+};
+
+// OCR often misreads ₹, so an amount with paise counts even without it
+const AMOUNT = /(-)?\s*(?:₹|rs\.?|inr)\s*([\d,]+(?:\.\d{1,2})?)|(-)?\b(\d{1,3}(?:,\d{3})*\.\d{2}|\d+\.\d{2})\b/gi;
+const FREE = /\bfree\b/i;
+const QUANTITY = /^(\d{1,2})\s*[x×*]\s*|\s*[x×*]\s*(\d{1,2})$|\bqty:?\s*(\d{1,2})\b/i;
+const NOISE = /order\s*(id|#)|invoice|gstin|fssai|delivered|arriving|placed\s*on/i;
+
+const amountsIn = (text: string): number[] => {
+  const amounts: number[] = [];
+  for (const match of Array.from(text.matchAll(AMOUNT))) {
+    const digits = (match[2] || match[4]).replace(/,/g, '');
+    const value = parseFloat(digits);
+    if (!isNaN(value)) amounts.push(match[1] || match[3] ? -value : value);
+  }
+  return amounts;
+};
+
+const labelOf = (text: string) => text.replace(AMOUNT, '').replace(/[:\-–]+\s*$/, '').trim();
+
+const summaryField = (text: string, platform?: PlatformId): SummaryField | null => {
+  const labels = [...(platform ? PLATFORM_LABELS[platform] || [] : []), ...SUMMARY_LABELS];
+  const found = labels.find(([, pattern]) => pattern.test(text));
+  return found ? found[0] : null;
+};
+
+const parseItem = (text: string, amounts: number[]): ReceiptLine | null => {
+  // A struck-through MRP is read next to the selling price; carts are in
+  // MRP, so the larger one is kept
+  const amount = Math.max(...amounts.map(Math.abs));
+  let name = labelOf(text);
+  let quantity = 1;
+  const quantityMatch = name.match(QUANTITY);
+  if (quantityMatch) {
+    quantity = parseInt(quantityMatch[1] || quantityMatch[2] || quantityMatch[3], 10);
+    name = name.replace(QUANTITY, '').trim();
+  }
+  if (name.length < 3 || !/[a-z]/i.test(name)) return null;
+  return { name, quantity, amount };
+};
+
+export class ReceiptParser {
+  // `rows` are the screenshot's text rows, top to bottom, with each row's
+  // text in reading order (see rowsOf in ScreenshotReader.ts)
+  static parse(rows: string[], platform?: PlatformId): ParsedReceipt {
+    const items: ReceiptLine[] = [];
+    const totals: { [field in SummaryField]?: Money } = {};
+    let inSummary = false;
+
+    rows.forEach((row, index) => {
+      const text = row.trim();
+      if (!text || NOISE.test(text)) return;
+
+      let amounts = amountsIn(text);
+      const field = summaryField(text, platform);
+
+      // Labels and amounts sometimes end up on separate rows
+      if (field && amounts.length === 0 && !FREE.test(text)) {
+        const next = rows[index + 1]?.trim() || '';
+        if (next && !labelOf(next)) amounts = amountsIn(next);
+      }
+
+      if (field) {
+        inSummary = true;
+        const amount = FREE.test(text) && amounts.length === 0 ? 0 : amounts[amounts.length - 1];
+        if (amount === undefined) return;
+        const value = Money.of(Math.abs(amount));
+        // Several fee and discount rows add up; a total is read once
+        if (field === 'fees' || field === 'discount') {
+          totals[field] = (totals[field] || Money.ZERO).add(value);
+        } else if (!totals[field]) {
+          totals[field] = value;
+        }
+        return;
+      }
+
+      if (!inSummary && amounts.length > 0) {
+        const item = parseItem(text, amounts);
+        if (item) items.push(item);
+      }
+    });
+
+    const receipt: ParsedReceipt = { items };
+    (Object.keys(totals) as SummaryField[]).forEach(field => {
+      receipt[field] = totals[field]!.toRupees();
+    });
+    return receipt;
+  }
+
+  // Nothing worth comparing was found
+  static isEmpty(receipt: ParsedReceipt): boolean {
+    return receipt.items.length === 0 && receipt.subtotal === undefined && receipt.grandTotal === undefined;
+  }
+}
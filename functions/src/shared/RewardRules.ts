@@ -0,0 +1,55 @@
+export interface RewardConfig {
+  coinsPerRupee: number;
+  expiryDays: number;
+  minRedemptionCoins: number;
+  maxSplitOffsetPercentage: number; // Share of a member's split coins may cover
+}
+
+// The Cloud Functions read the rate from REWARD_COINS_PER_RUPEE and hand
+// their config to the app when it syncs the user's coins
+export const DEFAULT_REWARD_CONFIG: RewardConfig = {
+  coinsPerRupee: 10,
+  expiryDays: 180,
+  minRedemptionCoins: 100,
+  maxSplitOffsetPercentage: 50,
+};
+
+export interface CoinOffset {
+  coinsApplied: number;
+  coinDiscount: number; // Rupees
+}
+
+export class RewardRules {
+  static coinsToRupees(config: RewardConfig, coins: number): number {
+    return Math.floor((coins / config.coinsPerRupee) * 100) / 100;
+  }
+
+  static rupeesToCoins(config: RewardConfig, amount: number): number {
+    return Math.floor(amount * config.coinsPerRupee);
+  }
+
+  // Rupee discount and coins actually used when a member puts `coins`
+  // towards a share of `amount`
+  static offsetFor(config: RewardConfig, amount: number, coins: number): CoinOffset {
+    if (!coins || coins <= 0 || amount <= 0) {
+      return { coinsApplied: 0, coinDiscount: 0 };
+    }
+
+    const maxDiscount = amount * (config.maxSplitOffsetPercentage / 100);
+    const coinsApplied = Math.min(Math.floor(coins), this.rupeesToCoins(config, maxDiscount));
+    return {
+      coinsApplied,
+      coinDiscount: this.coinsToRupees(config, coinsApplied),
+    };
+  }
+
+  // When coins earned at `earnedAt` lapse
+  static expiresAt(config: RewardConfig, earnedAt: Date): Date {
+    return new Date(earnedAt.getTime() + config.expiryDays * 24 * 60 * 60 * 1000);
+  }
+
+  // Lots created before expiry was added never lapse
+  static isExpired(expiresAt: Date | undefined, now: Date): boolean {
+    return !!expiresAt && expiresAt.getTime() <= now.getTime();
+  }
+}
@@ -0,0 +1,130 @@
+import { CartLine, ParsedReceipt, ReceiptLine, ScreenshotCheck, ScreenshotIssue, SplitCharges } from '../types';
+import { Money } from './Money';
+
+export interface CheckedItem {
+  userId: string;
+  items?: string;
+  itemMRP: number;
+  lines?: CartLine[];
+}
+
+const MAX_RECEIPT_ITEMS = 60;
+
+// Platforms round their totals, so small differences aren't flagged
+const TOLERANCE = Money.of(1);
+
+const UNITS = new Set(['g', 'gm', 'kg', 'ml', 'l', 'ltr', 'pc', 'pcs', 'pack', 'x']);
+
+const wordsOf = (name: string) => name
+  .toLowerCase()
+  .split(/[^a-z0-9]+/)
+  .filter(word => word.length > 1 && !UNITS.has(word) && !/^\d+(g|gm|kg|ml|l)?$/.test(word));
+
+// OCR garbles a letter here and there, so half the words is enough
+const sameProduct = (cartName: string, receiptName: string) => {
+  const cartWords = wordsOf(cartName);
+  const receiptWords = new Set(wordsOf(receiptName));
+  if (cartWords.length === 0 || receiptWords.size === 0) return false;
+  const shared = cartWords.filter(word => receiptWords.has(word)).length;
+  return shared * 2 >= Math.min(cartWords.length, receiptWords.size);
+};
+
+const differs = (a: Money, b: Money) => Math.abs(a.paise - b.paise) > TOLERANCE.paise;
+
+const optionalAmount = (value: unknown): number | undefined =>
+  (typeof value === 'number' && isFinite(value) && value >= 0 ? Money.of(value).toRupees() : undefined);
+
+// The app runs the same check to show the leader any issues before the
+// split is submitted
+export class ScreenshotVerifier {
+  // The receipt is read on the leader's phone, so only its shape is trusted
+  static sanitize(value: unknown): ParsedReceipt | null {
+    if (!value || typeof value !== 'object') return null;
+    const raw = value as Partial<ParsedReceipt>;
+    const items = (Array.isArray(raw.items) ? raw.items : [])
+      .slice(0, MAX_RECEIPT_ITEMS)
+      .filter((item): item is ReceiptLine =>
+        !!item && typeof item.name === 'string' && optionalAmount(item.amount) !== undefined)
+      .map(item => ({
+        name: item.name.slice(0, 100),
+        quantity: Number.isInteger(item.quantity) && item.quantity > 0 ? item.quantity : 1,
+        amount: optionalAmount(item.amount)!,
+      }));
+
+    const receipt: ParsedReceipt = { items };
+    (['subtotal', 'tax', 'fees', 'discount', 'grandTotal'] as const).forEach(field => {
+      const amount = optionalAmount(raw[field]);
+      if (amount !== undefined) receipt[field] = amount;
+    });
+    return receipt;
+  }
+
+  static check(receipt: ParsedReceipt | null, items: CheckedItem[], charges?: SplitCharges): ScreenshotCheck {
+    if (!receipt || (receipt.items.length === 0 && receipt.subtotal === undefined && receipt.grandTotal === undefined)) {
+      return {
+        status: 'unreadable',
+        receipt,
+        issues: [{ code: 'UNREADABLE', message: 'The order details couldn\'t be read from the screenshot' }],
+      };
+    }
+
+    const issues: ScreenshotIssue[] = [];
+    const cartTotal = Money.sum(items.map(item => Money.of(item.itemMRP)));
+
+    const itemTotal = receipt.subtotal !== undefined
+      ? Money.of(receipt.subtotal)
+      : receipt.items.length > 0
+        ? Money.sum(receipt.items.map(item => Money.of(item.amount)))
+        : null;
+    if (itemTotal && differs(itemTotal, cartTotal)) {
+      issues.push({
+        code: 'SUBTOTAL_MISMATCH',
+        message: `The screenshot's item total is ₹${itemTotal} but the members' carts add up to ₹${cartTotal}`,
+      });
+    }
+
+    if (charges && receipt.grandTotal !== undefined) {
+      const expected = cartTotal
+        .add(Money.of(charges.tax))
+        .add(Money.of(charges.fees))
+        .subtract(Money.of(charges.discount));
+      const grandTotal = Money.of(receipt.grandTotal);
+      if (differs(grandTotal, expected)) {
+        issues.push({
+          code: 'TOTAL_MISMATCH',
+          message: `The screenshot's total is ₹${grandTotal} but the split adds up to ₹${expected}`,
+        });
+      }
+    }
+
+    // Each receipt row can only account for one cart line
+    if (receipt.items.length > 0) {
+      const unmatched = [...receipt.items];
+      items.forEach(item => {
+        const names = item.lines && item.lines.length > 0
+          ? item.lines.map(line => line.name)
+          : [item.items || ''];
+        names.forEach(name => {
+          const index = unmatched.findIndex(row => sameProduct(name, row.name));
+          if (index === -1) {
+            issues.push({
+              code: 'MISSING_ITEM',
+              message: `"${name}" isn't on the screenshot`,
+              userId: item.userId,
+            });
+          } else {
+            unmatched.splice(index, 1);
+          }
+        });
+      });
+      unmatched.forEach(row => {
+        issues.push({
+          code: 'EXTRA_ITEM',
+          message: `"${row.name}" (₹${Money.of(row.amount)}) is on the screenshot but in nobody's cart`,
+        });
+      });
+    }
+
+    return { status: issues.length > 0 ? 'mismatch' : 'verified', receipt, issues };
+  }
+}
@@ -0,0 +1,211 @@
+import { CartLine, SplitCharges, SplitOptions, SplitStrategyId } from '../types';
+import { Money } from './Money';
+
+export interface SplitItem {
+  userId: string;
+  itemMRP: number;
+  lines?: CartLine[];
+}
+
+// One member's part of the order before coins, in rupees
+export interface SplitShare {
+  userId: string;
+  taxShare: number;
+  feeShare: number;
+  discountShare: number;
+  adjustment: number; // Only the custom strategy sets this
+  shareAmount: number; // itemMRP + tax + fees - discount + adjustment
+}
+
+export class SplitError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'SplitError';
+  }
+}
+
+// Everything is worked out in paise
+interface Parts {
+  tax: number[];
+  fees: number[];
+  discount: number[];
+  adjustment?: number[];
+}
+
+interface StrategyContext {
+  items: SplitItem[];
+  mrp: number[];
+  charges: { tax: number; fees: number; discount: number };
+  options: SplitOptions;
+}
+
+type SplitStrategy = (context: StrategyContext) => Parts;
+
+const toPaise = (amount: number) => Money.of(amount).paise;
+const toRupees = (paise: number) => Money.fromPaise(paise).toRupees();
+
+// Parts always add up to the total; see Money.allocate
+const allocate = (total: number, weights: number[]): number[] => {
+  if (total !== 0 && weights.reduce((sum, weight) => sum + weight, 0) <= 0) {
+    throw new SplitError('Nobody is left to share this charge', 'NO_SHARE_BASIS');
+  }
+  return Money.fromPaise(total).allocate(weights).map(part => part.paise);
+};
+
+const lineMRP = (line: CartLine) => toPaise(line.quantity * line.unitMRP);
+
+const STRATEGIES: Record<SplitStrategyId, SplitStrategy> = {
+  // Everything in proportion to what each member ordered
+  proportional: ({ mrp, charges }) => ({
+    tax: allocate(charges.tax, mrp),
+    fees: allocate(charges.fees, mrp),
+    discount: allocate(charges.discount, mrp),
+  }),
+
+  // Delivery and handling cost the same whatever you ordered
+  equal_fees: ({ mrp, charges }) => ({
+    tax: allocate(charges.tax, mrp),
+    fees: allocate(charges.fees, mrp.map(() => 1)),
+    discount: allocate(charges.discount, mrp),
+  }),
+
+  // The coupon only covers some lines; its value goes to the members who
+  // ordered them, in proportion to those lines. Items without lines count
+  // as one line.
+  coupon_items: ({ items, mrp, charges, options }) => {
+    const selected = options.couponLines || {};
+    const eligible = items.map((item, index) => {
+      const indexes = selected[item.userId] || [];
+      if (!item.lines || item.lines.length === 0) {
+        return indexes.includes(0) ? mrp[index] : 0;
+      }
+      return item.lines.reduce((sum, line, lineIndex) => sum + (indexes.includes(lineIndex) ? lineMRP(line) : 0), 0);
+    });
+    if (charges.discount > 0 && eligible.every(amount => amount === 0)) {
+      throw new SplitError('Choose the items the coupon applies to', 'NO_COUPON_ITEMS');
+    }
+    return {
+      tax: allocate(charges.tax, mrp),
+      fees: allocate(charges.fees, mrp),
+      discount: allocate(charges.discount, eligible),
+    };
+  },
+
+  // One member covers the tax, e.g. the one who wanted express delivery
+  single_tax_payer: ({ items, mrp, charges, options }) => {
+    const payer = items.findIndex(item => item.userId === options.taxPayerId);
+    if (payer === -1) {
+      throw new SplitError('Choose a member with items to pay the tax', 'INVALID_TAX_PAYER');
+    }
+    return {
+      tax: items.map((_, index) => (index === payer ? charges.tax : 0)),
+      fees: allocate(charges.fees, mrp),
+      discount: allocate(charges.discount, mrp),
+    };
+  },
+
+  // The leader sets each share; the difference from the member's MRP is
+  // kept as an adjustment
+  custom: ({ items, mrp, charges, options }) => {
+    const amounts = items.map(item => options.customAmounts?.[item.userId]);
+    if (amounts.some(amount => typeof amount !== 'number' || isNaN(amount) || amount < 0)) {
+      throw new SplitError('Enter an amount for every member', 'INVALID_CUSTOM_AMOUNT');
+    }
+    const shares = amounts.map(amount => toPaise(amount as number));
+    const expected = mrp.reduce((sum, amount) => sum + amount, 0) + charges.tax + charges.fees - charges.discount;
+    const entered = shares.reduce((sum, share) => sum + share, 0);
+    if (entered !== expected) {
+      throw new SplitError(
+        `The amounts add up to ₹${toRupees(entered)} but the order comes to ₹${toRupees(expected)}`,
+        'CUSTOM_TOTAL_MISMATCH'
+      );
+    }
+    return {
+      tax: items.map(() => 0),
+      fees: items.map(() => 0),
+      discount: items.map(() => 0),
+      adjustment: shares.map((share, index) => share - mrp[index]),
+    };
+  },
+};
+
+export const SPLIT_STRATEGY_IDS = Object.keys(STRATEGIES) as SplitStrategyId[];
+
+// The app runs the same strategies for the leader's preview
+// (src/utils/SplitPreview.ts)
+export class SplitStrategies {
+  // Keeps only the fields the chosen strategy reads, so nothing else sent by
+  // the app ends up on the order
+  static parseOptions(value: unknown): SplitOptions {
+    const raw = (value || { strategy: 'proportional' }) as Partial<SplitOptions>;
+    if (!raw.strategy || !SPLIT_STRATEGY_IDS.includes(raw.strategy)) {
+      throw new SplitError('Unknown split strategy', 'INVALID_STRATEGY');
+    }
+
+    switch (raw.strategy) {
+      case 'single_tax_payer':
+        if (typeof raw.taxPayerId !== 'string' || !raw.taxPayerId) {
+          throw new SplitError('Choose who pays the tax', 'INVALID_TAX_PAYER');
+        }
+        return { strategy: raw.strategy, taxPayerId: raw.taxPayerId };
+      case 'coupon_items': {
+        const couponLines: { [userId: string]: number[] } = {};
+        Object.entries(raw.couponLines || {}).forEach(([userId, indexes]) => {
+          if (Array.isArray(indexes)) {
+            couponLines[userId] = indexes.filter(index => Number.isInteger(index) && index >= 0);
+          }
+        });
+        return { strategy: raw.strategy, couponLines };
+      }
+      case 'custom': {
+        const customAmounts: { [userId: string]: number } = {};
+        Object.entries(raw.customAmounts || {}).forEach(([userId, amount]) => {
+          if (typeof amount === 'number') customAmounts[userId] = amount;
+        });
+        return { strategy: raw.strategy, customAmounts };
+      }
+      default:
+        return { strategy: raw.strategy };
+    }
+  }
+
+  static calculate(items: SplitItem[], charges: SplitCharges, options: SplitOptions): SplitShare[] {
+    const strategy = STRATEGIES[options.strategy];
+    if (!strategy) {
+      throw new SplitError('Unknown split strategy', 'INVALID_STRATEGY');
+    }
+    if (items.length === 0) {
+      throw new SplitError('There are no items to split', 'INVALID_ITEMS');
+    }
+
+    const paise = {
+      tax: toPaise(charges.tax),
+      fees: toPaise(charges.fees),
+      discount: toPaise(charges.discount),
+    };
+    if (paise.tax < 0 || paise.fees < 0 || paise.discount < 0) {
+      throw new SplitError('Charges and discounts can\'t be negative', 'INVALID_CHARGES');
+    }
+    const mrp = items.map(item => toPaise(item.itemMRP));
+    if (mrp.reduce((sum, amount) => sum + amount, 0) <= 0) {
+      throw new SplitError('Total MRP must be greater than 0', 'INVALID_TOTAL');
+    }
+
+    const parts = strategy({ items, mrp, charges: paise, options });
+    return items.map((item, index) => {
+      const adjustment = parts.adjustment?.[index] || 0;
+      const share = mrp[index] + parts.tax[index] + parts.fees[index] - parts.discount[index] + adjustment;
+      if (share < 0) {
+        throw new SplitError('The discount is more than a member\'s share', 'NEGATIVE_SHARE');
+      }
+      return {
+        userId: item.userId,
+        taxShare: toRupees(parts.tax[index]),
+        feeShare: toRupees(parts.fees[index]),
+        discountShare: toRupees(parts.discount[index]),
+        adjustment: toRupees(adjustment),
+        shareAmount: toRupees(share),
+      };
+    });
+  }
+}
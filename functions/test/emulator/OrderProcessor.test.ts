@@ -0,0 +1,192 @@
+import { db } from '../../src/config';
+import { GROUP_COLLATERAL_AMOUNT } from '../../src/CollateralManager';
+import { OrderProcessor } from '../../src/OrderProcessor';
+import {
+  ALICE,
+  BOB,
+  GROUP_ID,
+  LEADER,
+  ORDER_ID,
+  STARTING_BALANCE,
+  clearFirestore,
+  escrowBalance,
+  expireDeadline,
+  seedDeliveringOrder,
+  seedOpenGroup,
+  seedSplittingOrder,
+  statusesOf,
+  walletOf,
+} from './fixtures';
+
+// Alice's ₹300 reaches the leader less the 2% platform fee
+const ALICE_TO_LEADER = 294;
+
+beforeEach(clearFirestore);
+
+describe('processOrderCompletion', () => {
+  beforeEach(async () => {
+    await seedDeliveringOrder();
+    for (const userId of [LEADER, ALICE, BOB]) {
+      await OrderProcessor.confirmReceipt(ORDER_ID, userId);
+    }
+  });
+
+  it('settles the order once however often it is retried', async () => {
+    expect(await OrderProcessor.processOrderCompletion(ORDER_ID, LEADER)).toBe(true);
+    expect(await OrderProcessor.processOrderCompletion(ORDER_ID, LEADER)).toBe(true);
+
+    const leader = await walletOf(LEADER);
+    expect(leader.balance).toBe(1441.49); // ₹294 from Alice and ₹147.49 from Bob
+    expect(leader.rewardCoins).toBe(32); // 5% of the ₹650.50 order
+
+    const rewards = await db.collection('coin_entries').where('userId', '==', LEADER).get();
+    expect(rewards.size).toBe(1);
+
+    const settlement = await db.collection('settlements').doc(`order_${ORDER_ID}`).get();
+    expect(settlement.data()).toMatchObject({
+      collectedAmount: 450.5,
+      leaderAmount: 441.49,
+      platformFee: 9.01,
+    });
+    expect(await statusesOf()).toEqual({ group: 'completed', order: 'completed' });
+  });
+
+  it('releases every member\'s collateral', async () => {
+    await OrderProcessor.processOrderCompletion(ORDER_ID, LEADER);
+
+    for (const userId of [LEADER, ALICE, BOB]) {
+      expect((await walletOf(userId)).held).toBe(0);
+    }
+  });
+
+  it('only lets the leader settle', async () => {
+    await expect(OrderProcessor.processOrderCompletion(ORDER_ID, ALICE))
+      .rejects.toMatchObject({ code: 'NOT_LEADER' });
+  });
+});
+
+describe('processNoShow', () => {
+  it('pays the member\'s share to the leader and charges the penalty once', async () => {
+    await seedDeliveringOrder();
+
+    expect(await OrderProcessor.processNoShow(ORDER_ID, BOB, LEADER)).toBe(true);
+    expect(await OrderProcessor.processNoShow(ORDER_ID, BOB, LEADER)).toBe(true);
+
+    expect((await walletOf(BOB)).balance).toBe(819.4);
+    expect((await walletOf(LEADER)).balance).toBe(1177.59);
+
+    const order = (await db.collection('orders').doc(ORDER_ID).get()).data()!;
+    expect(order.items[BOB]).toMatchObject({ noShow: true, noShowPenalty: 30.1 });
+  });
+
+  it('takes the penalty out of held collateral', async () => {
+    await seedSplittingOrder();
+    // Just enough for his share on top of the collateral
+    await db.collection('users').doc(BOB).update({ 'wallet.balance': 350.5 });
+    await OrderProcessor.approveSplit(ORDER_ID, BOB);
+
+    await OrderProcessor.processNoShow(ORDER_ID, BOB, LEADER);
+    expect((await walletOf(BOB)).balance).toBe(169.9);
+  });
+
+  it('rejects a member who already collected their items', async () => {
+    await seedDeliveringOrder();
+    await OrderProcessor.confirmReceipt(ORDER_ID, ALICE);
+
+    await expect(OrderProcessor.processNoShow(ORDER_ID, ALICE, LEADER))
+      .rejects.toMatchObject({ code: 'ALREADY_RECEIVED' });
+  });
+});
+
+describe('cancelOrder', () => {
+  it('refunds everything held in escrow and releases collateral', async () => {
+    await seedDeliveringOrder();
+    expect(await escrowBalance()).toBe(450.5);
+
+    await OrderProcessor.cancelOrder(ORDER_ID, LEADER);
+
+    expect(await escrowBalance()).toBe(0);
+    for (const userId of [LEADER, ALICE, BOB]) {
+      expect(await walletOf(userId)).toMatchObject({ balance: STARTING_BALANCE, held: 0 });
+    }
+    const escrow = (await db.collection('escrows').doc(ORDER_ID).get()).data()!;
+    expect(escrow.status).toBe('settled');
+    expect(await statusesOf()).toEqual({ group: 'cancelled', order: 'cancelled' });
+  });
+
+  it('is refused once items have been handed over', async () => {
+    await seedDeliveringOrder();
+    await OrderProcessor.confirmReceipt(ORDER_ID, ALICE);
+
+    await expect(OrderProcessor.cancelOrder(ORDER_ID, LEADER))
+      .rejects.toMatchObject({ code: 'DELIVERY_STARTED' });
+    expect(await escrowBalance()).toBe(150.5);
+  });
+
+  it('only lets the leader cancel', async () => {
+    await seedDeliveringOrder();
+
+    await expect(OrderProcessor.cancelOrder(ORDER_ID, ALICE))
+      .rejects.toMatchObject({ code: 'NOT_LEADER' });
+  });
+});
+
+describe('expireDeadline', () => {
+  it('leaves a group alone until its deadline passes', async () => {
+    await seedSplittingOrder();
+
+    expect(await OrderProcessor.expireDeadline(GROUP_ID)).toBeNull();
+    expect(await statusesOf()).toEqual({ group: 'ordered', order: 'splitting' });
+  });
+
+  it('cancels an order whose splits weren\'t all approved in time', async () => {
+    await seedSplittingOrder();
+    await expireDeadline();
+
+    const expired = await OrderProcessor.expireDeadline(GROUP_ID);
+    expect(expired).toMatchObject({ kind: 'approval', groupName: 'Test group' });
+    expect(expired!.memberIds.sort()).toEqual([ALICE, BOB, LEADER]);
+    expect(await statusesOf()).toEqual({ group: 'cancelled', order: 'cancelled' });
+    for (const userId of [LEADER, ALICE, BOB]) {
+      expect(await walletOf(userId)).toMatchObject({ balance: STARTING_BALANCE, held: 0 });
+    }
+  });
+
+  it('closes a group that gathered too few members in time', async () => {
+    await seedOpenGroup();
+    await expireDeadline();
+
+    const expired = await OrderProcessor.expireDeadline(GROUP_ID);
+    expect(expired).toMatchObject({ kind: 'gathering', groupName: 'Test group' });
+    const group = (await db.collection('groups').doc(GROUP_ID).get()).data()!;
+    expect(group).toMatchObject({ status: 'cancelled', deadline: null });
+    expect(group.currentOrder).toBeUndefined();
+    expect((await db.collection('orders').get()).empty).toBe(true);
+    for (const userId of [LEADER, ALICE, BOB]) {
+      expect(await walletOf(userId)).toMatchObject({ balance: STARTING_BALANCE, held: 0 });
+    }
+  });
+
+  it('skips an order deadline on a group with no order', async () => {
+    await seedOpenGroup('screenshot');
+    await expireDeadline();
+
+    expect(await OrderProcessor.expireDeadline(GROUP_ID)).toBeNull();
+    expect((await db.collection('groups').doc(GROUP_ID).get()).data()!.status).toBe('open');
+    expect((await walletOf(ALICE)).held).toBe(GROUP_COLLATERAL_AMOUNT);
+  });
+
+  it('refunds the shares not yet handed over when delivery runs out', async () => {
+    await seedDeliveringOrder();
+    await OrderProcessor.confirmReceipt(ORDER_ID, ALICE);
+    await expireDeadline();
+
+    expect(await OrderProcessor.expireDeadline(GROUP_ID)).toMatchObject({ kind: 'delivery' });
+
+    expect(await escrowBalance()).toBe(0);
+    expect((await walletOf(ALICE)).balance).toBe(700);
+    expect((await walletOf(BOB)).balance).toBe(STARTING_BALANCE);
+    expect((await walletOf(LEADER)).balance).toBe(STARTING_BALANCE + ALICE_TO_LEADER);
+    expect(await statusesOf()).toEqual({ group: 'cancelled', order: 'cancelled' });
+  });
+});
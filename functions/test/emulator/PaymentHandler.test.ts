@@ -0,0 +1,155 @@
+import { db } from '../../src/config';
+import { PaymentHandler } from '../../src/PaymentHandler';
+import { MockPaymentGateway as MockCheckout } from '../../../src/utils/MockPaymentGateway';
+import { clearFirestore, walletOf } from './fixtures';
+
+const USER = 'user1';
+
+const paymentOf = async (orderId: string) => (await db.collection('payments').doc(orderId).get()).data()!;
+
+// Creates a ₹500 top-up and runs the app's mock checkout for it
+const checkout = async () => {
+  const order = await PaymentHandler.createTopUpOrder(USER, 500, 'Added money to wallet');
+  return { order, result: await new MockCheckout().checkout(order) };
+};
+
+beforeEach(async () => {
+  await clearFirestore();
+  await db.collection('users').doc(USER).set({ wallet: { balance: 0, held: 0, rewardCoins: 0 } });
+});
+
+describe('top-ups', () => {
+  it('records the order before checkout', async () => {
+    const order = await PaymentHandler.createTopUpOrder(USER, 500, 'Added money to wallet');
+
+    expect(order).toMatchObject({ amount: 50_000, gateway: 'mock' });
+    expect(await paymentOf(order.id)).toMatchObject({ userId: USER, amount: 500, status: 'created' });
+  });
+
+  it('credits the wallet once the checkout is confirmed', async () => {
+    const { order, result } = await checkout();
+
+    expect(await PaymentHandler.confirmTopUp(USER, result)).toEqual({ status: 'captured', amount: 500 });
+    expect(await PaymentHandler.confirmTopUp(USER, result)).toEqual({ status: 'captured', amount: 500 });
+
+    expect((await walletOf(USER)).balance).toBe(500);
+    expect(await paymentOf(order.id)).toMatchObject({ status: 'captured', paymentId: result.paymentId });
+    const transaction = await db.collection('transactions').doc(`topup_${order.id}`).get();
+    expect(transaction.data()).toMatchObject({ type: 'credit', amount: 500, isTestTransaction: true });
+  });
+
+  it('rejects a tampered signature', async () => {
+    const { order, result } = await checkout();
+
+    await expect(PaymentHandler.confirmTopUp(USER, { ...result, signature: 'mock_sig_00000000' }))
+      .rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+    expect(await paymentOf(order.id)).toMatchObject({ status: 'created' });
+    expect((await walletOf(USER)).balance).toBe(0);
+  });
+
+  it('keeps other users from confirming the payment', async () => {
+    const { result } = await checkout();
+
+    await expect(PaymentHandler.confirmTopUp('user2', result)).rejects.toMatchObject({ code: 'PAYMENT_NOT_FOUND' });
+  });
+
+  it('marks a checkout the user closed', async () => {
+    const { order } = await checkout();
+
+    await PaymentHandler.cancelTopUp(USER, order.id, true, 'Checkout closed');
+    expect(await paymentOf(order.id)).toMatchObject({ status: 'cancelled', failureReason: 'Checkout closed' });
+  });
+
+  it('marks a checkout that failed', async () => {
+    const { order } = await checkout();
+
+    await PaymentHandler.cancelTopUp(USER, order.id, false, 'Card declined');
+    expect(await paymentOf(order.id)).toMatchObject({ status: 'failed', failureReason: 'Card declined' });
+    expect((await walletOf(USER)).balance).toBe(0);
+  });
+
+  it('leaves a captured payment alone when checkout reports it closed', async () => {
+    const { order, result } = await checkout();
+    await PaymentHandler.confirmTopUp(USER, result);
+
+    await PaymentHandler.cancelTopUp(USER, order.id, true, 'Checkout closed');
+    expect(await paymentOf(order.id)).toMatchObject({ status: 'captured' });
+  });
+});
+
+describe('webhooks', () => {
+  it('credits a payment the app never confirmed, once', async () => {
+    const { order, result } = await checkout();
+    const confirmation = { event: 'payment.captured' as const, orderId: order.id, paymentId: result.paymentId, amount: 50_000 };
+
+    await PaymentHandler.handleConfirmation(confirmation);
+    await PaymentHandler.handleConfirmation(confirmation);
+    expect(await PaymentHandler.confirmTopUp(USER, result)).toEqual({ status: 'captured', amount: 500 });
+
+    expect((await walletOf(USER)).balance).toBe(500);
+  });
+
+  it('records a failed payment without crediting the wallet', async () => {
+    const { order, result } = await checkout();
+
+    await PaymentHandler.handleConfirmation({
+      event: 'payment.failed',
+      orderId: order.id,
+      paymentId: result.paymentId,
+      amount: 50_000,
+      failureReason: 'Card declined',
+    });
+
+    expect(await paymentOf(order.id)).toMatchObject({ status: 'failed', failureReason: 'Card declined' });
+    expect((await walletOf(USER)).balance).toBe(0);
+  });
+
+  it('still credits a payment captured after it failed', async () => {
+    const { order, result } = await checkout();
+    const confirmation = { orderId: order.id, paymentId: result.paymentId, amount: 50_000 };
+
+    await PaymentHandler.handleConfirmation({ ...confirmation, event: 'payment.failed', failureReason: 'Timed out' });
+    await PaymentHandler.handleConfirmation({ ...confirmation, event: 'payment.captured' });
+    await PaymentHandler.handleConfirmation({ ...confirmation, event: 'payment.failed' });
+
+    expect(await paymentOf(order.id)).toMatchObject({ status: 'captured' });
+    expect((await walletOf(USER)).balance).toBe(500);
+  });
+
+  it('still credits a payment captured after checkout was closed', async () => {
+    const { order, result } = await checkout();
+
+    await PaymentHandler.cancelTopUp(USER, order.id, true, 'Checkout closed');
+    await PaymentHandler.handleConfirmation({
+      event: 'payment.captured',
+      orderId: order.id,
+      paymentId: result.paymentId,
+      amount: 50_000,
+    });
+
+    expect(await paymentOf(order.id)).toMatchObject({ status: 'captured' });
+    expect((await walletOf(USER)).balance).toBe(500);
+  });
+
+  it('rejects a capture for a different amount', async () => {
+    const { order, result } = await checkout();
+
+    await expect(PaymentHandler.handleConfirmation({
+      event: 'payment.captured',
+      orderId: order.id,
+      paymentId: result.paymentId,
+      amount: 5_000,
+    })).rejects.toMatchObject({ code: 'AMOUNT_MISMATCH' });
+    expect((await walletOf(USER)).balance).toBe(0);
+  });
+
+  it('acknowledges an unknown order', async () => {
+    await expect(PaymentHandler.handleConfirmation({
+      event: 'payment.captured',
+      orderId: 'mock_order_unknown',
+      paymentId: 'mock_pay_unknown',
+      amount: 50_000,
+    })).resolves.toBeUndefined();
+    expect((await walletOf(USER)).balance).toBe(0);
+  });
+});
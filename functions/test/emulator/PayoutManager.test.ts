@@ -0,0 +1,116 @@
+import { db } from '../../src/config';
+import { LedgerAccounts } from '../../src/Ledger';
+import { PayoutManager } from '../../src/PayoutManager';
+import { InMemoryPayoutAdapter } from '../../src/InMemoryPayoutAdapter';
+import { Money } from '../../src/shared/Money';
+import { PayoutStatus } from '../../src/types';
+import { clearFirestore, walletOf } from './fixtures';
+
+const USER = 'user1';
+const AMOUNT = 300;
+
+const accountBalance = async (accountId: string) =>
+  (await db.collection('ledger_accounts').doc(accountId).get()).data()?.balance || 0;
+
+const entryOf = async (payoutId: string, status: PayoutStatus) =>
+  (await db.collection('ledger_entries').doc(`payout_${payoutId}_${status}`).get()).data()!;
+
+const sumOf = (lines: { amount: number }[]) => Money.sum(lines.map(line => Money.of(line.amount))).toRupees();
+
+// A verified UPI destination and a ₹300 withdrawal, left processing
+const requestPayout = async () => {
+  const destination = await PayoutManager.addDestination(USER, { type: 'upi', vpa: 'user1@okbank' });
+  await PayoutManager.verifyDestination(USER, destination.id);
+  return PayoutManager.requestPayout(USER, destination.id, AMOUNT);
+};
+
+beforeEach(async () => {
+  await clearFirestore();
+  PayoutManager.setAdapter(new InMemoryPayoutAdapter(false));
+  await db.collection('users').doc(USER).set({ wallet: { balance: 1000, held: 0, rewardCoins: 0 } });
+});
+
+describe('payouts', () => {
+  it('moves the amount to pending payouts while the provider processes it', async () => {
+    const payout = await requestPayout();
+
+    expect(payout.status).toBe('processing');
+    expect((await walletOf(USER)).balance).toBe(1000 - AMOUNT);
+    expect(await accountBalance(LedgerAccounts.PENDING_PAYOUTS)).toBe(AMOUNT);
+    expect(sumOf((await entryOf(payout.id, 'requested')).lines)).toBe(0);
+  });
+
+  it('rejects moves the lifecycle doesn\'t allow', async () => {
+    const illegal: [PayoutStatus[], PayoutStatus][] = [
+      [[], 'requested'],
+      [[], 'reversed'],
+      [['paid'], 'failed'],
+      [['failed'], 'paid'],
+      [['failed'], 'processing'],
+      [['paid', 'reversed'], 'paid'],
+    ];
+
+    for (const [path, status] of illegal) {
+      const payout = await requestPayout();
+      for (const step of path) {
+        await PayoutManager.transition(payout.id, step);
+      }
+
+      await expect(PayoutManager.transition(payout.id, status))
+        .rejects.toMatchObject({ code: 'INVALID_TRANSITION' });
+    }
+  });
+
+  it('treats a repeated status as already applied', async () => {
+    const payout = await requestPayout();
+    await PayoutManager.transition(payout.id, 'paid');
+
+    expect(await PayoutManager.transition(payout.id, 'paid')).toMatchObject({ status: 'paid' });
+    expect(await accountBalance(LedgerAccounts.EXTERNAL)).toBe(AMOUNT);
+  });
+
+  it('refunds the wallet when the payout fails', async () => {
+    const payout = await requestPayout();
+
+    await PayoutManager.transition(payout.id, 'failed', { failureReason: 'Beneficiary bank offline' });
+
+    expect((await walletOf(USER)).balance).toBe(1000);
+    expect(await accountBalance(LedgerAccounts.PENDING_PAYOUTS)).toBe(0);
+    const entry = await entryOf(payout.id, 'failed');
+    expect(entry.lines).toEqual(expect.arrayContaining([
+      expect.objectContaining({ accountId: LedgerAccounts.PENDING_PAYOUTS, amount: -AMOUNT }),
+      expect.objectContaining({ accountId: LedgerAccounts.userWallet(USER), amount: AMOUNT }),
+    ]));
+    expect(sumOf(entry.lines)).toBe(0);
+  });
+
+  it('refunds the wallet when the bank reverses a paid payout', async () => {
+    const payout = await requestPayout();
+    await PayoutManager.transition(payout.id, 'paid');
+    expect(await accountBalance(LedgerAccounts.EXTERNAL)).toBe(AMOUNT);
+
+    await PayoutManager.transition(payout.id, 'reversed');
+
+    expect((await walletOf(USER)).balance).toBe(1000);
+    expect(await accountBalance(LedgerAccounts.EXTERNAL)).toBe(0);
+    expect(await accountBalance(LedgerAccounts.PENDING_PAYOUTS)).toBe(0);
+    const entry = await entryOf(payout.id, 'reversed');
+    expect(entry.lines).toEqual(expect.arrayContaining([
+      expect.objectContaining({ accountId: LedgerAccounts.EXTERNAL, amount: -AMOUNT }),
+      expect.objectContaining({ accountId: LedgerAccounts.userWallet(USER), amount: AMOUNT }),
+    ]));
+    expect(sumOf(entry.lines)).toBe(0);
+  });
+
+  it('picks up a failure reported by the provider', async () => {
+    const adapter = new InMemoryPayoutAdapter(false);
+    PayoutManager.setAdapter(adapter);
+    const payout = await requestPayout();
+
+    adapter.settle(payout.providerPayoutId!, 'failed', 'Account closed');
+
+    expect(await PayoutManager.syncPayout(USER, payout.id))
+      .toMatchObject({ status: 'failed', failureReason: 'Account closed' });
+    expect((await walletOf(USER)).balance).toBe(1000);
+  });
+});
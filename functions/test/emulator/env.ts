@@ -0,0 +1,14 @@
+// What the Functions emulator and functions/.env would provide. The
+// Firestore host and project come from `firebase emulators:exec`.
+process.env.FUNCTIONS_EMULATOR = 'true';
+process.env.PAYMENT_GATEWAY = 'mock';
+process.env.GATHERING_DEADLINE_HOURS = '24';
+process.env.SCREENSHOT_DEADLINE_HOURS = '2';
+process.env.APPROVAL_DEADLINE_HOURS = '4';
+process.env.DELIVERY_DEADLINE_HOURS = '6';
+process.env.REWARD_COINS_PER_RUPEE = '10';
+
+// Without it the Admin SDK would talk to a real project
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+  throw new Error('Run these suites with `npm run test:emulator`');
+}
@@ -0,0 +1,134 @@
+import { Timestamp, WriteBatch } from 'firebase-admin/firestore';
+import { db } from '../../src/config';
+import { CollateralManager, GROUP_COLLATERAL_AMOUNT } from '../../src/CollateralManager';
+import { LedgerAccounts } from '../../src/Ledger';
+import { OrderProcessor } from '../../src/OrderProcessor';
+import { OrderItem, OrderSplit } from '../../src/types';
+
+export const GROUP_ID = 'group1';
+export const ORDER_ID = 'order1';
+export const LEADER = 'leader';
+export const ALICE = 'alice';
+export const BOB = 'bob';
+export const MEMBERS = [LEADER, ALICE, BOB];
+
+export const STARTING_BALANCE = 1000;
+
+// Cash each member pays; the leader's share is paid to the platform
+// directly and never held
+export const SHARES: Record<string, number> = {
+  [LEADER]: 200,
+  [ALICE]: 300,
+  [BOB]: 150.5,
+};
+
+export const clearFirestore = async () => {
+  const url = `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/` +
+    `${process.env.GCLOUD_PROJECT}/databases/(default)/documents`;
+  const response = await fetch(url, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(`Failed to clear the Firestore emulator (${response.status})`);
+  }
+};
+
+const inAnHour = () => Timestamp.fromMillis(Date.now() + 60 * 60 * 1000);
+
+// Each member's wallet, holding collateral for the group
+const seedMembers = (batch: WriteBatch) => {
+  MEMBERS.forEach(userId => {
+    batch.set(db.collection('users').doc(userId), {
+      wallet: { balance: STARTING_BALANCE, held: GROUP_COLLATERAL_AMOUNT, rewardCoins: 0 },
+      collateralConsentAt: Timestamp.now(),
+    });
+    batch.set(CollateralManager.holdRef(GROUP_ID, userId), {
+      userId,
+      groupId: GROUP_ID,
+      amount: GROUP_COLLATERAL_AMOUNT,
+      status: 'active',
+    });
+  });
+};
+
+const group = {
+  name: 'Test group',
+  leaderId: LEADER,
+  createdBy: LEADER,
+  members: Object.fromEntries(MEMBERS.map(userId => [userId, true])),
+};
+
+// A group still gathering members, with no order yet
+export const seedOpenGroup = async (deadlineKind = 'gathering') => {
+  const batch = db.batch();
+  seedMembers(batch);
+  batch.set(db.collection('groups').doc(GROUP_ID), {
+    ...group,
+    status: 'open',
+    deadline: { kind: deadlineKind, at: inAnHour() },
+  });
+  await batch.commit();
+};
+
+// A group whose split is shared and approved by everyone but Bob
+export const seedSplittingOrder = async () => {
+  const batch = db.batch();
+  seedMembers(batch);
+
+  batch.set(db.collection('groups').doc(GROUP_ID), {
+    ...group,
+    status: 'ordered',
+    currentOrder: { id: ORDER_ID, status: 'splitting' },
+    deadline: { kind: 'approval', at: inAnHour() },
+  });
+
+  const items: Record<string, OrderItem> = Object.fromEntries(MEMBERS.map(userId => [userId, {
+    userId,
+    items: `Items for ${userId}`,
+    itemMRP: SHARES[userId],
+    finalAmount: SHARES[userId],
+    received: false,
+  }]));
+  const splits: Record<string, OrderSplit> = Object.fromEntries(MEMBERS.map(userId => [userId, {
+    userId,
+    originalAmount: SHARES[userId],
+    taxShare: 0,
+    feeShare: 0,
+    discountShare: 0,
+    finalAmount: SHARES[userId],
+    approved: userId !== BOB,
+  }]));
+  batch.set(db.collection('orders').doc(ORDER_ID), {
+    groupId: GROUP_ID,
+    leaderId: LEADER,
+    status: 'splitting',
+    items,
+    splits,
+    totalAmount: Object.values(SHARES).reduce((sum, share) => sum + share, 0),
+  });
+
+  await batch.commit();
+};
+
+// Bob approves, which locks Alice's and Bob's shares in escrow
+export const seedDeliveringOrder = async () => {
+  await seedSplittingOrder();
+  await OrderProcessor.approveSplit(ORDER_ID, BOB);
+};
+
+export const expireDeadline = () => db.collection('groups').doc(GROUP_ID).update({
+  'deadline.at': Timestamp.fromMillis(Date.now() - 1000),
+});
+
+export const walletOf = async (userId: string) =>
+  (await db.collection('users').doc(userId).get()).data()!.wallet as
+    { balance: number; held: number; rewardCoins: number };
+
+export const escrowBalance = async () =>
+  (await db.collection('ledger_accounts').doc(LedgerAccounts.groupEscrow(GROUP_ID)).get()).data()?.balance || 0;
+
+export const statusesOf = async () => {
+  const [groupDoc, orderDoc] = await Promise.all([
+    db.collection('groups').doc(GROUP_ID).get(),
+    db.collection('orders').doc(ORDER_ID).get(),
+  ]);
+  return { group: groupDoc.data()!.status, order: orderDoc.data()!.status };
+};
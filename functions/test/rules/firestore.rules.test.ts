@@ -0,0 +1,582 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import firebase from 'firebase/compat/app';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+const LEADER = 'leader';
+const MEMBER = 'member';
+const OUTSIDER = 'outsider';
+const FORMER = 'former'; // Left the group, so kept in `members` as false
+
+let testEnv: RulesTestEnvironment;
+
+const as = (userId: string) => testEnv.authenticatedContext(userId).firestore();
+
+const seed = (path: string, data: object) => testEnv.withSecurityRulesDisabled(async context => {
+  await context.firestore().doc(path).set(data);
+});
+
+const seedGroup = (status: string, overrides: object = {}) => seed('groups/group1', {
+  name: 'Test group',
+  leaderId: LEADER,
+  createdBy: LEADER,
+  members: { [LEADER]: true, [MEMBER]: true, [FORMER]: false },
+  status,
+  ...overrides,
+});
+
+const seedOrder = (status: string) => seed('orders/order1', {
+  groupId: 'group1',
+  leaderId: LEADER,
+  status,
+  items: {
+    [LEADER]: { userId: LEADER, items: 'Bread', itemMRP: 50, received: false },
+    [MEMBER]: { userId: MEMBER, items: 'Milk', itemMRP: 60, received: false },
+  },
+});
+
+const cart = (userId: string, overrides: object = {}) => ({
+  userId,
+  items: 'Milk',
+  lines: [{ name: 'Milk', quantity: 2, unitMRP: 30 }],
+  itemMRP: 60,
+  ...overrides,
+});
+
+const line = { name: 'Milk', quantity: 1, unitMRP: 30 };
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-gatherpay-rules',
+    firestore: { rules: readFileSync(resolve(__dirname, '../../../firestore.rules'), 'utf8') },
+  });
+});
+
+afterAll(() => testEnv?.cleanup());
+
+beforeEach(() => testEnv.clearFirestore());
+
+describe('carts', () => {
+  it('can be changed by their member while the group is open', async () => {
+    await seedGroup('open');
+
+    await assertSucceeds(as(MEMBER).doc(`groups/group1/carts/${MEMBER}`).set(cart(MEMBER)));
+    await assertSucceeds(as(MEMBER).doc(`groups/group1/carts/${MEMBER}`).delete());
+  });
+
+  it('are locked once the order starts', async () => {
+    await seedGroup('ordering');
+    await seed(`groups/group1/carts/${MEMBER}`, cart(MEMBER));
+
+    await assertFails(as(MEMBER).doc(`groups/group1/carts/${MEMBER}`).set(cart(MEMBER, { itemMRP: 90 })));
+    await assertFails(as(MEMBER).doc(`groups/group1/carts/${MEMBER}`).delete());
+  });
+
+  it('can\'t be written for someone else or from outside the group', async () => {
+    await seedGroup('open');
+
+    await assertFails(as(LEADER).doc(`groups/group1/carts/${MEMBER}`).set(cart(MEMBER)));
+    await assertFails(as(OUTSIDER).doc(`groups/group1/carts/${OUTSIDER}`).set(cart(OUTSIDER)));
+  });
+
+  it('need a total and at most 30 lines', async () => {
+    await seedGroup('open');
+    const carts = as(MEMBER).doc(`groups/group1/carts/${MEMBER}`);
+
+    await assertFails(carts.set(cart(MEMBER, { itemMRP: 0 })));
+    await assertFails(carts.set(cart(MEMBER, { lines: Array(31).fill(line) })));
+  });
+
+  it('are only read by members', async () => {
+    await seedGroup('open');
+    await seed(`groups/group1/carts/${MEMBER}`, cart(MEMBER));
+
+    await assertSucceeds(as(LEADER).doc(`groups/group1/carts/${MEMBER}`).get());
+    await assertFails(as(OUTSIDER).doc(`groups/group1/carts/${MEMBER}`).get());
+  });
+});
+
+describe('order items', () => {
+  beforeEach(() => seedGroup('ordering'));
+
+  it('can be changed by their member while the order is pending', async () => {
+    await seedOrder('pending');
+
+    await assertSucceeds(as(MEMBER).doc('orders/order1').update({
+      [`items.${MEMBER}`]: { userId: MEMBER, items: 'Milk, eggs', lines: [line, line], itemMRP: 60, received: false },
+    }));
+  });
+
+  it('are locked once the split is submitted', async () => {
+    await seedOrder('splitting');
+
+    await assertFails(as(MEMBER).doc('orders/order1').update({ [`items.${MEMBER}.items`]: 'Milk, eggs' }));
+  });
+
+  it('can\'t be changed for someone else', async () => {
+    await seedOrder('pending');
+
+    await assertFails(as(MEMBER).doc('orders/order1').update({ [`items.${LEADER}.items`]: 'Nothing' }));
+    await assertFails(as(OUTSIDER).doc('orders/order1').update({
+      [`items.${OUTSIDER}`]: { userId: OUTSIDER, items: 'Milk', itemMRP: 60, received: false },
+    }));
+  });
+
+  it('can\'t be edited together with other order fields', async () => {
+    await seedOrder('pending');
+
+    await assertFails(as(MEMBER).doc('orders/order1').update({
+      [`items.${MEMBER}.items`]: 'Milk, eggs',
+      totalAmount: 1,
+    }));
+  });
+
+  it('take at most 30 lines', async () => {
+    await seedOrder('pending');
+
+    await assertFails(as(MEMBER).doc('orders/order1').update({
+      [`items.${MEMBER}.lines`]: Array(31).fill(line),
+    }));
+  });
+
+  it('leave delivery progress to the leader', async () => {
+    await seedOrder('delivering');
+
+    await assertSucceeds(as(LEADER).doc('orders/order1').update({ deliveryStatus: 'picked_up' }));
+    await assertFails(as(MEMBER).doc('orders/order1').update({ deliveryStatus: 'picked_up' }));
+  });
+});
+
+describe('delivery updates', () => {
+  beforeEach(async () => {
+    await seedGroup('ordered');
+    await seedOrder('delivering');
+  });
+
+  it('are posted by the leader in their own name', async () => {
+    const updates = as(LEADER).collection('orders/order1/delivery_updates');
+
+    await assertSucceeds(updates.add({ userId: LEADER, message: 'On the way' }));
+    await assertFails(updates.add({ userId: MEMBER, message: 'On the way' }));
+  });
+
+  it('can\'t be posted by members', async () => {
+    await assertFails(as(MEMBER).collection('orders/order1/delivery_updates').add({ userId: MEMBER, message: 'Here' }));
+  });
+
+  it('are read by members only and never changed', async () => {
+    await seed('orders/order1/delivery_updates/update1', { userId: LEADER, message: 'On the way' });
+
+    await assertSucceeds(as(MEMBER).doc('orders/order1/delivery_updates/update1').get());
+    await assertFails(as(OUTSIDER).doc('orders/order1/delivery_updates/update1').get());
+    await assertFails(as(LEADER).doc('orders/order1/delivery_updates/update1').update({ message: 'Arrived' }));
+  });
+});
+
+describe('support tickets', () => {
+  const ticket = { userId: MEMBER, subject: 'Refund', status: 'open' };
+
+  it('are opened by the user in their own name', async () => {
+    await assertSucceeds(as(MEMBER).doc('support_tickets/ticket1').set(ticket));
+    await assertFails(as(MEMBER).doc('support_tickets/ticket2').set({ ...ticket, status: 'resolved' }));
+    await assertFails(as(OUTSIDER).doc('support_tickets/ticket3').set(ticket));
+  });
+
+  it('can only be bumped or closed by their owner', async () => {
+    await seed('support_tickets/ticket1', ticket);
+    const owned = as(MEMBER).doc('support_tickets/ticket1');
+
+    await assertSucceeds(owned.update({ updatedAt: new Date() }));
+    await assertSucceeds(owned.update({ status: 'closed' }));
+    await assertFails(owned.update({ status: 'resolved' }));
+    await assertFails(owned.update({ subject: 'Something else' }));
+    await assertFails(as(OUTSIDER).doc('support_tickets/ticket1').update({ status: 'closed' }));
+  });
+
+  it('are private to their owner', async () => {
+    await seed('support_tickets/ticket1', ticket);
+
+    await assertSucceeds(as(MEMBER).doc('support_tickets/ticket1').get());
+    await assertFails(as(OUTSIDER).doc('support_tickets/ticket1').get());
+  });
+
+  it('take messages from their owner, never posing as staff', async () => {
+    await seed('support_tickets/ticket1', ticket);
+    const messages = (userId: string) => as(userId).collection('support_tickets/ticket1/messages');
+
+    await assertSucceeds(messages(MEMBER).add({ userId: MEMBER, text: 'Any news?', isStaff: false }));
+    await assertFails(messages(MEMBER).add({ userId: MEMBER, text: 'Refund approved', isStaff: true }));
+    await assertFails(messages(OUTSIDER).add({ userId: OUTSIDER, text: 'Hello', isStaff: false }));
+  });
+
+  it('keep their messages private and unchanged', async () => {
+    await seed('support_tickets/ticket1', ticket);
+    await seed('support_tickets/ticket1/messages/message1', { userId: MEMBER, text: 'Any news?', isStaff: false });
+
+    await assertSucceeds(as(MEMBER).doc('support_tickets/ticket1/messages/message1').get());
+    await assertFails(as(OUTSIDER).doc('support_tickets/ticket1/messages/message1').get());
+    await assertFails(as(MEMBER).doc('support_tickets/ticket1/messages/message1').update({ text: 'Edited' }));
+  });
+});
+
+describe('wallets', () => {
+  const wallet = { balance: 0, held: 0, rewardCoins: 0 };
+
+  it('start empty', async () => {
+    await assertSucceeds(as(MEMBER).doc(`users/${MEMBER}`).set({ name: 'Member', wallet }));
+    await assertFails(as(OUTSIDER).doc(`users/${OUTSIDER}`).set({ name: 'Outsider', wallet: { ...wallet, balance: 500 } }));
+    await assertFails(as(OUTSIDER).doc(`users/${OUTSIDER}`).set({ name: 'Outsider', wallet: { ...wallet, rewardCoins: 100 } }));
+  });
+
+  it('can\'t be changed by their owner', async () => {
+    await seed(`users/${MEMBER}`, { name: 'Member', wallet: { ...wallet, balance: 500, held: 200 } });
+    const user = as(MEMBER).doc(`users/${MEMBER}`);
+
+    await assertSucceeds(user.update({ name: 'New name' }));
+    await assertFails(user.update({ 'wallet.balance': 5000 }));
+    await assertFails(user.update({ 'wallet.held': 0 }));
+    await assertFails(user.update({ 'wallet.rewardCoins': 1000 }));
+  });
+
+  it('keep their money records to the Cloud Functions', async () => {
+    const db = as(MEMBER);
+    const records = [
+      'transactions/transaction1',
+      'ledger_entries/entry1',
+      'ledger_accounts/escrow:group1',
+      'escrows/order1',
+      'collateral_holds/group1_member',
+      'coin_entries/entry1',
+      'settlements/order_order1',
+      'payments/payment1',
+      'payouts/payout1',
+    ];
+
+    for (const path of records) {
+      await assertFails(db.doc(path).set({ userId: MEMBER, amount: 100 }));
+    }
+  });
+});
+
+describe('statuses', () => {
+  beforeEach(async () => {
+    await seedGroup('ordering');
+    await seedOrder('pending');
+  });
+
+  it('leave the group\'s lifecycle fields to the Cloud Functions', async () => {
+    const group = as(LEADER).doc('groups/group1');
+
+    await assertSucceeds(group.update({ name: 'Renamed' }));
+    await assertFails(group.update({ status: 'completed' }));
+    await assertFails(group.update({ deadline: null }));
+    await assertFails(group.update({ currentOrder: { id: 'order1', status: 'completed' } }));
+    await assertFails(group.update({ [`members.${OUTSIDER}`]: true }));
+    await assertFails(group.update({ leaderId: MEMBER }));
+  });
+
+  it('can\'t be changed on the order by the leader or a member', async () => {
+    await assertFails(as(LEADER).doc('orders/order1').update({ status: 'completed' }));
+    await assertFails(as(MEMBER).doc('orders/order1').update({ status: 'cancelled' }));
+  });
+
+  it('can\'t be set by creating groups or orders directly', async () => {
+    await assertFails(as(MEMBER).doc('groups/group2').set({ leaderId: MEMBER, members: { [MEMBER]: true }, status: 'open' }));
+    await assertFails(as(MEMBER).doc('orders/order2').set({ groupId: 'group1', leaderId: MEMBER, status: 'pending' }));
+  });
+});
+
+describe('groups', () => {
+  it('are discoverable unless they are invite-only', async () => {
+    await seedGroup('open', { visibility: 'approval' });
+
+    await assertSucceeds(as(OUTSIDER).doc('groups/group1').get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('groups/group1').get());
+  });
+
+  it('are hidden from non-members when invite-only', async () => {
+    await seedGroup('open', { visibility: 'invite_only' });
+
+    await assertSucceeds(as(MEMBER).doc('groups/group1').get());
+    await assertFails(as(OUTSIDER).doc('groups/group1').get());
+    await assertFails(as(FORMER).doc('groups/group1').get());
+  });
+
+  it('let the leader manage details but not membership or leadership', async () => {
+    await seedGroup('open');
+    const group = as(LEADER).doc('groups/group1');
+
+    await assertSucceeds(group.update({ description: 'Weekly groceries', visibility: 'invite_only' }));
+    await assertFails(group.update({ visibility: 'secret' }));
+    await assertFails(group.update({ [`members.${MEMBER}`]: false }));
+    await assertFails(group.update({ memberCount: 1 }));
+    await assertFails(group.update({ leaderPollId: 'poll1' }));
+    await assertFails(group.update({ geohash: 'tdr1' }));
+    await assertFails(group.update({ committedAmount: 0 }));
+  });
+
+  it('let members share a meeting location and nothing else', async () => {
+    await seedGroup('open');
+    const group = as(MEMBER).doc('groups/group1');
+
+    await assertSucceeds(group.update({ location: { latitude: 12.97, longitude: 77.59 } }));
+    await assertFails(group.update({ name: 'Renamed' }));
+    await assertFails(as(OUTSIDER).doc('groups/group1').update({ location: { latitude: 0, longitude: 0 } }));
+  });
+});
+
+describe('group chat', () => {
+  beforeEach(() => seedGroup('open'));
+
+  it('is only read by members', async () => {
+    await seed('groups/group1/messages/message1', { userId: LEADER, text: 'Hi', user: { _id: LEADER } });
+
+    await assertSucceeds(as(MEMBER).doc('groups/group1/messages/message1').get());
+    await assertSucceeds(as(MEMBER).collection('groups/group1/messages').get());
+    await assertFails(as(OUTSIDER).collection('groups/group1/messages').get());
+    await assertFails(as(FORMER).collection('groups/group1/messages').get());
+  });
+
+  it('takes messages from members in their own name', async () => {
+    const messages = (userId: string) => as(userId).collection('groups/group1/messages');
+
+    await assertSucceeds(messages(MEMBER).add({ text: 'Hi', user: { _id: MEMBER, name: 'Member' } }));
+    await assertFails(messages(MEMBER).add({ text: 'Hi', user: { _id: LEADER, name: 'Leader' } }));
+    await assertFails(messages(MEMBER).add({ text: 'Member left', system: true, user: { _id: MEMBER } }));
+    await assertFails(messages(OUTSIDER).add({ text: 'Hi', user: { _id: OUTSIDER } }));
+    await assertFails(messages(FORMER).add({ text: 'Hi', user: { _id: FORMER } }));
+  });
+
+  it('can\'t be edited or deleted', async () => {
+    await seed('groups/group1/messages/message1', { userId: MEMBER, text: 'Hi', user: { _id: MEMBER } });
+
+    await assertFails(as(MEMBER).doc('groups/group1/messages/message1').update({ text: 'Edited' }));
+    await assertFails(as(MEMBER).doc('groups/group1/messages/message1').delete());
+  });
+});
+
+describe('orders', () => {
+  it('are only read by members', async () => {
+    await seedGroup('ordering');
+    await seedOrder('pending');
+
+    await assertSucceeds(as(MEMBER).doc('orders/order1').get());
+    await assertFails(as(OUTSIDER).doc('orders/order1').get());
+    await assertFails(as(FORMER).doc('orders/order1').get());
+  });
+
+  it('can\'t be deleted', async () => {
+    await seedGroup('ordering');
+    await seedOrder('pending');
+
+    await assertFails(as(LEADER).doc('orders/order1').delete());
+  });
+});
+
+describe('group records written by the Cloud Functions', () => {
+  beforeEach(() => seedGroup('open', { visibility: 'approval' }));
+
+  it('show invites to the leader only', async () => {
+    await seed('groups/group1/invites/ABC123', { code: 'ABC123', createdBy: LEADER, uses: 0, maxUses: 5 });
+
+    await assertSucceeds(as(LEADER).doc('groups/group1/invites/ABC123').get());
+    await assertFails(as(MEMBER).doc('groups/group1/invites/ABC123').get());
+    await assertFails(as(LEADER).doc('groups/group1/invites/XYZ789').set({ code: 'XYZ789', createdBy: LEADER }));
+    await assertFails(as(LEADER).doc('groups/group1/invites/ABC123').update({ uses: 0, maxUses: 100 }));
+  });
+
+  it('show join requests to the requester and the leader', async () => {
+    await seed(`groups/group1/join_requests/${OUTSIDER}`, { userId: OUTSIDER, status: 'pending' });
+    const request = `groups/group1/join_requests/${OUTSIDER}`;
+
+    await assertSucceeds(as(OUTSIDER).doc(request).get());
+    await assertSucceeds(as(LEADER).doc(request).get());
+    await assertFails(as(MEMBER).doc(request).get());
+    await assertFails(as(FORMER).doc(`groups/group1/join_requests/${FORMER}`).set({ userId: FORMER, status: 'pending' }));
+    await assertFails(as(LEADER).doc(request).delete());
+  });
+
+  it('show leader polls to members', async () => {
+    await seed('groups/group1/leader_polls/poll1', { startedBy: MEMBER, candidates: [LEADER, MEMBER], votes: {} });
+
+    await assertSucceeds(as(MEMBER).doc('groups/group1/leader_polls/poll1').get());
+    await assertFails(as(OUTSIDER).doc('groups/group1/leader_polls/poll1').get());
+    await assertFails(as(MEMBER).doc('groups/group1/leader_polls/poll1').update({ [`votes.${MEMBER}`]: MEMBER }));
+    await assertFails(as(MEMBER).doc('groups/group1/leader_polls/poll2').set({ startedBy: MEMBER }));
+  });
+
+  it('show the status history to members', async () => {
+    await seed('groups/group1/transitions/transition1', { event: 'start_order', actorId: LEADER });
+
+    await assertSucceeds(as(MEMBER).collection('groups/group1/transitions').get());
+    await assertFails(as(OUTSIDER).collection('groups/group1/transitions').get());
+    await assertFails(as(LEADER).collection('groups/group1/transitions').add({ event: 'complete', actorId: LEADER }));
+  });
+});
+
+describe('disputes', () => {
+  beforeEach(async () => {
+    await seedGroup('ordered');
+    await seed('disputes/dispute1', { userId: MEMBER, groupId: 'group1', orderId: 'order1', status: 'open' });
+  });
+
+  it('are read by the member who filed them and the leader', async () => {
+    await assertSucceeds(as(MEMBER).doc('disputes/dispute1').get());
+    await assertSucceeds(as(LEADER).doc('disputes/dispute1').get());
+    await assertFails(as(OUTSIDER).doc('disputes/dispute1').get());
+  });
+
+  it('are filed and resolved through the Cloud Functions', async () => {
+    await assertFails(as(MEMBER).doc('disputes/dispute2').set({ userId: MEMBER, groupId: 'group1', status: 'open' }));
+    await assertFails(as(MEMBER).doc('disputes/dispute1').update({ status: 'resolved' }));
+    await assertFails(as(LEADER).doc('disputes/dispute1').update({ status: 'rejected' }));
+  });
+});
+
+describe('user profiles', () => {
+  const wallet = { balance: 0, held: 0, rewardCoins: 0 };
+  const serverTime = () => firebase.firestore.FieldValue.serverTimestamp();
+
+  beforeEach(() => seed(`users/${MEMBER}`, { name: 'Member', wallet }));
+
+  it('are read by anyone signed in and changed only by their owner', async () => {
+    await assertSucceeds(as(OUTSIDER).doc(`users/${MEMBER}`).get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc(`users/${MEMBER}`).get());
+    await assertFails(as(OUTSIDER).doc(`users/${MEMBER}`).update({ name: 'Someone else' }));
+    await assertFails(as(MEMBER).doc(`users/${MEMBER}`).delete());
+  });
+
+  it('stamp consent with the server time', async () => {
+    const user = as(MEMBER).doc(`users/${MEMBER}`);
+
+    await assertSucceeds(user.update({
+      termsAcceptedAt: serverTime(),
+      collateralConsentAt: serverTime(),
+      onboardingCompletedAt: serverTime(),
+    }));
+    const lastYear = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
+    await assertFails(user.update({ termsAcceptedAt: lastYear }));
+    await assertFails(user.update({ collateralConsentAt: lastYear }));
+    await assertFails(user.update({ onboardingCompletedAt: lastYear }));
+  });
+
+  it('take only a fresh location', async () => {
+    const user = as(MEMBER).doc(`users/${MEMBER}`);
+    const location = { latitude: 12.97, longitude: 77.59 };
+
+    await assertSucceeds(user.update({ location, lastLocationUpdate: new Date() }));
+    await assertFails(user.update({ location, lastLocationUpdate: new Date(Date.now() - 60 * 60 * 1000) }));
+    await assertFails(user.update({ location: 'Bangalore', lastLocationUpdate: new Date() }));
+  });
+
+  it('keep their creation time', async () => {
+    await assertFails(as(MEMBER).doc(`users/${MEMBER}`).update({ createdAt: new Date() }));
+  });
+});
+
+describe('money records', () => {
+  beforeEach(() => seedGroup('ordered'));
+
+  it('are read only by the user they belong to', async () => {
+    const owned = [
+      'transactions/transaction1',
+      'collateral_holds/group1_member',
+      'coin_entries/entry1',
+      'payments/payment1',
+      'payouts/payout1',
+      'payout_destinations/destination1',
+      'notifications/notification1',
+    ];
+
+    for (const path of owned) {
+      await seed(path, { userId: MEMBER, amount: 100 });
+      await assertSucceeds(as(MEMBER).doc(path).get());
+      await assertFails(as(OUTSIDER).doc(path).get());
+    }
+  });
+
+  it('show journal entries to the wallets they touch', async () => {
+    await seed('ledger_entries/entry1', { accounts: [`user:${MEMBER}`, 'escrow:group1'], lines: [] });
+
+    await assertSucceeds(as(MEMBER).doc('ledger_entries/entry1').get());
+    await assertFails(as(OUTSIDER).doc('ledger_entries/entry1').get());
+  });
+
+  it('show escrow and settlements to the group\'s members', async () => {
+    await seed('escrows/order1', { groupId: 'group1', orderId: 'order1', holdings: {} });
+    await seed('settlements/order_order1', { groupId: 'group1', orderId: 'order1' });
+
+    await assertSucceeds(as(MEMBER).doc('escrows/order1').get());
+    await assertFails(as(OUTSIDER).doc('escrows/order1').get());
+    await assertSucceeds(as(MEMBER).doc('settlements/order_order1').get());
+    await assertFails(as(OUTSIDER).doc('settlements/order_order1').get());
+  });
+
+  it('read a missing escrow as empty', async () => {
+    await assertSucceeds(as(OUTSIDER).doc('escrows/order2').get());
+  });
+
+  it('keep fraud reviews and screenshot hashes from everyone', async () => {
+    await seed('fraud_reviews/order1', { orderId: 'order1', leaderId: LEADER, status: 'open' });
+    await seed('screenshot_hashes/order1', { leaderId: LEADER, hash: '0f' });
+
+    await assertFails(as(LEADER).doc('fraud_reviews/order1').get());
+    await assertFails(as(LEADER).doc('screenshot_hashes/order1').get());
+    await assertFails(as(LEADER).doc('fraud_reviews/order1').update({ status: 'cleared' }));
+  });
+});
+
+describe('payout destinations', () => {
+  beforeEach(() => seed('payout_destinations/destination1', { userId: MEMBER, type: 'upi', verified: true }));
+
+  it('are added by the Cloud Functions and removed by their owner', async () => {
+    await assertFails(as(MEMBER).doc('payout_destinations/destination2').set({ userId: MEMBER, type: 'upi', verified: true }));
+    await assertFails(as(MEMBER).doc('payout_destinations/destination1').update({ verified: false }));
+    await assertFails(as(OUTSIDER).doc('payout_destinations/destination1').delete());
+    await assertSucceeds(as(MEMBER).doc('payout_destinations/destination1').delete());
+  });
+});
+
+describe('notifications', () => {
+  beforeEach(() => seed('notifications/notification1', { userId: MEMBER, title: 'Order cancelled', read: false }));
+
+  it('can only be marked read by their owner', async () => {
+    await assertSucceeds(as(MEMBER).doc('notifications/notification1').update({ read: true }));
+    await assertFails(as(MEMBER).doc('notifications/notification1').update({ title: 'Edited' }));
+    await assertFails(as(OUTSIDER).doc('notifications/notification1').update({ read: true }));
+  });
+
+  it('are only sent by the Cloud Functions', async () => {
+    await assertFails(as(MEMBER).doc('notifications/notification2').set({ userId: MEMBER, title: 'Hello', read: false }));
+    await assertFails(as(MEMBER).doc('notifications/notification1').delete());
+  });
+});
+
+describe('ratings', () => {
+  it('are given in the rater\'s own name and never changed', async () => {
+    await assertSucceeds(as(MEMBER).doc('ratings/rating1').set({ userId: MEMBER, ratedUserId: LEADER, score: 5 }));
+    await assertFails(as(MEMBER).doc('ratings/rating2').set({ userId: LEADER, ratedUserId: MEMBER, score: 5 }));
+    await assertSucceeds(as(OUTSIDER).doc('ratings/rating1').get());
+    await assertFails(as(MEMBER).doc('ratings/rating1').update({ score: 1 }));
+    await assertFails(as(MEMBER).doc('ratings/rating1').delete());
+  });
+});
+
+describe('derived records', () => {
+  it('are read by anyone signed in or the group\'s members and written only by the Cloud Functions', async () => {
+    await seedGroup('open');
+    await seed(`userReputations/${MEMBER}`, { score: 5 });
+    await seed('groupMetrics/group1', { orders: 1 });
+
+    await assertSucceeds(as(OUTSIDER).doc(`userReputations/${MEMBER}`).get());
+    await assertFails(as(MEMBER).doc(`userReputations/${MEMBER}`).set({ score: 10 }));
+    await assertSucceeds(as(MEMBER).doc('groupMetrics/group1').get());
+    await assertFails(as(OUTSIDER).doc('groupMetrics/group1').get());
+    await assertFails(as(LEADER).doc('groupMetrics/group1').set({ orders: 100 }));
+  });
+});
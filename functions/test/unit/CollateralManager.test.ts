@@ -0,0 +1,134 @@
+import { DocumentReference, Transaction } from 'firebase-admin/firestore';
+import { CollateralError, CollateralManager, GROUP_COLLATERAL_AMOUNT } from '../../src/CollateralManager';
+import { LedgerAccounts, LedgerTransaction } from '../../src/Ledger';
+
+const GROUP_ID = 'group1';
+const USER_ID = 'member';
+const HOLD_PATH = `collateral_holds/${GROUP_ID}_${USER_ID}`;
+
+// Serves `users` and `collateral_holds` from a map and applies writes to it,
+// so a hold placed in one transaction is seen by the next
+const fakeFirestore = (docs: Record<string, any>) => {
+  const write = (ref: DocumentReference, data: any) => {
+    const doc = { ...docs[ref.path] };
+    Object.entries(data).forEach(([field, value]) => {
+      const [parent, child] = field.split('.');
+      if (child) {
+        doc[parent] = { ...doc[parent], [child]: value };
+      } else {
+        doc[field] = value;
+      }
+    });
+    docs[ref.path] = doc;
+  };
+  const transaction = {
+    get: async (ref: DocumentReference) => ({
+      id: ref.id,
+      exists: docs[ref.path] !== undefined,
+      data: () => docs[ref.path],
+    }),
+    set: (ref: DocumentReference, data: any) => {
+      docs[ref.path] = data;
+    },
+    update: write,
+  } as unknown as Transaction;
+  return { transaction, docs };
+};
+
+const user = (balance: number, held = 0, consented = true) => ({
+  wallet: { balance, held },
+  ...(consented && { collateralConsentAt: new Date() }),
+});
+
+const codeOf = (run: () => void) => {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(CollateralError);
+    return (error as CollateralError).code;
+  }
+};
+
+describe('CollateralManager', () => {
+  it('holds the collateral in the wallet and records an active hold', async () => {
+    const { transaction, docs } = fakeFirestore({ [`users/${USER_ID}`]: user(500, 200) });
+
+    CollateralManager.place(transaction, await CollateralManager.load(transaction, GROUP_ID, USER_ID));
+
+    expect(docs[`users/${USER_ID}`].wallet).toEqual({ balance: 500, held: 200 + GROUP_COLLATERAL_AMOUNT });
+    expect(docs[HOLD_PATH]).toMatchObject({
+      userId: USER_ID,
+      groupId: GROUP_ID,
+      amount: GROUP_COLLATERAL_AMOUNT,
+      status: 'active',
+    });
+  });
+
+  it('doesn\'t hold twice for the same group', async () => {
+    const { transaction, docs } = fakeFirestore({ [`users/${USER_ID}`]: user(1000) });
+
+    CollateralManager.place(transaction, await CollateralManager.load(transaction, GROUP_ID, USER_ID));
+    CollateralManager.place(transaction, await CollateralManager.load(transaction, GROUP_ID, USER_ID));
+
+    expect(docs[`users/${USER_ID}`].wallet.held).toBe(GROUP_COLLATERAL_AMOUNT);
+  });
+
+  it('needs consent and enough available balance', async () => {
+    const { transaction, docs } = fakeFirestore({
+      'users/unconsented': user(1000, 0, false),
+      'users/short': user(399.99, 200),
+    });
+
+    const unconsented = await CollateralManager.load(transaction, GROUP_ID, 'unconsented');
+    const short = await CollateralManager.load(transaction, GROUP_ID, 'short');
+
+    expect(codeOf(() => CollateralManager.place(transaction, unconsented))).toBe('COLLATERAL_CONSENT_REQUIRED');
+    expect(codeOf(() => CollateralManager.place(transaction, short))).toBe('INSUFFICIENT_COLLATERAL');
+    expect(docs['users/short'].wallet.held).toBe(200);
+    expect(docs[`collateral_holds/${GROUP_ID}_short`]).toBeUndefined();
+  });
+
+  it('gives the collateral back and marks the hold released', async () => {
+    const { transaction, docs } = fakeFirestore({ [`users/${USER_ID}`]: user(500, 200) });
+    CollateralManager.place(transaction, await CollateralManager.load(transaction, GROUP_ID, USER_ID));
+
+    CollateralManager.release(transaction, await CollateralManager.load(transaction, GROUP_ID, USER_ID));
+
+    expect(docs[`users/${USER_ID}`].wallet).toEqual({ balance: 500, held: 200 });
+    expect(docs[HOLD_PATH].status).toBe('released');
+
+    // Releasing again, or with no hold at all, changes nothing
+    CollateralManager.release(transaction, await CollateralManager.load(transaction, GROUP_ID, USER_ID));
+    CollateralManager.release(transaction, await CollateralManager.load(transaction, 'group2', USER_ID));
+    expect(docs[`users/${USER_ID}`].wallet.held).toBe(200);
+  });
+
+  it('never takes held below zero', async () => {
+    const { transaction, docs } = fakeFirestore({
+      [`users/${USER_ID}`]: user(500, 50),
+      [HOLD_PATH]: { userId: USER_ID, groupId: GROUP_ID, amount: GROUP_COLLATERAL_AMOUNT, status: 'active' },
+    });
+
+    CollateralManager.release(transaction, await CollateralManager.load(transaction, GROUP_ID, USER_ID));
+
+    expect(docs[`users/${USER_ID}`].wallet.held).toBe(0);
+  });
+
+  it('keeps held collateral out of what the ledger lets the wallet spend', async () => {
+    const { transaction } = fakeFirestore({ [`users/${USER_ID}`]: user(300) });
+    CollateralManager.place(transaction, await CollateralManager.load(transaction, GROUP_ID, USER_ID));
+
+    const ledger = new LedgerTransaction(transaction);
+    await ledger.load([LedgerAccounts.userWallet(USER_ID)]);
+
+    expect(ledger.availableOf(LedgerAccounts.userWallet(USER_ID))).toBe(300 - GROUP_COLLATERAL_AMOUNT);
+  });
+
+  it('needs the wallet to exist', async () => {
+    const { transaction } = fakeFirestore({});
+
+    await expect(CollateralManager.load(transaction, GROUP_ID, USER_ID))
+      .rejects.toMatchObject({ code: 'WALLET_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,87 @@
+import fc from 'fast-check';
+import { DocumentReference, Transaction } from 'firebase-admin/firestore';
+import { EscrowManager } from '../../src/EscrowManager';
+import { LedgerAccounts, LedgerTransaction } from '../../src/Ledger';
+import { Money } from '../../src/shared/Money';
+import { OrderSplit } from '../../src/types';
+
+const GROUP_ID = 'group1';
+const ORDER_ID = 'order1';
+const LEADER = 'leader';
+
+// Just enough of a Firestore transaction for the ledger: wallets are read
+// from `users`, every other account starts empty, and writes are dropped
+const fakeTransaction = (users: Record<string, number>) => ({
+  get: async (ref: DocumentReference) => {
+    const [collection, id] = ref.path.split('/');
+    const balance = collection === 'users' ? users[id] : undefined;
+    return {
+      exists: balance !== undefined,
+      data: () => (balance === undefined ? undefined : { wallet: { balance, held: 0 } }),
+    };
+  },
+  set: () => undefined,
+  update: () => undefined,
+}) as unknown as Transaction;
+
+const rupees = (paise: number) => Money.fromPaise(paise).toRupees();
+
+// Members' shares, some partly paid with coins, and whether each is
+// released to the leader or refunded
+const member = fc.record({
+  share: fc.integer({ min: 1, max: 1_000_000 }),
+  coins: fc.oneof(fc.constant(0), fc.integer({ min: 1, max: 10_000 })), // 10 paise each
+  released: fc.boolean(),
+});
+
+describe('EscrowManager', () => {
+  it('nets to zero across the ledger once every holding is released or refunded', async () => {
+    await fc.assert(fc.asyncProperty(fc.array(member, { minLength: 1, maxLength: 6 }), async members => {
+      const userIds = members.map((_, index) => `member${index}`);
+      const splits: OrderSplit[] = members.map(({ share, coins }, index) => ({
+        userId: userIds[index],
+        originalAmount: rupees(share + coins * 10),
+        taxShare: 0,
+        discountShare: 0,
+        finalAmount: rupees(share),
+        ...(coins > 0 && { coinsApplied: coins, coinDiscount: rupees(coins * 10) }),
+        approved: true,
+      }));
+
+      const startingBalances = Object.fromEntries([LEADER, ...userIds].map(userId => [userId, 20_000]));
+      const transaction = fakeTransaction(startingBalances);
+      const ledger = new LedgerTransaction(transaction);
+      const accounts = EscrowManager.accounts(GROUP_ID, LEADER, userIds);
+      await ledger.load(accounts);
+      const before = accounts.map(accountId => Money.of(ledger.balanceOf(accountId)));
+
+      const escrow = EscrowManager.lock(transaction, ledger, { groupId: GROUP_ID, orderId: ORDER_ID, leaderId: LEADER, splits });
+      members.forEach(({ released }, index) => {
+        if (released) EscrowManager.release(transaction, ledger, escrow, userIds[index]);
+      });
+      EscrowManager.refund(transaction, ledger, escrow);
+
+      const changes = accounts.map((accountId, index) =>
+        Money.of(ledger.balanceOf(accountId)).subtract(before[index]));
+      expect(Money.sum(changes).paise).toBe(0);
+      expect(ledger.balanceOf(LedgerAccounts.groupEscrow(GROUP_ID))).toBe(0);
+      expect(escrow.status).toBe('settled');
+
+      // Released holdings, coins included, end up with the leader and the
+      // platform fees
+      const releasedPaise = members
+        .filter(({ released }) => released)
+        .reduce((sum, { share, coins }) => sum + share + coins * 10, 0);
+      const paidOut = [LedgerAccounts.userWallet(LEADER), LedgerAccounts.PLATFORM_FEES]
+        .map(accountId => changes[accounts.indexOf(accountId)].paise);
+      expect(paidOut[0] + paidOut[1]).toBe(releasedPaise);
+
+      // Refunded members get back exactly the cash they paid
+      members.forEach(({ released }, index) => {
+        if (!released) {
+          expect(ledger.balanceOf(LedgerAccounts.userWallet(userIds[index]))).toBe(20_000);
+        }
+      });
+    }));
+  });
+});
@@ -0,0 +1,249 @@
+import { DocumentReference, Transaction } from 'firebase-admin/firestore';
+import { GroupLifecycle, LifecycleError, LifecycleTarget } from '../../src/GroupLifecycle';
+import { GroupStatus, LifecycleEvent, OrderStatus } from '../../src/types';
+
+// What functions/.env would provide
+process.env.GATHERING_DEADLINE_HOURS = '24';
+process.env.SCREENSHOT_DEADLINE_HOURS = '2';
+process.env.APPROVAL_DEADLINE_HOURS = '4';
+process.env.DELIVERY_DEADLINE_HOURS = '6';
+
+const GROUP_STATUSES: GroupStatus[] = ['open', 'ordering', 'ordered', 'completed', 'cancelled'];
+const ORDER_STATUSES: OrderStatus[] = ['pending', 'splitting', 'delivering', 'completed', 'disputed', 'cancelled'];
+
+// The states each event may start from; null where the event doesn't look
+// at the group, or where there must be no order yet
+const ALLOWED: Record<LifecycleEvent, { group: GroupStatus[] | null; order: OrderStatus[] | null }> = {
+  start_order: { group: ['open'], order: null },
+  submit_split: { group: ['ordering'], order: ['pending'] },
+  lock_escrow: { group: null, order: ['splitting'] },
+  open_dispute: { group: null, order: ['splitting', 'delivering'] },
+  reject_dispute: { group: null, order: ['disputed'] },
+  uphold_dispute: { group: ['ordered'], order: ['disputed'] },
+  complete: { group: ['ordered'], order: ['delivering'] },
+  cancel_order: { group: ['ordering', 'ordered'], order: ['pending', 'splitting', 'delivering'] },
+  cancel_group: { group: ['open'], order: null },
+  expire_order: { group: ['ordering', 'ordered'], order: ['pending', 'splitting', 'delivering'] },
+};
+
+const ORDER_ERRORS: Partial<Record<OrderStatus, string>> = {
+  completed: 'ORDER_COMPLETED',
+  cancelled: 'ORDER_CANCELLED',
+  disputed: 'ORDER_DISPUTED',
+};
+
+const EVENTS = Object.keys(ALLOWED) as LifecycleEvent[];
+
+// Two members with items and approved splits, so only the states are in
+// question; `collected` is needed to complete and rules out cancelling
+const target = (
+  groupStatus: GroupStatus,
+  order: { [key: string]: any } | null,
+  collected = false
+): LifecycleTarget => ({
+  groupId: 'group1',
+  group: {
+    status: groupStatus,
+    members: { leader: true, member: true },
+    ...(order && { currentOrder: { id: 'order1', status: order.status } }),
+  },
+  ...(order && {
+    orderId: 'order1',
+    order: {
+      items: {
+        leader: { userId: 'leader', received: collected },
+        member: { userId: 'member', received: collected },
+      },
+      splits: { leader: { approved: true }, member: { approved: true } },
+      ...order,
+    },
+  }),
+  actorId: 'leader',
+});
+
+const errorOf = (run: () => void): string | null => {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(LifecycleError);
+    return (error as LifecycleError).code;
+  }
+};
+
+// Records writes so fire() can be checked without Firestore
+const fakeTransaction = () => {
+  const sets: { path: string; data: any }[] = [];
+  const updates: { path: string; data: any }[] = [];
+  const transaction = {
+    set: (ref: DocumentReference, data: any) => sets.push({ path: ref.path, data }),
+    update: (ref: DocumentReference, data: any) => updates.push({ path: ref.path, data }),
+  } as unknown as Transaction;
+  return { transaction, sets, updates };
+};
+
+const groupUpdate = (updates: { path: string; data: any }[]) =>
+  updates.find(update => update.path === 'groups/group1')!.data;
+
+describe('GroupLifecycle', () => {
+  describe.each(EVENTS)('%s', event => {
+    const allowed = ALLOWED[event];
+    const groupStatuses = allowed.group || ['ordered' as GroupStatus];
+
+    it('starts only from its allowed states', () => {
+      groupStatuses.forEach(groupStatus => {
+        if (allowed.order === null) {
+          expect(errorOf(() => GroupLifecycle.check(event, target(groupStatus, null)))).toBeNull();
+          return;
+        }
+
+        ORDER_STATUSES.forEach(orderStatus => {
+          const code = errorOf(() =>
+            GroupLifecycle.check(event, target(groupStatus, { status: orderStatus }, event === 'complete')));
+          const expected = allowed.order!.includes(orderStatus)
+            ? null
+            : ORDER_ERRORS[orderStatus] || 'INVALID_ORDER_STATUS';
+          expect({ groupStatus, orderStatus, code }).toEqual({ groupStatus, orderStatus, code: expected });
+        });
+      });
+    });
+
+    if (allowed.group) {
+      it('is rejected from any other group status', () => {
+        GROUP_STATUSES.filter(status => !allowed.group!.includes(status)).forEach(groupStatus => {
+          const order = allowed.order && { status: allowed.order[0] };
+          const code = errorOf(() => GroupLifecycle.check(event, target(groupStatus, order, event === 'complete')));
+          expect({ groupStatus, code }).toEqual({ groupStatus, code: 'INVALID_GROUP_STATUS' });
+        });
+      });
+    }
+
+    if (allowed.order) {
+      it('needs the order', () => {
+        expect(errorOf(() => GroupLifecycle.check(event, target(groupStatuses[0], null)))).toBe('ORDER_NOT_FOUND');
+      });
+    }
+  });
+
+  it('won\'t start a second order', () => {
+    const open = target('open', null);
+    open.group.currentOrder = { id: 'order0', status: 'cancelled' };
+
+    expect(errorOf(() => GroupLifecycle.check('start_order', open))).toBe('ORDER_EXISTS');
+  });
+
+  it('needs two active members to start an order', () => {
+    const open = target('open', null);
+    open.group.members = { leader: true, former: false };
+
+    expect(errorOf(() => GroupLifecycle.check('start_order', open))).toBe('NOT_ENOUGH_MEMBERS');
+
+    open.group.members = { leader: true, former: false, member: true };
+    expect(errorOf(() => GroupLifecycle.check('start_order', open))).toBeNull();
+  });
+
+  it('needs two members with items to submit the split', () => {
+    const ordering = target('ordering', { status: 'pending', items: { leader: { userId: 'leader' } } });
+
+    expect(errorOf(() => GroupLifecycle.check('submit_split', ordering))).toBe('NOT_ENOUGH_ITEMS');
+  });
+
+  it('completes only once every split is approved and every item collected', () => {
+    const unapproved = target('ordered', {
+      status: 'delivering',
+      splits: { leader: { approved: true }, member: { approved: false } },
+    }, true);
+    const uncollected = target('ordered', { status: 'delivering' });
+
+    expect(errorOf(() => GroupLifecycle.check('complete', unapproved))).toBe('SPLITS_NOT_APPROVED');
+    expect(errorOf(() => GroupLifecycle.check('complete', uncollected))).toBe('DELIVERY_PENDING');
+  });
+
+  it('won\'t cancel an order once items are handed over', () => {
+    const delivering = target('ordered', { status: 'delivering' }, true);
+
+    expect(errorOf(() => GroupLifecycle.check('cancel_order', delivering))).toBe('DELIVERY_STARTED');
+  });
+
+  it('creates the order and starts the screenshot deadline', () => {
+    const { transaction, sets, updates } = fakeTransaction();
+    const open = { ...target('open', null), orderId: 'order1' };
+
+    GroupLifecycle.fire(transaction, 'start_order', open, { order: { leaderId: 'leader' } });
+
+    expect(sets.find(set => set.path === 'orders/order1')!.data)
+      .toMatchObject({ leaderId: 'leader', status: 'pending' });
+    expect(groupUpdate(updates)).toMatchObject({
+      status: 'ordering',
+      currentOrder: { id: 'order1', status: 'pending' },
+      deadline: { kind: 'screenshot' },
+    });
+    expect(sets.find(set => set.path.startsWith('groups/group1/transitions/'))!.data).toMatchObject({
+      event: 'start_order',
+      actorId: 'leader',
+      group: { from: 'open', to: 'ordering' },
+      order: { id: 'order1', from: null, to: 'pending' },
+    });
+  });
+
+  it('runs the delivery deadline once escrow is locked', () => {
+    const { transaction, updates } = fakeTransaction();
+
+    GroupLifecycle.fire(transaction, 'lock_escrow', target('ordered', { status: 'splitting' }));
+
+    expect(groupUpdate(updates)).toMatchObject({
+      'currentOrder.status': 'delivering',
+      deadline: { kind: 'delivery' },
+    });
+    expect(updates.find(update => update.path === 'orders/order1')!.data)
+      .toMatchObject({ status: 'delivering', escrowLockedAt: expect.anything() });
+  });
+
+  it('clears the delivery deadline while a fraud review is open', () => {
+    const { transaction, updates } = fakeTransaction();
+    const flagged = target('ordered', { status: 'splitting', fraudReview: { status: 'open' } });
+
+    GroupLifecycle.fire(transaction, 'lock_escrow', flagged);
+
+    expect(groupUpdate(updates).deadline).toBeNull();
+  });
+
+  it('restarts the delivery deadline when a review is cleared before the dispute is rejected', () => {
+    const open = fakeTransaction();
+    const cleared = fakeTransaction();
+    const disputed = (review: string) => target('ordered', {
+      status: 'disputed',
+      escrowLockedAt: new Date(),
+      fraudReview: { status: review },
+    });
+
+    GroupLifecycle.fire(open.transaction, 'reject_dispute', disputed('open'));
+    GroupLifecycle.fire(cleared.transaction, 'reject_dispute', disputed('cleared'));
+
+    expect(groupUpdate(open.updates).deadline).toBeNull();
+    expect(groupUpdate(cleared.updates)).toMatchObject({
+      'currentOrder.status': 'delivering',
+      deadline: { kind: 'delivery' },
+    });
+  });
+
+  it('sends a rejected dispute back to approval when escrow was never locked', () => {
+    const { transaction, updates } = fakeTransaction();
+
+    GroupLifecycle.fire(transaction, 'reject_dispute', target('ordered', { status: 'disputed' }));
+
+    expect(groupUpdate(updates)).toMatchObject({
+      'currentOrder.status': 'splitting',
+      deadline: { kind: 'approval' },
+    });
+  });
+
+  it('writes nothing when the event is rejected', () => {
+    const { transaction, sets, updates } = fakeTransaction();
+
+    expect(() => GroupLifecycle.fire(transaction, 'complete', target('ordered', { status: 'splitting' })))
+      .toThrow(LifecycleError);
+    expect(sets).toHaveLength(0);
+    expect(updates).toHaveLength(0);
+  });
+});
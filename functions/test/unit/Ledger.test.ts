@@ -0,0 +1,149 @@
+import fc from 'fast-check';
+import { DocumentReference, Transaction } from 'firebase-admin/firestore';
+import { LedgerAccounts, LedgerError, LedgerTransaction } from '../../src/Ledger';
+import { Money } from '../../src/shared/Money';
+
+const ALICE = LedgerAccounts.userWallet('alice');
+const BOB = LedgerAccounts.userWallet('bob');
+const ACCOUNTS = [
+  ALICE,
+  BOB,
+  LedgerAccounts.groupEscrow('group1'),
+  LedgerAccounts.PLATFORM_FEES,
+  LedgerAccounts.REWARDS,
+  LedgerAccounts.PENDING_PAYOUTS,
+  LedgerAccounts.EXTERNAL,
+];
+
+type Wallets = Record<string, { balance: number; held?: number }>;
+
+// Wallets are read from `users`, every other account starts empty, and
+// writes are recorded
+const fakeTransaction = (wallets: Wallets) => {
+  const writes: { path: string; data: any }[] = [];
+  const transaction = {
+    get: async (ref: DocumentReference) => {
+      const [collection, id] = ref.path.split('/');
+      const wallet = collection === 'users' ? wallets[id] : undefined;
+      return {
+        exists: wallet !== undefined,
+        data: () => (wallet === undefined ? undefined : { wallet: { held: 0, ...wallet } }),
+      };
+    },
+    set: (ref: DocumentReference, data: any) => writes.push({ path: ref.path, data }),
+    update: (ref: DocumentReference, data: any) => writes.push({ path: ref.path, data }),
+  } as unknown as Transaction;
+  return { transaction, writes };
+};
+
+const loaded = async (wallets: Wallets = { alice: { balance: 1000 }, bob: { balance: 1000 } }) => {
+  const { transaction, writes } = fakeTransaction(wallets);
+  const ledger = new LedgerTransaction(transaction);
+  await ledger.load(ACCOUNTS);
+  return { ledger, writes };
+};
+
+const totalOf = (ledger: LedgerTransaction) =>
+  Money.sum(ACCOUNTS.map(accountId => Money.of(ledger.balanceOf(accountId)))).paise;
+
+const codeOf = (run: () => unknown) => {
+  try {
+    run();
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(LedgerError);
+    return (error as LedgerError).code;
+  }
+};
+
+// Moves between the platform's own accounts, which may run negative, and
+// back into the wallets; the last line balances the entry
+const entry = fc.array(fc.record({
+  accountId: fc.constantFrom(...ACCOUNTS.slice(2)),
+  paise: fc.integer({ min: -1_000_000, max: 1_000_000 }),
+}), { minLength: 1, maxLength: 6 }).map(lines => {
+  const rest = lines.reduce((sum, line) => sum + line.paise, 0);
+  return [
+    ...lines.map(line => ({ accountId: line.accountId, amount: Money.fromPaise(line.paise).toRupees() })),
+    { accountId: rest > 0 ? LedgerAccounts.EXTERNAL : ALICE, amount: Money.fromPaise(-rest).toRupees() },
+  ];
+});
+
+describe('LedgerTransaction', () => {
+  it('keeps the sum of all balances unchanged by every posting', async () => {
+    await fc.assert(fc.asyncProperty(fc.array(entry, { minLength: 1, maxLength: 10 }), async entries => {
+      const { ledger } = await loaded({ alice: { balance: 1_000_000_000 }, bob: { balance: 1000 } });
+      const before = totalOf(ledger);
+
+      entries.forEach(lines => ledger.post({ description: 'Test entry', lines }));
+
+      expect(totalOf(ledger)).toBe(before);
+    }));
+  });
+
+  it('rejects an entry that doesn\'t balance', async () => {
+    await fc.assert(fc.asyncProperty(entry, fc.integer({ min: 1, max: 100_000 }), async (lines, off) => {
+      const { ledger } = await loaded({ alice: { balance: 1_000_000_000 }, bob: { balance: 1000 } });
+      const unbalanced = [...lines, { accountId: LedgerAccounts.PLATFORM_FEES, amount: Money.fromPaise(off).toRupees() }];
+
+      expect(codeOf(() => ledger.post({ description: 'Test entry', lines: unbalanced }))).toBe('UNBALANCED_ENTRY');
+      ACCOUNTS.slice(2).forEach(accountId => expect(ledger.balanceOf(accountId)).toBe(0));
+    }));
+  });
+
+  it('rejects single lines and fractions of a paisa', async () => {
+    const { ledger } = await loaded();
+
+    expect(codeOf(() => ledger.post({ description: 'One line', lines: [{ accountId: ALICE, amount: 0 }] })))
+      .toBe('INVALID_ENTRY');
+    expect(codeOf(() => ledger.post({
+      description: 'Fraction',
+      lines: [{ accountId: ALICE, amount: -0.005 }, { accountId: BOB, amount: 0.005 }],
+    }))).toBe('INVALID_AMOUNT');
+  });
+
+  it('won\'t take a wallet below zero or spend what is held', async () => {
+    const { ledger } = await loaded({ alice: { balance: 300, held: 200 }, bob: { balance: 0 } });
+    const transfer = (amount: number, allowHeld = false) => ledger.post({
+      description: 'Transfer',
+      lines: [{ accountId: ALICE, amount: -amount }, { accountId: BOB, amount }],
+    }, undefined, { allowHeld });
+
+    expect(ledger.availableOf(ALICE)).toBe(100);
+    expect(codeOf(() => transfer(100.01))).toBe('INSUFFICIENT_BALANCE');
+    expect(codeOf(() => transfer(300.01, true))).toBe('INSUFFICIENT_BALANCE');
+    expect(ledger.balanceOf(ALICE)).toBe(300);
+
+    transfer(250, true); // A no-show penalty may take the collateral
+    expect(ledger.balanceOf(ALICE)).toBe(50);
+    expect(ledger.balanceOf(BOB)).toBe(250);
+  });
+
+  it('needs the accounts loaded and the wallets to exist', async () => {
+    const { transaction } = fakeTransaction({});
+    const ledger = new LedgerTransaction(transaction);
+
+    await expect(ledger.load([ALICE])).rejects.toMatchObject({ code: 'ACCOUNT_NOT_FOUND' });
+    expect(codeOf(() => ledger.balanceOf(LedgerAccounts.EXTERNAL))).toBe('ACCOUNT_NOT_LOADED');
+  });
+
+  it('writes the new balances and a balanced entry on commit', async () => {
+    const { ledger, writes } = await loaded();
+
+    const entryId = ledger.post({
+      description: 'Top-up',
+      userId: 'alice',
+      lines: [{ accountId: LedgerAccounts.EXTERNAL, amount: -500 }, { accountId: ALICE, amount: 500 }],
+    }, 'topup_order1');
+    ledger.commit();
+
+    expect(entryId).toBe('topup_order1');
+    expect(writes).toEqual(expect.arrayContaining([
+      { path: 'users/alice', data: { 'wallet.balance': 1500 } },
+      { path: 'ledger_accounts/external:bank', data: expect.objectContaining({ balance: -500 }) },
+    ]));
+    const posted = writes.find(write => write.path === 'ledger_entries/topup_order1')!.data;
+    expect(posted).toMatchObject({ description: 'Top-up', userId: 'alice', accounts: [LedgerAccounts.EXTERNAL, ALICE] });
+    expect(Money.sum(posted.lines.map((line: { amount: number }) => Money.of(line.amount))).isZero()).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+import { createHmac } from 'crypto';
+import { MockPaymentGateway } from '../../src/MockPaymentGateway';
+import { RazorpayGateway } from '../../src/RazorpayGateway';
+// The app's checkout, which signs payments the way the server checks them
+import { MockPaymentGateway as MockCheckout } from '../../../src/utils/MockPaymentGateway';
+
+const gateway = new MockPaymentGateway();
+
+describe('MockPaymentGateway', () => {
+  it('creates the same order for the same receipt', async () => {
+    const order = await gateway.createOrder(50_000, 'topup_user1_1');
+
+    expect(order).toEqual({
+      id: expect.stringMatching(/^mock_order_/),
+      amount: 50_000,
+      currency: 'INR',
+      receipt: 'topup_user1_1',
+      gateway: 'mock',
+    });
+    expect((await gateway.createOrder(50_000, 'topup_user1_1')).id).toBe(order.id);
+    expect((await gateway.createOrder(50_000, 'topup_user1_2')).id).not.toBe(order.id);
+  });
+
+  it('rejects amounts that aren\'t whole paise', async () => {
+    for (const amount of [0, -100, 10.5]) {
+      await expect(gateway.createOrder(amount, 'topup_user1_1')).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+    }
+  });
+
+  it('accepts what the app\'s checkout signed and nothing else', async () => {
+    const order = await gateway.createOrder(50_000, 'topup_user1_1');
+    const result = await new MockCheckout().checkout(order);
+
+    expect(await gateway.verifySignature(result)).toBe(true);
+    expect(await gateway.verifySignature({ ...result, paymentId: 'mock_pay_other' })).toBe(false);
+    expect(await gateway.verifySignature({ ...result, signature: 'mock_sig_00000000' })).toBe(false);
+  });
+
+  it('captures the full order amount', async () => {
+    const order = await gateway.createOrder(50_000, 'topup_user1_1');
+    const result = await new MockCheckout().checkout(order);
+
+    expect(await gateway.fetchConfirmation(order, result)).toEqual({
+      event: 'payment.captured',
+      orderId: order.id,
+      paymentId: result.paymentId,
+      amount: 50_000,
+    });
+  });
+
+  it('declines at checkout the amounts it is told to', async () => {
+    const order = await gateway.createOrder(50_000, 'topup_user1_1');
+
+    await expect(new MockCheckout([50_000]).checkout(order)).rejects.toMatchObject({ code: 'PAYMENT_FAILED' });
+  });
+});
+
+describe('RazorpayGateway webhooks', () => {
+  const body = Buffer.from(JSON.stringify({ event: 'payment.captured' }));
+  const signature = createHmac('sha256', 'webhook_secret').update(body).digest('hex');
+
+  it('checks the signature against the raw body', () => {
+    expect(RazorpayGateway.verifyWebhook(body, signature, 'webhook_secret')).toBe(true);
+    expect(RazorpayGateway.verifyWebhook(body, signature, 'other_secret')).toBe(false);
+    expect(RazorpayGateway.verifyWebhook(Buffer.from('{}'), signature, 'webhook_secret')).toBe(false);
+    expect(RazorpayGateway.verifyWebhook(body, '', 'webhook_secret')).toBe(false);
+  });
+
+  it('only confirms settled payments', () => {
+    const payment = { id: 'pay_1', order_id: 'order_1', amount: 50_000 };
+
+    expect(RazorpayGateway.toConfirmation({ ...payment, status: 'captured' })).toEqual({
+      event: 'payment.captured',
+      orderId: 'order_1',
+      paymentId: 'pay_1',
+      amount: 50_000,
+    });
+    expect(RazorpayGateway.toConfirmation({ ...payment, status: 'failed', error_description: 'Card declined' }))
+      .toMatchObject({ event: 'payment.failed', failureReason: 'Card declined' });
+    expect(RazorpayGateway.toConfirmation({ ...payment, status: 'authorized' })).toBeNull();
+    expect(RazorpayGateway.toConfirmation({ ...payment, status: 'created' })).toBeNull();
+  });
+});
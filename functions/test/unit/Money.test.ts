@@ -0,0 +1,40 @@
+import fc from 'fast-check';
+import { Money } from '../../src/shared/Money';
+
+const amount = fc.integer({ min: -100_000_000, max: 100_000_000 }).map(paise => Money.fromPaise(paise));
+
+// At least one weight above zero, or there is nothing to allocate to
+const weights = fc.array(fc.oneof(fc.nat({ max: 1000 }), fc.double({ min: 0, max: 1000, noNaN: true })), {
+  minLength: 1,
+  maxLength: 20,
+}).filter(list => list.reduce((sum, weight) => sum + weight, 0) > 0);
+
+describe('Money', () => {
+  it('allocates every paisa', () => {
+    fc.assert(fc.property(amount, weights, (total, list) => {
+      const shares = total.allocate(list);
+
+      expect(shares).toHaveLength(list.length);
+      expect(Money.sum(shares).paise).toBe(total.paise);
+    }));
+  });
+
+  it('allocates within a paisa of each exact share', () => {
+    fc.assert(fc.property(amount, weights, (total, list) => {
+      const weightSum = list.reduce((sum, weight) => sum + weight, 0);
+
+      total.allocate(list).forEach((share, index) => {
+        expect(Math.abs(share.paise - (total.paise * list[index]) / weightSum)).toBeLessThan(1 + 1e-6);
+      });
+    }));
+  });
+
+  it('splits a percentage off without losing a paisa', () => {
+    fc.assert(fc.property(amount, fc.double({ min: 0, max: 100, noNaN: true }), (total, percentage) => {
+      const [part, rest] = total.splitPercent(percentage);
+
+      expect(part.add(rest).paise).toBe(total.paise);
+      expect(part.paise).toBe(total.percent(percentage).paise);
+    }));
+  });
+});
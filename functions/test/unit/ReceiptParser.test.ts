@@ -0,0 +1,93 @@
+import { ReceiptParser } from '../../src/shared/ReceiptParser';
+
+// Text rows as ScreenshotReader puts them back together from ML Kit
+const BLINKIT_BILL = [
+  'Order ID #ORD82731 ₹',
+  'Amul Taaza Toned Milk 500 ml ₹30',
+  '2 x Britannia Brown Bread ₹80.00',
+  'Amul Butter 100 g ₹58 ₹56',
+  'Bill details',
+  'Item total ₹166',
+  'Handling charge ₹4',
+  'Delivery charge FREE',
+  'Small cart fee ₹15',
+  'Feeding India donation ₹1',
+  'Coupon discount -₹20',
+  'Taxes ₹8.30',
+  'Grand total ₹174.30',
+];
+
+describe('ReceiptParser', () => {
+  it('reads items with their quantity and MRP', () => {
+    expect(ReceiptParser.parse(BLINKIT_BILL, 'blinkit').items).toEqual([
+      { name: 'Amul Taaza Toned Milk 500 ml', quantity: 1, amount: 30 },
+      { name: 'Britannia Brown Bread', quantity: 2, amount: 80 },
+      { name: 'Amul Butter 100 g', quantity: 1, amount: 58 },
+    ]);
+  });
+
+  it('reads the totals, adding up fee and discount rows', () => {
+    const { items, ...totals } = ReceiptParser.parse(BLINKIT_BILL, 'blinkit');
+
+    expect(totals).toEqual({
+      subtotal: 166,
+      fees: 20, // Handling, free delivery, small cart and the donation
+      discount: 20,
+      tax: 8.3,
+      grandTotal: 174.3,
+    });
+  });
+
+  it('only counts platform-specific rows for that platform', () => {
+    expect(ReceiptParser.parse(BLINKIT_BILL).fees).toBe(19);
+  });
+
+  it('reads an amount from the row below its label', () => {
+    const receipt = ReceiptParser.parse(['Item total', '₹120.00', 'Delivery fee', 'Rs. 25', 'To pay', '145.00']);
+
+    expect(receipt).toEqual({ items: [], subtotal: 120, fees: 25, grandTotal: 145 });
+  });
+
+  it('keeps the first total and adds up several discounts', () => {
+    const receipt = ReceiptParser.parse([
+      'Sub-total ₹300',
+      'Offer discount - ₹30',
+      'Coupon SAVE20 -₹20.50',
+      'Cashback ₹5',
+      'Grand total ₹244.50',
+      'Order total ₹999.00',
+    ]);
+
+    expect(receipt).toEqual({ items: [], subtotal: 300, discount: 55.5, grandTotal: 244.5 });
+  });
+
+  it('reads what Instamart shows as paid', () => {
+    const receipt = ReceiptParser.parse(['Tomato Hybrid 500 g ₹40.00', 'Paid via UPI ₹52.00'], 'instamart');
+
+    expect(receipt).toEqual({
+      items: [{ name: 'Tomato Hybrid 500 g', quantity: 1, amount: 40 }],
+      grandTotal: 52,
+    });
+  });
+
+  it('ignores rows that aren\'t items', () => {
+    const receipt = ReceiptParser.parse([
+      'Delivered in 9 minutes',
+      'Invoice ₹0.00',
+      '12.00',
+      'Maggi Noodles qty 3 ₹42.00',
+      '',
+      'Item total ₹42.00',
+      'Surf Excel ₹99.00', // After the summary starts
+    ]);
+
+    expect(receipt.items).toEqual([{ name: 'Maggi Noodles', quantity: 3, amount: 42 }]);
+    expect(receipt.subtotal).toBe(42);
+  });
+
+  it('reports a screenshot with nothing to compare as empty', () => {
+    expect(ReceiptParser.isEmpty(ReceiptParser.parse(['Your order is on the way', 'Rate your order']))).toBe(true);
+    expect(ReceiptParser.isEmpty(ReceiptParser.parse(['Tax ₹5.00']))).toBe(true);
+    expect(ReceiptParser.isEmpty(ReceiptParser.parse(['Grand total ₹5.00']))).toBe(false);
+  });
+});
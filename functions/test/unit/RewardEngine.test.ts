@@ -0,0 +1,115 @@
+import { DocumentReference, FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { RewardEngine, RewardError } from '../../src/RewardEngine';
+
+const USER = 'member';
+const DAY = 24 * 60 * 60 * 1000;
+
+// What functions/.env would provide
+process.env.REWARD_COINS_PER_RUPEE = '10';
+
+interface Lot {
+  id: string;
+  remaining: number;
+  expiresAt?: Date;
+}
+
+// Answers every query with `lots` and records writes
+const fakeTransaction = (lots: Lot[] = []) => {
+  const sets: { path: string; data: any }[] = [];
+  const updates: { path: string; data: any }[] = [];
+  const transaction = {
+    get: async () => ({
+      docs: lots.map(lot => ({
+        id: lot.id,
+        data: () => ({
+          remaining: lot.remaining,
+          ...(lot.expiresAt && { expiresAt: Timestamp.fromDate(lot.expiresAt) }),
+        }),
+      })),
+    }),
+    set: (ref: DocumentReference, data: any) => sets.push({ path: ref.path, data }),
+    update: (ref: DocumentReference, data: any) => updates.push({ path: ref.path, data }),
+  } as unknown as Transaction;
+  return { transaction, sets, updates };
+};
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY);
+
+describe('RewardEngine', () => {
+  it('reads the rate from REWARD_COINS_PER_RUPEE', () => {
+    process.env.REWARD_COINS_PER_RUPEE = '20';
+    try {
+      expect(RewardEngine.getConfig().coinsPerRupee).toBe(20);
+      expect(RewardEngine.coinsToRupees(100)).toBe(5);
+      expect(RewardEngine.offsetFor(100, 2000)).toEqual({ coinsApplied: 1000, coinDiscount: 50 });
+    } finally {
+      process.env.REWARD_COINS_PER_RUPEE = '10';
+    }
+  });
+
+  it('earns coins as a lot that expires', () => {
+    const { transaction, sets, updates } = fakeTransaction();
+
+    const before = Date.now();
+    RewardEngine.award(transaction, USER, 250, 'Leader reward for group order', { groupId: 'group1' });
+
+    expect(sets).toHaveLength(1);
+    const lot = sets[0].data;
+    expect(lot).toMatchObject({ userId: USER, kind: 'earn', coins: 250, remaining: 250, groupId: 'group1' });
+    const lifetime = (lot.expiresAt as Timestamp).toMillis() - before;
+    expect(lifetime).toBeGreaterThanOrEqual(180 * DAY);
+    expect(lifetime).toBeLessThan(180 * DAY + 60_000);
+    expect(updates).toEqual([
+      { path: `users/${USER}`, data: { 'wallet.rewardCoins': FieldValue.increment(250) } },
+    ]);
+  });
+
+  it('earns nothing for zero coins', () => {
+    const { transaction, sets, updates } = fakeTransaction();
+
+    RewardEngine.award(transaction, USER, 0, 'Nothing');
+
+    expect(sets).toHaveLength(0);
+    expect(updates).toHaveLength(0);
+  });
+
+  it('skips expired lots and spends the soonest to expire first', async () => {
+    const { transaction, updates } = fakeTransaction([
+      { id: 'late', remaining: 100, expiresAt: daysFromNow(90) },
+      { id: 'expired', remaining: 500, expiresAt: daysFromNow(-1) },
+      { id: 'old', remaining: 40 }, // From before expiry was added
+      { id: 'soon', remaining: 30, expiresAt: daysFromNow(2) },
+    ]);
+
+    const state = await RewardEngine.loadSpend(transaction, USER);
+
+    expect(state.lots.map(lot => lot.id)).toEqual(['soon', 'late', 'old']);
+    expect(RewardEngine.spendable(state)).toBe(170);
+
+    RewardEngine.spend(transaction, state, 120, 'split_offset', 'Split offset', { orderId: 'order1' });
+
+    expect(updates).toEqual([
+      { path: expect.stringMatching(/\/soon$/), data: { remaining: 0 } },
+      { path: expect.stringMatching(/\/late$/), data: { remaining: 10 } },
+      { path: `users/${USER}`, data: { 'wallet.rewardCoins': FieldValue.increment(-120) } },
+    ]);
+  });
+
+  it('refuses to spend more than the unexpired lots hold', async () => {
+    const { transaction, sets } = fakeTransaction([
+      { id: 'expired', remaining: 500, expiresAt: daysFromNow(-1) },
+      { id: 'soon', remaining: 30, expiresAt: daysFromNow(2) },
+    ]);
+    const state = await RewardEngine.loadSpend(transaction, USER);
+
+    expect(() => RewardEngine.spend(transaction, state, 100, 'redeem', 'Redeemed'))
+      .toThrow(expect.objectContaining({ code: 'INSUFFICIENT_COINS' }));
+    expect(sets).toHaveLength(0);
+  });
+
+  it('only redeems whole amounts above the minimum', async () => {
+    await expect(RewardEngine.redeem(USER, 99)).rejects.toBeInstanceOf(RewardError);
+    await expect(RewardEngine.redeem(USER, 99)).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+    await expect(RewardEngine.redeem(USER, 150.5)).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+  });
+});
@@ -0,0 +1,58 @@
+import fc from 'fast-check';
+import { DEFAULT_REWARD_CONFIG, RewardRules } from '../../src/shared/RewardRules';
+
+const config = DEFAULT_REWARD_CONFIG;
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('RewardRules', () => {
+  it('converts coins to rupees at the configured rate', () => {
+    expect(RewardRules.coinsToRupees(config, 100)).toBe(10);
+    expect(RewardRules.coinsToRupees(config, 15)).toBe(1.5);
+    expect(RewardRules.coinsToRupees({ ...config, coinsPerRupee: 3 }, 10)).toBe(3.33);
+    expect(RewardRules.rupeesToCoins(config, 12.34)).toBe(123);
+    expect(RewardRules.rupeesToCoins({ ...config, coinsPerRupee: 20 }, 5)).toBe(100);
+  });
+
+  it('offsets a share with every coin below the cap', () => {
+    expect(RewardRules.offsetFor(config, 200, 300)).toEqual({ coinsApplied: 300, coinDiscount: 30 });
+    expect(RewardRules.offsetFor(config, 200, 12.7)).toEqual({ coinsApplied: 12, coinDiscount: 1.2 });
+  });
+
+  it('caps the offset at the configured share of the amount', () => {
+    expect(RewardRules.offsetFor(config, 200, 5000)).toEqual({ coinsApplied: 1000, coinDiscount: 100 });
+    expect(RewardRules.offsetFor({ ...config, maxSplitOffsetPercentage: 10 }, 200, 5000))
+      .toEqual({ coinsApplied: 200, coinDiscount: 20 });
+  });
+
+  it('applies nothing without coins or an amount', () => {
+    const none = { coinsApplied: 0, coinDiscount: 0 };
+    expect(RewardRules.offsetFor(config, 200, 0)).toEqual(none);
+    expect(RewardRules.offsetFor(config, 200, -50)).toEqual(none);
+    expect(RewardRules.offsetFor(config, 0, 500)).toEqual(none);
+  });
+
+  it('never discounts more than the cap or the coins are worth', () => {
+    const amount = fc.integer({ min: 1, max: 10_000_000 }).map(paise => paise / 100);
+    const percentage = fc.integer({ min: 0, max: 100 });
+    const rate = fc.integer({ min: 1, max: 100 });
+
+    fc.assert(fc.property(amount, fc.nat({ max: 1_000_000 }), percentage, rate, (share, coins, cap, coinsPerRupee) => {
+      const rules = { ...config, coinsPerRupee, maxSplitOffsetPercentage: cap };
+      const { coinsApplied, coinDiscount } = RewardRules.offsetFor(rules, share, coins);
+
+      expect(coinsApplied).toBeLessThanOrEqual(coins);
+      expect(coinDiscount).toBeLessThanOrEqual(share * (cap / 100) + 1e-9);
+      expect(coinDiscount).toBeLessThanOrEqual(coinsApplied / coinsPerRupee + 1e-9);
+    }));
+  });
+
+  it('expires coins after the configured number of days', () => {
+    const earnedAt = new Date('2024-01-01T00:00:00Z');
+    const expiresAt = RewardRules.expiresAt(config, earnedAt);
+
+    expect(expiresAt.getTime() - earnedAt.getTime()).toBe(180 * DAY);
+    expect(RewardRules.isExpired(expiresAt, new Date(expiresAt.getTime() - 1))).toBe(false);
+    expect(RewardRules.isExpired(expiresAt, expiresAt)).toBe(true);
+    expect(RewardRules.isExpired(undefined, new Date('2100-01-01'))).toBe(false);
+  });
+});
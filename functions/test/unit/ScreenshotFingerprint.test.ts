@@ -0,0 +1,212 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { Transaction } from 'firebase-admin/firestore';
+import { FingerprintError, ScreenshotFingerprint } from '../../src/ScreenshotFingerprint';
+
+// Uploads are read from test/unit/fixtures by file name. The re-saved copy
+// is order-screenshot.png shrunk to 300px wide and saved as a quality 60
+// JPEG, as chat apps do; other-order-screenshot.png is another order on the
+// same platform.
+const fixture = (path: string) => resolve(__dirname, 'fixtures', path.split('/').pop()!);
+
+jest.mock('firebase-admin/storage', () => ({
+  getStorage: () => ({
+    bucket: () => ({
+      file: (path: string) => ({
+        exists: async () => [existsSync(fixture(path))],
+        download: async () => [readFileSync(fixture(path))],
+      }),
+    }),
+  }),
+}));
+
+// Only the screenshot_hashes lookup is needed; the bands it asks for are
+// kept so the fake transaction can answer like Firestore would
+jest.mock('../../src/config', () => ({
+  db: {
+    collection: (name: string) => ({
+      doc: (id: string) => ({ path: `${name}/${id}` }),
+      where: (field: string, op: string, bands: string[]) => ({ limit: () => ({ field, op, bands }) }),
+    }),
+  },
+}));
+
+interface Recorded {
+  hash: string;
+  bands: string[];
+  groupId: string;
+  leaderId: string;
+}
+
+// Records what was stored and answers band lookups from it
+const fakeTransaction = () => {
+  const stored = new Map<string, Recorded>();
+  const lookups: { field: string; op: string; bands: string[] }[] = [];
+  const transaction = {
+    get: async (query: { field: string; op: string; bands: string[] }) => {
+      lookups.push(query);
+      const docs = Array.from(stored.entries())
+        .filter(([, data]) => data.bands.some(band => query.bands.includes(band)))
+        .map(([id, data]) => ({ id, data: () => data }));
+      return { docs };
+    },
+    set: (ref: { path: string }, data: Recorded) => stored.set(ref.path.split('/')[1], data),
+  } as unknown as Transaction;
+  return { transaction, stored, lookups };
+};
+
+const FLAT_BAND = /:(0+|f+)$/;
+
+const upload = (name: string) => `orders/group1/${name}`;
+
+const setBitsOf = (hash: string) =>
+  Array.from(hash).reduce((count, digit) => count + parseInt(digit, 16).toString(2).replace(/0/g, '').length, 0);
+
+describe('ScreenshotFingerprint', () => {
+  let original: string;
+  let resaved: string;
+  let other: string;
+  let blank: string;
+
+  beforeAll(async () => {
+    [original, resaved, other, blank] = await Promise.all([
+      'order-screenshot.png',
+      'order-screenshot-resaved.jpg',
+      'other-order-screenshot.png',
+      'blank-screenshot.png',
+    ].map(name => ScreenshotFingerprint.of(upload(name))));
+  });
+
+  describe('of', () => {
+    it('hashes a screenshot to 256 bits', () => {
+      expect(original).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('gives a re-saved copy a nearby hash', () => {
+      expect(ScreenshotFingerprint.distance(original, resaved)).toBeLessThanOrEqual(12);
+    });
+
+    it('gives a different screenshot a distant hash', () => {
+      expect(ScreenshotFingerprint.distance(original, other)).toBeGreaterThan(12);
+    });
+
+    it('leaves a near-blank image with few bits set', () => {
+      expect(setBitsOf(blank)).toBeLessThan(24);
+    });
+
+    it('only reads order uploads that exist and are images', async () => {
+      await expect(ScreenshotFingerprint.of('avatars/leader.png'))
+        .rejects.toMatchObject({ code: 'INVALID_SCREENSHOT_PATH' });
+      await expect(ScreenshotFingerprint.of(upload('missing.png')))
+        .rejects.toMatchObject({ code: 'SCREENSHOT_NOT_FOUND' });
+      await expect(ScreenshotFingerprint.of(upload('ScreenshotFingerprint.test.ts')))
+        .rejects.toBeInstanceOf(FingerprintError);
+    });
+  });
+
+  it('finds the group from the upload path', () => {
+    expect(ScreenshotFingerprint.groupOf('orders/group1/1700000000000.jpg')).toBe('group1');
+    expect(ScreenshotFingerprint.groupOf('orders/group1/nested/shot.jpg')).toBeNull();
+    expect(ScreenshotFingerprint.groupOf('avatars/leader.png')).toBeNull();
+  });
+
+  it('counts the bits that differ', () => {
+    expect(ScreenshotFingerprint.distance(original, original)).toBe(0);
+    expect(ScreenshotFingerprint.distance('0000', 'ffff')).toBe(16);
+    expect(ScreenshotFingerprint.distance('0a0f', '0501')).toBe(7);
+    expect(ScreenshotFingerprint.distance(original, other)).toBe(ScreenshotFingerprint.distance(other, original));
+  });
+
+  it('splits the hash into 16 numbered bands', () => {
+    const bands = ScreenshotFingerprint.bandsOf(original);
+
+    expect(bands).toHaveLength(16);
+    expect(bands[0]).toBe(`0:${original.slice(0, 4)}`);
+    expect(bands[15]).toBe(`15:${original.slice(60)}`);
+    expect(bands.map(band => band.split(':')[1]).join('')).toBe(original);
+  });
+
+  describe('findMatches', () => {
+    const record = (transaction: Transaction, hash: string, orderId: string) =>
+      ScreenshotFingerprint.record(transaction, hash, {
+        orderId,
+        groupId: `group_${orderId}`,
+        leaderId: 'leader',
+        path: upload(`${orderId}.png`),
+      });
+
+    it('finds an earlier order whose screenshot was re-saved', async () => {
+      const { transaction } = fakeTransaction();
+      record(transaction, original, 'order1');
+
+      expect(await ScreenshotFingerprint.findMatches(transaction, resaved, 'order2')).toEqual([{
+        orderId: 'order1',
+        groupId: 'group_order1',
+        leaderId: 'leader',
+        distance: ScreenshotFingerprint.distance(original, resaved),
+      }]);
+    });
+
+    it('doesn\'t match a different screenshot or the order itself', async () => {
+      const { transaction } = fakeTransaction();
+      record(transaction, original, 'order1');
+
+      expect(await ScreenshotFingerprint.findMatches(transaction, other, 'order2')).toEqual([]);
+      expect(await ScreenshotFingerprint.findMatches(transaction, original, 'order1')).toEqual([]);
+    });
+
+    it('lists the closest match first', async () => {
+      const { transaction } = fakeTransaction();
+      record(transaction, resaved, 'order1');
+      record(transaction, original, 'order2');
+
+      const matches = await ScreenshotFingerprint.findMatches(transaction, original, 'order3');
+      expect(matches.map(match => match.orderId)).toEqual(['order2', 'order1']);
+      expect(matches[0].distance).toBe(0);
+    });
+
+    it('skips near-blank screenshots without looking anything up', async () => {
+      const { transaction, lookups } = fakeTransaction();
+      record(transaction, blank, 'order1');
+
+      expect(await ScreenshotFingerprint.findMatches(transaction, blank, 'order2')).toEqual([]);
+      expect(lookups).toHaveLength(0);
+    });
+
+    it('looks up only the bands that aren\'t flat', async () => {
+      const { transaction, lookups } = fakeTransaction();
+      // Blank margins at the top, a solid bar further down
+      const withMargins = '0000' + original.slice(4, 28) + 'ffff' + original.slice(32);
+
+      await ScreenshotFingerprint.findMatches(transaction, withMargins, 'order1');
+
+      expect(lookups).toHaveLength(1);
+      expect(lookups[0]).toMatchObject({ field: 'bands', op: 'array-contains-any' });
+      const bands = ScreenshotFingerprint.bandsOf(withMargins);
+      expect(lookups[0].bands).toEqual(bands.filter(band => !FLAT_BAND.test(band)));
+      expect(lookups[0].bands).not.toContain('0:0000');
+      expect(lookups[0].bands).not.toContain('7:ffff');
+    });
+
+    it('doesn\'t match on flat bands alone', async () => {
+      const { transaction, lookups } = fakeTransaction();
+      const flat = 'ffff'.repeat(8) + '0000'.repeat(8);
+      record(transaction, flat, 'order1');
+
+      expect(await ScreenshotFingerprint.findMatches(transaction, flat, 'order2')).toEqual([]);
+      expect(lookups).toHaveLength(0);
+    });
+
+    it('records the hash with its bands', () => {
+      const { transaction, stored } = fakeTransaction();
+      record(transaction, original, 'order1');
+
+      expect(stored.get('order1')).toMatchObject({
+        hash: original,
+        bands: ScreenshotFingerprint.bandsOf(original),
+        groupId: 'group_order1',
+        path: upload('order1.png'),
+      });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { CheckedItem, ScreenshotVerifier } from '../../src/shared/ScreenshotVerifier';
+import { ParsedReceipt } from '../../src/types';
+
+const CARTS: CheckedItem[] = [
+  {
+    userId: 'leader',
+    itemMRP: 88,
+    lines: [
+      { name: 'Amul Taaza Milk 500ml', quantity: 1, unitMRP: 30 },
+      { name: 'Amul Butter 100g', quantity: 1, unitMRP: 58 },
+    ],
+  },
+  { userId: 'member', items: 'Britannia Brown Bread', itemMRP: 80 },
+];
+
+const RECEIPT: ParsedReceipt = {
+  items: [
+    { name: 'Amul Taaza Toned Milk 500 ml', quantity: 1, amount: 30 },
+    { name: 'Britannia Brown Bread', quantity: 2, amount: 80 },
+    { name: 'Amul Butter 100 g', quantity: 1, amount: 58 },
+  ],
+  subtotal: 168,
+  grandTotal: 176.3,
+};
+
+const CHARGES = { tax: 8.3, fees: 20, discount: 20 };
+
+const codesOf = (receipt: ParsedReceipt | null, items = CARTS, charges = CHARGES) =>
+  ScreenshotVerifier.check(receipt, items, charges).issues.map(issue => issue.code);
+
+describe('ScreenshotVerifier', () => {
+  describe('sanitize', () => {
+    it('keeps only well-formed items and totals', () => {
+      expect(ScreenshotVerifier.sanitize({
+        items: [
+          { name: 'Milk', quantity: 2, amount: 60 },
+          { name: 'Bread', quantity: 0, amount: 40.004 },
+          { name: 'Eggs', quantity: 1.5, amount: -10 },
+          { amount: 10 },
+          null,
+        ],
+        subtotal: 100,
+        tax: -5,
+        fees: '10',
+        grandTotal: Infinity,
+        discount: 4.999,
+      })).toEqual({
+        items: [
+          { name: 'Milk', quantity: 2, amount: 60 },
+          { name: 'Bread', quantity: 1, amount: 40 },
+        ],
+        subtotal: 100,
+        discount: 5,
+      });
+    });
+
+    it('caps the items and their names', () => {
+      const items = Array.from({ length: 100 }, () => ({ name: 'x'.repeat(500), quantity: 1, amount: 1 }));
+      const receipt = ScreenshotVerifier.sanitize({ items })!;
+
+      expect(receipt.items).toHaveLength(60);
+      expect(receipt.items[0].name).toHaveLength(100);
+    });
+
+    it('rejects anything but an object', () => {
+      expect(ScreenshotVerifier.sanitize(null)).toBeNull();
+      expect(ScreenshotVerifier.sanitize('receipt')).toBeNull();
+      expect(ScreenshotVerifier.sanitize({})).toEqual({ items: [] });
+    });
+  });
+
+  describe('check', () => {
+    it('verifies a screenshot that matches the carts and the charges', () => {
+      expect(ScreenshotVerifier.check(RECEIPT, CARTS, CHARGES)).toEqual({ status: 'verified', receipt: RECEIPT, issues: [] });
+    });
+
+    it('marks a screenshot with nothing readable as unreadable', () => {
+      expect(ScreenshotVerifier.check(null, CARTS).status).toBe('unreadable');
+      expect(codesOf({ items: [], tax: 5 })).toEqual(['UNREADABLE']);
+    });
+
+    it('flags an item total that differs by more than a rupee', () => {
+      expect(codesOf({ ...RECEIPT, subtotal: 168.99 })).toEqual([]);
+      expect(codesOf({ ...RECEIPT, subtotal: 170 })).toEqual(['SUBTOTAL_MISMATCH']);
+    });
+
+    it('adds up the items when the item total wasn\'t read', () => {
+      const { subtotal, ...withoutSubtotal } = RECEIPT;
+
+      expect(codesOf(withoutSubtotal)).toEqual([]);
+      expect(codesOf({ ...withoutSubtotal, items: [...RECEIPT.items, { name: 'Amul Butter', quantity: 1, amount: 58 }] }))
+        .toEqual(['SUBTOTAL_MISMATCH', 'EXTRA_ITEM']);
+    });
+
+    it('checks the grand total against the carts plus tax and fees less the discount', () => {
+      expect(codesOf(RECEIPT, CARTS, { ...CHARGES, fees: 25 })).toEqual(['TOTAL_MISMATCH']);
+      expect(codesOf(RECEIPT, CARTS, { ...CHARGES, discount: 0 })).toEqual(['TOTAL_MISMATCH']);
+      expect(codesOf(RECEIPT, CARTS, { ...CHARGES, tax: 9 })).toEqual([]);
+      expect(ScreenshotVerifier.check(RECEIPT, CARTS).issues).toEqual([]);
+    });
+
+    it('names the member whose item is missing and the rows nobody ordered', () => {
+      const receipt: ParsedReceipt = {
+        items: [
+          { name: 'Amul Taaza Toned Milk 500 ml', quantity: 1, amount: 30 },
+          { name: 'Amul Butter 100 g', quantity: 1, amount: 58 },
+          { name: 'Lays Classic Salted', quantity: 1, amount: 80 },
+        ],
+      };
+      const { issues } = ScreenshotVerifier.check(receipt, CARTS, CHARGES);
+
+      expect(issues).toEqual([
+        expect.objectContaining({ code: 'MISSING_ITEM', userId: 'member', message: expect.stringContaining('Britannia') }),
+        expect.objectContaining({ code: 'EXTRA_ITEM', message: expect.stringContaining('Lays Classic Salted') }),
+      ]);
+    });
+
+    it('matches each receipt row to one cart line', () => {
+      const twice: CheckedItem[] = [
+        { userId: 'leader', items: 'Britannia Brown Bread', itemMRP: 40 },
+        { userId: 'member', items: 'Britannia Brown Bread', itemMRP: 40 },
+      ];
+      const receipt: ParsedReceipt = { items: [{ name: 'Britannia Brown Bread', quantity: 2, amount: 80 }] };
+
+      expect(ScreenshotVerifier.check(receipt, twice).issues).toEqual([
+        expect.objectContaining({ code: 'MISSING_ITEM', userId: 'member' }),
+      ]);
+    });
+  });
+});
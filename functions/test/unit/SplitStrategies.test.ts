@@ -0,0 +1,93 @@
+import fc from 'fast-check';
+import { Money } from '../../src/shared/Money';
+import { SplitItem, SplitStrategies, SPLIT_STRATEGY_IDS } from '../../src/shared/SplitStrategies';
+import { SplitCharges, SplitOptions, SplitStrategyId } from '../../src/types';
+
+interface Order {
+  items: SplitItem[];
+  charges: SplitCharges;
+}
+
+const rupees = (paise: number) => Money.fromPaise(paise).toRupees();
+const paiseOf = (amount: number) => Money.of(amount).paise;
+
+const line = fc.record({
+  name: fc.constant('Item'),
+  quantity: fc.integer({ min: 1, max: 5 }),
+  unitMRP: fc.integer({ min: 1, max: 50_000 }).map(rupees),
+});
+
+// Members' carts, with or without lines
+const cart = fc.oneof(
+  fc.integer({ min: 1, max: 500_000 }).map(paise => ({ itemMRP: rupees(paise) })),
+  fc.array(line, { minLength: 1, maxLength: 4 }).map(lines => ({
+    lines,
+    itemMRP: Money.sum(lines.map(({ quantity, unitMRP }) => Money.of(quantity * unitMRP))).toRupees(),
+  }))
+);
+
+// The discount is kept within the smallest cart so no share goes negative
+const order: fc.Arbitrary<Order> = fc.array(cart, { minLength: 1, maxLength: 8 }).chain(carts => {
+  const items = carts.map((item, index) => ({ userId: `user${index}`, ...item }));
+  const smallest = Math.min(...items.map(item => paiseOf(item.itemMRP)));
+  return fc.record({
+    items: fc.constant(items),
+    charges: fc.record({
+      tax: fc.integer({ min: 0, max: 100_000 }).map(rupees),
+      fees: fc.integer({ min: 0, max: 50_000 }).map(rupees),
+      discount: fc.integer({ min: 0, max: smallest }).map(rupees),
+    }),
+  });
+});
+
+const totalOf = ({ items, charges }: Order) =>
+  items.reduce((sum, item) => sum + paiseOf(item.itemMRP), 0) +
+  paiseOf(charges.tax) + paiseOf(charges.fees) - paiseOf(charges.discount);
+
+const optionsFor = (strategy: SplitStrategyId, { items, charges }: Order): fc.Arbitrary<SplitOptions> => {
+  switch (strategy) {
+    case 'single_tax_payer':
+      return fc.constantFrom(...items.map(item => item.userId)).map(taxPayerId => ({ strategy, taxPayerId }));
+    case 'coupon_items':
+      // The first member's first line always counts, so a coupon has
+      // something to apply to
+      return fc.tuple(...items.map(item =>
+        fc.subarray(Array.from({ length: item.lines?.length || 1 }, (_, index) => index))
+      )).map(selected => ({
+        strategy,
+        couponLines: Object.fromEntries(items.map((item, index) => [
+          item.userId,
+          index === 0 ? Array.from(new Set([0, ...selected[index]])) : selected[index],
+        ])),
+      }));
+    case 'custom':
+      return fc.array(fc.nat({ max: 100 }), { minLength: items.length, maxLength: items.length })
+        .map(weights => (weights.some(weight => weight > 0) ? weights : weights.map(() => 1)))
+        .map(weights => ({
+          strategy,
+          customAmounts: Object.fromEntries(Money.fromPaise(totalOf({ items, charges }))
+            .allocate(weights)
+            .map((share, index) => [items[index].userId, share.toRupees()])),
+        }));
+    default:
+      return fc.constant({ strategy });
+  }
+};
+
+describe('SplitStrategies', () => {
+  SPLIT_STRATEGY_IDS.forEach(strategy => {
+    it(`${strategy} shares add up to the order total`, () => {
+      const orderWithOptions = order.chain(generated =>
+        optionsFor(strategy, generated).map(options => ({ ...generated, options })));
+
+      fc.assert(fc.property(orderWithOptions, ({ items, charges, options }) => {
+        const shares = SplitStrategies.calculate(items, charges, options);
+
+        expect(shares.map(share => share.userId)).toEqual(items.map(item => item.userId));
+        expect(shares.reduce((sum, share) => sum + paiseOf(share.shareAmount), 0))
+          .toBe(totalOf({ items, charges }));
+        shares.forEach(share => expect(share.shareAmount).toBeGreaterThanOrEqual(0));
+      }));
+    });
+  });
+});
@@ -0,0 +1,10 @@
+const { getDefaultConfig } = require('expo/metro-config');
+const exclusionList = require('metro-config/src/defaults/exclusionList');
+
+const config = getDefaultConfig(__dirname);
+
+// The app bundles functions/src/shared, but never the functions' own
+// dependencies or build output
+config.resolver.blockList = exclusionList([/functions\/node_modules\/.*/, /functions\/lib\/.*/]);
+
+module.exports = config;
@@ -1,34 +1,95 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ScrollView } from 'react-native';
-import { Modal, Portal, Text, TextInput, Button } from 'react-native-paper';
+import { Modal, Portal, Text, TextInput, Button, IconButton, Divider } from 'react-native-paper';
 import { colors, spacing } from '../theme';
+import { CartLine } from '../types';
+import { CartManager, MAX_CART_LINES } from '../utils/CartManager';
 
 interface AddOrderItemModalProps {
   visible: boolean;
+  rewardCoins?: number; // Coins the member may put towards their share; omit to hide
   onDismiss: () => void;
-  onSubmit: (items: string, amount: number) => Promise<void>;
+  onSubmit: (lines: CartLine[], coinsToApply: number) => Promise<void>;
+  initial?: { lines: CartLine[]; coinsToApply?: number }; // Editing an existing cart
+  onRemove?: () => Promise<void>;
 }
 
+// Text fields as typed; parsed into CartLines on save
+interface LineDraft {
+  name: string;
+  quantity: string;
+  unitMRP: string;
+  reference: string; // Product link or SKU
+}
+
+const emptyLine = (): LineDraft => ({ name: '', quantity: '1', unitMRP: '', reference: '' });
+
+const toDraft = (line: CartLine): LineDraft => ({
+  name: line.name,
+  quantity: line.quantity.toString(),
+  unitMRP: line.unitMRP.toString(),
+  reference: line.link || line.sku || '',
+});
+
+const toLine = (draft: LineDraft): CartLine => {
+  const reference = draft.reference.trim();
+  return {
+    name: draft.name,
+    quantity: parseInt(draft.quantity, 10),
+    unitMRP: parseFloat(draft.unitMRP),
+    ...(/^https?:\/\//i.test(reference) ? { link: reference } : reference ? { sku: reference } : {}),
+  };
+};
+
+const isComplete = (line: CartLine) =>
+  !!line.name.trim() && line.quantity > 0 && line.unitMRP > 0;
+
 export default function AddOrderItemModal({
   visible,
+  rewardCoins,
   onDismiss,
   onSubmit,
+  initial,
+  onRemove,
 }: AddOrderItemModalProps) {
-  const [items, setItems] = useState('');
-  const [amount, setAmount] = useState('');
+  const [drafts, setDrafts] = useState<LineDraft[]>([emptyLine()]);
+  const [coins, setCoins] = useState('');
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    if (visible) {
+      setDrafts(initial?.lines.length ? initial.lines.map(toDraft) : [emptyLine()]);
+      setCoins(initial?.coinsToApply ? initial.coinsToApply.toString() : '');
+    }
+  }, [visible]);
+
+  const lines = drafts.map(toLine);
+  const canSubmit = lines.length > 0 && lines.every(isComplete);
+  const total = CartManager.totalOf(lines.filter(isComplete));
+
+  const updateDraft = (index: number, changes: Partial<LineDraft>) => {
+    setDrafts(current => current.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const removeDraft = (index: number) => {
+    setDrafts(current => (current.length > 1 ? current.filter((_, i) => i !== index) : [emptyLine()]));
+  };
+
+  const reset = () => {
+    setDrafts([emptyLine()]);
+    setCoins('');
+  };
+
   const handleSubmit = async () => {
-    if (!items || !amount) return;
+    if (!canSubmit) return;
 
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum) || amountNum <= 0) return;
+    const coinsNum = coins ? parseInt(coins, 10) : 0;
+    if (isNaN(coinsNum) || coinsNum < 0) return;
 
     try {
       setLoading(true);
-      await onSubmit(items, amountNum);
-      setItems('');
-      setAmount('');
+      await onSubmit(lines, coinsNum);
+      reset();
       onDismiss();
     } catch (error) {
       console.error('Error submitting order items:', error);
@@ -37,6 +98,21 @@ export default function AddOrderItemModal({
     }
   };
 
+  const handleRemove = async () => {
+    if (!onRemove) return;
+
+    try {
+      setLoading(true);
+      await onRemove();
+      reset();
+      onDismiss();
+    } catch (error) {
+      console.error('Error removing order items:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <Portal>
       <Modal
@@ -45,29 +121,91 @@ export default function AddOrderItemModal({
         contentContainerStyle={styles.modal}
       >
         <Text variant="headlineSmall" style={styles.title}>
-          Add Your Order
+          {initial ? 'Edit Your Items' : 'Add Your Order'}
         </Text>
         <ScrollView>
-          <TextInput
-            mode="outlined"
-            label="Items (e.g., 1x Burger, 2x Fries)"
-            value={items}
-            onChangeText={setItems}
-            multiline
-            numberOfLines={3}
-            style={styles.input}
-          />
-          <TextInput
-            mode="outlined"
-            label="Amount (₹)"
-            value={amount}
-            onChangeText={setAmount}
-            keyboardType="number-pad"
-            left={<TextInput.Affix text="₹" />}
-            style={styles.input}
-          />
+          {drafts.map((draft, index) => (
+            <View key={index} style={styles.line}>
+              <View style={styles.lineHeader}>
+                <TextInput
+                  mode="outlined"
+                  label="Item"
+                  value={draft.name}
+                  onChangeText={name => updateDraft(index, { name })}
+                  style={styles.nameInput}
+                  dense
+                />
+                <IconButton
+                  icon="delete-outline"
+                  onPress={() => removeDraft(index)}
+                  disabled={loading}
+                />
+              </View>
+              <View style={styles.lineRow}>
+                <TextInput
+                  mode="outlined"
+                  label="Qty"
+                  value={draft.quantity}
+                  onChangeText={quantity => updateDraft(index, { quantity })}
+                  keyboardType="number-pad"
+                  style={styles.quantityInput}
+                  dense
+                />
+                <TextInput
+                  mode="outlined"
+                  label="MRP each (₹)"
+                  value={draft.unitMRP}
+                  onChangeText={unitMRP => updateDraft(index, { unitMRP })}
+                  keyboardType="decimal-pad"
+                  style={styles.priceInput}
+                  dense
+                />
+              </View>
+              <TextInput
+                mode="outlined"
+                label="Product link or SKU (optional)"
+                value={draft.reference}
+                onChangeText={reference => updateDraft(index, { reference })}
+                autoCapitalize="none"
+                style={styles.input}
+                dense
+              />
+              <Divider />
+            </View>
+          ))}
+          {drafts.length < MAX_CART_LINES && (
+            <Button
+              mode="text"
+              icon="plus"
+              onPress={() => setDrafts(current => [...current, emptyLine()])}
+              style={styles.addLine}
+            >
+              Add Another Item
+            </Button>
+          )}
+          {!!rewardCoins && rewardCoins > 0 && (
+            <TextInput
+              mode="outlined"
+              label={`Reward coins to use (${rewardCoins} available)`}
+              value={coins}
+              onChangeText={setCoins}
+              keyboardType="number-pad"
+              style={styles.input}
+            />
+          )}
         </ScrollView>
+        <Text variant="titleMedium" style={styles.total}>Total MRP: ₹{total}</Text>
         <View style={styles.buttons}>
+          {initial && onRemove && (
+            <Button
+              mode="text"
+              onPress={handleRemove}
+              textColor={colors.error}
+              disabled={loading}
+            >
+              Remove
+            </Button>
+          )}
           <Button
             mode="outlined"
             onPress={onDismiss}
@@ -81,9 +219,9 @@ export default function AddOrderItemModal({
             onPress={handleSubmit}
             style={styles.button}
             loading={loading}
-            disabled={loading || !items || !amount}
+            disabled={loading || !canSubmit}
           >
-            Add to Order
+            {initial ? 'Save' : 'Add to Order'}
           </Button>
         </View>
       </Modal>
@@ -102,9 +240,38 @@ const styles = StyleSheet.create({
   title: {
     marginBottom: spacing.md,
   },
+  line: {
+    marginBottom: spacing.sm,
+  },
+  lineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  nameInput: {
+    flex: 1,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginVertical: spacing.sm,
+  },
+  quantityInput: {
+    width: 80,
+  },
+  priceInput: {
+    flex: 1,
+  },
   input: {
     marginBottom: spacing.md,
   },
+  addLine: {
+    alignSelf: 'flex-start',
+    marginBottom: spacing.md,
+  },
+  total: {
+    textAlign: 'right',
+    marginVertical: spacing.sm,
+  },
   buttons: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -113,4 +280,4 @@ const styles = StyleSheet.create({
   button: {
     minWidth: 100,
   },
-}); 
\ No newline at end of file
+});
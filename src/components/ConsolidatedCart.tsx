@@ -0,0 +1,90 @@
+import React from 'react';
+import { View, StyleSheet, Share } from 'react-native';
+import { Text, Button, List } from 'react-native-paper';
+import { colors, spacing } from '../theme';
+import { OrderItem } from '../types';
+import { CartManager, ConsolidatedLine } from '../utils/CartManager';
+
+interface ConsolidatedCartProps {
+  items: OrderItem[];
+  getMemberName: (userId: string) => string;
+}
+
+const describeLine = (line: ConsolidatedLine) =>
+  [`${line.quantity}x ${line.name}`, line.sku && `SKU ${line.sku}`, line.link].filter(Boolean).join(' · ');
+
+// Leader only: everyone's lines merged into the list to place with the
+// delivery app. Shared as text so it can be copied from the share sheet.
+export default function ConsolidatedCart({ items, getMemberName }: ConsolidatedCartProps) {
+  const lines = CartManager.consolidate(items);
+  // Items added before carts had lines can't be merged
+  const unlisted = items.filter(item => !item.lines);
+  const total = CartManager.totalOf(lines);
+
+  const handleShare = async () => {
+    const text = [
+      ...lines.map(describeLine),
+      ...unlisted.map(item => `${item.items} (${getMemberName(item.userId)})`),
+    ].join('\n');
+
+    try {
+      await Share.share({ message: text });
+    } catch (error) {
+      console.error('Error sharing consolidated cart:', error);
+    }
+  };
+
+  if (lines.length === 0 && unlisted.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text variant="titleMedium">Consolidated Cart</Text>
+        <Button compact icon="content-copy" onPress={handleShare}>
+          Copy List
+        </Button>
+      </View>
+      {lines.map(line => (
+        <List.Item
+          key={`${line.sku || line.link || line.name}-${line.unitMRP}`}
+          title={`${line.quantity}x ${line.name}`}
+          description={[
+            line.userIds.map(getMemberName).join(', '),
+            line.sku && `SKU ${line.sku}`,
+            line.link,
+          ].filter(Boolean).join('\n')}
+          right={() => <Text style={styles.price}>₹{CartManager.totalOf([line])}</Text>}
+        />
+      ))}
+      {unlisted.map(item => (
+        <List.Item
+          key={item.userId}
+          title={item.items}
+          description={getMemberName(item.userId)}
+          right={() => <Text style={styles.price}>₹{item.itemMRP}</Text>}
+        />
+      ))}
+      {lines.length > 0 && (
+        <Text style={styles.total}>{`${lines.length} products · ₹${total} MRP`}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  price: {
+    alignSelf: 'center',
+  },
+  total: {
+    color: colors.textSecondary,
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { DeadlineKind, GroupDeadline } from '../types';
+import { colors, spacing } from '../theme';
+
+const LABELS: Record<DeadlineKind, string> = {
+  gathering: 'Group closes if not started in',
+  screenshot: 'Order must be uploaded in',
+  approval: 'Splits must be approved in',
+  delivery: 'Items must be handed over in',
+};
+
+const formatRemaining = (ms: number) => {
+  const totalMinutes = Math.ceil(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours >= 24) {
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  }
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+// The group is cancelled by a scheduled job shortly after the deadline
+export default function DeadlineCountdown({ deadline }: { deadline: GroupDeadline }) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = deadline.at.getTime() - now;
+
+  return (
+    <View style={styles.container}>
+      <MaterialCommunityIcons name="timer-sand" size={16} color={colors.background} />
+      <Text style={styles.text}>
+        {remaining > 0
+          ? `${LABELS[deadline.kind]} ${formatRemaining(remaining)}`
+          : 'Deadline passed, closing the group'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  text: {
+    color: colors.background,
+    opacity: 0.9,
+    marginLeft: spacing.xs,
+  },
+});
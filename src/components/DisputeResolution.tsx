@@ -1,12 +1,11 @@
 import React, { useState } from 'react';
 import { View, StyleSheet, ScrollView } from 'react-native';
 import { Text, TextInput, Button, Card, List, Portal, Modal } from 'react-native-paper';
-import { collection, addDoc, updateDoc, doc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../config/firebase';
 import { useAuth } from '../contexts/AuthContext';
 import { colors, spacing } from '../theme';
 import { MediaUploader } from '../utils/MediaUploader';
 import { errorHandler } from '../utils/ErrorHandler';
+import { OrderProcessor, DisputeType } from '../utils/OrderProcessor';
 
 interface DisputeResolutionProps {
   visible: boolean;
@@ -15,8 +14,6 @@ interface DisputeResolutionProps {
   groupId: string;
 }
 
-type DisputeType = 'payment' | 'delivery' | 'quality' | 'other';
-
 export function DisputeResolution({ visible, onClose, orderId, groupId }: DisputeResolutionProps) {
   const [type, setType] = useState<DisputeType>('payment');
   const [description, setDescription] = useState('');
@@ -42,25 +39,8 @@ export function DisputeResolution({ visible, onClose, orderId, groupId }: Disput
     try {
       setLoading(true);
 
-      // Create dispute document
-      const disputeRef = await addDoc(collection(db, 'disputes'), {
-        orderId,
-        groupId,
-        userId: user.uid,
-        type,
-        description,
-        evidence,
-        status: 'pending',
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
-
-      // Update order status
-      await updateDoc(doc(db, 'orders', orderId), {
-        hasDispute: true,
-        disputeId: disputeRef.id,
-        status: 'disputed',
-      });
+      // Files the dispute and holds the order in one step
+      await OrderProcessor.openDispute(orderId, { type, description, evidence });
 
       onClose();
     } catch (error:any) {
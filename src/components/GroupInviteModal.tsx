@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert, Share } from 'react-native';
+import { Modal, Portal, Text, Button, List, SegmentedButtons } from 'react-native-paper';
+import QRCode from 'react-native-qrcode-svg';
+import { colors, spacing } from '../theme';
+import { GroupInvite } from '../types';
+import { GroupAccess, INVITE_EXPIRY_OPTIONS } from '../utils/GroupAccess';
+
+const USE_OPTIONS = [1, 3, 9];
+
+const expiryLabel = (hours: number) => (hours >= 24 ? `${hours / 24}d` : `${hours}h`);
+
+interface GroupInviteModalProps {
+  visible: boolean;
+  onDismiss: () => void;
+  groupId: string;
+  groupName: string;
+}
+
+// Leader only. The QR code holds the same link that is shared as text.
+export default function GroupInviteModal({ visible, onDismiss, groupId, groupName }: GroupInviteModalProps) {
+  const [invites, setInvites] = useState<GroupInvite[]>([]);
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+  const [maxUses, setMaxUses] = useState(USE_OPTIONS[1]);
+  const [expiresInHours, setExpiresInHours] = useState(INVITE_EXPIRY_OPTIONS[1]);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    return GroupAccess.subscribeToInvites(groupId, setInvites);
+  }, [visible, groupId]);
+
+  const selected = invites.find(invite => invite.code === selectedCode) || null;
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true);
+      const code = await GroupAccess.createInvite(groupId, { maxUses, expiresInHours });
+      setSelectedCode(code);
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create invite. Please try again.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleShare = async (invite: GroupInvite) => {
+    try {
+      await Share.share({
+        message: `Join my group "${groupName}" on GatherPay: ${GroupAccess.inviteLink(groupId, invite.code)}`,
+      });
+    } catch (error) {
+      console.error('Error sharing invite:', error);
+    }
+  };
+
+  const handleRevoke = (invite: GroupInvite) => {
+    Alert.alert(
+      'Revoke Invite',
+      'Anyone holding this link or QR code will no longer be able to join with it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await GroupAccess.revokeInvite(groupId, invite.code);
+              if (selectedCode === invite.code) setSelectedCode(null);
+            } catch (error) {
+              console.error('Error revoking invite:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to revoke invite. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={onDismiss} contentContainerStyle={styles.modal}>
+        <ScrollView>
+          <Text variant="headlineSmall" style={styles.title}>Invite Members</Text>
+
+          {selected ? (
+            <View style={styles.qrContainer}>
+              <QRCode value={GroupAccess.inviteLink(groupId, selected.code)} size={180} />
+              <Text variant="bodySmall" style={styles.hint}>
+                {`${selected.maxUses - selected.uses} of ${selected.maxUses} uses left · expires ${selected.expiresAt.toLocaleString()}`}
+              </Text>
+              <Button mode="contained" icon="share-variant" onPress={() => handleShare(selected)}>
+                Share Link
+              </Button>
+            </View>
+          ) : (
+            <>
+              <Text variant="titleSmall" style={styles.label}>Number of uses</Text>
+              <SegmentedButtons
+                value={String(maxUses)}
+                onValueChange={value => setMaxUses(Number(value))}
+                buttons={USE_OPTIONS.map(uses => ({ value: String(uses), label: String(uses) }))}
+                style={styles.segments}
+              />
+              <Text variant="titleSmall" style={styles.label}>Expires after</Text>
+              <SegmentedButtons
+                value={String(expiresInHours)}
+                onValueChange={value => setExpiresInHours(Number(value))}
+                buttons={INVITE_EXPIRY_OPTIONS.map(hours => ({ value: String(hours), label: expiryLabel(hours) }))}
+                style={styles.segments}
+              />
+              <Button mode="contained" onPress={handleCreate} loading={creating} disabled={creating}>
+                Create Invite
+              </Button>
+            </>
+          )}
+
+          {invites.length > 0 && (
+            <>
+              <Text variant="titleSmall" style={styles.sectionTitle}>Active invites</Text>
+              {invites.map(invite => (
+                <List.Item
+                  key={invite.code}
+                  title={invite.code}
+                  description={`${invite.uses}/${invite.maxUses} used · expires ${invite.expiresAt.toLocaleDateString()}`}
+                  left={props => <List.Icon {...props} icon="qrcode" />}
+                  right={() => (
+                    <Button compact textColor={colors.error} onPress={() => handleRevoke(invite)}>
+                      Revoke
+                    </Button>
+                  )}
+                  onPress={() => setSelectedCode(invite.code)}
+                />
+              ))}
+            </>
+          )}
+
+          <View style={styles.buttons}>
+            {selected && (
+              <Button onPress={() => setSelectedCode(null)}>New Invite</Button>
+            )}
+            <Button mode="outlined" onPress={onDismiss}>Close</Button>
+          </View>
+        </ScrollView>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: colors.surface,
+    padding: spacing.lg,
+    margin: spacing.lg,
+    borderRadius: 8,
+    maxHeight: '85%',
+  },
+  title: {
+    marginBottom: spacing.md,
+  },
+  qrContainer: {
+    alignItems: 'center',
+  },
+  hint: {
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginVertical: spacing.md,
+  },
+  label: {
+    marginBottom: spacing.sm,
+  },
+  segments: {
+    marginBottom: spacing.md,
+  },
+  sectionTitle: {
+    marginTop: spacing.lg,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+});
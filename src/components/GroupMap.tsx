@@ -0,0 +1,163 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import MapView, { Marker, Circle, Region } from 'react-native-maps';
+import Supercluster from 'supercluster';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Group } from '../types';
+import { Coordinates } from '../utils/GroupDiscovery';
+import { locationPrivacyManager } from '../utils/LocationPrivacyManager';
+import { colors, spacing, elevation } from '../theme';
+
+interface GroupMapProps {
+  groups: Group[];
+  center: Coordinates;
+  userId?: string; // Groups the user is in get their own marker colour
+  radius?: number; // Search radius to outline, in meters
+  onSelect: (group: Group) => void;
+}
+
+type GroupPoint = Supercluster.PointFeature<{ group: Group }>;
+
+const CLUSTER_RADIUS = 60; // px
+const MAX_CLUSTER_ZOOM = 17;
+const DEFAULT_SPAN = 2000; // meters shown around the center without a radius
+
+const zoomFor = (region: Region) =>
+  Math.max(0, Math.min(20, Math.round(Math.log2(360 / region.longitudeDelta))));
+
+const regionAround = (center: Coordinates, radius: number): Region => ({
+  latitude: center.latitude,
+  longitude: center.longitude,
+  // A degree of latitude is about 111km; leave some room around the radius
+  latitudeDelta: (radius * 2.5) / 111000,
+  longitudeDelta: (radius * 2.5) / 111000,
+});
+
+// Markers are placed at the precision the privacy settings allow, never at
+// a group's stored coordinates
+export default function GroupMap({ groups, center, userId, radius, onSelect }: GroupMapProps) {
+  const mapRef = useRef<MapView>(null);
+  const [region, setRegion] = useState<Region>(() => regionAround(center, radius || DEFAULT_SPAN));
+
+  const index = useMemo(() => {
+    const points: GroupPoint[] = groups.map(group => {
+      const { latitude, longitude } = locationPrivacyManager.obscureLocation(
+        group.location.latitude,
+        group.location.longitude
+      );
+      return {
+        type: 'Feature',
+        properties: { group },
+        geometry: { type: 'Point', coordinates: [longitude, latitude] },
+      };
+    });
+
+    const cluster = new Supercluster<{ group: Group }>({ radius: CLUSTER_RADIUS, maxZoom: MAX_CLUSTER_ZOOM });
+    cluster.load(points);
+    return cluster;
+  }, [groups]);
+
+  const clusters = useMemo(() => index.getClusters(
+    [
+      region.longitude - region.longitudeDelta / 2,
+      region.latitude - region.latitudeDelta / 2,
+      region.longitude + region.longitudeDelta / 2,
+      region.latitude + region.latitudeDelta / 2,
+    ],
+    zoomFor(region)
+  ), [index, region]);
+
+  const expandCluster = (clusterId: number, [longitude, latitude]: number[]) => {
+    const zoom = Math.min(index.getClusterExpansionZoom(clusterId), 20);
+    const delta = 360 / Math.pow(2, zoom);
+    mapRef.current?.animateToRegion({ latitude, longitude, latitudeDelta: delta, longitudeDelta: delta });
+  };
+
+  return (
+    <MapView
+      ref={mapRef}
+      style={styles.map}
+      initialRegion={region}
+      onRegionChangeComplete={setRegion}
+      showsUserLocation
+    >
+      {!!radius && (
+        <Circle
+          center={center}
+          radius={radius}
+          strokeColor={colors.primary}
+          fillColor={`${colors.primary}10`}
+        />
+      )}
+
+      {clusters.map(feature => {
+        const [longitude, latitude] = feature.geometry.coordinates;
+
+        if ('cluster' in feature.properties && feature.properties.cluster) {
+          const { cluster_id, point_count } = feature.properties;
+          return (
+            <Marker
+              key={`cluster-${cluster_id}`}
+              coordinate={{ latitude, longitude }}
+              onPress={() => expandCluster(cluster_id, feature.geometry.coordinates)}
+            >
+              <View style={styles.cluster}>
+                <Text style={styles.clusterText}>{point_count}</Text>
+              </View>
+            </Marker>
+          );
+        }
+
+        const { group } = feature.properties as { group: Group };
+        const joined = !!userId && !!group.members?.[userId];
+        return (
+          <Marker
+            key={group.id}
+            coordinate={{ latitude, longitude }}
+            onPress={() => onSelect(group)}
+          >
+            <View style={[styles.marker, joined && styles.joinedMarker]}>
+              <MaterialCommunityIcons name="account-group" size={18} color={colors.background} />
+            </View>
+          </Marker>
+        );
+      })}
+    </MapView>
+  );
+}
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+  },
+  marker: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.secondary,
+    borderWidth: 2,
+    borderColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...elevation.small,
+  },
+  joinedMarker: {
+    backgroundColor: colors.primary,
+  },
+  cluster: {
+    minWidth: 44,
+    height: 44,
+    borderRadius: 22,
+    paddingHorizontal: spacing.sm,
+    backgroundColor: colors.primaryDark,
+    borderWidth: 3,
+    borderColor: `${colors.background}CC`,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  clusterText: {
+    color: colors.background,
+    fontWeight: 'bold',
+  },
+});
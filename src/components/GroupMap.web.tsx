@@ -0,0 +1,29 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { colors, spacing } from '../theme';
+
+// react-native-maps has no web implementation
+export default function GroupMap() {
+  return (
+    <View style={styles.container}>
+      <MaterialCommunityIcons name="map-outline" size={48} color={colors.disabled} />
+      <Text style={styles.text}>The map is available in the Android and iOS apps</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+  },
+  text: {
+    marginTop: spacing.md,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,103 @@
+import React from 'react';
+import { StyleSheet, ScrollView } from 'react-native';
+import { Modal, Portal, Text, Button, List } from 'react-native-paper';
+import { colors, spacing } from '../theme';
+import { Group } from '../types';
+import { GroupManager } from '../utils/GroupManager';
+
+interface GroupMember {
+  id: string;
+  phoneNumber: string;
+  name?: string;
+}
+
+interface GroupMembersModalProps {
+  visible: boolean;
+  onDismiss: () => void;
+  group: Group;
+  members: GroupMember[];
+  currentUserId: string;
+  onHandOff: (member: GroupMember) => void;
+  onNominate: (member: GroupMember) => void;
+}
+
+// The leader hands off directly; other members nominate, which starts a
+// poll in the group chat. Both only while the group is open.
+export default function GroupMembersModal({
+  visible,
+  onDismiss,
+  group,
+  members,
+  currentUserId,
+  onHandOff,
+  onNominate,
+}: GroupMembersModalProps) {
+  const leaderId = GroupManager.leaderOf(group);
+  const isLeader = leaderId === currentUserId;
+  const canChangeLeader = group.status === 'open' && !!group.members[currentUserId];
+  const activeMembers = members.filter(member => group.members[member.id]);
+
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={onDismiss} contentContainerStyle={styles.modal}>
+        <Text variant="headlineSmall" style={styles.title}>Members</Text>
+        {canChangeLeader && (
+          <Text variant="bodySmall" style={styles.hint}>
+            {isLeader
+              ? 'Hand leadership to another member before the order starts.'
+              : 'Nominate a member to start a leader poll in the chat.'}
+          </Text>
+        )}
+
+        <ScrollView style={styles.list}>
+          {activeMembers.map(member => {
+            const memberIsLeader = member.id === leaderId;
+            return (
+              <List.Item
+                key={member.id}
+                title={member.name || member.phoneNumber || 'Member'}
+                description={memberIsLeader ? 'Leader' : member.id === currentUserId ? 'You' : undefined}
+                left={props => <List.Icon {...props} icon={memberIsLeader ? 'crown' : 'account'} />}
+                right={() => canChangeLeader && !memberIsLeader ? (
+                  <Button
+                    compact
+                    onPress={() => (isLeader ? onHandOff(member) : onNominate(member))}
+                  >
+                    {isLeader ? 'Make Leader' : 'Nominate'}
+                  </Button>
+                ) : null}
+              />
+            );
+          })}
+        </ScrollView>
+
+        <Button mode="outlined" onPress={onDismiss} style={styles.closeButton}>
+          Close
+        </Button>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: colors.surface,
+    padding: spacing.lg,
+    margin: spacing.lg,
+    borderRadius: 8,
+    maxHeight: '85%',
+  },
+  title: {
+    marginBottom: spacing.sm,
+  },
+  hint: {
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  list: {
+    maxHeight: 360,
+  },
+  closeButton: {
+    marginTop: spacing.md,
+  },
+});
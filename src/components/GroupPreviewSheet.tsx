@@ -0,0 +1,111 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Button, IconButton } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Group } from '../types';
+import { GroupDiscovery } from '../utils/GroupDiscovery';
+import { getPlatform, amountLeft } from '../config/platforms';
+import { StatusBadge } from './ui/StatusBadge';
+import { colors, spacing, elevation } from '../theme';
+
+interface GroupPreviewSheetProps {
+  group: Group;
+  onOpen: () => void;
+  onClose: () => void;
+}
+
+// Shown over the map when a group marker is tapped
+export default function GroupPreviewSheet({ group, onOpen, onClose }: GroupPreviewSheetProps) {
+  return (
+    <View style={styles.sheet}>
+      <View style={styles.handle} />
+      <View style={styles.header}>
+        <View style={styles.titleSection}>
+          <Text style={styles.name} numberOfLines={1}>{group.name}</Text>
+          <StatusBadge status={group.status} size="small" />
+        </View>
+        <IconButton icon="close" size={20} onPress={onClose} />
+      </View>
+      <Text style={styles.platform}>
+        {getPlatform(group.platform).name} · ₹{amountLeft(group)} left to reach the target
+      </Text>
+
+      <View style={styles.stats}>
+        <View style={styles.stat}>
+          <MaterialCommunityIcons name="target" size={18} color={colors.primary} />
+          <Text style={styles.statText}>₹{group.targetAmount}</Text>
+        </View>
+        <View style={styles.stat}>
+          <MaterialCommunityIcons name="account-group" size={18} color={colors.primary} />
+          <Text style={styles.statText}>{group.memberCount} members</Text>
+        </View>
+        <View style={styles.stat}>
+          <MaterialCommunityIcons name="map-marker" size={18} color={colors.primary} />
+          <Text style={styles.statText}>{GroupDiscovery.formatDistance(group.distance)}</Text>
+        </View>
+      </View>
+
+      <Button mode="contained" onPress={onOpen}>
+        View Group
+      </Button>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheet: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: spacing.lg,
+    paddingTop: spacing.sm,
+    ...elevation.medium,
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.disabled,
+    marginBottom: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  titleSection: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  name: {
+    flexShrink: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  platform: {
+    color: colors.textSecondary,
+    fontSize: 14,
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginVertical: spacing.md,
+  },
+  stat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  statText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+  },
+});
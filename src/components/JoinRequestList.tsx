@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, Button, List } from 'react-native-paper';
+import { colors, spacing } from '../theme';
+import { JoinRequest } from '../types';
+import { GroupAccess } from '../utils/GroupAccess';
+
+// Shown to the leader of an approval group while requests are waiting
+export default function JoinRequestList({ groupId }: { groupId: string }) {
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  useEffect(() => GroupAccess.subscribeToJoinRequests(groupId, setRequests), [groupId]);
+
+  const handleDecide = async (request: JoinRequest, approve: boolean) => {
+    try {
+      setDeciding(request.userId);
+      await GroupAccess.decideJoinRequest(groupId, request.userId, approve);
+    } catch (error) {
+      console.error('Error answering join request:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to answer the request. Please try again.');
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text variant="titleSmall">{`Join requests (${requests.length})`}</Text>
+      {requests.map(request => (
+        <List.Item
+          key={request.userId}
+          title={request.name || 'New member'}
+          description={`Asked ${request.createdAt.toLocaleString()}`}
+          left={props => <List.Icon {...props} icon="account-clock" />}
+          right={() => (
+            <View style={styles.actions}>
+              <Button
+                compact
+                textColor={colors.error}
+                disabled={deciding === request.userId}
+                onPress={() => handleDecide(request, false)}
+              >
+                Reject
+              </Button>
+              <Button
+                compact
+                mode="contained-tonal"
+                disabled={deciding === request.userId}
+                onPress={() => handleDecide(request, true)}
+              >
+                Approve
+              </Button>
+            </View>
+          )}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: spacing.md,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+});
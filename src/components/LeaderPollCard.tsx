@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, Button, ProgressBar } from 'react-native-paper';
+import { colors, spacing } from '../theme';
+import { LeaderPoll } from '../types';
+import { GroupManager } from '../utils/GroupManager';
+
+interface GroupMember {
+  id: string;
+  phoneNumber: string;
+  name?: string;
+}
+
+interface LeaderPollCardProps {
+  groupId: string;
+  pollId: string;
+  members: GroupMember[];
+  currentUserId: string;
+}
+
+// Rendered in the group chat in place of the poll's system message
+export default function LeaderPollCard({ groupId, pollId, members, currentUserId }: LeaderPollCardProps) {
+  const [poll, setPoll] = useState<LeaderPoll | null>(null);
+  const [voting, setVoting] = useState(false);
+
+  useEffect(() => GroupManager.subscribeToPoll(groupId, pollId, setPoll), [groupId, pollId]);
+
+  if (!poll) return null;
+
+  const nameOf = (userId: string) => {
+    const member = members.find(other => other.id === userId);
+    return member?.name || member?.phoneNumber || 'Member';
+  };
+  const votes = Object.values(poll.votes);
+  const myVote = poll.votes[currentUserId];
+  const isOpen = poll.status === 'open' && poll.closesAt.getTime() > Date.now();
+
+  const handleVote = async (candidateId: string) => {
+    try {
+      setVoting(true);
+      const status = await GroupManager.voteForLeader(groupId, pollId, candidateId);
+      if (status === 'expired') {
+        Alert.alert('Poll Closed', 'This poll has ended. Nominate again to start a new one.');
+      }
+    } catch (error) {
+      console.error('Error voting for leader:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to vote. Please try again.');
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text variant="titleSmall" style={styles.title}>Group leader poll</Text>
+      {poll.candidates.map(candidateId => {
+        const count = votes.filter(vote => vote === candidateId).length;
+        return (
+          <View key={candidateId} style={styles.candidate}>
+            <View style={styles.candidateHeader}>
+              <Text style={styles.candidateName}>
+                {nameOf(candidateId)}
+                {poll.winnerId === candidateId ? ' · elected' : ''}
+              </Text>
+              <Text style={styles.count}>{count} {count === 1 ? 'vote' : 'votes'}</Text>
+            </View>
+            <ProgressBar
+              progress={votes.length > 0 ? count / votes.length : 0}
+              color={colors.primary}
+              style={styles.bar}
+            />
+            {isOpen && myVote !== candidateId && (
+              <Button compact mode="text" onPress={() => handleVote(candidateId)} disabled={voting}>
+                {myVote ? 'Change Vote' : 'Vote'}
+              </Button>
+            )}
+          </View>
+        );
+      })}
+      <Text variant="bodySmall" style={styles.status}>
+        {poll.status === 'elected'
+          ? 'Poll closed'
+          : isOpen
+            ? `A majority of members decides · closes ${poll.closesAt.toLocaleString()}`
+            : 'Poll expired'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surfaceVariant,
+    borderRadius: 16,
+    padding: spacing.md,
+    marginVertical: spacing.sm,
+    marginHorizontal: spacing.lg,
+  },
+  title: {
+    marginBottom: spacing.sm,
+  },
+  candidate: {
+    marginBottom: spacing.sm,
+  },
+  candidateHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  candidateName: {
+    fontWeight: 'bold',
+  },
+  count: {
+    color: colors.textSecondary,
+  },
+  bar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  status: {
+    color: colors.textSecondary,
+  },
+});
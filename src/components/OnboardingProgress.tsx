@@ -0,0 +1,31 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, ProgressBar } from 'react-native-paper';
+import { colors, spacing } from '../theme';
+
+const ONBOARDING_STEPS = 3;
+
+export default function OnboardingProgress({ step }: { step: number }) {
+  return (
+    <View style={styles.container}>
+      <Text variant="labelMedium" style={styles.label}>
+        Step {step} of {ONBOARDING_STEPS}
+      </Text>
+      <ProgressBar progress={step / ONBOARDING_STEPS} color={colors.primary} style={styles.bar} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.xl,
+  },
+  label: {
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  bar: {
+    height: 6,
+    borderRadius: 3,
+  },
+});
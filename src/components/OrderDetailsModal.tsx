@@ -4,42 +4,15 @@ import { Modal, Portal, Text, Button, List, Divider, Card } from 'react-native-p
 import { colors, spacing } from '../theme';
 import { StatusBadge } from './ui';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-
-interface OrderItem {
-  userId: string;
-  items: string;
-  itemMRP: number;
-  finalAmount: number;
-  approved: boolean;
-  received: boolean;
-  receivedAt?: Date;
-  noShow?: boolean;
-  noShowPenalty?: number;
-}
-
-interface OrderSplit {
-  userId: string;
-  originalAmount: number;
-  taxShare: number;
-  discountShare: number;
-  finalAmount: number;
-  approved: boolean;
-}
-
-interface Order {
-  id: string;
-  groupId: string;
-  leaderId: string;
-  totalAmount: number;
-  totalTax: number;
-  totalDiscount: number;
-  items: Record<string, OrderItem>;
-  splits: Record<string, OrderSplit>;
-  screenshot: string;
-  status: 'pending' | 'splitting' | 'delivering' | 'completed';
-  createdAt: Date;
-  platformFee?: number;
-}
+import { Group, Order, Escrow, ParsedReceipt, SplitCharges, SplitOptions } from '../types';
+import { GroupLifecycle } from '../utils/GroupLifecycle';
+import { GroupManager } from '../utils/GroupManager';
+import { CartManager } from '../utils/CartManager';
+import ConsolidatedCart from './ConsolidatedCart';
+import SplitCalculator from './SplitCalculator';
+import ScreenshotCheckCard from './ScreenshotCheckCard';
+import { SPLIT_STRATEGY_LABELS } from '../utils/SplitPreview';
+import { Money } from '@shared/Money';
 
 interface GroupMember {
   id: string;
@@ -50,30 +23,65 @@ interface GroupMember {
 interface OrderDetailsModalProps {
   visible: boolean;
   onDismiss: () => void;
+  group: Group;
   order: Order;
+  escrow: Escrow | null;
   members: GroupMember[];
   currentUserId: string;
-  isLeader: boolean;
+  screenshot: string | null;
+  receipt: ParsedReceipt | null;
+  readingScreenshot: boolean;
   onAddItems: () => void;
+  onUploadScreenshot: () => void;
+  onSubmitSplit: (charges: SplitCharges, options: SplitOptions) => void;
   onApproveSplit: (userId: string) => void;
   onConfirmReceipt: (userId: string) => void;
   onMarkNoShow: (userId: string) => void;
   onCompleteOrder: () => void;
+  onCancelOrder: () => void;
 }
 
+const FRAUD_REVIEW = {
+  open: {
+    icon: 'shield-alert',
+    color: colors.error,
+    message: (matched: number) =>
+      `This screenshot looks like one used for ${matched === 1 ? 'an earlier order' : `${matched} earlier orders`}. ` +
+      'Support staff are checking it, and nothing is paid out until they do.',
+  },
+  cleared: {
+    icon: 'shield-check',
+    color: colors.success,
+    message: () => 'Support staff checked the screenshot and cleared this order.',
+  },
+  confirmed: {
+    icon: 'shield-off',
+    color: colors.error,
+    message: () => 'Support staff found the screenshot was reused. The order was cancelled and held shares refunded.',
+  },
+} as const;
+
 export default function OrderDetailsModal({
   visible,
   onDismiss,
+  group,
   order,
+  escrow,
   members,
   currentUserId,
-  isLeader,
+  screenshot,
+  receipt,
+  readingScreenshot,
   onAddItems,
+  onUploadScreenshot,
+  onSubmitSplit,
   onApproveSplit,
   onConfirmReceipt,
   onMarkNoShow,
   onCompleteOrder,
+  onCancelOrder,
 }: OrderDetailsModalProps) {
+  const isLeader = GroupManager.leaderOf(group) === currentUserId;
   const [expandedItem, setExpandedItem] = useState<string | null>(null);
 
   const getMemberName = (userId: string) => {
@@ -81,12 +89,81 @@ export default function OrderDetailsModal({
     return member?.name || member?.phoneNumber || 'Unknown User';
   };
 
+  const renderItems = () => {
+    const items = Object.entries(order.items || {});
+
+    return (
+      <View style={styles.section}>
+        <Text variant="titleMedium" style={styles.sectionTitle}>
+          Member Items
+        </Text>
+        {items.length === 0 ? (
+          <Text variant="bodyMedium">No items added yet</Text>
+        ) : (
+          items.map(([userId, item]) => (
+            <List.Item
+              key={userId}
+              title={getMemberName(userId)}
+              description={expandedItem === userId
+                ? CartManager.linesOf(item)
+                  .map(line => `${line.quantity}x ${line.name} · ₹${CartManager.totalOf([line])}`)
+                  .join('\n')
+                : item.items}
+              descriptionNumberOfLines={expandedItem === userId ? 0 : 2}
+              onPress={() => setExpandedItem(expandedItem === userId ? null : userId)}
+              right={() => <Text variant="titleMedium">₹{item.itemMRP}</Text>}
+            />
+          ))
+        )}
+        {isLeader && (
+          <ConsolidatedCart
+            items={items.map(([, item]) => item)}
+            getMemberName={getMemberName}
+          />
+        )}
+        {isLeader && (
+          <SplitCalculator
+            items={items.map(([, item]) => item)}
+            getMemberName={getMemberName}
+            screenshot={screenshot}
+            receipt={receipt}
+            readingScreenshot={readingScreenshot}
+            onUploadScreenshot={onUploadScreenshot}
+            onSubmit={onSubmitSplit}
+          />
+        )}
+      </View>
+    );
+  };
+
+  const renderFraudReview = () => {
+    if (!order.fraudReview) return null;
+    const review = FRAUD_REVIEW[order.fraudReview.status];
+    return (
+      <View style={[styles.fraudReview, { borderColor: review.color }]}>
+        <MaterialCommunityIcons name={review.icon} size={20} color={review.color} />
+        <Text variant="bodySmall" style={styles.fraudReviewText}>
+          {review.message(order.fraudReview.matchedOrders)}
+        </Text>
+      </View>
+    );
+  };
+
   const renderSplitDetails = () => {
     return (
       <View style={styles.section}>
         <Text variant="titleMedium" style={styles.sectionTitle}>
           Split Details
         </Text>
+        {renderFraudReview()}
+        {order.screenshotCheck && (
+          <ScreenshotCheckCard check={order.screenshotCheck} getMemberName={getMemberName} />
+        )}
+        {order.splitOptions && (
+          <Text variant="bodySmall" style={styles.strategy}>
+            {`${SPLIT_STRATEGY_LABELS[order.splitOptions.strategy].title}: ${SPLIT_STRATEGY_LABELS[order.splitOptions.strategy].description}`}
+          </Text>
+        )}
         {Object.entries(order.splits).map(([userId, split]) => (
           <Card key={userId} style={styles.splitCard}>
             <Card.Content>
@@ -107,7 +184,18 @@ export default function OrderDetailsModal({
               <Divider style={styles.divider} />
               <View style={styles.splitDetails}>
                 <Text variant="bodySmall">Tax Share: ₹{split.taxShare}</Text>
+                {!!split.feeShare && (
+                  <Text variant="bodySmall">Fee Share: ₹{split.feeShare}</Text>
+                )}
                 <Text variant="bodySmall">Discount Share: -₹{split.discountShare}</Text>
+                {!!split.adjustment && (
+                  <Text variant="bodySmall">
+                    Adjustment: {split.adjustment > 0 ? '+' : '-'}₹{Math.abs(split.adjustment)}
+                  </Text>
+                )}
+                {!!split.coinDiscount && (
+                  <Text variant="bodySmall">{`Coins: -₹${split.coinDiscount} (${split.coinsApplied} coins)`}</Text>
+                )}
               </View>
               {!split.approved && userId === currentUserId && (
                 <Button
@@ -135,7 +223,9 @@ export default function OrderDetailsModal({
           <List.Item
             key={userId}
             title={getMemberName(userId)}
-            description={item.items}
+            description={escrow?.holdings[userId]
+              ? `${item.items}\n₹${escrow.holdings[userId].amount} ${escrow.holdings[userId].status === 'held' ? 'held in escrow' : escrow.holdings[userId].status}`
+              : item.items}
             left={props => (
               <List.Icon
                 {...props}
@@ -172,7 +262,6 @@ export default function OrderDetailsModal({
 
   const renderActions = () => {
     const allSplitsApproved = Object.values(order.splits).every(split => split.approved);
-    const allItemsReceived = Object.values(order.items).every(item => item.received || item.noShow);
 
     return (
       <View style={styles.actions}>
@@ -186,7 +275,7 @@ export default function OrderDetailsModal({
             Add Items
           </Button>
         )}
-        {isLeader && order.status === 'delivering' && allItemsReceived && (
+        {isLeader && GroupLifecycle.canFire('complete', group, order) && (
           <Button
             mode="contained"
             onPress={onCompleteOrder}
@@ -196,6 +285,17 @@ export default function OrderDetailsModal({
             Complete Order
           </Button>
         )}
+        {isLeader && GroupLifecycle.canFire('cancel_order', group, order) && (
+          <Button
+            mode="outlined"
+            onPress={onCancelOrder}
+            icon="close"
+            textColor={colors.error}
+            style={styles.actionButton}
+          >
+            Cancel Order
+          </Button>
+        )}
         <Button
           mode="outlined"
           onPress={onDismiss}
@@ -228,10 +328,21 @@ export default function OrderDetailsModal({
               <Divider style={styles.divider} />
               <View style={styles.summaryDetails}>
                 <Text variant="bodySmall">Tax: ₹{order.totalTax}</Text>
+                {!!order.totalFees && (
+                  <Text variant="bodySmall">Fees: ₹{order.totalFees}</Text>
+                )}
                 <Text variant="bodySmall">Discount: -₹{order.totalDiscount}</Text>
                 {order.platformFee && (
                   <Text variant="bodySmall">Platform Fee: ₹{order.platformFee}</Text>
                 )}
+                {escrow?.status === 'holding' && (
+                  <Text variant="bodySmall">
+                    In Escrow: ₹{Money.sum(Object.values(escrow.holdings)
+                      .filter(holding => holding.status === 'held')
+                      .map(holding => Money.of(holding.amount)))
+                      .toString()}
+                  </Text>
+                )}
               </View>
             </Card.Content>
           </Card>
@@ -251,6 +362,7 @@ export default function OrderDetailsModal({
             </Card>
           )}
 
+          {order.status === 'pending' && renderItems()}
           {order.status === 'splitting' && renderSplitDetails()}
           {order.status === 'delivering' && renderDeliveryStatus()}
           {renderActions()}
@@ -303,6 +415,22 @@ const styles = StyleSheet.create({
   splitDetails: {
     marginTop: spacing.sm,
   },
+  strategy: {
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  fraudReview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  fraudReviewText: {
+    flex: 1,
+  },
   itemActions: {
     flexDirection: 'row',
     gap: spacing.sm,
@@ -317,6 +445,9 @@ const styles = StyleSheet.create({
   divider: {
     marginVertical: spacing.sm,
   },
+  input: {
+    marginBottom: spacing.sm,
+  },
   screenshotCard: {
     marginTop: spacing.md,
   },
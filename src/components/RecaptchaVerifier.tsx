@@ -1,48 +1,134 @@
-import React, { useEffect } from 'react';
-import { View, Platform } from 'react-native';
-import { auth } from '../config/firebase';
-import { RecaptchaVerifier as FirebaseRecaptchaVerifier, Auth } from 'firebase/auth';
-
-declare global {
-  interface Window {
-    recaptchaVerifier: FirebaseRecaptchaVerifier | undefined;
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Platform, StyleSheet } from 'react-native';
+import { Modal, Portal, Button } from 'react-native-paper';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { auth, firebaseConfig } from '../config/firebase';
+import { RecaptchaVerifier as FirebaseRecaptchaVerifier, ApplicationVerifier } from 'firebase/auth';
+import { PhoneAuth, PhoneAuthError } from '../utils/PhoneAuth';
+import { colors, spacing } from '../theme';
+
+const FIREBASE_SDK_VERSION = '10.14.1';
+
+// Runs Firebase's web reCAPTCHA inside the WebView, served from the auth
+// domain so it is an authorized origin, and posts the token back
+const recaptchaPage = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <script src="https://www.gstatic.com/firebasejs/${FIREBASE_SDK_VERSION}/firebase-app-compat.js"></script>
+    <script src="https://www.gstatic.com/firebasejs/${FIREBASE_SDK_VERSION}/firebase-auth-compat.js"></script>
+  </head>
+  <body>
+    <div id="recaptcha-container"></div>
+    <script>
+      function post(message) {
+        window.ReactNativeWebView.postMessage(JSON.stringify(message));
+      }
+      firebase.initializeApp(${JSON.stringify(firebaseConfig)});
+      new firebase.auth.RecaptchaVerifier('recaptcha-container', { size: 'invisible' })
+        .verify()
+        .then(function (token) { post({ type: 'verify', token: token }); })
+        .catch(function (error) { post({ type: 'error', message: error.message }); });
+    </script>
+  </body>
+</html>`;
+
+type PendingVerification = {
+  resolve: (token: string) => void;
+  reject: (error: Error) => void;
+};
+
+// Opens the reCAPTCHA sheet for each verification
+class WebViewVerifier implements ApplicationVerifier {
+  readonly type = 'recaptcha';
+
+  constructor(private open: (pending: PendingVerification) => void) {}
+
+  verify(): Promise<string> {
+    return new Promise((resolve, reject) => this.open({ resolve, reject }));
   }
+
+  // Called by the SDK after every attempt
+  _reset() {}
 }
 
+// Mount on the auth screens; phone sign-in uses whichever verifier is mounted
 export default function RecaptchaVerifier() {
+  const [visible, setVisible] = useState(false);
+  const pending = useRef<PendingVerification | null>(null);
+
   useEffect(() => {
-    if (Platform.OS === 'web' && typeof window !== 'undefined') {
-      if (!window.recaptchaVerifier) {
-        window.recaptchaVerifier = new FirebaseRecaptchaVerifier(
-          auth as Auth,
-          'recaptcha-container',
-          {
-            size: 'normal',
-            callback: () => {
-              // reCAPTCHA solved
-              console.log('reCAPTCHA solved');
-            },
-            'expired-callback': () => {
-              // Response expired
-              console.log('reCAPTCHA expired');
-              window.recaptchaVerifier?.render();
-            },
-          }
-        );
-      }
+    if (Platform.OS === 'web') {
+      const verifier = new FirebaseRecaptchaVerifier(auth, 'recaptcha-container', { size: 'invisible' });
+      PhoneAuth.setVerifier(verifier);
+      return () => {
+        PhoneAuth.setVerifier(null);
+        verifier.clear();
+      };
     }
 
-    return () => {
-      if (Platform.OS === 'web' && window.recaptchaVerifier) {
-        window.recaptchaVerifier = undefined;
-      }
-    };
+    PhoneAuth.setVerifier(new WebViewVerifier((verification) => {
+      pending.current = verification;
+      setVisible(true);
+    }));
+    return () => PhoneAuth.setVerifier(null);
   }, []);
 
-  // Only render the container on web platform
-  if (Platform.OS !== 'web') {
-    return null;
+  const finish = (token: string | null, error?: Error) => {
+    setVisible(false);
+    const verification = pending.current;
+    pending.current = null;
+    if (token) {
+      verification?.resolve(token);
+    } else {
+      verification?.reject(error || new PhoneAuthError('Verification was cancelled', 'VERIFICATION_CANCELLED'));
+    }
+  };
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    const message = JSON.parse(event.nativeEvent.data);
+    if (message.type === 'verify') {
+      finish(message.token);
+    } else {
+      finish(null, new PhoneAuthError(message.message || 'reCAPTCHA failed', 'RECAPTCHA_FAILED'));
+    }
+  };
+
+  if (Platform.OS === 'web') {
+    return <View id="recaptcha-container" />;
   }
 
-  return <View id="recaptcha-container" style={{ display: 'none' }} />;
-} 
\ No newline at end of file
+  return (
+    <Portal>
+      <Modal visible={visible} onDismiss={() => finish(null)} contentContainerStyle={styles.modal}>
+        {visible && (
+          <WebView
+            style={styles.webView}
+            originWhitelist={['*']}
+            source={{ html: recaptchaPage, baseUrl: `https://${firebaseConfig.authDomain}` }}
+            onMessage={handleMessage}
+            javaScriptEnabled
+          />
+        )}
+        <Button mode="text" onPress={() => finish(null)} style={styles.cancelButton}>
+          Cancel
+        </Button>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: colors.background,
+    margin: spacing.lg,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  webView: {
+    height: 480,
+  },
+  cancelButton: {
+    margin: spacing.sm,
+  },
+});
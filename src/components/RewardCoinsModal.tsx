@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Modal, Portal, Text, TextInput, Button, List, Divider } from 'react-native-paper';
+import { colors, spacing } from '../theme';
+import { RewardEngine } from '../utils/RewardEngine';
+import { CoinEntry, CoinEntryKind } from '../types';
+
+interface RewardCoinsModalProps {
+  visible: boolean;
+  rewardCoins: number;
+  coinEntries: CoinEntry[];
+  onDismiss: () => void;
+  onRedeem: (coins: number) => Promise<void>;
+}
+
+const ENTRY_ICONS: Record<CoinEntryKind, string> = {
+  earn: 'gift',
+  redeem: 'cash-refund',
+  split_offset: 'account-group',
+  expire: 'clock-alert-outline',
+};
+
+export default function RewardCoinsModal({
+  visible,
+  rewardCoins,
+  coinEntries,
+  onDismiss,
+  onRedeem,
+}: RewardCoinsModalProps) {
+  const [coins, setCoins] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { coinsPerRupee, minRedemptionCoins, maxSplitOffsetPercentage } = RewardEngine.getConfig();
+
+  const coinsNum = parseInt(coins, 10);
+  const canRedeem = !isNaN(coinsNum) && coinsNum >= minRedemptionCoins && coinsNum <= rewardCoins;
+
+  const handleRedeem = async () => {
+    if (!canRedeem) return;
+
+    try {
+      setLoading(true);
+      await onRedeem(coinsNum);
+      setCoins('');
+      onDismiss();
+    } catch (error) {
+      console.error('Error redeeming coins:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.modal}
+      >
+        <Text variant="headlineSmall" style={styles.title}>
+          Reward Coins
+        </Text>
+        <Text variant="bodyMedium" style={styles.summary}>
+          {rewardCoins} coins · worth ₹{RewardEngine.coinsToRupees(rewardCoins).toFixed(2)}
+        </Text>
+        <Text variant="bodySmall" style={styles.hint}>
+          {coinsPerRupee} coins = ₹1. Redeem {minRedemptionCoins} or more to your wallet, or use them
+          for up to {maxSplitOffsetPercentage}% of your share in a group order.
+        </Text>
+
+        <TextInput
+          mode="outlined"
+          label="Coins to redeem"
+          value={coins}
+          onChangeText={setCoins}
+          keyboardType="number-pad"
+          right={!isNaN(coinsNum) && coinsNum > 0
+            ? <TextInput.Affix text={`₹${RewardEngine.coinsToRupees(coinsNum).toFixed(2)}`} />
+            : undefined}
+          style={styles.input}
+        />
+        <Button
+          mode="contained"
+          onPress={handleRedeem}
+          loading={loading}
+          disabled={loading || !canRedeem}
+          style={styles.input}
+        >
+          Redeem to Wallet
+        </Button>
+
+        <Divider style={styles.divider} />
+        <Text variant="titleMedium">Coin History</Text>
+        <ScrollView style={styles.history}>
+          {coinEntries.length === 0 ? (
+            <Text variant="bodyMedium" style={styles.hint}>No coin activity yet</Text>
+          ) : (
+            coinEntries.map(entry => (
+              <List.Item
+                key={entry.id}
+                title={entry.description}
+                description={entry.kind === 'earn' && entry.expiresAt && (entry.remaining || 0) > 0
+                  ? `${entry.remaining} left · expires ${entry.expiresAt.toLocaleDateString()}`
+                  : entry.createdAt.toLocaleDateString()}
+                left={props => <List.Icon {...props} icon={ENTRY_ICONS[entry.kind]} />}
+                right={() => (
+                  <Text style={[styles.coins, { color: entry.coins > 0 ? colors.success : colors.error }]}>
+                    {entry.coins > 0 ? '+' : ''}{entry.coins}
+                  </Text>
+                )}
+              />
+            ))
+          )}
+        </ScrollView>
+
+        <View style={styles.buttons}>
+          <Button mode="outlined" onPress={onDismiss} disabled={loading}>
+            Close
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: colors.surface,
+    padding: spacing.lg,
+    margin: spacing.lg,
+    borderRadius: 8,
+    maxHeight: '85%',
+  },
+  title: {
+    marginBottom: spacing.sm,
+  },
+  summary: {
+    color: colors.primary,
+    marginBottom: spacing.xs,
+  },
+  hint: {
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  input: {
+    marginBottom: spacing.md,
+  },
+  divider: {
+    marginVertical: spacing.sm,
+  },
+  history: {
+    maxHeight: 240,
+  },
+  coins: {
+    alignSelf: 'center',
+    fontWeight: 'bold',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: spacing.md,
+  },
+});
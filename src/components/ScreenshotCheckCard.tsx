@@ -0,0 +1,70 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { colors, spacing } from '../theme';
+import { ScreenshotCheck } from '../types';
+
+interface ScreenshotCheckCardProps {
+  check: ScreenshotCheck;
+  getMemberName: (userId: string) => string;
+}
+
+const STATUS = {
+  verified: { icon: 'check-decagram', color: colors.success, title: 'Screenshot matches the carts' },
+  mismatch: { icon: 'alert', color: colors.error, title: 'Screenshot doesn\'t match the carts' },
+  unreadable: { icon: 'help-circle', color: colors.warning, title: 'Screenshot couldn\'t be checked' },
+} as const;
+
+// Result of comparing the order screenshot with the members' carts
+export default function ScreenshotCheckCard({ check, getMemberName }: ScreenshotCheckCardProps) {
+  const status = STATUS[check.status];
+  const { receipt } = check;
+
+  return (
+    <View style={[styles.container, { borderColor: status.color }]}>
+      <View style={styles.header}>
+        <MaterialCommunityIcons name={status.icon} size={20} color={status.color} />
+        <Text variant="titleSmall" style={{ color: status.color }}>{status.title}</Text>
+      </View>
+      {check.issues.map((issue, index) => (
+        <Text key={index} variant="bodySmall" style={styles.issue}>
+          {issue.userId ? `${getMemberName(issue.userId)}: ${issue.message}` : issue.message}
+        </Text>
+      ))}
+      {receipt && (
+        <Text variant="bodySmall" style={styles.read}>
+          {[
+            `Read ${receipt.items.length} items`,
+            receipt.subtotal !== undefined && `item total ₹${receipt.subtotal}`,
+            receipt.tax !== undefined && `tax ₹${receipt.tax}`,
+            receipt.fees !== undefined && `fees ₹${receipt.fees}`,
+            receipt.discount !== undefined && `discount -₹${receipt.discount}`,
+            receipt.grandTotal !== undefined && `total ₹${receipt.grandTotal}`,
+          ].filter(Boolean).join(' · ')}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  issue: {
+    marginTop: spacing.xs,
+  },
+  read: {
+    marginTop: spacing.xs,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Button, Card, TextInput, Chip, Checkbox, DataTable, HelperText } from 'react-native-paper';
+import { colors, spacing } from '../theme';
+import { OrderItem, OrderSplit, ParsedReceipt, SplitCharges, SplitOptions, SplitStrategyId } from '../types';
+import { CartManager } from '../utils/CartManager';
+import { Money } from '@shared/Money';
+import { SPLIT_STRATEGY_IDS } from '@shared/SplitStrategies';
+import { ScreenshotVerifier } from '@shared/ScreenshotVerifier';
+import { SplitPreview, SPLIT_STRATEGY_LABELS } from '../utils/SplitPreview';
+import ScreenshotCheckCard from './ScreenshotCheckCard';
+
+interface SplitCalculatorProps {
+  items: OrderItem[];
+  getMemberName: (userId: string) => string;
+  screenshot: string | null;
+  receipt: ParsedReceipt | null; // Read from the screenshot, if anything could be
+  readingScreenshot: boolean;
+  onUploadScreenshot: () => void;
+  onSubmit: (charges: SplitCharges, options: SplitOptions) => void;
+}
+
+const parseAmount = (value: string) => (value ? parseFloat(value) : 0);
+
+// Leader only. Shows what each member would pay under the chosen strategy
+// before the split goes out for approval.
+export default function SplitCalculator({
+  items,
+  getMemberName,
+  screenshot,
+  receipt,
+  readingScreenshot,
+  onUploadScreenshot,
+  onSubmit,
+}: SplitCalculatorProps) {
+  const [totalTax, setTotalTax] = useState('');
+  const [totalFees, setTotalFees] = useState('');
+  const [totalDiscount, setTotalDiscount] = useState('');
+  const [strategy, setStrategy] = useState<SplitStrategyId>('proportional');
+  const [taxPayerId, setTaxPayerId] = useState<string | null>(null);
+  const [couponLines, setCouponLines] = useState<Record<string, number[]>>({});
+  const [customAmounts, setCustomAmounts] = useState<Record<string, string>>({});
+
+  const charges: SplitCharges = {
+    tax: parseAmount(totalTax),
+    fees: parseAmount(totalFees),
+    discount: parseAmount(totalDiscount),
+  };
+  const chargesValid = Object.values(charges).every(amount => !isNaN(amount) && amount >= 0);
+
+  const options: SplitOptions = { strategy };
+  if (strategy === 'single_tax_payer' && taxPayerId) options.taxPayerId = taxPayerId;
+  if (strategy === 'coupon_items') options.couponLines = couponLines;
+  if (strategy === 'custom') {
+    options.customAmounts = Object.fromEntries(
+      Object.entries(customAmounts).map(([userId, amount]) => [userId, parseFloat(amount)])
+    );
+  }
+
+  let preview: OrderSplit[] = [];
+  let previewError: string | null = null;
+  if (!chargesValid) {
+    previewError = 'Amounts must be zero or more';
+  } else if (items.length > 0) {
+    try {
+      preview = SplitPreview.preview(items, charges, options);
+    } catch (error) {
+      previewError = error instanceof Error ? error.message : 'This split doesn\'t work out';
+    }
+  }
+
+  const check = screenshot && !readingScreenshot && chargesValid
+    ? ScreenshotVerifier.check(receipt, items, charges)
+    : null;
+  const hasReadCharges = !!receipt && [receipt.tax, receipt.fees, receipt.discount].some(amount => amount !== undefined);
+
+  const useReadCharges = () => {
+    if (!receipt) return;
+    setTotalTax(receipt.tax !== undefined ? String(receipt.tax) : '');
+    setTotalFees(receipt.fees !== undefined ? String(receipt.fees) : '');
+    setTotalDiscount(receipt.discount !== undefined ? String(receipt.discount) : '');
+  };
+
+  const toggleCouponLine = (userId: string, index: number) => {
+    setCouponLines(current => {
+      const selected = current[userId] || [];
+      return {
+        ...current,
+        [userId]: selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index],
+      };
+    });
+  };
+
+  const renderOptions = () => {
+    switch (strategy) {
+      case 'single_tax_payer':
+        return (
+          <View style={styles.chips}>
+            {items.map(item => (
+              <Chip
+                key={item.userId}
+                selected={taxPayerId === item.userId}
+                onPress={() => setTaxPayerId(item.userId)}
+              >
+                {getMemberName(item.userId)}
+              </Chip>
+            ))}
+          </View>
+        );
+      case 'coupon_items':
+        return items.map(item => (
+          <View key={item.userId}>
+            <Text variant="labelLarge">{getMemberName(item.userId)}</Text>
+            {CartManager.linesOf(item).map((line, index) => (
+              <Checkbox.Item
+                key={index}
+                label={`${line.quantity}x ${line.name} · ₹${CartManager.totalOf([line])}`}
+                status={(couponLines[item.userId] || []).includes(index) ? 'checked' : 'unchecked'}
+                onPress={() => toggleCouponLine(item.userId, index)}
+                position="leading"
+                labelStyle={styles.checkboxLabel}
+              />
+            ))}
+          </View>
+        ));
+      case 'custom':
+        return items.map(item => (
+          <TextInput
+            key={item.userId}
+            mode="outlined"
+            dense
+            label={`${getMemberName(item.userId)} (MRP ₹${item.itemMRP})`}
+            value={customAmounts[item.userId] || ''}
+            onChangeText={amount => setCustomAmounts(current => ({ ...current, [item.userId]: amount }))}
+            keyboardType="decimal-pad"
+            style={styles.input}
+          />
+        ));
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text variant="titleMedium" style={styles.title}>
+          Calculate Split
+        </Text>
+        <Button
+          mode="outlined"
+          onPress={onUploadScreenshot}
+          icon="camera"
+          loading={readingScreenshot}
+          disabled={readingScreenshot}
+          style={styles.screenshotButton}
+        >
+          {screenshot ? 'Change Screenshot' : 'Upload Screenshot'}
+        </Button>
+        {check && <ScreenshotCheckCard check={check} getMemberName={getMemberName} />}
+        {hasReadCharges && (
+          <Button compact icon="text-recognition" onPress={useReadCharges} style={styles.readButton}>
+            Use Amounts From Screenshot
+          </Button>
+        )}
+        <TextInput
+          mode="outlined"
+          label="Total Tax (₹)"
+          value={totalTax}
+          onChangeText={setTotalTax}
+          keyboardType="decimal-pad"
+          style={styles.input}
+        />
+        <TextInput
+          mode="outlined"
+          label="Delivery & Handling Fees (₹)"
+          value={totalFees}
+          onChangeText={setTotalFees}
+          keyboardType="decimal-pad"
+          style={styles.input}
+        />
+        <TextInput
+          mode="outlined"
+          label="Total Discount (₹)"
+          value={totalDiscount}
+          onChangeText={setTotalDiscount}
+          keyboardType="decimal-pad"
+          style={styles.input}
+        />
+
+        <Text variant="titleSmall" style={styles.label}>Split method</Text>
+        <View style={styles.chips}>
+          {SPLIT_STRATEGY_IDS.map(id => (
+            <Chip key={id} selected={strategy === id} onPress={() => setStrategy(id)}>
+              {SPLIT_STRATEGY_LABELS[id].title}
+            </Chip>
+          ))}
+        </View>
+        <Text variant="bodySmall" style={styles.description}>
+          {SPLIT_STRATEGY_LABELS[strategy].description}
+        </Text>
+        {renderOptions()}
+
+        {preview.length > 0 && (
+          <DataTable>
+            <DataTable.Header>
+              <DataTable.Title>Member</DataTable.Title>
+              <DataTable.Title numeric>MRP</DataTable.Title>
+              <DataTable.Title numeric>Extras</DataTable.Title>
+              <DataTable.Title numeric>Pays</DataTable.Title>
+            </DataTable.Header>
+            {preview.map(split => (
+              <DataTable.Row key={split.userId}>
+                <DataTable.Cell>{getMemberName(split.userId)}</DataTable.Cell>
+                <DataTable.Cell numeric>₹{split.originalAmount}</DataTable.Cell>
+                <DataTable.Cell numeric>
+                  {`₹${Money.of(split.finalAmount)
+                    .add(Money.of(split.coinDiscount || 0))
+                    .subtract(Money.of(split.originalAmount))
+                    .toRupees()}`}
+                </DataTable.Cell>
+                <DataTable.Cell numeric>₹{split.finalAmount}</DataTable.Cell>
+              </DataTable.Row>
+            ))}
+          </DataTable>
+        )}
+        <HelperText type="error" visible={!!previewError}>
+          {previewError}
+        </HelperText>
+
+        <Button
+          mode="contained"
+          onPress={() => onSubmit(charges, options)}
+          disabled={!screenshot || preview.length === 0 || !!previewError}
+          style={styles.button}
+        >
+          Share Split for Approval
+        </Button>
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: spacing.md,
+  },
+  title: {
+    marginBottom: spacing.md,
+  },
+  screenshotButton: {
+    marginBottom: spacing.sm,
+  },
+  readButton: {
+    alignSelf: 'flex-start',
+    marginBottom: spacing.sm,
+  },
+  label: {
+    marginTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  checkboxLabel: {
+    textAlign: 'left',
+  },
+  input: {
+    marginBottom: spacing.sm,
+  },
+  button: {
+    marginTop: spacing.sm,
+  },
+});
@@ -0,0 +1,291 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Modal, Portal, Text, TextInput, Button, RadioButton, SegmentedButtons, Divider } from 'react-native-paper';
+import { colors, spacing } from '../theme';
+import { useAuth } from '../contexts/AuthContext';
+import { PayoutManager } from '../utils/PayoutManager';
+import { PayoutDestination } from '../types';
+
+interface WithdrawModalProps {
+  visible: boolean;
+  availableBalance: number;
+  onDismiss: () => void;
+  onWithdraw: (destinationId: string, amount: number) => Promise<void>;
+}
+
+export default function WithdrawModal({
+  visible,
+  availableBalance,
+  onDismiss,
+  onWithdraw,
+}: WithdrawModalProps) {
+  const { user } = useAuth();
+  const [destinations, setDestinations] = useState<PayoutDestination[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [amount, setAmount] = useState('');
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [type, setType] = useState<'upi' | 'bank'>('upi');
+  const [vpa, setVpa] = useState('');
+  const [accountNumber, setAccountNumber] = useState('');
+  const [ifsc, setIfsc] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (visible && user) {
+      loadDestinations();
+    }
+  }, [visible, user]);
+
+  const loadDestinations = async () => {
+    if (!user) return;
+
+    try {
+      const list = await PayoutManager.getDestinations(user.uid);
+      setDestinations(list);
+      setShowAddForm(list.length === 0);
+      if (!selectedId && list.length > 0) {
+        setSelectedId(list[0].id);
+      }
+    } catch (error) {
+      console.error('Error loading payout destinations:', error);
+    }
+  };
+
+  const handleAddDestination = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const destination = await PayoutManager.addDestination(type === 'upi'
+        ? { type, vpa }
+        : { type, accountNumber, ifsc });
+      const verified = await PayoutManager.verifyDestination(destination.id);
+
+      setDestinations(current => [...current, verified]);
+      setSelectedId(verified.id);
+      setShowAddForm(false);
+      setVpa('');
+      setAccountNumber('');
+      setIfsc('');
+    } catch (error) {
+      console.error('Error adding payout destination:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add payout destination');
+      await loadDestinations();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (destinationId: string) => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const verified = await PayoutManager.verifyDestination(destinationId);
+      setDestinations(current => current.map(destination =>
+        destination.id === destinationId ? verified : destination
+      ));
+    } catch (error) {
+      console.error('Error verifying payout destination:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to verify payout destination');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    const amountNum = parseFloat(amount);
+    if (!selectedId || isNaN(amountNum) || amountNum <= 0) return;
+
+    try {
+      setLoading(true);
+      await onWithdraw(selectedId, amountNum);
+      setAmount('');
+      onDismiss();
+    } catch (error) {
+      console.error('Error requesting withdrawal:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selected = destinations.find(destination => destination.id === selectedId);
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={styles.modal}
+      >
+        <Text variant="headlineSmall" style={styles.title}>
+          Withdraw
+        </Text>
+        <ScrollView>
+          <Text variant="bodyMedium" style={styles.available}>
+            Available to withdraw: ₹{availableBalance.toFixed(2)}
+          </Text>
+
+          {destinations.length > 0 && (
+            <RadioButton.Group onValueChange={setSelectedId} value={selectedId}>
+              {destinations.map(destination => (
+                <View key={destination.id} style={styles.destinationRow}>
+                  <RadioButton.Item
+                    label={destination.type === 'upi'
+                      ? `UPI · ${destination.vpa}`
+                      : `Bank · ${destination.maskedAccountNumber} · ${destination.ifsc}`}
+                    value={destination.id}
+                    style={styles.destinationItem}
+                  />
+                  {!destination.verified && (
+                    <Button
+                      mode="text"
+                      onPress={() => handleVerify(destination.id)}
+                      disabled={loading}
+                    >
+                      Verify
+                    </Button>
+                  )}
+                </View>
+              ))}
+            </RadioButton.Group>
+          )}
+
+          {showAddForm ? (
+            <View style={styles.addForm}>
+              <SegmentedButtons
+                value={type}
+                onValueChange={value => setType(value as 'upi' | 'bank')}
+                buttons={[
+                  { value: 'upi', label: 'UPI' },
+                  { value: 'bank', label: 'Bank Account' },
+                ]}
+                style={styles.input}
+              />
+              {type === 'upi' ? (
+                <TextInput
+                  mode="outlined"
+                  label="UPI ID"
+                  value={vpa}
+                  onChangeText={setVpa}
+                  autoCapitalize="none"
+                  style={styles.input}
+                />
+              ) : (
+                <>
+                  <TextInput
+                    mode="outlined"
+                    label="Account Number"
+                    value={accountNumber}
+                    onChangeText={setAccountNumber}
+                    keyboardType="number-pad"
+                    style={styles.input}
+                  />
+                  <TextInput
+                    mode="outlined"
+                    label="IFSC"
+                    value={ifsc}
+                    onChangeText={setIfsc}
+                    autoCapitalize="characters"
+                    style={styles.input}
+                  />
+                </>
+              )}
+              <Button
+                mode="contained-tonal"
+                onPress={handleAddDestination}
+                loading={loading}
+                disabled={loading || (type === 'upi' ? !vpa : !accountNumber || !ifsc)}
+                style={styles.input}
+              >
+                Add & Verify
+              </Button>
+            </View>
+          ) : (
+            <Button
+              mode="text"
+              icon="plus"
+              onPress={() => setShowAddForm(true)}
+              style={styles.input}
+            >
+              Add UPI ID or Bank Account
+            </Button>
+          )}
+
+          <Divider style={styles.divider} />
+
+          <TextInput
+            mode="outlined"
+            label="Amount"
+            value={amount}
+            onChangeText={setAmount}
+            keyboardType="number-pad"
+            left={<TextInput.Affix text="₹" />}
+            style={styles.input}
+          />
+        </ScrollView>
+        <View style={styles.buttons}>
+          <Button
+            mode="outlined"
+            onPress={onDismiss}
+            style={styles.button}
+            disabled={loading}
+          >
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleWithdraw}
+            style={styles.button}
+            loading={loading}
+            disabled={loading || !amount || !selected?.verified}
+          >
+            Withdraw
+          </Button>
+        </View>
+      </Modal>
+    </Portal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    backgroundColor: colors.surface,
+    padding: spacing.lg,
+    margin: spacing.lg,
+    borderRadius: 8,
+    maxHeight: '85%',
+  },
+  title: {
+    marginBottom: spacing.md,
+  },
+  available: {
+    marginBottom: spacing.md,
+    color: colors.primary,
+  },
+  destinationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  destinationItem: {
+    flex: 1,
+    paddingHorizontal: 0,
+  },
+  addForm: {
+    marginTop: spacing.sm,
+  },
+  divider: {
+    marginVertical: spacing.md,
+  },
+  input: {
+    marginBottom: spacing.md,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+  },
+  button: {
+    minWidth: 100,
+  },
+});
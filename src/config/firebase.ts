@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
 import { getAnalytics, isSupported } from 'firebase/analytics';
 import {
   FIREBASE_API_KEY,
@@ -10,9 +11,13 @@ import {
   FIREBASE_MESSAGING_SENDER_ID,
   FIREBASE_APP_ID,
   FIREBASE_MEASUREMENT_ID,
+  FIREBASE_EMULATOR_HOST,
 } from '@env';
 
-const firebaseConfig = {
+// Must match the region the Cloud Functions are deployed to
+const FUNCTIONS_REGION = 'asia-south1';
+
+export const firebaseConfig = {
   apiKey: FIREBASE_API_KEY,
   authDomain: FIREBASE_AUTH_DOMAIN,
   projectId: FIREBASE_PROJECT_ID,
@@ -33,9 +38,17 @@ isSupported().then(supported => {
   }
 }).catch(console.error);
 
-// Get Auth and Firestore instances
+// Get Auth, Firestore and Functions instances
 export const auth = getAuth(app);
 export const db = getFirestore(app);
+export const functions = getFunctions(app, FUNCTIONS_REGION);
 export { analytics };
 
+// Point everything at the local emulator suite (`firebase emulators:start`)
+if (FIREBASE_EMULATOR_HOST) {
+  connectAuthEmulator(auth, `http://${FIREBASE_EMULATOR_HOST}:9099`, { disableWarnings: true });
+  connectFirestoreEmulator(db, FIREBASE_EMULATOR_HOST, 8080);
+  connectFunctionsEmulator(functions, FIREBASE_EMULATOR_HOST, 5001);
+}
+
 export default app; 
\ No newline at end of file
@@ -0,0 +1,29 @@
+import type { MaterialCommunityIcons } from '@expo/vector-icons';
+import { Group } from '../types';
+
+export type PlatformId = 'blinkit' | 'instamart' | 'swiggymart' | 'other';
+
+export interface Platform {
+  id: PlatformId;
+  name: string;
+  icon: keyof typeof MaterialCommunityIcons.glyphMap;
+  color: string;
+  // Basket value for free delivery in ₹, null when the leader sets the target
+  freeDeliveryThreshold: number | null;
+}
+
+// Thresholds change with the platforms' offers; keep them in step with
+// functions/src/platforms.ts
+export const PLATFORMS: Platform[] = [
+  { id: 'blinkit', name: 'Blinkit', icon: 'lightning-bolt', color: '#F8CB46', freeDeliveryThreshold: 199 },
+  { id: 'instamart', name: 'Instamart', icon: 'cart', color: '#FC8019', freeDeliveryThreshold: 199 },
+  { id: 'swiggymart', name: 'Swiggymart', icon: 'storefront', color: '#E23744', freeDeliveryThreshold: 149 },
+  { id: 'other', name: 'Other', icon: 'shopping', color: '#636E72', freeDeliveryThreshold: null },
+];
+
+export const getPlatform = (id?: string): Platform =>
+  PLATFORMS.find(platform => platform.id === id) || PLATFORMS[PLATFORMS.length - 1];
+
+// How much more the group needs in carts to reach its target
+export const amountLeft = (group: Group): number =>
+  Math.max(0, group.targetAmount - (group.committedAmount || 0));
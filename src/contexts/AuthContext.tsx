@@ -1,33 +1,37 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { auth, db } from '../config/firebase';
-import {
-  PhoneAuthProvider,
-  signInWithCredential,
-  User,
-  onAuthStateChanged,
-  signInWithCustomToken,
-  signInWithEmailAndPassword,
-  createUserWithEmailAndPassword
-} from 'firebase/auth';
-import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
-import Constants from 'expo-constants';
+import { User, onAuthStateChanged } from 'firebase/auth';
+import { doc, getDoc, setDoc, updateDoc, onSnapshot, serverTimestamp } from 'firebase/firestore';
+import { PhoneAuth } from '../utils/PhoneAuth';
+import { ProfileManager, OnboardingInput, TERMS_VERSION } from '../utils/ProfileManager';
 
 interface AuthContextType {
   user: User | null;
+  profile: UserProfile | null;
   loading: boolean;
+  // False until the user has finished onboarding for the current terms
+  onboarded: boolean;
   sendOTP: (phoneNumber: string) => Promise<string>;
   verifyOTP: (verificationId: string, code: string) => Promise<void>;
   signOut: () => Promise<void>;
   updateUserProfile: (data: Partial<UserProfile>) => Promise<void>;
+  completeOnboarding: (input: OnboardingInput) => Promise<void>;
 }
 
 export interface UserProfile {
   phoneNumber: string;
-  name?: string;
-  email?: string;
+  firstName?: string;
+  lastName?: string;
+  name?: string; // `${firstName} ${lastName}`
+  email?: string; // Verified once it matches the auth email
   createdAt: Date;
+  termsVersion?: string;
+  termsAcceptedAt?: Date;
+  collateralConsentAt?: Date;
+  onboardingCompletedAt?: Date;
   wallet: {
     balance: number;
+    held?: number; // Collateral held for the groups the user is in
     rewardCoins: number;
   };
   groups: string[];
@@ -35,15 +39,9 @@ export interface UserProfile {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Test verification ID for development
-const TEST_VERIFICATION_ID = 'test-verification-id';
-const TEST_PHONE_NUMBER = '+918080166050';
-const TEST_OTP = '123456';
-const TEST_EMAIL = 'test@gatherpay.com';
-const TEST_PASSWORD = 'Test@123456';
-
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -53,10 +51,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           const userDoc = await getDoc(doc(db, 'users', user.uid));
           if (!userDoc.exists()) {
             await setDoc(doc(db, 'users', user.uid), {
-              phoneNumber: user.phoneNumber || TEST_PHONE_NUMBER,
+              phoneNumber: user.phoneNumber,
               createdAt: serverTimestamp(),
               wallet: {
                 balance: 0,
+                held: 0,
                 rewardCoins: 0,
               },
               groups: [],
@@ -67,19 +66,47 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
       }
       setUser(user);
-      setLoading(false);
+      if (user) {
+        setLoading(true);
+      } else {
+        setProfile(null);
+        setLoading(false);
+      }
     });
 
     return unsubscribe;
   }, []);
 
+  // Stays loading until the profile arrives so the onboarding gate doesn't flash
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'users', user.uid),
+      (snapshot) => {
+        const data = snapshot.data();
+        setProfile(data ? {
+          ...data,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          termsAcceptedAt: data.termsAcceptedAt?.toDate(),
+          collateralConsentAt: data.collateralConsentAt?.toDate(),
+          onboardingCompletedAt: data.onboardingCompletedAt?.toDate(),
+        } as UserProfile : null);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error loading user profile:', error);
+        setLoading(false);
+      }
+    );
+
+    return unsubscribe;
+  }, [user]);
+
+  // Resolves to the verification id the code is confirmed against
   const sendOTP = async (phoneNumber: string) => {
     try {
-      // For test phone number, return test verification ID
-      if (phoneNumber === TEST_PHONE_NUMBER) {
-        return TEST_VERIFICATION_ID;
-      }
-      throw new Error('Only test phone number (+918080166050) is allowed in development mode');
+      return await PhoneAuth.sendCode(phoneNumber);
     } catch (error) {
       console.error('Error sending OTP:', error);
       throw error;
@@ -88,22 +115,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const verifyOTP = async (verificationId: string, code: string) => {
     try {
-      // For test credentials
-      if (verificationId === TEST_VERIFICATION_ID && code === TEST_OTP) {
-        try {
-          // Try to sign in with test credentials
-          await signInWithEmailAndPassword(auth, TEST_EMAIL, TEST_PASSWORD)
-            .catch(async () => {
-              // If test user doesn't exist, create it
-              await createUserWithEmailAndPassword(auth, TEST_EMAIL, TEST_PASSWORD);
-            });
-          return;
-        } catch (error) {
-          console.error('Error with test authentication:', error);
-          throw error;
-        }
-      }
-      throw new Error('Invalid OTP. For testing, use code: 123456');
+      await PhoneAuth.confirmCode(verificationId, code);
     } catch (error) {
       console.error('Error verifying OTP:', error);
       throw error;
@@ -125,15 +137,25 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const completeOnboarding = async (input: OnboardingInput) => {
+    if (!user) throw new Error('No user logged in');
+    await ProfileManager.completeOnboarding(user, input);
+  };
+
   const signOut = () => auth.signOut();
 
+  const onboarded = !!profile?.onboardingCompletedAt && profile.termsVersion === TERMS_VERSION;
+
   const value = {
     user,
+    profile,
     loading,
+    onboarded,
     sendOTP,
     verifyOTP,
     signOut,
     updateUserProfile,
+    completeOnboarding,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -5,35 +5,39 @@ import { useAuth } from './AuthContext';
 import {
   doc,
   collection,
-  addDoc,
-  updateDoc,
-  increment,
-  serverTimestamp,
   query,
   where,
   orderBy,
   limit,
   getDocs,
   getDoc,
-  runTransaction,
 } from 'firebase/firestore';
-import { FIREBASE_TEST_NUMBERS } from '../utils/testData';
+import { CloudFunctions } from '../utils/CloudFunctions';
+import { PaymentHandler } from '../utils/PaymentHandler';
+import { PayoutManager } from '../utils/PayoutManager';
+import { RewardEngine } from '../utils/RewardEngine';
+import { Money } from '@shared/Money';
+import { CoinEntry, PayoutStatus } from '../types';
 
 interface WalletContextType {
   balance: number;
+  availableBalance: number; // Balance not held as group collateral
+  heldBalance: number;
   rewardCoins: number;
+  rewardCoinValue: number; // Rupee value of the coin balance
+  coinEntries: CoinEntry[];
   transactions: Transaction[];
   loading: boolean;
   addMoney: (amount: number, description?: string) => Promise<void>;
-  deductMoney: (amount: number, description: string) => Promise<void>;
-  addRewardCoins: (amount: number) => Promise<void>;
+  redeemCoins: (coins: number) => Promise<void>;
   refreshWallet: () => Promise<void>;
   transferMoney: (toUserId: string, amount: number, description: string) => Promise<void>;
+  withdrawMoney: (destinationId: string, amount: number) => Promise<void>;
 }
 
 export interface Transaction {
   id: string;
-  type: 'credit' | 'debit' | 'transfer_in' | 'transfer_out';
+  type: 'credit' | 'debit' | 'transfer_in' | 'transfer_out' | 'withdrawal';
   amount: number;
   description: string;
   timestamp: Date;
@@ -44,13 +48,16 @@ export interface Transaction {
   orderId?: string;
   status: 'pending' | 'completed' | 'failed';
   failureReason?: string;
+  journalEntryId?: string;
+  payoutId?: string;
+  payoutStatus?: PayoutStatus;
 }
 
 const WalletContext = createContext<WalletContextType | undefined>(undefined);
 
+// Checked again, with the daily limit, by the Cloud Functions
 const MIN_TRANSACTION_AMOUNT = 1;
 const MAX_TRANSACTION_AMOUNT = 10000;
-const MAX_DAILY_TRANSACTION_LIMIT = 50000;
 
 class WalletError extends Error {
   constructor(message: string) {
@@ -59,16 +66,16 @@ class WalletError extends Error {
   }
 }
 
-const isTestUser = (phoneNumber: string | null) => {
-  return FIREBASE_TEST_NUMBERS.some(testUser => testUser.phoneNumber === phoneNumber);
-};
-
 export function WalletProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const [balance, setBalance] = useState(0);
+  const [heldBalance, setHeldBalance] = useState(0);
   const [rewardCoins, setRewardCoins] = useState(0);
+  const [coinEntries, setCoinEntries] = useState<CoinEntry[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
+  const available = Money.of(balance).subtract(Money.of(heldBalance)).max(Money.ZERO);
+  const availableBalance = available.toRupees();
 
   useEffect(() => {
     if (user) {
@@ -80,6 +87,9 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
     if (isNaN(amount) || amount <= 0) {
       throw new Error('Invalid transaction amount');
     }
+    if (!Money.isExact(amount)) {
+      throw new Error('Amount can\'t have more than two decimal places');
+    }
     if (amount < MIN_TRANSACTION_AMOUNT) {
       throw new Error(`Minimum transaction amount is ₹${MIN_TRANSACTION_AMOUNT}`);
     }
@@ -88,40 +98,27 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const checkDailyLimit = async (userId: string, amount: number) => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const transactionsRef = collection(db, 'transactions');
-    const q = query(
-      transactionsRef,
-      where('userId', '==', userId),
-      where('timestamp', '>=', today),
-      where('type', 'in', ['credit', 'debit', 'transfer_out'])
-    );
-
-    const querySnapshot = await getDocs(q);
-    const dailyTotal = querySnapshot.docs.reduce((sum, doc) => {
-      const data = doc.data();
-      return sum + (data.amount || 0);
-    }, 0);
-
-    if (dailyTotal + amount > MAX_DAILY_TRANSACTION_LIMIT) {
-      throw new Error(`Daily transaction limit of ₹${MAX_DAILY_TRANSACTION_LIMIT} exceeded`);
-    }
-  };
-
   const refreshWallet = async () => {
     if (!user) return;
 
     try {
       setLoading(true);
+
+      // Lapse expired coins before showing the balance. The balance is
+      // still worth showing if this fails; the next refresh tries again.
+      try {
+        await RewardEngine.sync();
+      } catch (error) {
+        console.error('Error syncing reward coins:', error);
+      }
+
       const userDocRef = doc(db, 'users', user.uid);
       const userDocSnap = await getDoc(userDocRef);
       
       if (userDocSnap.exists()) {
         const userData = userDocSnap.data();
         setBalance(userData.wallet.balance);
+        setHeldBalance(userData.wallet.held || 0);
         setRewardCoins(userData.wallet.rewardCoins);
       }
 
@@ -145,6 +142,7 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
       });
 
       setTransactions(transactionList);
+      setCoinEntries(await RewardEngine.getEntries(user.uid));
     } catch (error) {
       console.error('Error refreshing wallet:', error);
       Alert.alert('Error', 'Failed to refresh wallet data');
@@ -158,51 +156,19 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
 
     try {
       validateTransactionAmount(amount);
-      await checkDailyLimit(user.uid, amount);
-
-      // Skip payment gateway for test users
-      const isTestAccount = isTestUser(user.phoneNumber);
-      if (!isTestAccount) {
-        // TODO: Integrate actual payment gateway
-        throw new WalletError('Direct wallet funding is only available for test users');
-      }
 
-      await runTransaction(db, async (transaction) => {
-        // Create pending transaction first
-        const transactionRef = doc(collection(db, 'transactions'));
-        transaction.set(transactionRef, {
-          type: 'credit',
-          amount,
-          description: isTestAccount ? `${description} (Test User)` : description,
-          timestamp: serverTimestamp(),
-          userId: user.uid,
-          status: 'pending',
-          isTestTransaction: isTestAccount
-        });
-
-        try {
-          // Update wallet balance
-          const userRef = doc(db, 'users', user.uid);
-          transaction.update(userRef, {
-            'wallet.balance': increment(amount)
-          });
-
-          // Update transaction status to completed
-          transaction.update(transactionRef, {
-            status: 'completed'
-          });
-        } catch (err) {
-          const error = err as Error;
-          transaction.update(transactionRef, {
-            status: 'failed',
-            failureReason: error.message || 'Unknown error occurred'
-          });
-          throw new WalletError(error.message || 'Failed to process transaction');
-        }
+      const result = await PaymentHandler.topUp(amount, description, {
+        contact: user.phoneNumber || undefined,
+        email: user.email || undefined,
       });
+      if (!result.success) {
+        throw new WalletError(result.error || 'Payment failed');
+      }
 
       await refreshWallet();
-      Alert.alert('Success', `₹${amount} added to your wallet`);
+      Alert.alert('Success', result.pending
+        ? `₹${Money.of(amount)} will be added once the payment is confirmed`
+        : `₹${Money.of(amount)} added to your wallet`);
     } catch (err) {
       const error = err as Error;
       console.error('Error adding money:', error);
@@ -211,170 +177,81 @@ export function WalletProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const deductMoney = async (amount: number, description: string) => {
+  const transferMoney = async (toUserId: string, amount: number, description: string) => {
     if (!user) throw new WalletError('No user logged in');
-    
+    if (user.uid === toUserId) throw new WalletError('Cannot transfer money to yourself');
+
     try {
       validateTransactionAmount(amount);
-      if (balance < amount) {
-        throw new WalletError('Insufficient balance');
+      if (available.lessThan(Money.of(amount))) {
+        throw new WalletError('Insufficient available balance');
       }
 
-      await runTransaction(db, async (transaction) => {
-        // Create pending transaction first
-        const transactionRef = doc(collection(db, 'transactions'));
-        transaction.set(transactionRef, {
-          type: 'debit',
-          amount,
-          description,
-          timestamp: serverTimestamp(),
-          userId: user.uid,
-          status: 'pending'
-        });
-
-        try {
-          // Update wallet balance
-          const userRef = doc(db, 'users', user.uid);
-          transaction.update(userRef, {
-            'wallet.balance': increment(-amount)
-          });
-
-          // Update transaction status to completed
-          transaction.update(transactionRef, {
-            status: 'completed'
-          });
-        } catch (err) {
-          // If anything fails, mark transaction as failed
-          const error = err as Error;
-          transaction.update(transactionRef, {
-            status: 'failed',
-            failureReason: error.message || 'Unknown error occurred'
-          });
-          throw new WalletError(error.message || 'Failed to process transaction');
-        }
-      });
+      await CloudFunctions.call('transferMoney', { toUserId, amount, description });
 
       await refreshWallet();
+      Alert.alert('Success', `₹${Money.of(amount)} transferred successfully`);
     } catch (err) {
       const error = err as Error;
-      console.error('Error deducting money:', error);
-      Alert.alert('Error', error.message || 'Failed to deduct money');
-      throw new WalletError(error.message || 'Failed to deduct money');
+      console.error('Error transferring money:', error);
+      Alert.alert('Error', error.message || 'Failed to transfer money');
+      throw new WalletError(error.message || 'Failed to transfer money');
     }
   };
 
-  const transferMoney = async (toUserId: string, amount: number, description: string) => {
+  const withdrawMoney = async (destinationId: string, amount: number) => {
     if (!user) throw new WalletError('No user logged in');
-    if (user.uid === toUserId) throw new WalletError('Cannot transfer money to yourself');
 
     try {
       validateTransactionAmount(amount);
-      await checkDailyLimit(user.uid, amount);
-      if (balance < amount) {
-        throw new WalletError('Insufficient balance');
+      if (available.lessThan(Money.of(amount))) {
+        throw new WalletError('Insufficient available balance');
       }
 
-      await runTransaction(db, async (transaction) => {
-        // Verify recipient exists
-        const recipientRef = doc(db, 'users', toUserId);
-        const recipientDoc = await transaction.get(recipientRef);
-        if (!recipientDoc.exists()) {
-          throw new WalletError('Recipient not found');
-        }
-
-        // Create pending transactions for both users
-        const senderTransactionRef = doc(collection(db, 'transactions'));
-        const recipientTransactionRef = doc(collection(db, 'transactions'));
-
-        // Sender's transaction
-        transaction.set(senderTransactionRef, {
-          type: 'transfer_out',
-          amount,
-          description,
-          timestamp: serverTimestamp(),
-          userId: user.uid,
-          toUserId,
-          status: 'pending'
-        });
-
-        // Recipient's transaction
-        transaction.set(recipientTransactionRef, {
-          type: 'transfer_in',
-          amount,
-          description,
-          timestamp: serverTimestamp(),
-          userId: toUserId,
-          fromUserId: user.uid,
-          status: 'pending'
-        });
-
-        try {
-          // Update both wallets
-          const senderRef = doc(db, 'users', user.uid);
-          transaction.update(senderRef, {
-            'wallet.balance': increment(-amount)
-          });
-
-          transaction.update(recipientRef, {
-            'wallet.balance': increment(amount)
-          });
-
-          // Mark both transactions as completed
-          transaction.update(senderTransactionRef, { status: 'completed' });
-          transaction.update(recipientTransactionRef, { status: 'completed' });
-        } catch (err) {
-          // Mark both transactions as failed
-          const error = err as Error;
-          transaction.update(senderTransactionRef, {
-            status: 'failed',
-            failureReason: error.message || 'Unknown error occurred'
-          });
-          transaction.update(recipientTransactionRef, {
-            status: 'failed',
-            failureReason: error.message || 'Unknown error occurred'
-          });
-          throw new WalletError(error.message || 'Failed to process transaction');
-        }
-      });
+      const payout = await PayoutManager.requestPayout(destinationId, amount);
+      if (payout.status === 'failed') {
+        await refreshWallet();
+        throw new WalletError(payout.failureReason || 'Withdrawal failed');
+      }
 
       await refreshWallet();
-      Alert.alert('Success', `₹${amount} transferred successfully`);
+      Alert.alert('Success', `Withdrawal of ₹${Money.of(amount)} is ${payout.status === 'paid' ? 'complete' : 'being processed'}`);
     } catch (err) {
       const error = err as Error;
-      console.error('Error transferring money:', error);
-      Alert.alert('Error', error.message || 'Failed to transfer money');
-      throw new WalletError(error.message || 'Failed to transfer money');
+      console.error('Error withdrawing money:', error);
+      Alert.alert('Error', error.message || 'Failed to withdraw money');
+      throw new WalletError(error.message || 'Failed to withdraw money');
     }
   };
 
-  const addRewardCoins = async (amount: number) => {
+  const redeemCoins = async (coins: number) => {
     if (!user) throw new WalletError('No user logged in');
 
     try {
-      const userRef = doc(db, 'users', user.uid);
-      await updateDoc(userRef, {
-        'wallet.rewardCoins': increment(amount)
-      });
-
+      await RewardEngine.redeem(coins);
       await refreshWallet();
     } catch (err) {
       const error = err as Error;
-      console.error('Error adding reward coins:', error);
-      Alert.alert('Error', 'Failed to add reward coins');
-      throw new WalletError(error.message || 'Failed to add reward coins');
+      console.error('Error redeeming reward coins:', error);
+      Alert.alert('Error', error.message || 'Failed to redeem reward coins');
+      throw new WalletError(error.message || 'Failed to redeem reward coins');
     }
   };
 
   const value = {
     balance,
+    availableBalance,
+    heldBalance,
     rewardCoins,
+    rewardCoinValue: RewardEngine.coinsToRupees(rewardCoins),
+    coinEntries,
     transactions,
     loading,
     addMoney,
-    deductMoney,
-    addRewardCoins,
+    redeemCoins,
     refreshWallet,
     transferMoney,
+    withdrawMoney,
   };
 
   return <WalletContext.Provider value={value}>{children}</WalletContext.Provider>;
@@ -6,6 +6,7 @@ import GroupDetailsScreen from '../screens/main/GroupDetailsScreen';
 import WalletScreen from '../screens/main/WalletScreen';
 import ProfileScreen from '../screens/main/ProfileScreen';
 import LocationPrivacyScreen from '../screens/main/LocationPrivacyScreen';
+import JoinInviteScreen from '../screens/main/JoinInviteScreen';
 
 export type MainStackParamList = {
   Home: undefined;
@@ -14,6 +15,7 @@ export type MainStackParamList = {
   Wallet: undefined;
   Profile: undefined;
   LocationPrivacy: undefined;
+  JoinInvite: { groupId: string; code: string };
 };
 
 const Stack = createNativeStackNavigator<MainStackParamList>();
@@ -55,6 +57,11 @@ export default function MainNavigator() {
         component={LocationPrivacyScreen}
         options={{ title: 'Location Privacy' }}
       />
+      <Stack.Screen 
+        name="JoinInvite" 
+        component={JoinInviteScreen}
+        options={{ title: 'Group Invite' }}
+      />
     </Stack.Navigator>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,28 @@
+import React from 'react';
+import { createNativeStackNavigator } from '@react-navigation/native-stack';
+import NameScreen from '../screens/onboarding/NameScreen';
+import EmailScreen from '../screens/onboarding/EmailScreen';
+import TermsScreen from '../screens/onboarding/TermsScreen';
+
+// Details are carried between steps and saved together on the last one
+export type OnboardingStackParamList = {
+  OnboardingName: undefined;
+  OnboardingEmail: { firstName: string; lastName: string };
+  OnboardingTerms: { firstName: string; lastName: string; email: string };
+};
+
+const Stack = createNativeStackNavigator<OnboardingStackParamList>();
+
+export default function OnboardingNavigator() {
+  return (
+    <Stack.Navigator
+      screenOptions={{
+        headerShown: false,
+      }}
+    >
+      <Stack.Screen name="OnboardingName" component={NameScreen} />
+      <Stack.Screen name="OnboardingEmail" component={EmailScreen} />
+      <Stack.Screen name="OnboardingTerms" component={TermsScreen} />
+    </Stack.Navigator>
+  );
+}
@@ -5,7 +5,9 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAuth } from '../../contexts/AuthContext';
 import { AuthStackParamList } from '../../navigation/AuthNavigator';
 import { colors, spacing } from '../../theme';
-import { FIREBASE_TEST_NUMBERS } from '../../utils/testData';
+import { FIREBASE_TEST_NUMBERS, TEST_OTP } from '../../utils/testData';
+import { PhoneAuth } from '../../utils/PhoneAuth';
+import RecaptchaVerifier from '../../components/RecaptchaVerifier';
 
 declare const process: {
   env: {
@@ -20,9 +22,8 @@ type LoginScreenProps = {
 };
 
 export default function LoginScreen({ navigation }: LoginScreenProps) {
-  const [phoneNumber, setPhoneNumber] = useState('8080166050');
+  const [phoneNumber, setPhoneNumber] = useState('');
   const [loading, setLoading] = useState(false);
-  const [showTestUsers, setShowTestUsers] = useState(false);
   const { sendOTP } = useAuth();
 
   const handleSendOTP = async (testPhoneNumber?: string) => {
@@ -96,15 +97,16 @@ export default function LoginScreen({ navigation }: LoginScreenProps) {
           Send OTP
         </Button>
 
-        <Text variant="bodySmall" style={styles.testNote}>
-          For testing, use phone: 8080166050 and OTP: 123456
-        </Text>
-
-        {showTestUsers && (
+        {isDevelopment && (
           <View style={styles.testUsersContainer}>
             <Text variant="titleMedium" style={styles.testUsersTitle}>
               Test Users
             </Text>
+            <Text variant="bodySmall" style={styles.testNote}>
+              {PhoneAuth.isEmulator()
+                ? 'Codes are filled in from the Auth emulator'
+                : `Test numbers skip SMS and use OTP ${TEST_OTP}`}
+            </Text>
             {FIREBASE_TEST_NUMBERS.map((user) => (
               <List.Item
                 key={user.phoneNumber}
@@ -117,6 +119,7 @@ export default function LoginScreen({ navigation }: LoginScreenProps) {
           </View>
         )}
       </View>
+      <RecaptchaVerifier />
     </ScrollView>
   );
 }
@@ -146,8 +149,7 @@ const styles = StyleSheet.create({
     marginTop: spacing.md,
   },
   testNote: {
-    textAlign: 'center',
-    marginTop: spacing.md,
+    marginBottom: spacing.sm,
     color: colors.disabled,
   },
   testUsersContainer: {
@@ -6,8 +6,9 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import { AuthStackParamList } from '../../navigation/AuthNavigator';
 import { colors, spacing } from '../../theme';
-import { FIREBASE_TEST_NUMBERS, TEST_OTP } from '../../utils/testData';
+import { FIREBASE_TEST_NUMBERS } from '../../utils/testData';
 import { errorHandler } from '../../utils/ErrorHandler';
+import { PhoneAuth } from '../../utils/PhoneAuth';
 
 type OTPVerificationScreenProps = {
   navigation: NativeStackNavigationProp<AuthStackParamList, 'OTPVerification'>;
@@ -35,16 +36,26 @@ export default function OTPVerificationScreen({
   const { verifyOTP, sendOTP } = useAuth();
   const { phoneNumber } = route.params;
 
+  // The Auth emulator hands out the codes it would have texted; console
+  // test numbers have a fixed code
+  const fillTestCode = async () => {
+    try {
+      const code = PhoneAuth.isEmulator()
+        ? await PhoneAuth.getEmulatorCode(currentVerificationId)
+        : FIREBASE_TEST_NUMBERS.find((user) => user.phoneNumber === phoneNumber)?.code;
+      if (code) {
+        setOtp(code);
+      }
+    } catch (error: any) {
+      errorHandler.handleError(error, 'OTPVerification');
+    }
+  };
+
   useEffect(() => {
     if (isDevelopment) {
-      const testUser = FIREBASE_TEST_NUMBERS.find(
-        (user) => user.phoneNumber === phoneNumber
-      );
-      if (testUser) {
-        setOtp(testUser.code);
-      }
+      fillTestCode();
     }
-  }, [phoneNumber]);
+  }, [phoneNumber, currentVerificationId]);
 
   useEffect(() => {
     if (timer > 0) {
@@ -166,7 +177,7 @@ export default function OTPVerificationScreen({
           {isDevelopment && (
             <Button
               mode="outlined"
-              onPress={() => setOtp(TEST_OTP)}
+              onPress={fillTestCode}
               style={styles.testButton}
               disabled={loading}
             >
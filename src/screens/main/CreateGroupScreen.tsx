@@ -1,31 +1,47 @@
 import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { View, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
 import { TextInput, Button, Text, ActivityIndicator, IconButton } from 'react-native-paper';
 import { useAuth } from '../../contexts/AuthContext';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MainStackParamList } from '../../navigation/MainNavigator';
 import { colors, spacing, elevation } from '../../theme';
 import * as Location from 'expo-location';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../../config/firebase';
+import { useWallet } from '../../contexts/WalletContext';
+import { GroupManager, GROUP_COLLATERAL_AMOUNT } from '../../utils/GroupManager';
 import { LinearGradient } from 'expo-linear-gradient';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { PLATFORMS, PlatformId, getPlatform } from '../../config/platforms';
+import { GroupVisibility } from '../../types';
 
 type CreateGroupScreenProps = {
   navigation: NativeStackNavigationProp<MainStackParamList, 'CreateGroup'>;
 };
 
-type Step = 'name' | 'details' | 'amount' | 'location';
+type Step = 'name' | 'platform' | 'details' | 'amount' | 'visibility' | 'location';
+
+const VISIBILITY_OPTIONS: {
+  id: GroupVisibility;
+  icon: keyof typeof MaterialCommunityIcons.glyphMap;
+  name: string;
+  description: string;
+}[] = [
+  { id: 'public', icon: 'earth', name: 'Public', description: 'Anyone nearby can find and join' },
+  { id: 'approval', icon: 'account-check', name: 'Approval required', description: 'Anyone nearby can find it, you approve who joins' },
+  { id: 'invite_only', icon: 'lock', name: 'Invite only', description: 'Hidden from discovery, joined with your invite links' },
+];
 
 export default function CreateGroupScreen({ navigation }: CreateGroupScreenProps) {
   const [currentStep, setCurrentStep] = useState<Step>('name');
   const [name, setName] = useState('');
+  const [platform, setPlatform] = useState<PlatformId | null>(null);
   const [description, setDescription] = useState('');
   const [targetAmount, setTargetAmount] = useState('');
+  const [visibility, setVisibility] = useState<GroupVisibility>('public');
   const [loading, setLoading] = useState(false);
   const [location, setLocation] = useState<Location.LocationObject | null>(null);
   const [locationError, setLocationError] = useState<string | null>(null);
   const { user } = useAuth();
+  const { availableBalance, refreshWallet } = useWallet();
 
   useEffect(() => {
     checkLocationPermission();
@@ -52,7 +68,7 @@ export default function CreateGroupScreen({ navigation }: CreateGroupScreenProps
   };
 
   const handleCreateGroup = async () => {
-    if (!name || !description || !targetAmount) {
+    if (!name || !platform || !description || !targetAmount) {
       Alert.alert('Error', 'Please fill in all fields');
       return;
     }
@@ -73,30 +89,32 @@ export default function CreateGroupScreen({ navigation }: CreateGroupScreenProps
       return;
     }
 
+    if (availableBalance < GROUP_COLLATERAL_AMOUNT) {
+      Alert.alert(
+        'Insufficient Balance',
+        `Creating a group holds ₹${GROUP_COLLATERAL_AMOUNT} of your wallet balance until the order completes. Please add funds first.`
+      );
+      return;
+    }
+
     try {
       setLoading(true);
 
-      const membersMap = {
-        [user.uid]: true
-      };
-
-      const groupRef = await addDoc(collection(db, 'groups'), {
+      // Creates the group and holds the leader's collateral
+      const groupId = await GroupManager.createGroup({
         name,
         description,
         targetAmount: amount,
-        createdBy: user.uid,
-        createdAt: serverTimestamp(),
-        status: 'open',
-        memberCount: 1,
-        members: membersMap,
+        platform,
+        visibility,
         location: {
           latitude: location.coords.latitude,
           longitude: location.coords.longitude,
         },
-        lastUpdated: serverTimestamp(),
       });
+      await refreshWallet();
 
-      navigation.replace('GroupDetails', { groupId: groupRef.id });
+      navigation.replace('GroupDetails', { groupId });
     } catch (error: any) {
       console.error('Error creating group:', error);
       Alert.alert(
@@ -109,7 +127,7 @@ export default function CreateGroupScreen({ navigation }: CreateGroupScreenProps
   };
 
   const getStepProgress = () => {
-    const steps: Step[] = ['name', 'details', 'amount', 'location'];
+    const steps: Step[] = ['name', 'platform', 'details', 'amount', 'visibility', 'location'];
     return (steps.indexOf(currentStep) + 1) / steps.length * 100;
   };
 
@@ -117,11 +135,15 @@ export default function CreateGroupScreen({ navigation }: CreateGroupScreenProps
     switch (currentStep) {
       case 'name':
         return name.length >= 3;
+      case 'platform':
+        return !!platform;
       case 'details':
         return description.length >= 10;
       case 'amount':
         const amount = parseFloat(targetAmount);
         return !isNaN(amount) && amount > 0;
+      case 'visibility':
+        return true;
       case 'location':
         return !!location;
       default:
@@ -132,12 +154,18 @@ export default function CreateGroupScreen({ navigation }: CreateGroupScreenProps
   const handleNext = () => {
     switch (currentStep) {
       case 'name':
+        setCurrentStep('platform');
+        break;
+      case 'platform':
         setCurrentStep('details');
         break;
       case 'details':
         setCurrentStep('amount');
         break;
       case 'amount':
+        setCurrentStep('visibility');
+        break;
+      case 'visibility':
         setCurrentStep('location');
         break;
       case 'location':
@@ -148,21 +176,38 @@ export default function CreateGroupScreen({ navigation }: CreateGroupScreenProps
 
   const handleBack = () => {
     switch (currentStep) {
-      case 'details':
+      case 'platform':
         setCurrentStep('name');
         break;
+      case 'details':
+        setCurrentStep('platform');
+        break;
       case 'amount':
         setCurrentStep('details');
         break;
-      case 'location':
+      case 'visibility':
         setCurrentStep('amount');
         break;
+      case 'location':
+        setCurrentStep('visibility');
+        break;
       default:
         navigation.goBack();
     }
   };
 
+  // The target starts at the platform's free-delivery minimum
+  const handleSelectPlatform = (id: PlatformId) => {
+    setPlatform(id);
+    const threshold = getPlatform(id).freeDeliveryThreshold;
+    if (threshold) {
+      setTargetAmount(threshold.toString());
+    }
+  };
+
   const renderStep = () => {
+    const selectedPlatform = platform ? getPlatform(platform) : null;
+
     switch (currentStep) {
       case 'name':
         return (
@@ -183,6 +228,39 @@ export default function CreateGroupScreen({ navigation }: CreateGroupScreenProps
           </View>
         );
 
+      case 'platform':
+        return (
+          <View style={styles.stepContainer}>
+            <MaterialCommunityIcons name="truck-delivery" size={48} color={colors.primary} style={styles.stepIcon} />
+            <Text variant="headlineMedium" style={styles.stepTitle}>Choose Platform</Text>
+            <Text variant="bodyMedium" style={styles.stepDescription}>
+              Where will the group order from?
+            </Text>
+            {PLATFORMS.map(option => (
+              <TouchableOpacity
+                key={option.id}
+                onPress={() => handleSelectPlatform(option.id)}
+                style={[styles.platformOption, platform === option.id && styles.platformSelected]}
+              >
+                <View style={[styles.platformIcon, { backgroundColor: option.color }]}>
+                  <MaterialCommunityIcons name={option.icon} size={24} color={colors.background} />
+                </View>
+                <View style={styles.platformInfo}>
+                  <Text style={styles.platformName}>{option.name}</Text>
+                  <Text style={styles.platformThreshold}>
+                    {option.freeDeliveryThreshold
+                      ? `Free delivery above ₹${option.freeDeliveryThreshold}`
+                      : 'Set your own target'}
+                  </Text>
+                </View>
+                {platform === option.id && (
+                  <MaterialCommunityIcons name="check-circle" size={24} color={colors.primary} />
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        );
+
       case 'details':
         return (
           <View style={styles.stepContainer}>
@@ -210,7 +288,9 @@ export default function CreateGroupScreen({ navigation }: CreateGroupScreenProps
             <MaterialCommunityIcons name="currency-inr" size={48} color={colors.primary} style={styles.stepIcon} />
             <Text variant="headlineMedium" style={styles.stepTitle}>Set Target Amount</Text>
             <Text variant="bodyMedium" style={styles.stepDescription}>
-              Set the expected total amount for this group order
+              {selectedPlatform?.freeDeliveryThreshold
+                ? `${selectedPlatform.name} delivers free above ₹${selectedPlatform.freeDeliveryThreshold}. Raise the target for a bigger order.`
+                : 'Set the expected total amount for this group order'}
             </Text>
             <TextInput
               mode="outlined"
@@ -224,13 +304,44 @@ export default function CreateGroupScreen({ navigation }: CreateGroupScreenProps
           </View>
         );
 
+      case 'visibility':
+        return (
+          <View style={styles.stepContainer}>
+            <MaterialCommunityIcons name="shield-account" size={48} color={colors.primary} style={styles.stepIcon} />
+            <Text variant="headlineMedium" style={styles.stepTitle}>Who Can Join?</Text>
+            <Text variant="bodyMedium" style={styles.stepDescription}>
+              You can share invite links and QR codes from the group in any mode
+            </Text>
+            {VISIBILITY_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.id}
+                onPress={() => setVisibility(option.id)}
+                style={[styles.platformOption, visibility === option.id && styles.platformSelected]}
+              >
+                <View style={[styles.platformIcon, { backgroundColor: colors.primary }]}>
+                  <MaterialCommunityIcons name={option.icon} size={24} color={colors.background} />
+                </View>
+                <View style={styles.platformInfo}>
+                  <Text style={styles.platformName}>{option.name}</Text>
+                  <Text style={styles.platformThreshold}>{option.description}</Text>
+                </View>
+                {visibility === option.id && (
+                  <MaterialCommunityIcons name="check-circle" size={24} color={colors.primary} />
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        );
+
       case 'location':
         return (
           <View style={styles.stepContainer}>
             <MaterialCommunityIcons name="map-marker" size={48} color={colors.primary} style={styles.stepIcon} />
             <Text variant="headlineMedium" style={styles.stepTitle}>Confirm Location</Text>
             <Text variant="bodyMedium" style={styles.stepDescription}>
-              Your group will be visible to users within 5km of your current location
+              {visibility === 'invite_only'
+                ? 'Your group will be hidden from discovery; share an invite to bring members in'
+                : 'Your group will be visible to users within 5km of your current location'}
             </Text>
             {locationError ? (
               <>
@@ -358,6 +469,41 @@ const styles = StyleSheet.create({
   retryButton: {
     marginTop: spacing.md,
   },
+  platformOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: colors.surfaceVariant,
+    backgroundColor: colors.surface,
+  },
+  platformSelected: {
+    borderColor: colors.primary,
+  },
+  platformIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  platformInfo: {
+    flex: 1,
+    marginLeft: spacing.md,
+  },
+  platformName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  platformThreshold: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
   locationConfirmed: {
     alignItems: 'center',
     marginTop: spacing.xl,
@@ -1,26 +1,41 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { View, StyleSheet, ScrollView, Alert, TouchableOpacity, Animated, LayoutAnimation, Platform, UIManager, Easing } from 'react-native';
-import { Text, Button, Divider, Portal, Modal, List, ActivityIndicator, IconButton } from 'react-native-paper';
+import { Text, Button, Divider, Portal, Modal, List, ActivityIndicator, IconButton, ProgressBar } from 'react-native-paper';
 import { useAuth } from '../../contexts/AuthContext';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import { MainStackParamList } from '../../navigation/MainNavigator';
 import { colors, spacing, elevation } from '../../theme';
-import { doc, getDoc, updateDoc, collection, addDoc, onSnapshot, deleteDoc, arrayUnion, arrayRemove, serverTimestamp, query, orderBy, getDocs, writeBatch, increment } from 'firebase/firestore';
+import { doc, getDoc, updateDoc, collection, addDoc, onSnapshot, arrayUnion, arrayRemove, serverTimestamp, query, orderBy, getDocs, writeBatch, increment } from 'firebase/firestore';
 import { db } from '../../config/firebase';
-import { GiftedChat, IMessage, Bubble, Send } from 'react-native-gifted-chat';
+import { GiftedChat, IMessage, Bubble, Send, SystemMessage } from 'react-native-gifted-chat';
 import { useWallet } from '../../contexts/WalletContext';
+import { GroupManager, GROUP_COLLATERAL_AMOUNT } from '../../utils/GroupManager';
 import * as ImagePicker from 'expo-image-picker';
-import { getStorage, ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
 import * as Location from 'expo-location';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Card } from '../../components/ui/Card';
 import { StatusBadge } from '../../components/ui/StatusBadge';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { AnimatedNumber } from '../../components/ui/AnimatedNumber';
+import OrderDetailsModal from '../../components/OrderDetailsModal';
+import DeadlineCountdown from '../../components/DeadlineCountdown';
+import GroupMembersModal from '../../components/GroupMembersModal';
+import LeaderPollCard from '../../components/LeaderPollCard';
+import GroupInviteModal from '../../components/GroupInviteModal';
+import JoinRequestList from '../../components/JoinRequestList';
+import GroupMap from '../../components/GroupMap';
+import { locationPrivacyManager } from '../../utils/LocationPrivacyManager';
+import AddOrderItemModal from '../../components/AddOrderItemModal';
+import { OrderProcessor } from '../../utils/OrderProcessor';
+import { GroupLifecycle } from '../../utils/GroupLifecycle';
+import { GroupAccess } from '../../utils/GroupAccess';
+import { CartManager } from '../../utils/CartManager';
+import { ScreenshotReader } from '../../utils/ScreenshotReader';
+import { MediaUploader, UploadedScreenshot } from '../../utils/MediaUploader';
+import { Group, Order, Escrow, CartEntry, CartLine, JoinRequest, ParsedReceipt, SplitCharges, SplitOptions } from '../../types';
 
 const MAX_GROUP_MEMBERS = 10;
-const LEADER_REWARD_PERCENTAGE = 5; // 5% of order amount as reward
 const MAX_GROUPS_PER_USER = 5;
 
 type GroupDetailsScreenProps = {
@@ -34,42 +49,8 @@ interface GroupMember {
   name?: string;
 }
 
-interface OrderItem {
-  userId: string;
-  items: string;
-  amount: number;
-  paid: boolean;
-}
-
-interface Order {
-  id: string;
-  groupId: string;
-  leaderId: string;
-  totalAmount: number;
-  items: OrderItem[];
-  screenshot: string;
-  status: 'pending' | 'confirmed' | 'completed';
-  createdAt: Date;
-}
-
-interface Group {
-  id: string;
-  name: string;
-  description: string;
-  targetAmount: number;
-  memberCount: number;
-  status: 'open' | 'ordering' | 'ordered' | 'completed' | 'cancelled';
-  createdBy: string;
-  members: { [key: string]: boolean };
-  location: {
-    latitude: number;
-    longitude: number;
-    lastUpdated?: Date;
-  };
-  lastUpdated: Date;
-  currentOrder?: Order;
-  previousOrders?: Order[];
-}
+// System messages can carry a leader poll, rendered in place of the text
+type ChatMessage = IMessage & { pollId?: string };
 
 // Enable LayoutAnimation for Android
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -82,18 +63,25 @@ export default function GroupDetailsScreen({
 }: GroupDetailsScreenProps) {
   const [group, setGroup] = useState<Group | null>(null);
   const [members, setMembers] = useState<GroupMember[]>([]);
-  const [messages, setMessages] = useState<IMessage[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(true);
   const [isLeader, setIsLeader] = useState(false);
   const [showOrderModal, setShowOrderModal] = useState(false);
   const [showMembersModal, setShowMembersModal] = useState(false);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [myRequest, setMyRequest] = useState<JoinRequest | null>(null);
+  const [showMapModal, setShowMapModal] = useState(false);
   const [memberLoading, setMemberLoading] = useState(false);
+  const [showAddItemModal, setShowAddItemModal] = useState(false);
   const [order, setOrder] = useState<Order | null>(null);
-  const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
-  const [screenshot, setScreenshot] = useState<string | null>(null);
+  const [escrow, setEscrow] = useState<Escrow | null>(null);
+  const [cart, setCart] = useState<CartEntry | null>(null);
+  const [screenshot, setScreenshot] = useState<UploadedScreenshot | null>(null);
+  const [receipt, setReceipt] = useState<ParsedReceipt | null>(null);
+  const [readingScreenshot, setReadingScreenshot] = useState(false);
   const { user } = useAuth();
   const { groupId } = route.params;
-  const { balance, deductMoney, addRewardCoins } = useWallet();
+  const { availableBalance, rewardCoins, refreshWallet } = useWallet();
   const [userLocation, setUserLocation] = useState<Location.LocationObject | null>(null);
   const [showChat, setShowChat] = useState(true);
   const [showActions, setShowActions] = useState(true);
@@ -109,7 +97,6 @@ export default function GroupDetailsScreen({
 
   useEffect(() => {
     const unsubscribe = subscribeToGroup();
-    const unsubscribeMessages = subscribeToMessages();
     const getLocation = async () => {
       try {
         const { status } = await Location.requestForegroundPermissionsAsync();
@@ -128,25 +115,111 @@ export default function GroupDetailsScreen({
     };
 
     getLocation();
-    return () => {
-      unsubscribe();
-      unsubscribeMessages();
-    };
+    return unsubscribe;
   }, [groupId]);
 
+  const isMember = !!user && !!group?.members[user.uid];
+
+  // The chat, order and escrow can only be read by members, so these
+  // listeners start when the user joins and stop when they leave
+  useEffect(() => {
+    if (!isMember) {
+      setMessages([]);
+      return;
+    }
+
+    return subscribeToMessages();
+  }, [groupId, isMember]);
+
+  useEffect(() => {
+    const orderId = group?.currentOrder?.id;
+    if (!orderId || !isMember) {
+      setOrder(null);
+      return;
+    }
+
+    return onSnapshot(doc(db, 'orders', orderId), (snapshot) => {
+      if (snapshot.exists()) {
+        const orderData = snapshot.data();
+        setOrder({
+          id: snapshot.id,
+          ...orderData,
+          createdAt: orderData.createdAt?.toDate() || new Date(),
+        } as Order);
+      } else {
+        setOrder(null);
+      }
+    }, (error) => {
+      console.error('Error loading order:', error);
+      setOrder(null);
+    });
+  }, [group?.currentOrder?.id, isMember]);
+
+  // Carts can only be read by members
+  useEffect(() => {
+    if (!user || !isMember) {
+      setCart(null);
+      return;
+    }
+
+    return CartManager.subscribe(groupId, user.uid, setCart);
+  }, [groupId, user, isMember]);
+
+  // What the item editor opens with: the cart while the group gathers, then
+  // the member's order item until the split locks it
+  const myItems = group?.status === 'open'
+    ? cart
+    : order?.status === 'pending' && user ? order.items[user.uid] || null : null;
+
+  // Approval groups show non-members where their request stands
+  const takesRequests = group?.visibility === 'approval';
+  useEffect(() => {
+    if (!user || isMember || !takesRequests) {
+      setMyRequest(null);
+      return;
+    }
+
+    return GroupAccess.subscribeToMyRequest(groupId, user.uid, setMyRequest);
+  }, [groupId, user, isMember, takesRequests]);
+
+  useEffect(() => {
+    const orderId = group?.currentOrder?.id;
+    if (!orderId || !isMember) {
+      setEscrow(null);
+      return;
+    }
+
+    return onSnapshot(doc(db, 'escrows', orderId), (snapshot) => {
+      setEscrow(snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } as Escrow : null);
+    }, (error) => {
+      console.error('Error loading escrow:', error);
+      setEscrow(null);
+    });
+  }, [group?.currentOrder?.id, isMember]);
+
   const subscribeToGroup = () => {
     const groupRef = doc(db, 'groups', groupId);
     return onSnapshot(groupRef, async (snapshot) => {
       if (snapshot.exists()) {
-        const groupData = { id: snapshot.id, ...snapshot.data() } as Group;
+        const data = snapshot.data();
+        const groupData = {
+          id: snapshot.id,
+          ...data,
+          deadline: data.deadline ? { ...data.deadline, at: data.deadline.at.toDate() } : null,
+        } as Group;
         setGroup(groupData);
-        setIsLeader(groupData.createdBy === user?.uid);
+        setIsLeader(GroupManager.leaderOf(groupData) === user?.uid);
         await fetchMembers(groupData.members);
       } else {
         Alert.alert('Error', 'Group not found');
         navigation.goBack();
       }
       setLoading(false);
+    }, (error) => {
+      // Invite-only groups can't be read once you are no longer a member
+      console.error('Error loading group:', error);
+      Alert.alert('Error', 'This group is private. Ask the leader for an invite.');
+      navigation.goBack();
     });
   };
 
@@ -173,7 +246,7 @@ export default function GroupDetailsScreen({
     const messagesRef = collection(db, 'groups', groupId, 'messages');
     const q = query(messagesRef, orderBy('createdAt', 'desc'));
     return onSnapshot(q, (snapshot) => {
-      const newMessages: IMessage[] = [];
+      const newMessages: ChatMessage[] = [];
       snapshot.forEach((doc) => {
         const messageData = doc.data();
         newMessages.push({
@@ -184,74 +257,49 @@ export default function GroupDetailsScreen({
             _id: messageData.user._id,
             name: messageData.user.name,
           },
+          system: messageData.system,
+          pollId: messageData.pollId,
         });
       });
       setMessages(newMessages);
+    }, (error) => {
+      console.error('Error loading messages:', error);
+      setMessages([]);
     });
   };
 
   const handleJoinGroup = async () => {
-    console.log('handleJoinGroup called', { 
-      groupId,
-      userId: user?.uid,
-      groupStatus: group?.status,
-      currentMemberCount: group?.memberCount
-    });
-
     if (!group || !user) {
-      console.log('No group or user found', { group, user });
       Alert.alert('Error', 'Unable to join group. Please try again later.');
       return;
     }
 
     if (group.memberCount >= MAX_GROUP_MEMBERS) {
-      console.log('Group is full', { memberCount: group.memberCount });
       Alert.alert('Error', 'This group is already full');
       return;
     }
 
     if (group.status !== 'open') {
-      console.log('Group is not open', { status: group.status });
       Alert.alert('Error', 'This group is no longer accepting new members');
       return;
     }
 
     if (group.members[user.uid]) {
-      console.log('User is already a member', { userId: user.uid });
       Alert.alert('Error', 'You are already a member of this group');
       return;
     }
 
-    try {
-      console.log('Attempting to join group', { 
-        groupId, 
-        userId: user.uid,
-        currentMembers: Object.keys(group.members).length 
-      });
-      
-      const groupRef = doc(db, 'groups', groupId);
-      const updatedMembers = { ...group.members, [user.uid]: true };
-      
-      await updateDoc(groupRef, {
-        members: updatedMembers,
-        memberCount: group.memberCount + 1,
-        lastUpdated: serverTimestamp(),
-      });
+    if (availableBalance < GROUP_COLLATERAL_AMOUNT) {
+      Alert.alert(
+        'Insufficient Balance',
+        `Joining a group holds ₹${GROUP_COLLATERAL_AMOUNT} of your wallet balance until the order completes. Please add funds first.`
+      );
+      return;
+    }
 
-      console.log('Successfully joined group');
-      
-      // Add system message about new member
-      const messagesRef = collection(db, 'groups', groupId, 'messages');
-      await addDoc(messagesRef, {
-        _id: Date.now().toString(),
-        text: `${user.phoneNumber || 'A new member'} has joined the group.`,
-        createdAt: serverTimestamp(),
-        system: true,
-        user: {
-          _id: 'system',
-          name: 'System',
-        },
-      });
+    try {
+      await GroupManager.joinGroup(groupId);
+      await refreshWallet();
     } catch (error) {
       console.error('Error joining group:', error);
       Alert.alert(
@@ -262,6 +310,25 @@ export default function GroupDetailsScreen({
     }
   };
 
+  const handleRequestToJoin = async () => {
+    if (!group || !user) return;
+
+    if (availableBalance < GROUP_COLLATERAL_AMOUNT) {
+      Alert.alert(
+        'Insufficient Balance',
+        `Joining a group holds ₹${GROUP_COLLATERAL_AMOUNT} of your wallet balance once the leader approves you. Please add funds first.`
+      );
+      return;
+    }
+
+    try {
+      await GroupAccess.requestToJoin(groupId);
+    } catch (error) {
+      console.error('Error requesting to join:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send your request. Please try again.');
+    }
+  };
+
   const handleLeaveGroup = async () => {
     if (!groupId || !user?.uid || !group) {
       Alert.alert('Error', 'Unable to leave group - missing data');
@@ -274,25 +341,10 @@ export default function GroupDetailsScreen({
     }
 
     try {
-      const groupRef = doc(db, 'groups', groupId);
-      
-      // Update group document
-      await updateDoc(groupRef, {
-        [`members.${user.uid}`]: false,
-        memberCount: increment(-1)
-      });
-
-      // Add system message
-      await addDoc(collection(db, 'groups', groupId, 'messages'), {
-        _id: Date.now().toString(),
-        text: `${user.displayName || user.phoneNumber || 'A member'} has left the group.`,
-        createdAt: serverTimestamp(),
-        system: true,
-        user: {
-          _id: 'system',
-          name: 'System',
-        },
-      });
+      // Frees the collateral along with the membership, and posts the
+      // leave message
+      await GroupManager.leaveGroup(groupId);
+      await refreshWallet();
 
       navigation.goBack();
     } catch (error) {
@@ -302,33 +354,28 @@ export default function GroupDetailsScreen({
   };
 
   const handleLeaderLeaveGroup = () => {
-    console.log('handleLeaderLeaveGroup called');
     if (!user || !group) {
-      console.log('Missing user or group:', { user: !!user, group: !!group });
       return;
     }
-    console.log('Showing leave confirmation dialog');
     setShowLeaveDialog(true);
   };
 
   const handleStartOrder = async () => {
-    if (!group || !isLeader) return;
+    if (!group || !user || !isLeader) return;
 
-    if (group.memberCount < 2) {
-      Alert.alert('Error', 'Need at least 2 members to start an order');
+    try {
+      GroupLifecycle.check('start_order', group);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'This group can\'t start an order yet');
       return;
     }
 
     try {
-      const groupRef = doc(db, 'groups', groupId);
-      await updateDoc(groupRef, {
-        status: 'ordering',
-        lastUpdated: serverTimestamp(),
-      });
+      await OrderProcessor.createOrder(groupId);
       setShowOrderModal(true);
     } catch (error) {
       console.error('Error starting order:', error);
-      Alert.alert('Error', 'Failed to start order. Please try again.');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to start order. Please try again.');
     }
   };
 
@@ -341,123 +388,168 @@ export default function GroupDetailsScreen({
 
       if (!result.canceled) {
         const { uri } = result.assets[0];
-        const response = await fetch(uri);
-        const blob = await response.blob();
-        
-        const storage = getStorage();
-        const screenshotRef = ref(storage, `orders/${groupId}/${Date.now()}.jpg`);
-        await uploadBytes(screenshotRef, blob);
-        const downloadURL = await getDownloadURL(screenshotRef);
-        
-        setScreenshot(downloadURL);
+        setReadingScreenshot(true);
+        // Read on the device while the upload runs; checked against the carts
+        // in the split calculator
+        const reading = ScreenshotReader.read(uri, group?.platform);
+        setScreenshot(await MediaUploader.uploadOrderScreenshot(groupId, uri));
+        setReceipt(await reading);
       }
     } catch (error) {
       console.error('Error uploading screenshot:', error);
       Alert.alert('Error', 'Failed to upload screenshot. Please try again.');
+    } finally {
+      setReadingScreenshot(false);
     }
   };
 
-  const handleConfirmOrder = async () => {
-    if (!group || !user || !screenshot) {
-      Alert.alert('Error', 'Please upload the order screenshot first');
-      return;
-    }
+  // Before the order starts, items go into the member's cart
+  const handleAddOrderItem = async (lines: CartLine[], coinsToApply: number) => {
+    if (!user || !group) return;
 
     try {
-      // Create new order
-      const orderRef = await addDoc(collection(db, 'orders'), {
-        groupId,
-        leaderId: user.uid,
-        totalAmount: 0, // Will be updated when members add their items
-        items: [],
-        screenshot,
-        status: 'pending',
-        createdAt: serverTimestamp(),
-      });
+      if (group.status === 'open') {
+        await CartManager.saveCart(groupId, user.uid, lines, coinsToApply);
+      } else if (order) {
+        await OrderProcessor.addItem(order.id, user.uid, lines, coinsToApply);
+      }
+    } catch (error) {
+      console.error('Error adding order item:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add your order. Please try again.');
+      throw error;
+    }
+  };
 
-      // Update group status
-      const groupRef = doc(db, 'groups', groupId);
-      await updateDoc(groupRef, {
-        status: 'ordered',
-        currentOrder: {
-          id: orderRef.id,
-          screenshot,
-          status: 'pending',
-        },
-        lastUpdated: serverTimestamp(),
-      });
+  const handleRemoveCart = async () => {
+    if (!user) return;
 
-      setShowOrderModal(false);
-      Alert.alert('Success', 'Order created successfully. Members can now add their items.');
+    try {
+      await CartManager.removeCart(groupId, user.uid);
     } catch (error) {
-      console.error('Error confirming order:', error);
-      Alert.alert('Error', 'Failed to create order. Please try again.');
+      console.error('Error removing cart:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to remove your items. Please try again.');
+      throw error;
     }
   };
 
-  const handleAddOrderItem = async () => {
-    if (!group || !user || !group.currentOrder) return;
+  const handleSubmitSplit = async (charges: SplitCharges, options: SplitOptions) => {
+    if (!user || !order || !screenshot) {
+      Alert.alert('Error', 'Please upload the order screenshot first');
+      return;
+    }
 
     try {
-      const orderRef = doc(db, 'orders', group.currentOrder.id);
-      await updateDoc(orderRef, {
-        [`items.${user.uid}`]: {
-          userId: user.uid,
-          items: '', // Will be implemented with a form
-          amount: 0, // Will be implemented with a form
-          paid: false,
-        },
-      });
+      await OrderProcessor.submitSplit(order.id, charges, options, screenshot, receipt);
+      setScreenshot(null);
+      setReceipt(null);
     } catch (error) {
-      console.error('Error adding order item:', error);
-      Alert.alert('Error', 'Failed to add your order. Please try again.');
+      console.error('Error calculating split:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to calculate split. Please try again.');
     }
   };
 
-  const handlePayOrder = async (amount: number) => {
-    if (!group || !user || !group.currentOrder) return;
+  const approveSplit = async () => {
+    if (!order) return;
+
+    try {
+      await OrderProcessor.approveSplit(order.id);
+      await refreshWallet();
+    } catch (error) {
+      console.error('Error approving split:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to approve split. Please try again.');
+    }
+  };
 
-    if (balance < amount) {
-      Alert.alert('Error', 'Insufficient balance');
+  // Members are asked again when the screenshot didn't match the carts or
+  // was used for an earlier order
+  const handleApproveSplit = () => {
+    const check = order?.screenshotCheck;
+    const flagged = check && check.status !== 'verified' ? check : null;
+    const reused = order?.fraudReview?.status === 'open';
+    if (!flagged && !reused) {
+      approveSplit();
       return;
     }
 
+    const messages = [
+      ...(reused ? ['This screenshot looks like one used for an earlier order. Support staff are checking it, and your share stays held until they do.'] : []),
+      ...(flagged ? flagged.issues.map(issue => issue.message) : []),
+    ];
+    Alert.alert(
+      reused
+        ? 'Screenshot Used Before'
+        : flagged!.status === 'unreadable' ? 'Screenshot Not Checked' : 'Screenshot Doesn\'t Match',
+      [...messages, 'Approve your split anyway?'].join('\n\n'),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Approve Anyway', onPress: approveSplit },
+      ]
+    );
+  };
+
+  const handleConfirmReceipt = async () => {
+    if (!order) return;
+
     try {
-      // Deduct money from user's wallet
-      await deductMoney(amount, `Payment for group order in ${group.name}`);
+      await OrderProcessor.confirmReceipt(order.id);
+    } catch (error) {
+      console.error('Error confirming receipt:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to confirm receipt. Please try again.');
+    }
+  };
 
-      // Mark user's order as paid
-      const orderRef = doc(db, 'orders', group.currentOrder.id);
-      await updateDoc(orderRef, {
-        [`items.${user.uid}.paid`]: true,
-      });
+  const handleMarkNoShow = async (userId: string) => {
+    if (!order || !user) return;
 
-      // Check if all members have paid
-      const orderDoc = await getDoc(orderRef);
-      const orderData = orderDoc.data() as Order;
-      const allPaid = Object.values(orderData.items).every(item => item.paid);
-
-      if (allPaid) {
-        // Complete the order
-        await updateDoc(orderRef, { status: 'completed' });
-        await updateDoc(doc(db, 'groups', groupId), {
-          status: 'completed',
-          lastUpdated: serverTimestamp(),
-        });
+    try {
+      await OrderProcessor.processNoShow(order.id, userId);
+    } catch (error) {
+      console.error('Error marking no-show:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to mark no-show. Please try again.');
+    }
+  };
 
-        // Award leader with reward coins
-        if (isLeader) {
-          const rewardAmount = Math.floor(orderData.totalAmount * (LEADER_REWARD_PERCENTAGE / 100));
-          await addRewardCoins(rewardAmount);
-          Alert.alert('Congratulations!', `You earned ${rewardAmount} reward coins for leading this group order!`);
-        }
-      }
+  const handleCompleteOrder = async () => {
+    if (!order || !user) return;
+
+    try {
+      await OrderProcessor.processOrderCompletion(order.id);
+      await refreshWallet();
+      setShowOrderModal(false);
+      Alert.alert('Order Completed', 'Payments have been settled for this group order.');
+      navigation.goBack();
     } catch (error) {
-      console.error('Error processing payment:', error);
-      Alert.alert('Error', 'Failed to process payment. Please try again.');
+      console.error('Error completing order:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to complete order. Please try again.');
     }
   };
 
+  const handleCancelOrder = () => {
+    if (!order || !user) return;
+
+    Alert.alert(
+      'Cancel Order',
+      'Any funds held in escrow will be refunded to the members.',
+      [
+        { text: 'Keep Order', style: 'cancel' },
+        {
+          text: 'Cancel Order',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await OrderProcessor.cancelOrder(order.id);
+              await refreshWallet();
+              setShowOrderModal(false);
+            } catch (error) {
+              console.error('Error cancelling order:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to cancel order. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const onSend = useCallback(async (messages: IMessage[] = []) => {
     if (!user || !group) return;
 
@@ -478,6 +570,53 @@ export default function GroupDetailsScreen({
     }
   }, [user, group, groupId]);
 
+  const handleHandOff = (member: GroupMember) => {
+    Alert.alert(
+      'Hand Off Leadership',
+      `Make ${member.name || member.phoneNumber || 'this member'} the group leader? They will place the order for the group.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Make Leader',
+          onPress: async () => {
+            try {
+              await GroupManager.handOffLeadership(groupId, member.id);
+              setShowMembersModal(false);
+            } catch (error) {
+              console.error('Error handing off leadership:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to hand off leadership. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleNominate = async (member: GroupMember) => {
+    try {
+      await GroupManager.nominateLeader(groupId, member.id);
+      setShowMembersModal(false);
+    } catch (error) {
+      console.error('Error nominating leader:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to nominate. Please try again.');
+    }
+  };
+
+  const renderSystemMessage = (props: any) => {
+    const message = props.currentMessage as ChatMessage | undefined;
+    if (message?.pollId && user) {
+      return (
+        <LeaderPollCard
+          groupId={groupId}
+          pollId={message.pollId}
+          members={members}
+          currentUserId={user.uid}
+        />
+      );
+    }
+    return <SystemMessage {...props} />;
+  };
+
   const handleShareLocation = async () => {
     if (!userLocation || !group || !user) return;
 
@@ -532,52 +671,6 @@ export default function GroupDetailsScreen({
     </Send>
   );
 
-  const renderOrderModal = () => {
-    if (!group) return null;
-
-    return (
-      <Modal
-        visible={showOrderModal}
-        onDismiss={() => setShowOrderModal(false)}
-        contentContainerStyle={styles.modal}
-      >
-        <View style={styles.modalHeader}>
-          <Text variant="headlineSmall" style={styles.modalTitle}>
-            Group Order Details
-          </Text>
-          <TouchableOpacity 
-            onPress={() => setShowOrderModal(false)}
-            style={styles.closeButton}
-          >
-            <MaterialCommunityIcons 
-              name="close" 
-              size={24} 
-              color={colors.text} 
-            />
-          </TouchableOpacity>
-        </View>
-
-        <ScrollView style={styles.orderContent}>
-          {isLeader && group.status === 'ordering' && (
-            <View style={styles.uploadSection}>
-              <Text variant="titleMedium" style={styles.sectionTitle}>
-                Order Screenshot
-              </Text>
-              <Button
-                mode="outlined"
-                onPress={handleUploadScreenshot}
-                icon="camera"
-                style={styles.uploadButton}
-              >
-                Upload Screenshot
-              </Button>
-            </View>
-          )}
-        </ScrollView>
-      </Modal>
-    );
-  };
-
   const animateSection = (section: 'chat' | 'actions', show: boolean) => {
     const scale = section === 'chat' ? chatScale : actionsScale;
     Animated.sequence([
@@ -697,7 +790,7 @@ export default function GroupDetailsScreen({
             Join Group
           </Button>
         )}
-        {group!.members[user!.uid] && !isLeader && (
+        {group!.status === 'open' && group!.members[user!.uid] && !isLeader && (
           <Button
             mode="outlined"
             onPress={handleLeaveGroup}
@@ -761,7 +854,7 @@ export default function GroupDetailsScreen({
             title="Group Location"
             description="View on map"
             left={props => <List.Icon {...props} icon="map-marker" />}
-            onPress={handleShareLocation}
+            onPress={() => setShowMapModal(true)}
             style={styles.actionItem}
           />
 
@@ -780,17 +873,6 @@ export default function GroupDetailsScreen({
     </View>
   );
 
-  useEffect(() => {
-    if (group && user) {
-      console.log('Debug - Render conditions:', {
-        isOpen: group.status === 'open',
-        isMember: group.members[user.uid],
-        isLeader,
-        user: user.uid
-      });
-    }
-  }, [group, user, isLeader]);
-
   if (loading) {
     return (
       <View style={styles.centered}>
@@ -836,6 +918,17 @@ export default function GroupDetailsScreen({
                 <Text style={styles.statLabel}>Target</Text>
               </View>
             </View>
+            <View style={styles.fundingProgress}>
+              <ProgressBar
+                progress={Math.min(1, (group.committedAmount || 0) / group.targetAmount)}
+                color={colors.background}
+                style={styles.fundingBar}
+              />
+              <Text style={styles.fundingText}>
+                {`₹${group.committedAmount || 0} of ₹${group.targetAmount} in carts`}
+              </Text>
+            </View>
+            {group.deadline && <DeadlineCountdown deadline={group.deadline} />}
           </View>
         </LinearGradient>
       </View>
@@ -858,7 +951,7 @@ export default function GroupDetailsScreen({
             <Text style={styles.description}>{group.description}</Text>
             
             <View style={styles.actionButtons}>
-              {group.status === 'open' && !group.members[user!.uid] && (
+              {group.status === 'open' && !group.members[user!.uid] && !takesRequests && (
                 <Button
                   mode="contained"
                   onPress={handleJoinGroup}
@@ -867,7 +960,69 @@ export default function GroupDetailsScreen({
                   Join Group
                 </Button>
               )}
-              {group.members[user!.uid] && !isLeader && (
+              {group.status === 'open' && !group.members[user!.uid] && takesRequests && (
+                myRequest ? (
+                  <Text style={styles.requestStatusText}>
+                    {myRequest.status === 'pending'
+                      ? 'Waiting for the leader to approve your request'
+                      : 'The leader turned down your request'}
+                  </Text>
+                ) : (
+                  <Button
+                    mode="contained"
+                    onPress={handleRequestToJoin}
+                    style={styles.actionButton}
+                  >
+                    Request to Join
+                  </Button>
+                )
+              )}
+              {group.status === 'open' && isMember && (
+                <Button
+                  mode="contained-tonal"
+                  onPress={() => setShowAddItemModal(true)}
+                  icon="cart"
+                  style={styles.actionButton}
+                >
+                  {cart ? `My Items (₹${cart.itemMRP})` : 'Add My Items'}
+                </Button>
+              )}
+              {isLeader && group.status === 'open' && (
+                <Button
+                  mode="contained-tonal"
+                  onPress={() => setShowInviteModal(true)}
+                  icon="qrcode"
+                  style={styles.actionButton}
+                >
+                  Invite
+                </Button>
+              )}
+              {isLeader && group.status === 'open' && !!group.targetReachedAt && (
+                <Text style={styles.targetReachedText}>
+                  Target reached. Start the order when everyone is ready.
+                </Text>
+              )}
+              {isMember && (
+                <Button
+                  mode="outlined"
+                  onPress={() => setShowMembersModal(true)}
+                  icon="account-group"
+                  style={styles.actionButton}
+                >
+                  Members
+                </Button>
+              )}
+              {group.currentOrder && group.members[user!.uid] && (
+                <Button
+                  mode="contained-tonal"
+                  onPress={() => setShowOrderModal(true)}
+                  icon="shopping"
+                  style={styles.actionButton}
+                >
+                  View Order
+                </Button>
+              )}
+              {group.status === 'open' && group.members[user!.uid] && !isLeader && (
                 <Button
                   mode="outlined"
                   onPress={handleLeaveGroup}
@@ -897,6 +1052,9 @@ export default function GroupDetailsScreen({
                 </View>
               )}
             </View>
+            {isLeader && group.status === 'open' && takesRequests && (
+              <JoinRequestList groupId={groupId} />
+            )}
           </View>
         </View>
 
@@ -905,37 +1063,93 @@ export default function GroupDetailsScreen({
           <View style={styles.chatHeader}>
             <Text style={styles.chatTitle}>Group Chat</Text>
           </View>
-          <GiftedChat
-            messages={messages}
-            onSend={messages => onSend(messages)}
-            user={{ _id: user?.uid || '', name: user?.displayName || '' }}
-            renderBubble={renderBubble}
-            renderSend={renderSend}
-            alwaysShowSend
-            minInputToolbarHeight={60}
-            maxComposerHeight={100}
-            renderAvatar={null}
-            renderTime={(props) => (
-              <View style={styles.messageTime}>
-                <Text style={styles.timeText}>
-                  {new Date(props.currentMessage?.createdAt || Date.now()).toLocaleTimeString([], { 
-                    hour: '2-digit', 
-                    minute: '2-digit' 
-                  })}
-                </Text>
-              </View>
-            )}
-            listViewProps={{
-              style: styles.chatList,
-              contentContainerStyle: styles.chatListContent,
-              showsVerticalScrollIndicator: false,
-            }}
-          />
+          {isMember ? (
+            <GiftedChat
+              messages={messages}
+              onSend={messages => onSend(messages)}
+              user={{ _id: user?.uid || '', name: user?.displayName || '' }}
+              renderBubble={renderBubble}
+              renderSystemMessage={renderSystemMessage}
+              renderSend={renderSend}
+              alwaysShowSend
+              minInputToolbarHeight={60}
+              maxComposerHeight={100}
+              renderAvatar={null}
+              renderTime={(props) => (
+                <View style={styles.messageTime}>
+                  <Text style={styles.timeText}>
+                    {new Date(props.currentMessage?.createdAt || Date.now()).toLocaleTimeString([], { 
+                      hour: '2-digit', 
+                      minute: '2-digit' 
+                    })}
+                  </Text>
+                </View>
+              )}
+              listViewProps={{
+                style: styles.chatList,
+                contentContainerStyle: styles.chatListContent,
+                showsVerticalScrollIndicator: false,
+              }}
+            />
+          ) : (
+            <Text style={styles.chatPlaceholder}>Join the group to see the chat</Text>
+          )}
         </View>
       </View>
 
+      {group && order && user && (
+        <OrderDetailsModal
+          visible={showOrderModal}
+          onDismiss={() => setShowOrderModal(false)}
+          group={group}
+          order={order}
+          escrow={escrow}
+          members={members}
+          currentUserId={user.uid}
+          screenshot={screenshot?.url ?? null}
+          receipt={receipt}
+          readingScreenshot={readingScreenshot}
+          onAddItems={() => setShowAddItemModal(true)}
+          onUploadScreenshot={handleUploadScreenshot}
+          onSubmitSplit={handleSubmitSplit}
+          onApproveSplit={handleApproveSplit}
+          onConfirmReceipt={handleConfirmReceipt}
+          onMarkNoShow={handleMarkNoShow}
+          onCompleteOrder={handleCompleteOrder}
+          onCancelOrder={handleCancelOrder}
+        />
+      )}
+      {user && (
+        <GroupMembersModal
+          visible={showMembersModal}
+          onDismiss={() => setShowMembersModal(false)}
+          group={group}
+          members={members}
+          currentUserId={user.uid}
+          onHandOff={handleHandOff}
+          onNominate={handleNominate}
+        />
+      )}
+      {isLeader && (
+        <GroupInviteModal
+          visible={showInviteModal}
+          onDismiss={() => setShowInviteModal(false)}
+          groupId={groupId}
+          groupName={group.name}
+        />
+      )}
+      <AddOrderItemModal
+        visible={showAddItemModal}
+        rewardCoins={group && GroupManager.leaderOf(group) === user?.uid ? 0 : rewardCoins}
+        onDismiss={() => setShowAddItemModal(false)}
+        onSubmit={handleAddOrderItem}
+        initial={myItems
+          ? { lines: CartManager.linesOf(myItems), coinsToApply: myItems.coinsToApply }
+          : undefined}
+        onRemove={group?.status === 'open' ? handleRemoveCart : undefined}
+      />
+
       <Portal>
-        {renderOrderModal()}
         <Modal
           visible={showLeaveDialog}
           onDismiss={() => setShowLeaveDialog(false)}
@@ -951,10 +1165,7 @@ export default function GroupDetailsScreen({
             <View style={styles.modalButtons}>
               <Button
                 mode="outlined"
-                onPress={() => {
-                  console.log('Leave cancelled');
-                  setShowLeaveDialog(false);
-                }}
+                onPress={() => setShowLeaveDialog(false)}
                 style={styles.modalButton}
               >
                 Cancel
@@ -963,47 +1174,17 @@ export default function GroupDetailsScreen({
                 mode="contained"
                 onPress={async () => {
                   if (!user || !group) {
-                    console.log('Missing user or group:', { user: !!user, group: !!group });
                     Alert.alert('Error', 'Unable to leave group. Please try again later.');
                     return;
                   }
 
                   try {
-                    console.log('Leader confirmed leaving group');
                     setLoading(true);
                     setShowLeaveDialog(false);
                     
-                    const groupRef = doc(db, 'groups', groupId);
-                    const updatedMembers = { ...group.members };
-                    delete updatedMembers[user.uid];
-                    const remainingMembers = Object.keys(updatedMembers);
-                    console.log('Remaining members:', remainingMembers);
-
-                    if (remainingMembers.length === 0) {
-                      console.log('No members left, deleting group');
-                      await deleteDoc(groupRef);
-                    } else {
-                      console.log('Transferring leadership to:', remainingMembers[0]);
-                      await updateDoc(groupRef, {
-                        members: updatedMembers,
-                        memberCount: remainingMembers.length,
-                        createdBy: remainingMembers[0],
-                        lastUpdated: serverTimestamp(),
-                      });
-
-                      const messagesRef = collection(db, 'groups', groupId, 'messages');
-                      await addDoc(messagesRef, {
-                        _id: Date.now().toString(),
-                        text: `Group leadership has been transferred to a new member as the previous leader left.`,
-                        createdAt: serverTimestamp(),
-                        system: true,
-                        user: {
-                          _id: 'system',
-                          name: 'System',
-                        },
-                      });
-                    }
-                    console.log('Successfully processed leader leaving');
+                    await GroupManager.leaveGroup(groupId);
+                    await refreshWallet();
+
                     navigation.goBack();
                   } catch (error) {
                     console.error('Error in leader leave process:', error);
@@ -1020,6 +1201,39 @@ export default function GroupDetailsScreen({
             </View>
           </View>
         </Modal>
+
+        <Modal
+          visible={showMapModal}
+          onDismiss={() => setShowMapModal(false)}
+          contentContainerStyle={styles.modal}
+        >
+          <View style={styles.modalHeader}>
+            <Text variant="headlineSmall" style={styles.modalTitle}>Group Location</Text>
+          </View>
+          {group && (
+            <View style={styles.mapContainer}>
+              <GroupMap
+                groups={[group]}
+                center={locationPrivacyManager.obscureLocation(group.location.latitude, group.location.longitude)}
+                userId={user?.uid}
+                onSelect={() => {}}
+              />
+            </View>
+          )}
+          <View style={[styles.modalContent, styles.modalButtons]}>
+            <Button mode="outlined" onPress={() => setShowMapModal(false)} style={styles.modalButton}>
+              Close
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleShareLocation}
+              disabled={!userLocation}
+              style={styles.modalButton}
+            >
+              Share My Location
+            </Button>
+          </View>
+        </Modal>
       </Portal>
     </View>
   );
@@ -1065,6 +1279,30 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: spacing.xs,
   },
+  fundingProgress: {
+    marginTop: spacing.lg,
+  },
+  fundingBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255,255,255,0.3)',
+  },
+  fundingText: {
+    color: colors.background,
+    opacity: 0.9,
+    fontSize: 13,
+    marginTop: spacing.xs,
+    textAlign: 'center',
+  },
+  requestStatusText: {
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  targetReachedText: {
+    color: colors.success,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
   mainContainer: {
     flex: 1,
     backgroundColor: colors.background,
@@ -1131,6 +1369,11 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: colors.background,
   },
+  chatPlaceholder: {
+    color: colors.textSecondary,
+    textAlign: 'center',
+    padding: spacing.lg,
+  },
   chatListContent: {
     padding: spacing.md,
     paddingBottom: spacing.xl,
@@ -1162,6 +1405,9 @@ const styles = StyleSheet.create({
     maxHeight: '80%',
     ...elevation.medium,
   },
+  mapContainer: {
+    height: 320,
+  },
   modalHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1,13 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, FlatList, Alert, ScrollView, RefreshControl, TouchableOpacity, ImageBackground } from 'react-native';
-import { Text, FAB, IconButton, Divider, ActivityIndicator, Button } from 'react-native-paper';
+import { Text, FAB, IconButton, Divider, ActivityIndicator, Button, Chip, ProgressBar } from 'react-native-paper';
 import { useAuth } from '../../contexts/AuthContext';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MainStackParamList } from '../../navigation/MainNavigator';
 import { colors, spacing, elevation } from '../../theme';
 import * as Location from 'expo-location';
-import { collection, query, where, getDocs, orderBy, onSnapshot } from 'firebase/firestore';
-import { db } from '../../config/firebase';
+import { GroupDiscovery } from '../../utils/GroupDiscovery';
+import { locationPrivacyManager } from '../../utils/LocationPrivacyManager';
+import GroupMap from '../../components/GroupMap';
+import GroupPreviewSheet from '../../components/GroupPreviewSheet';
+import { PLATFORMS, PlatformId, getPlatform, amountLeft } from '../../config/platforms';
 import { useWallet } from '../../contexts/WalletContext';
 import { BalanceCard } from '../../components/ui/BalanceCard';
 import { Card } from '../../components/ui/Card';
@@ -23,8 +26,6 @@ type HomeScreenProps = {
   navigation: NativeStackNavigationProp<MainStackParamList, 'Home'>;
 };
 
-const MAX_DISTANCE = 5000; // 5km radius
-
 export default function HomeScreen({ navigation }: HomeScreenProps) {
   const [nearbyGroups, setNearbyGroups] = useState<Group[]>([]);
   const [userGroups, setUserGroups] = useState<Group[]>([]);
@@ -35,73 +36,64 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
   const { balance, rewardCoins, refreshWallet } = useWallet();
   const [refreshing, setRefreshing] = useState(false);
   const [selectedSection, setSelectedSection] = useState<'nearby' | 'active'>('nearby');
+  const [radiusOptions, setRadiusOptions] = useState<number[]>([]);
+  const [radius, setRadius] = useState<number | null>(null);
+  const [pages, setPages] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
+  const [platformFilter, setPlatformFilter] = useState<PlatformId | null>(null);
+  const [sortBy, setSortBy] = useState<'distance' | 'amountLeft'>('distance');
 
   useEffect(() => {
     getUserLocation();
   }, []);
 
+  // Discovery never reaches past the user's visibility radius
   useEffect(() => {
-    if (!user || !userLocation) return;
-
-    const groupsRef = collection(db, 'groups');
-    const q = query(
-      groupsRef,
-      where('status', '==', 'open'),
-      orderBy('createdAt', 'desc')
-    );
-
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const nearby: Group[] = [];
-      const owned: Group[] = [];
-      
-      snapshot.forEach((doc) => {
-        const groupData = { id: doc.id, ...doc.data() } as Group;
-        
-        // Calculate distance from user
-        const distance = calculateDistance(
-          userLocation.coords.latitude,
-          userLocation.coords.longitude,
-          groupData.location.latitude,
-          groupData.location.longitude
-        );
-
-        groupData.distance = distance;
-
-        // Check if user is creator or member
-        if (groupData.createdBy === user.uid || groupData.members[user.uid]) {
-          owned.push(groupData);
-        } 
-        // Only include nearby groups that user is not part of
-        else if (distance <= MAX_DISTANCE) {
-          nearby.push(groupData);
-        }
-      });
+    if (!user) return;
 
-      // Sort groups by distance
-      nearby.sort((a, b) => (a.distance || 0) - (b.distance || 0));
-      owned.sort((a, b) => (a.distance || 0) - (b.distance || 0));
-      
-      setNearbyGroups(nearby);
-      setUserGroups(owned);
-      setLoading(false);
+    locationPrivacyManager.init(user.uid).then(() => {
+      const options = GroupDiscovery.radiusOptions(locationPrivacyManager.getSettings().maxVisibilityRadius);
+      setRadiusOptions(options);
+      setRadius(options[options.length - 1]);
     });
+  }, [user]);
 
-    return () => unsubscribe();
-  }, [user, userLocation]);
+  useEffect(() => {
+    if (!user || !userLocation || !radius) return;
+
+    return GroupDiscovery.subscribeNearby(
+      user.uid,
+      userLocation.coords,
+      radius,
+      pages,
+      ({ groups, hasMore }) => {
+        setNearbyGroups(groups);
+        setHasMore(hasMore);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error finding nearby groups:', error);
+        setLoading(false);
+      }
+    );
+  }, [user, userLocation, radius, pages]);
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+  useEffect(() => {
+    if (!user) return;
 
-    const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return GroupDiscovery.subscribeMine(
+      user.uid,
+      userLocation?.coords || null,
+      setUserGroups,
+      (error) => console.error('Error loading your groups:', error)
+    );
+  }, [user, userLocation]);
 
-    return R * c; // Distance in meters
+  const handleRadiusChange = (value: number) => {
+    setRadius(value);
+    setPages(1);
   };
 
   const getUserLocation = async () => {
@@ -123,13 +115,15 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     }
   };
 
-  const formatDistance = (meters: number | undefined): string => {
-    if (!meters) return 'Unknown distance';
-    if (meters < 1000) {
-      return `${Math.round(meters)}m away`;
-    }
-    return `${(meters / 1000).toFixed(1)}km away`;
-  };
+  // Shared by the list and the map
+  const applyFilters = (groups: Group[]) => groups
+    .filter(group => !platformFilter || getPlatform(group.platform).id === platformFilter)
+    .sort((a, b) => sortBy === 'amountLeft'
+      ? amountLeft(a) - amountLeft(b)
+      : (a.distance || 0) - (b.distance || 0));
+
+  const formatRadius = (meters: number) =>
+    meters < 1000 ? `${meters}m` : `${meters / 1000}km`;
 
   const renderGroupCard = ({ item }: { item: Group }) => (
     <TouchableOpacity 
@@ -143,6 +137,12 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
             <View style={styles.memberInfo}>
               <MaterialCommunityIcons name="account-group" size={16} color={colors.textSecondary} />
               <Text style={styles.memberCount}>{item.memberCount} members</Text>
+              <MaterialCommunityIcons
+                name={getPlatform(item.platform).icon}
+                size={16}
+                color={getPlatform(item.platform).color}
+              />
+              <Text style={styles.memberCount}>{getPlatform(item.platform).name}</Text>
             </View>
           </View>
           <StatusBadge status={item.status} />
@@ -154,14 +154,22 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
             <View style={styles.amountContainer}>
               <Text style={styles.amountLabel}>Target:</Text>
               <Text style={styles.amount}>₹{item.targetAmount}</Text>
+              <Text style={styles.amountLabel}>
+                {amountLeft(item) > 0 ? `(₹${amountLeft(item)} left)` : '(reached)'}
+              </Text>
             </View>
             {item.distance && (
               <View style={styles.distanceContainer}>
                 <MaterialCommunityIcons name="map-marker" size={16} color={colors.textSecondary} />
-                <Text style={styles.distance}>{formatDistance(item.distance)}</Text>
+                <Text style={styles.distance}>{GroupDiscovery.formatDistance(item.distance)}</Text>
               </View>
             )}
           </View>
+          <ProgressBar
+            progress={Math.min(1, (item.committedAmount || 0) / item.targetAmount)}
+            color={amountLeft(item) > 0 ? colors.primary : colors.success}
+            style={styles.fundingBar}
+          />
         </View>
       </View>
     </TouchableOpacity>
@@ -194,10 +202,95 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
       );
     }
 
-    const groupsToShow = selectedSection === 'nearby' ? nearbyGroups : userGroups;
+    const groupsToShow = applyFilters(selectedSection === 'nearby' ? nearbyGroups : userGroups);
+
+    const filters = (
+      <View style={styles.filters}>
+        {selectedSection === 'nearby' && radiusOptions.length > 1 && (
+          <View style={styles.radiusRow}>
+            {radiusOptions.map(option => (
+              <Chip
+                key={option}
+                selected={radius === option}
+                onPress={() => handleRadiusChange(option)}
+                style={styles.radiusChip}
+              >
+                {formatRadius(option)}
+              </Chip>
+            ))}
+          </View>
+        )}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.radiusRow}>
+          <Chip
+            selected={!platformFilter}
+            onPress={() => setPlatformFilter(null)}
+            style={styles.radiusChip}
+          >
+            All platforms
+          </Chip>
+          {PLATFORMS.map(platform => (
+            <Chip
+              key={platform.id}
+              icon={platform.icon}
+              selected={platformFilter === platform.id}
+              onPress={() => setPlatformFilter(platformFilter === platform.id ? null : platform.id)}
+              style={styles.radiusChip}
+            >
+              {platform.name}
+            </Chip>
+          ))}
+          <Chip
+            icon="sort"
+            onPress={() => setSortBy(sortBy === 'distance' ? 'amountLeft' : 'distance')}
+            style={styles.radiusChip}
+          >
+            {sortBy === 'distance' ? 'Nearest first' : 'Closest to minimum'}
+          </Chip>
+        </ScrollView>
+      </View>
+    );
+
+    // Same section and radius as the list; the nearby map also marks the
+    // user's own groups within the radius
+    if (viewMode === 'map' && userLocation) {
+      const mapGroups = selectedSection === 'nearby'
+        ? applyFilters([...nearbyGroups, ...userGroups.filter(group => radius && (group.distance ?? Infinity) <= radius)])
+        : groupsToShow;
+
+      return (
+        <View style={styles.groupsContainer}>
+          {filters}
+          <View style={styles.mapContainer}>
+            <GroupMap
+              groups={mapGroups}
+              center={userLocation.coords}
+              userId={user?.uid}
+              radius={selectedSection === 'nearby' && radius ? radius : undefined}
+              onSelect={setSelectedGroup}
+            />
+            {selectedSection === 'nearby' && hasMore && (
+              <Button mode="contained-tonal" compact onPress={() => setPages(pages + 1)} style={styles.mapLoadMore}>
+                Load more groups
+              </Button>
+            )}
+            {selectedGroup && (
+              <GroupPreviewSheet
+                group={selectedGroup}
+                onOpen={() => {
+                  setSelectedGroup(null);
+                  navigation.navigate('GroupDetails', { groupId: selectedGroup.id });
+                }}
+                onClose={() => setSelectedGroup(null)}
+              />
+            )}
+          </View>
+        </View>
+      );
+    }
 
     return (
       <View style={styles.groupsContainer}>
+        {filters}
         {groupsToShow.length > 0 ? (
           <FlatList
             data={groupsToShow}
@@ -208,6 +301,11 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
             refreshControl={
               <RefreshControl refreshing={loading} onRefresh={getUserLocation} />
             }
+            ListFooterComponent={selectedSection === 'nearby' && hasMore ? (
+              <Button mode="text" onPress={() => setPages(pages + 1)}>
+                Load more groups
+              </Button>
+            ) : null}
           />
         ) : (
           <View style={styles.emptyState}>
@@ -365,7 +463,10 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
               <Text style={styles.sectionTitle}>Groups</Text>
               <View style={styles.tabContainer}>
                 <TouchableOpacity
-                  onPress={() => setSelectedSection('nearby')}
+                  onPress={() => {
+                    setSelectedSection('nearby');
+                    setSelectedGroup(null);
+                  }}
                   style={[styles.tab, selectedSection === 'nearby' && styles.activeTab]}
                 >
                   <MaterialCommunityIcons 
@@ -378,7 +479,10 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                   </Text>
                 </TouchableOpacity>
                 <TouchableOpacity
-                  onPress={() => setSelectedSection('active')}
+                  onPress={() => {
+                    setSelectedSection('active');
+                    setSelectedGroup(null);
+                  }}
                   style={[styles.tab, selectedSection === 'active' && styles.activeTab]}
                 >
                   <MaterialCommunityIcons 
@@ -391,6 +495,15 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                   </Text>
                 </TouchableOpacity>
               </View>
+              <IconButton
+                icon={viewMode === 'list' ? 'map' : 'format-list-bulleted'}
+                size={22}
+                iconColor={colors.primary}
+                onPress={() => {
+                  setViewMode(viewMode === 'list' ? 'map' : 'list');
+                  setSelectedGroup(null);
+                }}
+              />
             </View>
             {renderContent()}
           </View>
@@ -657,6 +770,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 16,
   },
+  fundingBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.surfaceVariant,
+  },
   distanceContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -717,4 +835,27 @@ const styles = StyleSheet.create({
   groupsList: {
     padding: spacing.md,
   },
+  filters: {
+    gap: spacing.sm,
+  },
+  radiusRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+  radiusChip: {
+    backgroundColor: colors.surface,
+  },
+  mapContainer: {
+    height: 420,
+    marginTop: spacing.md,
+    borderRadius: 20,
+    overflow: 'hidden',
+  },
+  mapLoadMore: {
+    position: 'absolute',
+    top: spacing.sm,
+    alignSelf: 'center',
+  },
 }); 
\ No newline at end of file
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, Button, ActivityIndicator } from 'react-native-paper';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { MainStackParamList } from '../../navigation/MainNavigator';
+import { colors, spacing, elevation } from '../../theme';
+import { useWallet } from '../../contexts/WalletContext';
+import { GroupManager, GROUP_COLLATERAL_AMOUNT } from '../../utils/GroupManager';
+import { GroupAccess } from '../../utils/GroupAccess';
+import { getPlatform } from '../../config/platforms';
+import { InvitePreview } from '../../types';
+
+type JoinInviteScreenProps = {
+  navigation: NativeStackNavigationProp<MainStackParamList, 'JoinInvite'>;
+  route: RouteProp<MainStackParamList, 'JoinInvite'>;
+};
+
+// Opened from an invite link or QR code (gatherpay://invite/{groupId}/{code})
+export default function JoinInviteScreen({ navigation, route }: JoinInviteScreenProps) {
+  const { groupId, code } = route.params;
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [joining, setJoining] = useState(false);
+  const { availableBalance, refreshWallet } = useWallet();
+
+  useEffect(() => {
+    GroupAccess.previewInvite(groupId, code)
+      .then(setPreview)
+      .catch((previewError) => {
+        console.error('Error loading invite:', previewError);
+        setError(previewError instanceof Error ? previewError.message : 'This invite could not be opened');
+      });
+  }, [groupId, code]);
+
+  const handleJoin = async () => {
+    if (availableBalance < GROUP_COLLATERAL_AMOUNT) {
+      Alert.alert(
+        'Insufficient Balance',
+        `Joining a group holds ₹${GROUP_COLLATERAL_AMOUNT} of your wallet balance until the order completes. Please add funds first.`
+      );
+      return;
+    }
+
+    try {
+      setJoining(true);
+      await GroupManager.joinGroup(groupId, code);
+      await refreshWallet();
+      navigation.replace('GroupDetails', { groupId });
+    } catch (joinError) {
+      console.error('Error joining with invite:', joinError);
+      Alert.alert('Error', joinError instanceof Error ? joinError.message : 'Failed to join group. Please try again.');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <MaterialCommunityIcons name="link-variant-off" size={48} color={colors.textSecondary} />
+        <Text style={styles.errorText}>{error}</Text>
+        <Button mode="outlined" onPress={() => navigation.navigate('Home')}>
+          Go Home
+        </Button>
+      </View>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  const platform = getPlatform(preview.platform);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.card}>
+        <MaterialCommunityIcons name="email-open" size={48} color={colors.primary} style={styles.icon} />
+        <Text variant="bodyMedium" style={styles.subtitle}>You're invited to join</Text>
+        <Text variant="headlineSmall" style={styles.title}>{preview.name}</Text>
+        {!!preview.description && (
+          <Text style={styles.description}>{preview.description}</Text>
+        )}
+        <Text style={styles.detail}>
+          {`${platform.name} · ₹${preview.targetAmount} target · ${preview.memberCount} members`}
+        </Text>
+        <Text style={styles.detail}>
+          {`Invite valid until ${preview.expiresAt.toLocaleString()}`}
+        </Text>
+        <Text style={styles.collateral}>
+          {`Joining holds ₹${GROUP_COLLATERAL_AMOUNT} of your wallet until the order completes.`}
+        </Text>
+        <Button
+          mode="contained"
+          onPress={handleJoin}
+          loading={joining}
+          disabled={joining}
+          style={styles.joinButton}
+        >
+          Join Group
+        </Button>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: spacing.lg,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+    backgroundColor: colors.background,
+  },
+  card: {
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderRadius: 16,
+    backgroundColor: colors.surface,
+    ...elevation.small,
+  },
+  icon: {
+    marginBottom: spacing.md,
+  },
+  subtitle: {
+    color: colors.textSecondary,
+  },
+  title: {
+    color: colors.primary,
+    marginVertical: spacing.sm,
+    textAlign: 'center',
+  },
+  description: {
+    textAlign: 'center',
+    marginBottom: spacing.md,
+  },
+  detail: {
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  collateral: {
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.md,
+  },
+  joinButton: {
+    marginTop: spacing.lg,
+    alignSelf: 'stretch',
+  },
+  errorText: {
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginVertical: spacing.md,
+  },
+});
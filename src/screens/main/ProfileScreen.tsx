@@ -5,8 +5,7 @@ import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '../../contexts/AuthContext';
 import { colors, spacing, elevation } from '../../theme';
-import { doc, getDoc, serverTimestamp, updateDoc } from 'firebase/firestore';
-import { db } from '../../config/firebase';
+import { ProfileManager } from '../../utils/ProfileManager';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { MainStackParamList } from '../../navigation/MainNavigator';
 
@@ -14,52 +13,24 @@ interface ProfileScreenProps {
   navigation: NativeStackNavigationProp<MainStackParamList, 'Profile'>;
 }
 
-interface UserProfile {
-  name: string;
-  email: string;
-  phoneNumber: string;
-  createdAt: Date;
-  updatedAt?: Date;
-}
-
 export default function ProfileScreen({ navigation }: ProfileScreenProps) {
-  const { user, signOut } = useAuth();
-  const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { user, profile, signOut } = useAuth();
   const [showSignOutModal, setShowSignOutModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
-  const [editName, setEditName] = useState('');
+  const [editFirstName, setEditFirstName] = useState('');
+  const [editLastName, setEditLastName] = useState('');
   const [editEmail, setEditEmail] = useState('');
   const [updating, setUpdating] = useState(false);
+  const [sendingVerification, setSendingVerification] = useState(false);
+  const [emailVerified, setEmailVerified] = useState(false);
 
+  // The verified flag only refreshes on reload after the link is opened
   useEffect(() => {
-    fetchProfile();
-  }, [user]);
-
-  const fetchProfile = async () => {
-    if (!user) return;
-
-    try {
-      setLoading(true);
-      const userDoc = await getDoc(doc(db, 'users', user.uid));
-      
-      if (userDoc.exists()) {
-        const userData = userDoc.data();
-        setProfile({
-          name: userData.name || '',
-          email: userData.email || '',
-          phoneNumber: userData.phoneNumber || user.phoneNumber || '',
-          createdAt: userData.createdAt?.toDate() || new Date(),
-          updatedAt: userData.updatedAt?.toDate(),
-        });
-      }
-    } catch (error) {
-      console.error('Error fetching profile:', error);
-      Alert.alert('Error', 'Failed to load profile data');
-    } finally {
-      setLoading(false);
-    }
-  };
+    if (!user || !profile?.email) return;
+    user.reload()
+      .then(() => setEmailVerified(ProfileManager.isEmailVerified(user, profile.email)))
+      .catch(error => console.error('Error refreshing email status:', error));
+  }, [user, profile?.email]);
 
   const handleSignOut = async () => {
     try {
@@ -76,35 +47,43 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
 
     try {
       setUpdating(true);
-      const userRef = doc(db, 'users', user.uid);
-      
-      const updateData = {
-        name: editName.trim(),
-        email: editEmail.trim(),
-        updatedAt: serverTimestamp(),
-      };
-
-      await updateDoc(userRef, updateData);
-      
-      setProfile(prev => prev ? {
-        ...prev,
-        name: editName.trim(),
-        email: editEmail.trim(),
-        updatedAt: new Date(),
-      } : null);
+      const sent = await ProfileManager.updateDetails(
+        user,
+        { firstName: editFirstName, lastName: editLastName },
+        editEmail,
+        profile?.email
+      );
 
       setShowEditModal(false);
-      Alert.alert('Success', 'Profile updated successfully');
-    } catch (error) {
+      Alert.alert(
+        'Success',
+        sent ? 'Profile updated. Check your inbox to verify your email.' : 'Profile updated successfully'
+      );
+    } catch (error: any) {
       console.error('Error updating profile:', error);
-      Alert.alert('Error', 'Failed to update profile. Please try again.');
+      Alert.alert('Error', error.message || 'Failed to update profile. Please try again.');
     } finally {
       setUpdating(false);
     }
   };
 
+  const handleVerifyEmail = async () => {
+    if (!user || !profile?.email) return;
+
+    try {
+      setSendingVerification(true);
+      await ProfileManager.sendEmailVerification(user, profile.email);
+      Alert.alert('Verification Sent', `Open the link we sent to ${profile.email} to verify it.`);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send the verification email');
+    } finally {
+      setSendingVerification(false);
+    }
+  };
+
   const handleEditProfile = () => {
-    setEditName(profile?.name || '');
+    setEditFirstName(profile?.firstName || '');
+    setEditLastName(profile?.lastName || '');
     setEditEmail(profile?.email || '');
     setShowEditModal(true);
   };
@@ -161,7 +140,23 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
                   <View style={styles.infoContent}>
                     <Text style={styles.infoLabel}>Email</Text>
                     <Text style={styles.infoValue}>{profile?.email || 'Not set'}</Text>
+                    {!!profile?.email && (
+                      <Text style={[styles.emailStatus, emailVerified && styles.emailVerified]}>
+                        {emailVerified ? 'Verified' : 'Not verified'}
+                      </Text>
+                    )}
                   </View>
+                  {!!profile?.email && !emailVerified && (
+                    <Button
+                      mode="text"
+                      compact
+                      onPress={handleVerifyEmail}
+                      loading={sendingVerification}
+                      disabled={sendingVerification}
+                    >
+                      Verify
+                    </Button>
+                  )}
                 </View>
                 <Divider style={styles.divider} />
                 <View style={styles.infoItem}>
@@ -270,9 +265,20 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
           
           <TextInput
             mode="outlined"
-            label="Name"
-            value={editName}
-            onChangeText={setEditName}
+            label="First Name"
+            value={editFirstName}
+            onChangeText={setEditFirstName}
+            autoCapitalize="words"
+            style={styles.modalInput}
+            disabled={updating}
+          />
+
+          <TextInput
+            mode="outlined"
+            label="Last Name"
+            value={editLastName}
+            onChangeText={setEditLastName}
+            autoCapitalize="words"
             style={styles.modalInput}
             disabled={updating}
           />
@@ -302,7 +308,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
               onPress={handleUpdateProfile}
               style={styles.modalButton}
               loading={updating}
-              disabled={updating || (!editName.trim() && !editEmail.trim())}
+              disabled={updating || !editFirstName.trim() || !editLastName.trim()}
             >
               Save Changes
             </Button>
@@ -452,6 +458,14 @@ const styles = StyleSheet.create({
     color: colors.text,
     fontWeight: '500',
   },
+  emailStatus: {
+    fontSize: 12,
+    color: colors.warning,
+    marginTop: spacing.xs,
+  },
+  emailVerified: {
+    color: colors.success,
+  },
   divider: {
     backgroundColor: colors.surfaceVariant,
     height: 1,
@@ -1,16 +1,44 @@
 import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { View, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
 import { Text, Button, Card, List, IconButton, Portal, Modal, TextInput, Surface } from 'react-native-paper';
-import { useWallet } from '../../contexts/WalletContext';
+import { useWallet, Transaction } from '../../contexts/WalletContext';
+import WithdrawModal from '../../components/WithdrawModal';
+import RewardCoinsModal from '../../components/RewardCoinsModal';
 import { colors, spacing } from '../../theme';
 import { AnimatedNumber } from '../../components/ui/AnimatedNumber';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 
+// Withdrawals log every payout status change; only the request takes
+// money out and only a failure or reversal puts it back
+const getDirection = (transaction: Transaction): 'in' | 'out' | 'neutral' => {
+  if (transaction.type === 'withdrawal') {
+    if (transaction.payoutStatus === 'requested') return 'out';
+    if (transaction.payoutStatus === 'failed' || transaction.payoutStatus === 'reversed') return 'in';
+    return 'neutral';
+  }
+  if (transaction.type === 'credit' || transaction.type === 'transfer_in') return 'in';
+  return 'out';
+};
+
 export default function WalletScreen() {
-  const { balance, rewardCoins, transactions, addMoney, refreshWallet } = useWallet();
+  const {
+    balance,
+    availableBalance,
+    heldBalance,
+    rewardCoins,
+    rewardCoinValue,
+    coinEntries,
+    transactions,
+    addMoney,
+    withdrawMoney,
+    redeemCoins,
+    refreshWallet,
+  } = useWallet();
   const [loading, setLoading] = useState(false);
   const [showAddFundsModal, setShowAddFundsModal] = useState(false);
+  const [showWithdrawModal, setShowWithdrawModal] = useState(false);
+  const [showCoinsModal, setShowCoinsModal] = useState(false);
   const [amount, setAmount] = useState('');
 
   const handleAddMoney = async () => {
@@ -54,9 +82,19 @@ export default function WalletScreen() {
               style={styles.balanceAmount}
             />
           </View>
+          {heldBalance > 0 && (
+            <View style={styles.heldContainer}>
+              <Text variant="bodyMedium" style={styles.heldText}>
+                Available ₹{availableBalance.toFixed(2)}
+              </Text>
+              <Text variant="bodyMedium" style={styles.heldText}>
+                Held as collateral ₹{heldBalance.toFixed(2)}
+              </Text>
+            </View>
+          )}
           
           <Surface style={styles.rewardContainer} elevation={2}>
-            <View style={styles.rewardContent}>
+            <TouchableOpacity style={styles.rewardContent} onPress={() => setShowCoinsModal(true)}>
               <MaterialCommunityIcons name="gift" size={24} color={colors.primary} />
               <View style={styles.rewardTextContainer}>
                 <Text variant="titleMedium" style={styles.rewardTitle}>Reward Coins</Text>
@@ -64,8 +102,12 @@ export default function WalletScreen() {
                   value={rewardCoins}
                   style={styles.rewardAmount}
                 />
+                <Text variant="bodySmall" style={styles.rewardTitle}>
+                  Worth ₹{rewardCoinValue.toFixed(2)}
+                </Text>
               </View>
-            </View>
+              <MaterialCommunityIcons name="chevron-right" size={24} color={colors.primary} />
+            </TouchableOpacity>
           </Surface>
         </View>
       </LinearGradient>
@@ -82,7 +124,7 @@ export default function WalletScreen() {
         </Button>
         <Button
           mode="contained"
-          onPress={() => Alert.alert('Coming Soon', 'Withdraw feature will be available soon!')}
+          onPress={() => setShowWithdrawModal(true)}
           style={[styles.actionButton, styles.withdrawButton]}
           icon="wallet-giftcard"
           contentStyle={styles.buttonContent}
@@ -125,64 +167,61 @@ export default function WalletScreen() {
         </Surface>
       ) : (
         <Surface style={styles.transactionsList} elevation={2}>
-          {transactions.map((transaction) => (
-            <List.Item
-              key={transaction.id}
-              title={transaction.description}
-              description={new Date(transaction.timestamp).toLocaleDateString()}
-              left={props => (
-                <View style={[
-                  styles.transactionIcon,
-                  {
-                    backgroundColor: transaction.type === 'credit'
-                      ? colors.success + '20'
-                      : transaction.type === 'debit'
-                      ? colors.error + '20'
-                      : colors.primary + '20'
-                  }
-                ]}>
-                  <List.Icon
-                    {...props}
-                    icon={
-                      transaction.type === 'credit'
-                        ? 'arrow-down'
-                        : transaction.type === 'debit'
-                        ? 'arrow-up'
-                        : 'swap-horizontal'
-                    }
-                    color={
-                      transaction.type === 'credit'
-                        ? colors.success
-                        : transaction.type === 'debit'
-                        ? colors.error
-                        : colors.primary
-                    }
-                  />
-                </View>
-              )}
-              right={() => (
-                <Text
-                  style={[
-                    styles.transactionAmount,
-                    {
-                      color:
-                        transaction.type === 'credit'
-                          ? colors.success
-                          : transaction.type === 'debit'
-                          ? colors.error
-                          : colors.primary,
-                    },
-                  ]}
-                >
-                  {transaction.type === 'credit' ? '+' : '-'}₹{transaction.amount}
-                </Text>
-              )}
-              style={styles.transactionItem}
-            />
-          ))}
+          {transactions.map((transaction) => {
+            const direction = getDirection(transaction);
+            const color = direction === 'in'
+              ? colors.success
+              : direction === 'out'
+              ? colors.error
+              : colors.primary;
+
+            return (
+              <List.Item
+                key={transaction.id}
+                title={transaction.description}
+                description={new Date(transaction.timestamp).toLocaleDateString()}
+                left={props => (
+                  <View style={[styles.transactionIcon, { backgroundColor: color + '20' }]}>
+                    <List.Icon
+                      {...props}
+                      icon={
+                        direction === 'in'
+                          ? 'arrow-down'
+                          : direction === 'out'
+                          ? 'arrow-up'
+                          : 'bank-transfer-out'
+                      }
+                      color={color}
+                    />
+                  </View>
+                )}
+                right={() => (
+                  <Text style={[styles.transactionAmount, { color }]}>
+                    {direction === 'in' ? '+' : direction === 'out' ? '-' : ''}₹{transaction.amount}
+                  </Text>
+                )}
+                style={styles.transactionItem}
+              />
+            );
+          })}
         </Surface>
       )}
 
+      <WithdrawModal
+        visible={showWithdrawModal}
+        availableBalance={availableBalance}
+        onDismiss={() => setShowWithdrawModal(false)}
+        onWithdraw={withdrawMoney}
+      />
+
+      <RewardCoinsModal
+        visible={showCoinsModal}
+        rewardCoins={rewardCoins}
+        coinEntries={coinEntries}
+        onDismiss={() => setShowCoinsModal(false)}
+        onRedeem={redeemCoins}
+      />
+
       <Portal>
         <Modal
           visible={showAddFundsModal}
@@ -259,6 +298,16 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: colors.surface,
   },
+  heldContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: -spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  heldText: {
+    color: colors.surface,
+    opacity: 0.9,
+  },
   rewardContainer: {
     backgroundColor: colors.surface,
     borderRadius: 12,
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { TextInput, Button, Text, HelperText } from 'react-native-paper';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../contexts/AuthContext';
+import { OnboardingStackParamList } from '../../navigation/OnboardingNavigator';
+import { ProfileManager, ProfileError } from '../../utils/ProfileManager';
+import OnboardingProgress from '../../components/OnboardingProgress';
+import { colors, spacing } from '../../theme';
+
+type EmailScreenProps = {
+  navigation: NativeStackNavigationProp<OnboardingStackParamList, 'OnboardingEmail'>;
+  route: RouteProp<OnboardingStackParamList, 'OnboardingEmail'>;
+};
+
+export default function EmailScreen({ navigation, route }: EmailScreenProps) {
+  const { profile } = useAuth();
+  const [email, setEmail] = useState(profile?.email || '');
+  const [error, setError] = useState('');
+
+  const handleNext = (skip = false) => {
+    try {
+      const validEmail = skip ? '' : ProfileManager.validateEmail(email);
+      setError('');
+      navigation.navigate('OnboardingTerms', { ...route.params, email: validEmail });
+    } catch (error) {
+      setError(error instanceof ProfileError ? error.message : 'Please check your email');
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        <OnboardingProgress step={2} />
+
+        <Text variant="headlineMedium" style={styles.title}>
+          Add your email
+        </Text>
+        <Text variant="bodyLarge" style={styles.subtitle}>
+          Optional. We'll send receipts and payout updates here once you verify it.
+        </Text>
+
+        <TextInput
+          mode="outlined"
+          label="Email"
+          value={email}
+          onChangeText={setEmail}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoComplete="email"
+          style={styles.input}
+        />
+        <HelperText type={error ? 'error' : 'info'} visible>
+          {error || 'You can verify it now or later from your profile'}
+        </HelperText>
+
+        <Button
+          mode="contained"
+          onPress={() => handleNext()}
+          disabled={!email.trim()}
+          style={styles.button}
+        >
+          Continue
+        </Button>
+        <Button mode="text" onPress={() => handleNext(true)} style={styles.button}>
+          Skip for now
+        </Button>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.lg,
+  },
+  title: {
+    marginBottom: spacing.sm,
+    color: colors.primary,
+  },
+  subtitle: {
+    marginBottom: spacing.xl,
+    color: colors.text,
+  },
+  input: {
+    marginBottom: spacing.xs,
+  },
+  button: {
+    marginTop: spacing.md,
+  },
+});
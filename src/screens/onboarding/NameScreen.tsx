@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { TextInput, Button, Text, HelperText } from 'react-native-paper';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAuth } from '../../contexts/AuthContext';
+import { OnboardingStackParamList } from '../../navigation/OnboardingNavigator';
+import { ProfileManager, ProfileError } from '../../utils/ProfileManager';
+import OnboardingProgress from '../../components/OnboardingProgress';
+import { colors, spacing } from '../../theme';
+
+type NameScreenProps = {
+  navigation: NativeStackNavigationProp<OnboardingStackParamList, 'OnboardingName'>;
+};
+
+export default function NameScreen({ navigation }: NameScreenProps) {
+  const { profile, signOut } = useAuth();
+  // Profiles from before onboarding only have a single `name`
+  const [firstName, setFirstName] = useState(profile?.firstName || profile?.name?.split(' ')[0] || '');
+  const [lastName, setLastName] = useState(profile?.lastName || profile?.name?.split(' ').slice(1).join(' ') || '');
+  const [error, setError] = useState('');
+
+  const handleNext = () => {
+    try {
+      const names = ProfileManager.validateNames({ firstName, lastName });
+      setError('');
+      navigation.navigate('OnboardingEmail', names);
+    } catch (error) {
+      setError(error instanceof ProfileError ? error.message : 'Please check your name');
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        <OnboardingProgress step={1} />
+
+        <Text variant="headlineMedium" style={styles.title}>
+          What's your name?
+        </Text>
+        <Text variant="bodyLarge" style={styles.subtitle}>
+          Group members see this when you join their orders
+        </Text>
+
+        <TextInput
+          mode="outlined"
+          label="First Name"
+          value={firstName}
+          onChangeText={setFirstName}
+          autoCapitalize="words"
+          autoComplete="given-name"
+          style={styles.input}
+        />
+        <TextInput
+          mode="outlined"
+          label="Last Name"
+          value={lastName}
+          onChangeText={setLastName}
+          autoCapitalize="words"
+          autoComplete="family-name"
+          style={styles.input}
+        />
+        <HelperText type="error" visible={!!error}>
+          {error}
+        </HelperText>
+
+        <Button
+          mode="contained"
+          onPress={handleNext}
+          disabled={!firstName.trim() || !lastName.trim()}
+          style={styles.button}
+        >
+          Continue
+        </Button>
+        <Button mode="text" onPress={signOut} style={styles.button}>
+          Use a different number
+        </Button>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.lg,
+  },
+  title: {
+    marginBottom: spacing.sm,
+    color: colors.primary,
+  },
+  subtitle: {
+    marginBottom: spacing.xl,
+    color: colors.text,
+  },
+  input: {
+    marginBottom: spacing.md,
+  },
+  button: {
+    marginTop: spacing.md,
+  },
+});
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Button, Text, Checkbox, Card } from 'react-native-paper';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { useAuth } from '../../contexts/AuthContext';
+import { OnboardingStackParamList } from '../../navigation/OnboardingNavigator';
+import { GROUP_COLLATERAL_AMOUNT } from '../../utils/GroupManager';
+import OnboardingProgress from '../../components/OnboardingProgress';
+import { colors, spacing } from '../../theme';
+
+type TermsScreenProps = {
+  navigation: NativeStackNavigationProp<OnboardingStackParamList, 'OnboardingTerms'>;
+  route: RouteProp<OnboardingStackParamList, 'OnboardingTerms'>;
+};
+
+const TERMS: { icon: keyof typeof MaterialCommunityIcons.glyphMap; text: string }[] = [
+  { icon: 'account-group', text: 'Group leaders place the order and split the bill from the order screenshot.' },
+  { icon: 'lock', text: 'Your share is held in escrow once you approve the split and released when you collect.' },
+  { icon: 'alert-circle', text: 'Missing a pickup may cost you a no-show penalty paid to the group leader.' },
+  { icon: 'scale-balance', text: 'Disputes are reviewed by support, whose decision settles the order.' },
+];
+
+export default function TermsScreen({ route }: TermsScreenProps) {
+  const { completeOnboarding } = useAuth();
+  const [acceptedTerms, setAcceptedTerms] = useState(false);
+  const [consentedToCollateral, setConsentedToCollateral] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  // The app switches to the main screens once the profile is saved
+  const handleFinish = async () => {
+    try {
+      setLoading(true);
+      await completeOnboarding({ ...route.params, acceptedTerms, consentedToCollateral });
+    } catch (error: any) {
+      console.error('Error completing onboarding:', error);
+      Alert.alert('Error', error.message || 'Failed to save your details. Please try again.');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        <OnboardingProgress step={3} />
+
+        <Text variant="headlineMedium" style={styles.title}>
+          How GatherPay works
+        </Text>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            {TERMS.map(term => (
+              <View key={term.icon} style={styles.term}>
+                <MaterialCommunityIcons name={term.icon} size={20} color={colors.primary} />
+                <Text variant="bodyMedium" style={styles.termText}>{term.text}</Text>
+              </View>
+            ))}
+          </Card.Content>
+        </Card>
+
+        <Card style={[styles.card, styles.collateralCard]}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.collateralTitle}>
+              ₹{GROUP_COLLATERAL_AMOUNT} collateral per group
+            </Text>
+            <Text variant="bodyMedium" style={styles.collateralText}>
+              Creating or joining a group holds ₹{GROUP_COLLATERAL_AMOUNT} of your wallet balance.
+              It stays in your wallet but can't be spent or withdrawn until you leave the group.
+            </Text>
+          </Card.Content>
+        </Card>
+
+        <Checkbox.Item
+          label="I accept the GatherPay terms of service and privacy policy"
+          status={acceptedTerms ? 'checked' : 'unchecked'}
+          onPress={() => setAcceptedTerms(!acceptedTerms)}
+          position="leading"
+          labelStyle={styles.checkboxLabel}
+          disabled={loading}
+        />
+        <Checkbox.Item
+          label={`I agree to ₹${GROUP_COLLATERAL_AMOUNT} being held from my wallet for each group I'm in`}
+          status={consentedToCollateral ? 'checked' : 'unchecked'}
+          onPress={() => setConsentedToCollateral(!consentedToCollateral)}
+          position="leading"
+          labelStyle={styles.checkboxLabel}
+          disabled={loading}
+        />
+
+        <Button
+          mode="contained"
+          onPress={handleFinish}
+          loading={loading}
+          disabled={!acceptedTerms || !consentedToCollateral || loading}
+          style={styles.button}
+        >
+          Get Started
+        </Button>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.lg,
+  },
+  title: {
+    marginBottom: spacing.lg,
+    color: colors.primary,
+  },
+  card: {
+    marginBottom: spacing.md,
+  },
+  term: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginVertical: spacing.xs,
+  },
+  termText: {
+    flex: 1,
+    marginLeft: spacing.sm,
+    color: colors.text,
+  },
+  collateralCard: {
+    backgroundColor: colors.surfaceVariant,
+  },
+  collateralTitle: {
+    color: colors.primary,
+    marginBottom: spacing.xs,
+  },
+  collateralText: {
+    color: colors.textSecondary,
+  },
+  checkboxLabel: {
+    textAlign: 'left',
+  },
+  button: {
+    marginTop: spacing.lg,
+  },
+});
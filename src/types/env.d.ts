@@ -6,4 +6,6 @@ declare module '@env' {
   export const FIREBASE_MESSAGING_SENDER_ID: string;
   export const FIREBASE_APP_ID: string;
   export const FIREBASE_MEASUREMENT_ID: string;
+  export const RAZORPAY_KEY_ID: string;
+  export const FIREBASE_EMULATOR_HOST: string | undefined;
 } 
\ No newline at end of file
@@ -1,25 +1,229 @@
+import { PlatformId } from '../config/platforms';
+
+// Changed only by Cloud Functions through GroupLifecycle
+export type GroupStatus = 'open' | 'ordering' | 'ordered' | 'completed' | 'cancelled';
+
+export type OrderStatus = 'pending' | 'splitting' | 'delivering' | 'completed' | 'disputed' | 'cancelled';
+
+// Only one deadline runs at a time: gathering members while the group is
+// open, the screenshot while the order is pending, approvals while it is
+// splitting, handover while it is delivering
+export type DeadlineKind = 'gathering' | 'screenshot' | 'approval' | 'delivery';
+
+export interface GroupDeadline {
+  kind: DeadlineKind;
+  at: Date;
+}
+
+// Public groups show up in discovery. Invite-only groups are hidden and
+// need an invite; approval groups are listed but the leader lets each
+// member in, unless they bring an invite.
+export type GroupVisibility = 'public' | 'invite_only' | 'approval';
+
+// groups/{groupId}/invites/{code}, read by the leader
+export interface GroupInvite {
+  code: string;
+  createdBy: string;
+  maxUses: number;
+  uses: number;
+  expiresAt: Date;
+  revoked: boolean;
+  createdAt: Date;
+}
+
+// Shown to someone opening an invite, before they can read the group
+export interface InvitePreview {
+  name: string;
+  description: string;
+  platform: PlatformId;
+  targetAmount: number;
+  memberCount: number;
+  usesLeft: number;
+  expiresAt: Date;
+}
+
+export type JoinRequestStatus = 'pending' | 'rejected';
+
+// groups/{groupId}/join_requests/{userId}, removed once the member is let in
+export interface JoinRequest {
+  userId: string;
+  name?: string;
+  status: JoinRequestStatus;
+  createdAt: Date;
+}
+
+export type LeaderPollStatus = 'open' | 'elected' | 'expired';
+
+// Members vote in the group chat (groups/{groupId}/leader_polls/{pollId})
+export interface LeaderPoll {
+  id: string;
+  startedBy: string;
+  candidates: string[]; // The leader at the time, then each nominee
+  votes: Record<string, string>; // Voter to candidate
+  status: LeaderPollStatus;
+  winnerId?: string;
+  createdAt: Date;
+  closesAt: Date;
+}
+
+export type LifecycleEvent =
+  | 'start_order'
+  | 'submit_split'
+  | 'lock_escrow'
+  | 'open_dispute'
+  | 'reject_dispute'
+  | 'uphold_dispute'
+  | 'complete'
+  | 'cancel_order'
+  | 'cancel_group'
+  | 'expire_order';
+
+// One entry per lifecycle event (groups/{groupId}/transitions)
+export interface GroupTransition {
+  id: string;
+  event: LifecycleEvent;
+  actorId: string | null; // null for scheduled jobs
+  group: { from: GroupStatus; to: GroupStatus } | null;
+  order: { id: string; from: OrderStatus | null; to: OrderStatus } | null;
+  at: Date;
+}
+
 export interface Group {
   id: string;
   name: string;
   description: string;
   memberCount: number;
   targetAmount: number;
-  status: 'open' | 'ordering' | 'ordered' | 'completed' | 'cancelled';
+  platform?: PlatformId; // Missing on groups created before platforms were added
+  visibility?: GroupVisibility; // Missing means public
+  committedAmount?: number; // Members' cart total, kept by Cloud Functions
+  targetReachedAt?: Date; // Set when the carts first reach the target
+  deadline?: GroupDeadline | null; // Cleared while nothing is waiting on a deadline
+  status: GroupStatus;
   createdBy: string;
+  leaderId?: string; // Missing on groups created before leadership could change
+  leaderPollId?: string; // The leader poll running in the group chat
   members: { [key: string]: boolean };
   location: {
     latitude: number;
     longitude: number;
     lastUpdated?: Date;
   };
+  geohash?: string; // Derived from location by Cloud Functions
+  currentOrder?: {
+    id: string;
+    status: OrderStatus;
+  };
   distance?: number; // Distance from user in meters
 }
 
+// One product in a member's cart. The link or SKU helps the leader find
+// it in the delivery app.
+export interface CartLine {
+  name: string;
+  quantity: number;
+  unitMRP: number;
+  link?: string;
+  sku?: string;
+}
+
 export interface OrderItem {
   userId: string;
-  items: string;
+  items: string; // Summary of the lines
+  lines?: CartLine[]; // Missing on items added before carts had lines
+  itemMRP: number; // Total of the lines
+  finalAmount?: number; // Set once the split is calculated
+  received: boolean;
+  receivedAt?: Date;
+  noShow?: boolean;
+  noShowPenalty?: number;
+  coinsToApply?: number; // Reward coins the member wants to put towards their share
+}
+
+// A member's items while the group is gathering (groups/{groupId}/carts/{userId})
+export interface CartEntry {
+  userId: string;
+  items: string; // Summary of the lines
+  lines?: CartLine[]; // Missing on carts saved before lines were added
+  itemMRP: number; // Total of the lines
+  coinsToApply?: number;
+  updatedAt?: Date;
+}
+
+export type SplitStrategyId = 'proportional' | 'equal_fees' | 'coupon_items' | 'single_tax_payer' | 'custom';
+
+// What the platform added to and took off the members' MRP, in rupees
+export interface SplitCharges {
+  tax: number;
+  fees: number; // Delivery and handling
+  discount: number;
+}
+
+// Kept on the order as `splitOptions`
+export interface SplitOptions {
+  strategy: SplitStrategyId;
+  taxPayerId?: string; // single_tax_payer
+  couponLines?: Record<string, number[]>; // coupon_items: line indexes per member
+  customAmounts?: Record<string, number>; // custom: each share before coins
+}
+
+export interface OrderSplit {
+  userId: string;
+  originalAmount: number;
+  taxShare: number;
+  feeShare?: number; // Missing on splits made before fees were split separately
+  discountShare: number;
+  adjustment?: number; // Custom splits: the leader's amount minus the MRP
+  finalAmount: number; // Cash the member pays, after any coin discount
+  coinsApplied?: number;
+  coinDiscount?: number; // Rupee value of the coins applied, funded by the rewards pool
+  approved: boolean;
+}
+
+// What on-device OCR read off the leader's order screenshot, in rupees.
+// Fields the parser couldn't find are left out.
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
   amount: number;
-  paid: boolean;
+}
+
+export interface ParsedReceipt {
+  items: ReceiptLine[];
+  subtotal?: number;
+  tax?: number;
+  fees?: number; // Delivery, handling and other platform charges
+  discount?: number;
+  grandTotal?: number;
+}
+
+export type ScreenshotIssueCode =
+  | 'UNREADABLE'
+  | 'SUBTOTAL_MISMATCH'
+  | 'TOTAL_MISMATCH'
+  | 'MISSING_ITEM'
+  | 'EXTRA_ITEM';
+
+export interface ScreenshotIssue {
+  code: ScreenshotIssueCode;
+  message: string;
+  userId?: string; // The member whose line is missing
+}
+
+// Kept on the order as `screenshotCheck` when the split is submitted
+export interface ScreenshotCheck {
+  status: 'verified' | 'mismatch' | 'unreadable';
+  receipt: ParsedReceipt | null;
+  issues: ScreenshotIssue[];
+}
+
+export type FraudReviewStatus = 'open' | 'cleared' | 'confirmed';
+
+// Kept on the order as `fraudReview`; nothing is settled while it is open
+export interface OrderFraudReview {
+  status: FraudReviewStatus;
+  reason: 'screenshot_reuse';
+  matchedOrders: number;
 }
 
 export interface Order {
@@ -27,15 +231,91 @@ export interface Order {
   groupId: string;
   leaderId: string;
   totalAmount: number;
-  items: OrderItem[];
-  screenshot: string;
-  status: 'pending' | 'confirmed' | 'completed';
+  totalTax: number;
+  totalFees?: number;
+  totalDiscount: number;
+  splitOptions?: SplitOptions; // Missing on orders split before strategies were added
+  screenshotCheck?: ScreenshotCheck; // Missing on orders split before screenshots were checked
+  fraudReview?: OrderFraudReview; // Only set when the screenshot was used before
+  items: Record<string, OrderItem>;
+  splits: Record<string, OrderSplit>;
+  screenshot: string | null;
+  status: OrderStatus;
+  createdAt: Date;
+  platformFee?: number;
+}
+
+export type EscrowHoldingStatus = 'held' | 'released' | 'refunded';
+
+export interface EscrowHolding {
+  userId: string;
+  amount: number; // Member's full share, cash plus coin discount
+  coinDiscount?: number;
+  coinsApplied?: number;
+  status: EscrowHoldingStatus;
+  platformFee?: number; // Set when the holding is released to the leader
+}
+
+export interface Escrow {
+  id: string; // Same as the order id
+  groupId: string;
+  orderId: string;
+  leaderId: string;
+  holdings: Record<string, EscrowHolding>;
+  status: 'holding' | 'settled';
+}
+
+export interface CollateralHold {
+  id: string; // `${groupId}_${userId}`
+  userId: string;
+  groupId: string;
+  amount: number;
+  status: 'active' | 'released';
+}
+
+export type CoinEntryKind = 'earn' | 'redeem' | 'split_offset' | 'expire';
+
+// Coins are kept in their own ledger so they never mix with cash entries
+export interface CoinEntry {
+  id: string;
+  userId: string;
+  kind: CoinEntryKind;
+  coins: number; // Positive for earned coins, negative for spent or expired ones
+  description: string;
   createdAt: Date;
+  expiresAt?: Date; // Earned lots only
+  remaining?: number; // Earned lots only; coins not yet spent or expired
+  groupId?: string;
+  orderId?: string;
+}
+
+export type PayoutStatus = 'requested' | 'processing' | 'paid' | 'failed' | 'reversed';
+
+export interface PayoutDestination {
+  id: string;
+  userId: string;
+  type: 'upi' | 'bank';
+  vpa?: string;
+  maskedAccountNumber?: string; // Full account numbers stay with the payout provider
+  ifsc?: string;
+  accountHolderName?: string;
+  fundAccountId: string;
+  verified: boolean;
+}
+
+export interface Payout {
+  id: string;
+  userId: string;
+  destinationId: string;
+  amount: number;
+  status: PayoutStatus;
+  providerPayoutId?: string;
+  failureReason?: string;
 }
 
 export interface Transaction {
   id: string;
-  type: 'credit' | 'debit' | 'transfer_in' | 'transfer_out';
+  type: 'credit' | 'debit' | 'transfer_in' | 'transfer_out' | 'withdrawal';
   amount: number;
   description: string;
   timestamp: Date;
@@ -46,4 +326,6 @@ export interface Transaction {
   orderId?: string;
   status: 'pending' | 'completed' | 'failed';
   failureReason?: string;
-} 
\ No newline at end of file
+  payoutId?: string;
+  payoutStatus?: PayoutStatus;
+} 
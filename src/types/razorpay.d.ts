@@ -0,0 +1,38 @@
+declare module 'react-native-razorpay' {
+  export interface CheckoutOptions {
+    key: string;
+    amount: number;
+    currency: string;
+    order_id: string;
+    name?: string;
+    description?: string;
+    image?: string;
+    prefill?: {
+      name?: string;
+      email?: string;
+      contact?: string;
+    };
+    notes?: Record<string, string>;
+    theme?: {
+      color?: string;
+    };
+  }
+
+  export interface CheckoutSuccess {
+    razorpay_payment_id: string;
+    razorpay_order_id: string;
+    razorpay_signature: string;
+  }
+
+  export interface CheckoutFailure {
+    code: number;
+    description: string;
+  }
+
+  const RazorpayCheckout: {
+    open(options: CheckoutOptions): Promise<CheckoutSuccess>;
+    onExternalWalletSelection(callback: (data: { external_wallet: string }) => void): void;
+  };
+
+  export default RazorpayCheckout;
+}
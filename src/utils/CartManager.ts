@@ -0,0 +1,165 @@
+import { db } from '../config/firebase';
+import {
+  doc,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  onSnapshot,
+  serverTimestamp,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { CartEntry, CartLine, Group, OrderItem } from '../types';
+import { GroupManager } from './GroupManager';
+import { Money } from '@shared/Money';
+
+// Also enforced by firestore.rules
+export const MAX_CART_LINES = 30;
+
+// The same product from several members, as the leader orders it
+export interface ConsolidatedLine {
+  name: string;
+  quantity: number;
+  unitMRP: number;
+  link?: string;
+  sku?: string;
+  userIds: string[];
+}
+
+export class CartError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'CartError';
+  }
+}
+
+// Members fill their carts while the group is open; starting the order
+// copies them into the order's items (OrderProcessor.createOrder), where
+// they can still be changed until the leader submits the split
+export class CartManager {
+  static cartRef(groupId: string, userId: string) {
+    return doc(db, 'groups', groupId, 'carts', userId);
+  }
+
+  // Worked out in paise; the server recomputes it the same way
+  // (functions/src/cartLines.ts)
+  static totalOf(lines: CartLine[]): number {
+    return Money.sum(lines.map(line => Money.of(line.quantity * line.unitMRP))).toRupees();
+  }
+
+  // Carts and items saved before lines were added become a single line
+  static linesOf(entry: Pick<CartEntry, 'items' | 'itemMRP' | 'lines'>): CartLine[] {
+    return entry.lines || [{ name: entry.items, quantity: 1, unitMRP: entry.itemMRP }];
+  }
+
+  static describe(lines: CartLine[]): string {
+    return lines.map(line => `${line.quantity}x ${line.name}`).join(', ');
+  }
+
+  // Returns the lines trimmed, without empty optional fields
+  static validateLines(lines: CartLine[]): CartLine[] {
+    if (!Array.isArray(lines) || lines.length === 0) {
+      throw new CartError('Please add at least one item', 'INVALID_ITEMS');
+    }
+    if (lines.length > MAX_CART_LINES) {
+      throw new CartError(`A cart can hold up to ${MAX_CART_LINES} items`, 'TOO_MANY_ITEMS');
+    }
+
+    return lines.map(line => {
+      if (!line.name?.trim()) {
+        throw new CartError('Every item needs a name', 'INVALID_ITEMS');
+      }
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        throw new CartError(`Invalid quantity for ${line.name.trim()}`, 'INVALID_QUANTITY');
+      }
+      if (typeof line.unitMRP !== 'number' || isNaN(line.unitMRP) || line.unitMRP <= 0) {
+        throw new CartError(`Invalid price for ${line.name.trim()}`, 'INVALID_AMOUNT');
+      }
+      return {
+        name: line.name.trim(),
+        quantity: line.quantity,
+        unitMRP: line.unitMRP,
+        ...(line.link?.trim() && { link: line.link.trim() }),
+        ...(line.sku?.trim() && { sku: line.sku.trim() }),
+      };
+    });
+  }
+
+  // Merges every member's lines into one list for the leader to copy into
+  // the delivery app. Lines match on SKU, then link, then name, at the
+  // same price.
+  static consolidate(items: Pick<OrderItem, 'userId' | 'lines'>[]): ConsolidatedLine[] {
+    const merged = new Map<string, ConsolidatedLine>();
+    items.forEach(item => {
+      (item.lines || []).forEach(line => {
+        const key = `${(line.sku || line.link || line.name).trim().toLowerCase()}@${Money.of(line.unitMRP).paise}`;
+        const existing = merged.get(key);
+        if (existing) {
+          existing.quantity += line.quantity;
+          if (!existing.userIds.includes(item.userId)) existing.userIds.push(item.userId);
+        } else {
+          merged.set(key, { ...line, userIds: [item.userId] });
+        }
+      });
+    });
+    return Array.from(merged.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  static async saveCart(
+    groupId: string,
+    userId: string,
+    lines: CartLine[],
+    coinsToApply: number = 0
+  ): Promise<void> {
+    const validLines = this.validateLines(lines);
+    if (!Number.isInteger(coinsToApply) || coinsToApply < 0) {
+      throw new CartError('Invalid number of coins', 'INVALID_COINS');
+    }
+
+    const groupDoc = await getDoc(doc(db, 'groups', groupId));
+    const group = groupDoc.data();
+    if (!group?.members?.[userId]) {
+      throw new CartError('Only group members can add items', 'NOT_MEMBER');
+    }
+    if (group.status !== 'open') {
+      throw new CartError('The order has already started', 'CART_LOCKED');
+    }
+    // The leader pays the platform directly, so there is no share to offset
+    if (coinsToApply > 0 && GroupManager.leaderOf(group as Group) === userId) {
+      throw new CartError('Coins can only be used on shares paid through the group', 'COINS_NOT_ALLOWED');
+    }
+
+    try {
+      await setDoc(this.cartRef(groupId, userId), {
+        userId,
+        items: this.describe(validLines),
+        lines: validLines,
+        itemMRP: this.totalOf(validLines),
+        ...(coinsToApply > 0 && { coinsToApply }),
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('Error saving cart:', error);
+      throw new CartError('Failed to save your items', 'PROCESSING_ERROR');
+    }
+  }
+
+  static async removeCart(groupId: string, userId: string): Promise<void> {
+    try {
+      await deleteDoc(this.cartRef(groupId, userId));
+    } catch (error) {
+      console.error('Error removing cart:', error);
+      throw new CartError('Failed to remove your items', 'PROCESSING_ERROR');
+    }
+  }
+
+  static subscribe(groupId: string, userId: string, onChange: (cart: CartEntry | null) => void): Unsubscribe {
+    return onSnapshot(
+      this.cartRef(groupId, userId),
+      (snapshot) => {
+        const data = snapshot.data();
+        onChange(data ? { ...data, updatedAt: data.updatedAt?.toDate() } as CartEntry : null);
+      },
+      (error) => console.error('Error loading cart:', error)
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { httpsCallable, FunctionsError } from 'firebase/functions';
+import { functions } from '../config/firebase';
+
+export const INTERNAL_ERROR = 'functions/internal';
+
+export class CloudFunctionError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'CloudFunctionError';
+  }
+}
+
+// Money only moves on the server (see functions/). Business rule failures
+// come back with the server's error code in `details`; anything else keeps
+// the Functions code, e.g. 'functions/internal'.
+export class CloudFunctions {
+  static async call<Request, Response = void>(name: string, data: Request): Promise<Response> {
+    try {
+      const result = await httpsCallable<Request, Response>(functions, name)(data);
+      return result.data;
+    } catch (error) {
+      const functionsError = error as FunctionsError;
+      const details = functionsError.details as { code?: string } | undefined;
+      throw new CloudFunctionError(
+        functionsError.message || 'Request failed',
+        details?.code || functionsError.code || INTERNAL_ERROR
+      );
+    }
+  }
+}
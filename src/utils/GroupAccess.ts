@@ -0,0 +1,102 @@
+import { collection, doc, onSnapshot, query, where, Unsubscribe } from 'firebase/firestore';
+import * as Linking from 'expo-linking';
+import { db } from '../config/firebase';
+import { CloudFunctions } from './CloudFunctions';
+import { GroupInvite, InvitePreview, JoinRequest } from '../types';
+
+export const INVITE_EXPIRY_OPTIONS = [6, 24, 48, 168]; // Hours
+
+export interface InviteInput {
+  maxUses: number;
+  expiresInHours: number;
+}
+
+const toDate = (value: any) => value?.toDate?.() || new Date();
+
+// Invites and join requests are written by Cloud Functions
+// (functions/src/GroupAccess.ts); the app reads them to show the leader
+// what is outstanding.
+export class GroupAccess {
+  // Opens the JoinInvite screen; also what the QR code encodes
+  static inviteLink(groupId: string, code: string): string {
+    return Linking.createURL(`invite/${groupId}/${code}`);
+  }
+
+  static async createInvite(groupId: string, input: InviteInput): Promise<string> {
+    const { code } = await CloudFunctions.call<{ groupId: string } & InviteInput, { code: string }>(
+      'createInvite',
+      { groupId, ...input }
+    );
+    return code;
+  }
+
+  static async revokeInvite(groupId: string, code: string): Promise<void> {
+    return CloudFunctions.call('revokeInvite', { groupId, code });
+  }
+
+  static async previewInvite(groupId: string, code: string): Promise<InvitePreview> {
+    const preview = await CloudFunctions.call<
+      { groupId: string; code: string },
+      Omit<InvitePreview, 'expiresAt'> & { expiresAt: string }
+    >('previewInvite', { groupId, code });
+    return { ...preview, expiresAt: new Date(preview.expiresAt) };
+  }
+
+  static async requestToJoin(groupId: string): Promise<void> {
+    return CloudFunctions.call('requestToJoin', { groupId });
+  }
+
+  // Approving joins them straight away, holding their collateral
+  static async decideJoinRequest(groupId: string, userId: string, approve: boolean): Promise<void> {
+    return CloudFunctions.call('decideJoinRequest', { groupId, userId, approve });
+  }
+
+  // Leader only; revoked invites are left out
+  static subscribeToInvites(groupId: string, onChange: (invites: GroupInvite[]) => void): Unsubscribe {
+    return onSnapshot(
+      query(collection(db, 'groups', groupId, 'invites'), where('revoked', '==', false)),
+      (snapshot) => {
+        onChange(snapshot.docs
+          .map(inviteDoc => ({
+            ...inviteDoc.data(),
+            code: inviteDoc.id,
+            expiresAt: toDate(inviteDoc.data().expiresAt),
+            createdAt: toDate(inviteDoc.data().createdAt),
+          } as GroupInvite))
+          .filter(invite => invite.expiresAt.getTime() > Date.now() && invite.uses < invite.maxUses));
+      },
+      (error) => console.error('Error loading invites:', error)
+    );
+  }
+
+  // Leader only
+  static subscribeToJoinRequests(groupId: string, onChange: (requests: JoinRequest[]) => void): Unsubscribe {
+    return onSnapshot(
+      query(collection(db, 'groups', groupId, 'join_requests'), where('status', '==', 'pending')),
+      (snapshot) => {
+        const requests = snapshot.docs.map(requestDoc => ({
+          ...requestDoc.data(),
+          createdAt: toDate(requestDoc.data().createdAt),
+        } as JoinRequest));
+        requests.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        onChange(requests);
+      },
+      (error) => console.error('Error loading join requests:', error)
+    );
+  }
+
+  static subscribeToMyRequest(
+    groupId: string,
+    userId: string,
+    onChange: (request: JoinRequest | null) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      doc(db, 'groups', groupId, 'join_requests', userId),
+      (snapshot) => {
+        const data = snapshot.data();
+        onChange(data ? { ...data, createdAt: toDate(data.createdAt) } as JoinRequest : null);
+      },
+      (error) => console.error('Error loading join request:', error)
+    );
+  }
+}
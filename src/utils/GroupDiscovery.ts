@@ -0,0 +1,138 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  startAt,
+  endAt,
+  limit,
+  onSnapshot,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { geohashQueryBounds, distanceBetween } from 'geofire-common';
+import { db } from '../config/firebase';
+import { Group, GroupStatus, GroupVisibility } from '../types';
+
+export const DISCOVERY_PAGE_SIZE = 20;
+
+// Radii offered on the home screen, in meters
+export const DISCOVERY_RADII = [1000, 2000, 5000, 10000];
+
+// Groups the user belongs to that are still in progress
+const ACTIVE_STATUSES: GroupStatus[] = ['open', 'ordering', 'ordered'];
+
+// Invite-only groups are left out of discovery, and firestore.rules only
+// lets non-members read groups they could have discovered
+const LISTED_VISIBILITIES: GroupVisibility[] = ['public', 'approval'];
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface NearbyGroups {
+  groups: Group[];
+  hasMore: boolean;
+}
+
+const distanceTo = (center: Coordinates, group: Group) =>
+  distanceBetween(
+    [center.latitude, center.longitude],
+    [group.location.latitude, group.location.longitude]
+  ) * 1000;
+
+// Groups carry a geohash (set by the createGroup function), so discovery
+// only reads the cells covering the radius instead of every open group
+export class GroupDiscovery {
+  // Never offer a radius beyond what the user's privacy settings allow
+  static radiusOptions(maxVisibilityRadius: number): number[] {
+    const options = DISCOVERY_RADII.filter(radius => radius <= maxVisibilityRadius);
+    return options.length > 0 ? options : [maxVisibilityRadius];
+  }
+
+  static formatDistance(meters: number | undefined): string {
+    if (meters === undefined) return 'Unknown distance';
+    if (meters < 1000) {
+      return `${Math.round(meters)}m away`;
+    }
+    return `${(meters / 1000).toFixed(1)}km away`;
+  }
+
+  // Each cell is read up to `pages * DISCOVERY_PAGE_SIZE` groups; ask for
+  // another page when `hasMore` is set. Groups the user is in are left out.
+  static subscribeNearby(
+    userId: string,
+    center: Coordinates,
+    radius: number,
+    pages: number,
+    onChange: (result: NearbyGroups) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    const bounds = geohashQueryBounds([center.latitude, center.longitude], radius);
+    const pageLimit = pages * DISCOVERY_PAGE_SIZE;
+    const cells = new Map<number, { groups: Group[]; full: boolean }>();
+
+    const emit = () => {
+      if (cells.size < bounds.length) return;
+
+      const groups: Group[] = [];
+      let hasMore = false;
+      cells.forEach(cell => {
+        hasMore = hasMore || cell.full;
+        cell.groups.forEach(group => {
+          // Cells overlap the edge of the circle
+          const distance = distanceTo(center, group);
+          if (distance <= radius && !group.members?.[userId]) {
+            groups.push({ ...group, distance });
+          }
+        });
+      });
+
+      groups.sort((a, b) => (a.distance || 0) - (b.distance || 0));
+      onChange({ groups, hasMore });
+    };
+
+    const unsubscribes = bounds.map(([start, end], index) => onSnapshot(
+      query(
+        collection(db, 'groups'),
+        where('status', '==', 'open'),
+        where('visibility', 'in', LISTED_VISIBILITIES),
+        orderBy('geohash'),
+        startAt(start),
+        endAt(end),
+        limit(pageLimit)
+      ),
+      (snapshot) => {
+        cells.set(index, {
+          groups: snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Group)),
+          full: snapshot.size >= pageLimit,
+        });
+        emit();
+      },
+      onError
+    ));
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+
+  static subscribeMine(
+    userId: string,
+    center: Coordinates | null,
+    onChange: (groups: Group[]) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      query(collection(db, 'groups'), where(`members.${userId}`, '==', true)),
+      (snapshot) => {
+        const groups = snapshot.docs
+          .map(doc => ({ id: doc.id, ...doc.data() } as Group))
+          .filter(group => ACTIVE_STATUSES.includes(group.status))
+          .map(group => (center ? { ...group, distance: distanceTo(center, group) } : group));
+
+        groups.sort((a, b) => (a.distance || 0) - (b.distance || 0));
+        onChange(groups);
+      },
+      onError
+    );
+  }
+}
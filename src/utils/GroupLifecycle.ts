@@ -0,0 +1,112 @@
+import { Group, GroupStatus, LifecycleEvent, Order, OrderStatus } from '../types';
+
+export const MIN_ORDER_MEMBERS = 2;
+
+export class LifecycleError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'LifecycleError';
+  }
+}
+
+interface EventDefinition {
+  group?: { from: GroupStatus[]; to: GroupStatus };
+  order?: { from: OrderStatus[] | null; to: OrderStatus }; // null creates the order
+  guard?: (group: Group, order: Order | null) => void;
+}
+
+const orderItems = (order: Order | null) => Object.values(order?.items || {});
+
+// Mirrors functions/src/GroupLifecycle.ts, which applies the events; the
+// app only uses this to decide which actions to offer. Keep the two in step.
+const EVENTS: Record<LifecycleEvent, EventDefinition> = {
+  start_order: {
+    group: { from: ['open'], to: 'ordering' },
+    order: { from: null, to: 'pending' },
+    guard: (group) => {
+      if (Object.values(group.members).filter(Boolean).length < MIN_ORDER_MEMBERS) {
+        throw new LifecycleError(`Need at least ${MIN_ORDER_MEMBERS} members to start an order`, 'NOT_ENOUGH_MEMBERS');
+      }
+    },
+  },
+  submit_split: {
+    group: { from: ['ordering'], to: 'ordered' },
+    order: { from: ['pending'], to: 'splitting' },
+    guard: (group, order) => {
+      if (orderItems(order).length < MIN_ORDER_MEMBERS) {
+        throw new LifecycleError(`At least ${MIN_ORDER_MEMBERS} members must add items`, 'NOT_ENOUGH_ITEMS');
+      }
+    },
+  },
+  lock_escrow: {
+    order: { from: ['splitting'], to: 'delivering' },
+  },
+  open_dispute: {
+    order: { from: ['splitting', 'delivering'], to: 'disputed' },
+  },
+  reject_dispute: {
+    order: { from: ['disputed'], to: 'delivering' }, // Or back to splitting if nothing was locked
+  },
+  uphold_dispute: {
+    group: { from: ['ordered'], to: 'cancelled' },
+    order: { from: ['disputed'], to: 'cancelled' },
+  },
+  complete: {
+    group: { from: ['ordered'], to: 'completed' },
+    order: { from: ['delivering'], to: 'completed' },
+    guard: (group, order) => {
+      const splits = Object.values(order?.splits || {});
+      if (splits.length === 0 || !splits.every(split => split.approved)) {
+        throw new LifecycleError('Not all splits have been approved', 'SPLITS_NOT_APPROVED');
+      }
+      if (!orderItems(order).every(item => item.received || item.noShow)) {
+        throw new LifecycleError('Some members have not collected their items', 'DELIVERY_PENDING');
+      }
+    },
+  },
+  cancel_order: {
+    group: { from: ['ordering', 'ordered'], to: 'cancelled' },
+    order: { from: ['pending', 'splitting', 'delivering'], to: 'cancelled' },
+    guard: (group, order) => {
+      if (orderItems(order).some(item => item.received || item.noShow)) {
+        throw new LifecycleError('Items have already been handed over', 'DELIVERY_STARTED');
+      }
+    },
+  },
+  cancel_group: {
+    group: { from: ['open'], to: 'cancelled' },
+  },
+  expire_order: {
+    group: { from: ['ordering', 'ordered'], to: 'cancelled' },
+    order: { from: ['pending', 'splitting', 'delivering'], to: 'cancelled' },
+  },
+};
+
+export class GroupLifecycle {
+  // Throws if the event can't happen in the current state
+  static check(event: LifecycleEvent, group: Group, order: Order | null = null): void {
+    const definition = EVENTS[event];
+
+    if (definition.group && !definition.group.from.includes(group.status)) {
+      throw new LifecycleError(`This can't be done while the group is ${group.status}`, 'INVALID_GROUP_STATUS');
+    }
+    if (definition.order?.from === null && group.currentOrder) {
+      throw new LifecycleError('This group already has an order', 'ORDER_EXISTS');
+    }
+    if (definition.order?.from && (!order || !definition.order.from.includes(order.status))) {
+      throw new LifecycleError(`This can't be done while the order is ${order?.status || 'missing'}`, 'INVALID_ORDER_STATUS');
+    }
+
+    definition.guard?.(group, order);
+  }
+
+  static canFire(event: LifecycleEvent, group: Group, order: Order | null = null): boolean {
+    try {
+      this.check(event, group, order);
+      return true;
+    } catch (error) {
+      if (error instanceof LifecycleError) return false;
+      throw error;
+    }
+  }
+}
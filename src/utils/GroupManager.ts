@@ -0,0 +1,87 @@
+import { doc, onSnapshot, Unsubscribe } from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { CloudFunctions } from './CloudFunctions';
+import { PlatformId } from '../config/platforms';
+import { Group, GroupVisibility, LeaderPoll, LeaderPollStatus } from '../types';
+
+// Held from each member's wallet while they are in a group; the server
+// amount lives in functions/src/CollateralManager.ts
+export const GROUP_COLLATERAL_AMOUNT = 200;
+
+export interface GroupInput {
+  name: string;
+  description: string;
+  targetAmount: number;
+  platform: PlatformId;
+  visibility: GroupVisibility;
+  location: {
+    latitude: number;
+    longitude: number;
+  };
+}
+
+export interface LeaveResult {
+  deleted: boolean;
+  newLeaderId?: string;
+}
+
+// Joining and leaving place or free collateral, so membership changes run
+// in Cloud Functions, as do leadership changes
+export class GroupManager {
+  // Groups created before `leaderId` was added are led by their creator
+  static leaderOf(group: Pick<Group, 'leaderId' | 'createdBy'>): string {
+    return group.leaderId || group.createdBy;
+  }
+
+  static async createGroup(input: GroupInput): Promise<string> {
+    const { groupId } = await CloudFunctions.call<GroupInput, { groupId: string }>('createGroup', input);
+    return groupId;
+  }
+
+  // Private groups need an invite code (see GroupAccess)
+  static async joinGroup(groupId: string, inviteCode?: string): Promise<void> {
+    return CloudFunctions.call('joinGroup', { groupId, ...(inviteCode && { inviteCode }) });
+  }
+
+  static async leaveGroup(groupId: string): Promise<LeaveResult> {
+    return CloudFunctions.call('leaveGroup', { groupId });
+  }
+
+  // Leadership only changes while the group is open
+  static async handOffLeadership(groupId: string, newLeaderId: string): Promise<void> {
+    return CloudFunctions.call('handOffLeadership', { groupId, newLeaderId });
+  }
+
+  // Starts a poll in the group chat, or adds the candidate to the running one
+  static async nominateLeader(groupId: string, candidateId: string): Promise<string> {
+    const { pollId } = await CloudFunctions.call<{ groupId: string; candidateId: string }, { pollId: string }>(
+      'nominateLeader',
+      { groupId, candidateId }
+    );
+    return pollId;
+  }
+
+  static async voteForLeader(groupId: string, pollId: string, candidateId: string): Promise<LeaderPollStatus> {
+    const { status } = await CloudFunctions.call<
+      { groupId: string; pollId: string; candidateId: string },
+      { status: LeaderPollStatus }
+    >('voteForLeader', { groupId, pollId, candidateId });
+    return status;
+  }
+
+  static subscribeToPoll(groupId: string, pollId: string, onChange: (poll: LeaderPoll | null) => void): Unsubscribe {
+    return onSnapshot(
+      doc(db, 'groups', groupId, 'leader_polls', pollId),
+      (snapshot) => {
+        const data = snapshot.data();
+        onChange(data ? {
+          id: snapshot.id,
+          ...data,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          closesAt: data.closesAt.toDate(),
+        } as LeaderPoll : null);
+      },
+      (error) => console.error('Error loading leader poll:', error)
+    );
+  }
+}
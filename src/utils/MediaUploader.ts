@@ -1,5 +1,6 @@
 import * as ImagePicker from 'expo-image-picker';
 import { Platform } from 'react-native';
+import { getStorage, ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { errorHandler } from './ErrorHandler';
 
 export interface MediaUploadResult {
@@ -8,6 +9,11 @@ export interface MediaUploadResult {
   timestamp: Date;
 }
 
+export interface UploadedScreenshot {
+  url: string;
+  path: string; // Storage path; the server hashes the file to catch reused screenshots
+}
+
 export class MediaUploader {
   static async requestPermissions() {
     if (Platform.OS !== 'web') {
@@ -81,6 +87,18 @@ export class MediaUploader {
     }
   }
 
+  // Order screenshots go to orders/{groupId}/, the only place submitSplit
+  // accepts them from
+  static async uploadOrderScreenshot(groupId: string, uri: string): Promise<UploadedScreenshot> {
+    const response = await fetch(uri);
+    const blob = await response.blob();
+
+    const path = `orders/${groupId}/${this.generateFilename('screenshot')}.jpg`;
+    const screenshotRef = ref(getStorage(), path);
+    await uploadBytes(screenshotRef, blob);
+    return { url: await getDownloadURL(screenshotRef), path };
+  }
+
   // Method to validate image dimensions and size
   static async validateImage(uri: string): Promise<boolean> {
     try {
@@ -0,0 +1,42 @@
+import {
+  PaymentGateway,
+  GatewayOrder,
+  CheckoutResult,
+  PaymentGatewayError,
+} from './PaymentGateway';
+
+const MOCK_SECRET = 'gatherpay_mock_secret';
+
+// FNV-1a, enough to make mock signatures deterministic and tamper-evident
+const hash = (value: string) => {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193) >>> 0;
+  }
+  return result.toString(16).padStart(8, '0');
+};
+
+const sign = (orderId: string, paymentId: string) => `mock_sig_${hash(`${orderId}|${paymentId}|${MOCK_SECRET}`)}`;
+
+// Offline stand-in for Razorpay's checkout, paired with the mock gateway in
+// the Functions emulator which checks the same signatures. Amounts listed
+// in `declinedAmounts` (in paise) fail at checkout.
+export class MockPaymentGateway implements PaymentGateway {
+  readonly name = 'mock' as const;
+
+  constructor(private declinedAmounts: number[] = []) {}
+
+  async checkout(order: GatewayOrder): Promise<CheckoutResult> {
+    if (this.declinedAmounts.includes(order.amount)) {
+      throw new PaymentGatewayError('Payment declined', 'PAYMENT_FAILED');
+    }
+
+    const paymentId = `mock_pay_${hash(order.id)}`;
+    return {
+      orderId: order.id,
+      paymentId,
+      signature: sign(order.id, paymentId),
+    };
+  }
+}
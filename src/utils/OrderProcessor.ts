@@ -1,49 +1,28 @@
 import { db } from '../config/firebase';
 import { 
   doc, 
-  collection,
   runTransaction,
-  serverTimestamp,
-  increment,
-  writeBatch,
-  getDocs,
-  query,
-  where,
-  orderBy,
-  limit 
 } from 'firebase/firestore';
+import { CartLine, OrderItem, OrderSplit, ParsedReceipt, SplitCharges, SplitOptions } from '../types';
+import { CloudFunctions, CloudFunctionError, INTERNAL_ERROR } from './CloudFunctions';
+import { CartManager } from './CartManager';
+import { UploadedScreenshot } from './MediaUploader';
 
-const PLATFORM_FEE_PERCENTAGE = 2; // 2% platform fee
-const NO_SHOW_PENALTY_MINUTES = 10;
-const NO_SHOW_PENALTY_PERCENTAGE = 20; // 20% penalty for no-shows
-const MAX_BATCH_SIZE = 500; // Firestore batch limit
-const MAX_RETRIES = 3;
+export type DisputeType = 'payment' | 'delivery' | 'quality' | 'other';
 
-class OrderProcessingError extends Error {
+export interface DisputeInput {
+  type: DisputeType;
+  description: string;
+  evidence: string | null;
+}
+
+export class OrderProcessingError extends Error {
   constructor(message: string, public code: string) {
     super(message);
     this.name = 'OrderProcessingError';
   }
 }
 
-interface OrderItem {
-  userId: string;
-  itemMRP: number;
-  finalAmount: number;
-  approved: boolean;
-  received: boolean;
-  receivedAt?: Date;
-}
-
-interface OrderSplit {
-  userId: string;
-  originalAmount: number;
-  taxShare: number;
-  discountShare: number;
-  finalAmount: number;
-  approved: boolean;
-}
-
 export class OrderProcessor {
   private static async validateOrder(orderId: string, transaction: any) {
     const orderRef = doc(db, 'orders', orderId);
@@ -65,288 +44,145 @@ export class OrderProcessor {
     return orderData;
   }
 
-  private static async validateGroupMembers(groupId: string, transaction: any) {
-    const groupRef = doc(db, 'groups', groupId);
-    const groupDoc = await transaction.get(groupRef);
-    
-    if (!groupDoc.exists()) {
-      throw new OrderProcessingError('Group not found', 'GROUP_NOT_FOUND');
+  // Replaces the member's lines while the order is pending
+  static async addItem(
+    orderId: string,
+    userId: string,
+    lines: CartLine[],
+    coinsToApply: number = 0
+  ): Promise<void> {
+    const validLines = CartManager.validateLines(lines);
+    if (!Number.isInteger(coinsToApply) || coinsToApply < 0) {
+      throw new OrderProcessingError('Invalid number of coins', 'INVALID_COINS');
     }
 
-    const groupData = groupDoc.data();
-    if (groupData.status !== 'ordered') {
-      throw new OrderProcessingError('Invalid group status', 'INVALID_GROUP_STATUS');
-    }
+    try {
+      await runTransaction(db, async (transaction) => {
+        const orderData = await this.validateOrder(orderId, transaction);
+        if (orderData.status !== 'pending') {
+          throw new OrderProcessingError('Items can no longer be changed', 'INVALID_ORDER_STATUS');
+        }
 
-    return groupData.members;
-  }
+        const groupDoc = await transaction.get(doc(db, 'groups', orderData.groupId));
+        if (!groupDoc.exists() || !groupDoc.data().members[userId]) {
+          throw new OrderProcessingError('Only group members can add items', 'NOT_MEMBER');
+        }
 
-  private static async validateUserWallets(members: string[], transaction: any) {
-    const walletValidations = await Promise.all(
-      members.map(async (userId) => {
-        const userRef = doc(db, 'users', userId);
-        const userDoc = await transaction.get(userRef);
-        
-        if (!userDoc.exists()) {
-          throw new OrderProcessingError(`User ${userId} not found`, 'USER_NOT_FOUND');
+        if (coinsToApply > 0) {
+          // The leader pays the platform directly, so there is no share to offset
+          if (orderData.leaderId === userId) {
+            throw new OrderProcessingError('Coins can only be used on shares paid through the group', 'COINS_NOT_ALLOWED');
+          }
+          const userDoc = await transaction.get(doc(db, 'users', userId));
+          if ((userDoc.data()?.wallet?.rewardCoins || 0) < coinsToApply) {
+            throw new OrderProcessingError('Not enough reward coins', 'INSUFFICIENT_COINS');
+          }
         }
 
-        return {
+        const item: OrderItem = {
           userId,
-          balance: userDoc.data().wallet.balance
+          items: CartManager.describe(validLines),
+          lines: validLines,
+          itemMRP: CartManager.totalOf(validLines),
+          received: false,
+          ...(coinsToApply > 0 && { coinsToApply }),
         };
-      })
-    );
-
-    return walletValidations;
-  }
 
-  static async calculateSplit(
-    items: OrderItem[],
-    totalTax: number,
-    totalDiscount: number
-  ): Promise<OrderSplit[]> {
-    try {
-      // Input validation
-      if (!Array.isArray(items) || items.length === 0) {
-        throw new OrderProcessingError('Invalid items array', 'INVALID_ITEMS');
-      }
-      if (typeof totalTax !== 'number' || totalTax < 0) {
-        throw new OrderProcessingError('Invalid tax amount', 'INVALID_TAX');
-      }
-      if (typeof totalDiscount !== 'number' || totalDiscount < 0) {
-        throw new OrderProcessingError('Invalid discount amount', 'INVALID_DISCOUNT');
-      }
-
-      const totalMRP = items.reduce((sum, item) => sum + item.itemMRP, 0);
-      if (totalMRP <= 0) {
-        throw new OrderProcessingError('Total MRP must be greater than 0', 'INVALID_TOTAL');
-      }
-
-      return items.map(item => {
-        const ratio = item.itemMRP / totalMRP;
-        const taxShare = Number((totalTax * ratio).toFixed(2));
-        const discountShare = Number((totalDiscount * ratio).toFixed(2));
-        const finalAmount = Number((item.itemMRP + taxShare - discountShare).toFixed(2));
-        
-        return {
-          userId: item.userId,
-          originalAmount: item.itemMRP,
-          taxShare,
-          discountShare,
-          finalAmount,
-          approved: false
-        };
+        transaction.update(doc(db, 'orders', orderId), {
+          [`items.${userId}`]: item,
+        });
       });
     } catch (error) {
       if (error instanceof OrderProcessingError) {
         throw error;
       }
-      throw new OrderProcessingError('Failed to calculate split', 'CALCULATION_ERROR');
+      throw new OrderProcessingError('Failed to add items', 'PROCESSING_ERROR');
     }
   }
 
-  static async processOrderCompletion(
-    groupId: string,
-    orderId: string,
-    leaderId: string,
-    splits: OrderSplit[]
-  ): Promise<boolean> {
-    let retryCount = 0;
-
-    while (retryCount < MAX_RETRIES) {
-      try {
-        await runTransaction(db, async (transaction) => {
-          // Validate order and group
-          const orderData = await this.validateOrder(orderId, transaction);
-          const members = await this.validateGroupMembers(groupId, transaction);
-          const wallets = await this.validateUserWallets(members, transaction);
-
-          // Verify all splits are approved
-          const allApproved = splits.every(split => split.approved);
-          if (!allApproved) {
-            throw new OrderProcessingError('Not all splits have been approved', 'SPLITS_NOT_APPROVED');
-          }
-
-          // Calculate platform fee
-          const totalAmount = splits.reduce((sum, split) => sum + split.finalAmount, 0);
-          const platformFee = Number((totalAmount * (PLATFORM_FEE_PERCENTAGE / 100)).toFixed(2));
-
-          // Process payments in batches if needed
-          const batch = writeBatch(db);
-          let operationCount = 0;
-
-          // Process each member's payment
-          for (const split of splits) {
-            if (split.userId === leaderId) continue;
-
-            const memberWallet = wallets.find(w => w.userId === split.userId);
-            if (!memberWallet) {
-              throw new OrderProcessingError(`Wallet not found for user ${split.userId}`, 'WALLET_NOT_FOUND');
-            }
-
-            if (memberWallet.balance < split.finalAmount) {
-              throw new OrderProcessingError(`Insufficient balance for user ${split.userId}`, 'INSUFFICIENT_BALANCE');
-            }
-
-            const memberWalletRef = doc(db, 'users', split.userId);
-            batch.update(memberWalletRef, {
-              'wallet.balance': increment(-split.finalAmount)
-            });
-
-            const memberTransactionRef = doc(collection(db, 'transactions'));
-            batch.set(memberTransactionRef, {
-              type: 'debit',
-              amount: split.finalAmount,
-              description: `Payment for group order in ${groupId}`,
-              timestamp: serverTimestamp(),
-              userId: split.userId,
-              groupId,
-              orderId,
-              status: 'completed'
-            });
-
-            operationCount += 2;
-            if (operationCount >= MAX_BATCH_SIZE) {
-              await batch.commit();
-              operationCount = 0;
-            }
-          }
-
-          // Process leader's payment
-          const leaderAmount = totalAmount - platformFee;
-          const leaderWalletRef = doc(db, 'users', leaderId);
-          batch.update(leaderWalletRef, {
-            'wallet.balance': increment(leaderAmount)
-          });
-
-          const leaderTransactionRef = doc(collection(db, 'transactions'));
-          batch.set(leaderTransactionRef, {
-            type: 'credit',
-            amount: leaderAmount,
-            description: `Received payment for group order in ${groupId}`,
-            timestamp: serverTimestamp(),
-            userId: leaderId,
-            groupId,
-            orderId,
-            status: 'completed',
-            platformFee
-          });
-
-          // Update order status
-          const orderRef = doc(db, 'orders', orderId);
-          batch.update(orderRef, {
-            status: 'completed',
-            completedAt: serverTimestamp(),
-            platformFee,
-            processedAt: serverTimestamp()
-          });
-
-          // Commit final batch
-          await batch.commit();
-
-          // Delete group in a separate operation
-          await transaction.delete(doc(db, 'groups', groupId));
-        });
-
-        return true;
-      } catch (error) {
-        retryCount++;
-        if (retryCount >= MAX_RETRIES || !(error instanceof OrderProcessingError)) {
-          throw error;
-        }
-        // Wait before retrying (exponential backoff)
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 1000));
+  // Status changes, splits, escrow, settlement and disputes run in Cloud
+  // Functions (functions/src/OrderProcessor.ts)
+  private static async call<Request, Response = void>(
+    name: string,
+    data: Request,
+    fallbackMessage: string
+  ): Promise<Response> {
+    try {
+      return await CloudFunctions.call<Request, Response>(name, data);
+    } catch (error) {
+      if (error instanceof CloudFunctionError && error.code !== INTERNAL_ERROR) {
+        throw new OrderProcessingError(error.message, error.code);
       }
+      throw new OrderProcessingError(fallbackMessage, 'PROCESSING_ERROR');
     }
+  }
 
-    return false;
+  // Members' carts become the order's items
+  static async createOrder(groupId: string): Promise<string> {
+    const result = await this.call<{ groupId: string }, { orderId: string }>(
+      'startOrder',
+      { groupId },
+      'Failed to create order'
+    );
+    return result.orderId;
   }
 
-  static async processNoShow(
-    groupId: string,
+  static async submitSplit(
     orderId: string,
-    userId: string,
-    leaderId: string
-  ): Promise<boolean> {
-    try {
-      await runTransaction(db, async (transaction) => {
-        // Validate order and user
-        const orderData = await this.validateOrder(orderId, transaction);
-        const userItem = orderData.items[userId];
-        
-        if (!userItem) {
-          throw new OrderProcessingError('User item not found', 'ITEM_NOT_FOUND');
-        }
-
-        if (userItem.noShow) {
-          throw new OrderProcessingError('User already marked as no-show', 'ALREADY_NO_SHOW');
-        }
-
-        // Calculate penalty
-        const penaltyAmount = Number((userItem.finalAmount * (NO_SHOW_PENALTY_PERCENTAGE / 100)).toFixed(2));
-
-        // Validate user wallet
-        const [userWallet, leaderWallet] = await this.validateUserWallets([userId, leaderId], transaction);
-        if (userWallet.balance < penaltyAmount) {
-          throw new OrderProcessingError('Insufficient balance for penalty', 'INSUFFICIENT_BALANCE');
-        }
-
-        const batch = writeBatch(db);
+    charges: SplitCharges,
+    splitOptions: SplitOptions,
+    screenshot: UploadedScreenshot,
+    receipt: ParsedReceipt | null = null
+  ): Promise<OrderSplit[]> {
+    return this.call('submitSplit', {
+      orderId,
+      totalTax: charges.tax,
+      totalFees: charges.fees,
+      totalDiscount: charges.discount,
+      splitOptions,
+      screenshot: screenshot.url,
+      screenshotPath: screenshot.path,
+      ...(receipt && { receipt }),
+    }, 'Failed to submit split');
+  }
 
-        // Deduct penalty from user's wallet
-        batch.update(doc(db, 'users', userId), {
-          'wallet.balance': increment(-penaltyAmount)
-        });
+  // Resolves true once every member has approved and funds are in escrow
+  static async approveSplit(orderId: string): Promise<boolean> {
+    const result = await this.call<{ orderId: string }, { locked: boolean }>(
+      'approveSplit',
+      { orderId },
+      'Failed to approve split'
+    );
+    return result.locked;
+  }
 
-        // Add penalty to leader's wallet
-        batch.update(doc(db, 'users', leaderId), {
-          'wallet.balance': increment(penaltyAmount)
-        });
+  static async confirmReceipt(orderId: string): Promise<void> {
+    return this.call('confirmReceipt', { orderId }, 'Failed to confirm receipt');
+  }
 
-        // Record penalty transactions
-        const transactionsRef = collection(db, 'transactions');
-        
-        // User penalty deduction
-        batch.set(doc(transactionsRef), {
-          type: 'debit',
-          amount: penaltyAmount,
-          description: `No-show penalty for group order in ${groupId}`,
-          timestamp: serverTimestamp(),
-          userId,
-          groupId,
-          orderId,
-          status: 'completed'
-        });
+  static async processNoShow(orderId: string, userId: string): Promise<void> {
+    return this.call('processNoShow', { orderId, userId }, 'Failed to process no-show penalty');
+  }
 
-        // Leader penalty receipt
-        batch.set(doc(transactionsRef), {
-          type: 'credit',
-          amount: penaltyAmount,
-          description: `Received no-show penalty for group order in ${groupId}`,
-          timestamp: serverTimestamp(),
-          userId: leaderId,
-          groupId,
-          orderId,
-          status: 'completed'
-        });
+  static async processOrderCompletion(orderId: string): Promise<void> {
+    return this.call('completeOrder', { orderId }, 'Failed to complete order');
+  }
 
-        // Update order item status
-        batch.update(doc(db, 'orders', orderId), {
-          [`items.${userId}.noShow`]: true,
-          [`items.${userId}.noShowPenalty`]: penaltyAmount,
-          [`items.${userId}.noShowTimestamp`]: serverTimestamp()
-        });
+  static async cancelOrder(orderId: string): Promise<void> {
+    return this.call('cancelOrder', { orderId }, 'Failed to cancel order');
+  }
 
-        await batch.commit();
-      });
+  static async openDispute(orderId: string, input: DisputeInput): Promise<string> {
+    const result = await this.call<{ orderId: string } & DisputeInput, { disputeId: string }>(
+      'openDispute',
+      { orderId, ...input },
+      'Failed to report the issue'
+    );
+    return result.disputeId;
+  }
 
-      return true;
-    } catch (error) {
-      if (error instanceof OrderProcessingError) {
-        throw error;
-      }
-      throw new OrderProcessingError('Failed to process no-show penalty', 'PROCESSING_ERROR');
-    }
+  // Support staff only; the function checks the caller's admin claim
+  static async resolveDispute(disputeId: string, upheld: boolean): Promise<void> {
+    return this.call('resolveDispute', { disputeId, upheld }, 'Failed to resolve dispute');
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,36 @@
+export type PaymentGatewayName = 'razorpay' | 'mock';
+
+// Amounts are in paise, as the gateways expect them
+export interface GatewayOrder {
+  id: string;
+  amount: number;
+  currency: 'INR';
+  receipt: string;
+  gateway: PaymentGatewayName;
+}
+
+export interface CheckoutPrefill {
+  name?: string;
+  email?: string;
+  contact?: string;
+}
+
+export interface CheckoutResult {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+}
+
+// Orders are created and confirmed by Cloud Functions, which hold the key
+// secret; only the checkout sheet runs on the device
+export interface PaymentGateway {
+  readonly name: PaymentGatewayName;
+  checkout(order: GatewayOrder, description: string, prefill?: CheckoutPrefill): Promise<CheckoutResult>;
+}
+
+export class PaymentGatewayError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'PaymentGatewayError';
+  }
+}
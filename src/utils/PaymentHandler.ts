@@ -1,47 +1,108 @@
-import { doc, updateDoc, addDoc, collection, serverTimestamp } from 'firebase/firestore';
-import { db } from '../config/firebase';
-import { errorHandler } from './ErrorHandler';
 import { notificationManager } from './NotificationManager';
+import { CloudFunctions, CloudFunctionError } from './CloudFunctions';
+import {
+  PaymentGateway,
+  PaymentGatewayName,
+  PaymentGatewayError,
+  GatewayOrder,
+  CheckoutPrefill,
+  CheckoutResult,
+} from './PaymentGateway';
+import { RazorpayGateway } from './RazorpayGateway';
+import { MockPaymentGateway } from './MockPaymentGateway';
+import { Money } from '@shared/Money';
+
+export interface TopUpResult {
+  success: boolean;
+  // Captured by the gateway but not yet confirmed; the webhook credits it
+  pending?: boolean;
+  paymentId?: string;
+  error?: string;
+  code?: string;
+}
+
+interface TopUpConfirmation {
+  status: 'captured' | 'failed' | 'pending';
+  amount: number;
+  failureReason?: string;
+}
+
+const gateways: Partial<Record<PaymentGatewayName, PaymentGateway>> = {};
 
 export class PaymentHandler {
-  static async processTestPayment(
-    userId: string,
+  // The server picks the gateway when it creates the order; the app only
+  // needs the matching checkout
+  static getGateway(name: PaymentGatewayName): PaymentGateway {
+    if (!gateways[name]) {
+      gateways[name] = name === 'razorpay' ? new RazorpayGateway() : new MockPaymentGateway();
+    }
+    return gateways[name]!;
+  }
+
+  static setGateway(gateway: PaymentGateway) {
+    gateways[gateway.name] = gateway;
+  }
+
+  static async topUp(
     amount: number,
-    description: string
-  ) {
+    description: string,
+    prefill?: CheckoutPrefill
+  ): Promise<TopUpResult> {
+    let orderId: string | null = null;
+
     try {
-      // Create payment record
-      const paymentRef = await addDoc(collection(db, 'payments'), {
-        userId,
-        amount,
-        description,
-        status: 'completed',
-        type: 'test',
-        timestamp: serverTimestamp(),
-      });
-
-      // Update user's wallet
-      const userRef = doc(db, 'users', userId);
-      await updateDoc(userRef, {
-        'wallet.balance': amount,
-        lastUpdated: serverTimestamp(),
-      });
-
-      // Send notification
+      // Gateways charge whole paise; the server turns fractions down too
+      if (!Money.isExact(amount)) {
+        throw new PaymentGatewayError('Amount can\'t have more than two decimal places', 'INVALID_AMOUNT');
+      }
+      const order = await CloudFunctions.call<{ amount: number; description: string }, GatewayOrder>(
+        'createTopUpOrder',
+        { amount, description }
+      );
+      orderId = order.id;
+
+      const result = await this.getGateway(order.gateway).checkout(order, description, prefill);
+      if (result.orderId !== order.id) {
+        throw new PaymentGatewayError('Payment signature verification failed', 'INVALID_SIGNATURE');
+      }
+
+      const confirmation = await CloudFunctions.call<CheckoutResult, TopUpConfirmation>('confirmTopUp', result);
+      if (confirmation.status === 'failed') {
+        return {
+          success: false,
+          paymentId: result.paymentId,
+          error: confirmation.failureReason || 'Payment failed',
+          code: 'PAYMENT_FAILED',
+        };
+      }
+
       await notificationManager.sendLocalNotification(
-        'Payment Successful',
-        `₹${amount} has been added to your wallet`
+        confirmation.status === 'captured' ? 'Payment Successful' : 'Payment Processing',
+        confirmation.status === 'captured'
+          ? `₹${Money.of(amount)} has been added to your wallet`
+          : `₹${Money.of(amount)} will be added to your wallet once the payment is confirmed`
       );
 
       return {
         success: true,
-        paymentId: paymentRef.id,
+        pending: confirmation.status === 'pending',
+        paymentId: result.paymentId,
       };
-    } catch (error:any) {
-      errorHandler.handleError(error, 'PaymentHandler');
+    } catch (error: any) {
+      console.error('Error processing top-up:', error);
+      // Checkout never completed, so there is no payment to confirm
+      if (orderId && error instanceof PaymentGatewayError) {
+        await CloudFunctions.call('cancelTopUp', {
+          orderId,
+          cancelled: error.code === 'PAYMENT_CANCELLED',
+          reason: error.message,
+        }).catch(() => undefined);
+      }
+      const known = error instanceof PaymentGatewayError || error instanceof CloudFunctionError;
       return {
         success: false,
-        error: 'Payment processing failed',
+        error: known ? error.message : 'Payment processing failed',
+        code: error?.code,
       };
     }
   }
@@ -55,4 +116,4 @@ export class PaymentHandler {
       status: 'completed',
     };
   }
-}
\ No newline at end of file
+}
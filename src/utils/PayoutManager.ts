@@ -0,0 +1,46 @@
+import { db } from '../config/firebase';
+import {
+  collection,
+  query,
+  where,
+  getDocs,
+} from 'firebase/firestore';
+import { Payout, PayoutDestination } from '../types';
+import { CloudFunctions } from './CloudFunctions';
+
+export interface DestinationInput {
+  type: 'upi' | 'bank';
+  vpa?: string;
+  accountNumber?: string;
+  ifsc?: string;
+}
+
+// Destinations are readable here; registering, verifying and paying out go
+// through the payout provider in Cloud Functions
+export class PayoutManager {
+  static async getDestinations(userId: string): Promise<PayoutDestination[]> {
+    const snapshot = await getDocs(query(
+      collection(db, 'payout_destinations'),
+      where('userId', '==', userId)
+    ));
+    return snapshot.docs.map(destination => ({ id: destination.id, ...destination.data() } as PayoutDestination));
+  }
+
+  static async addDestination(input: DestinationInput): Promise<PayoutDestination> {
+    return CloudFunctions.call('addPayoutDestination', input);
+  }
+
+  static async verifyDestination(destinationId: string): Promise<PayoutDestination> {
+    return CloudFunctions.call('verifyPayoutDestination', { destinationId });
+  }
+
+  // Moves the amount out of the wallet and hands the payout to the provider
+  static async requestPayout(destinationId: string, amount: number): Promise<Payout> {
+    return CloudFunctions.call('requestPayout', { destinationId, amount });
+  }
+
+  // Pulls the latest status from the provider
+  static async syncPayout(payoutId: string): Promise<Payout> {
+    return CloudFunctions.call('syncPayout', { payoutId });
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  ApplicationVerifier,
+  PhoneAuthProvider,
+  signInWithCredential,
+} from 'firebase/auth';
+import { FIREBASE_EMULATOR_HOST, FIREBASE_PROJECT_ID } from '@env';
+import { auth } from '../config/firebase';
+import { FIREBASE_TEST_NUMBERS } from './testData';
+
+export class PhoneAuthError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'PhoneAuthError';
+  }
+}
+
+// Firebase skips reCAPTCHA for console test numbers and on the Auth
+// emulator once app verification is disabled, but still expects a token
+class TestModeVerifier implements ApplicationVerifier {
+  readonly type = 'recaptcha';
+
+  async verify(): Promise<string> {
+    return 'test-mode-token';
+  }
+
+  // Called by the SDK after every attempt
+  _reset() {}
+}
+
+let activeVerifier: ApplicationVerifier | null = null;
+
+export class PhoneAuth {
+  // Registered by the RecaptchaVerifier component while it is mounted
+  static setVerifier(verifier: ApplicationVerifier | null) {
+    activeVerifier = verifier;
+  }
+
+  static isEmulator(): boolean {
+    return !!FIREBASE_EMULATOR_HOST;
+  }
+
+  // Numbers listed in FIREBASE_TEST_NUMBERS must also be added under
+  // Authentication -> Sign-in method -> Phone -> Phone numbers for testing
+  static isTestNumber(phoneNumber: string): boolean {
+    return __DEV__ && FIREBASE_TEST_NUMBERS.some(user => user.phoneNumber === phoneNumber);
+  }
+
+  static async sendCode(phoneNumber: string): Promise<string> {
+    const testMode = this.isEmulator() || this.isTestNumber(phoneNumber);
+    auth.settings.appVerificationDisabledForTesting = testMode;
+
+    const verifier = testMode ? new TestModeVerifier() : activeVerifier;
+    if (!verifier) {
+      throw new PhoneAuthError('Phone verification is not ready, please try again', 'VERIFIER_NOT_READY');
+    }
+
+    return new PhoneAuthProvider(auth).verifyPhoneNumber(phoneNumber, verifier);
+  }
+
+  static async confirmCode(verificationId: string, code: string): Promise<void> {
+    await signInWithCredential(auth, PhoneAuthProvider.credential(verificationId, code));
+  }
+
+  // The Auth emulator doesn't send SMS; it keeps the codes it would have sent
+  static async getEmulatorCode(verificationId: string): Promise<string | null> {
+    if (!this.isEmulator()) return null;
+
+    const response = await fetch(
+      `http://${FIREBASE_EMULATOR_HOST}:9099/emulator/v1/projects/${FIREBASE_PROJECT_ID}/verificationCodes`
+    );
+    if (!response.ok) return null;
+
+    const { verificationCodes = [] } = await response.json() as {
+      verificationCodes?: { code: string; sessionInfo: string }[];
+    };
+    return verificationCodes.find(entry => entry.sessionInfo === verificationId)?.code || null;
+  }
+}
@@ -0,0 +1,138 @@
+import { User, updateProfile, verifyBeforeUpdateEmail } from 'firebase/auth';
+import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// Bump when the terms change; users who accepted an older version are
+// asked again
+export const TERMS_VERSION = '2024-06';
+
+const MAX_NAME_LENGTH = 50;
+const NAME_PATTERN = /^[\p{L}][\p{L}\p{M} .'-]*$/u;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export interface NameInput {
+  firstName: string;
+  lastName: string;
+}
+
+export interface OnboardingInput extends NameInput {
+  email: string; // Optional, empty when skipped
+  acceptedTerms: boolean;
+  consentedToCollateral: boolean;
+}
+
+export class ProfileError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+export class ProfileManager {
+  static validateName(value: string, label: string): string {
+    const name = value.trim().replace(/\s+/g, ' ');
+    if (!name) {
+      throw new ProfileError(`Please enter your ${label}`, 'INVALID_NAME');
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new ProfileError(`Your ${label} can be at most ${MAX_NAME_LENGTH} characters`, 'INVALID_NAME');
+    }
+    if (!NAME_PATTERN.test(name)) {
+      throw new ProfileError(`Your ${label} can only contain letters, spaces, hyphens and apostrophes`, 'INVALID_NAME');
+    }
+    return name;
+  }
+
+  static validateNames(input: NameInput): NameInput {
+    return {
+      firstName: this.validateName(input.firstName, 'first name'),
+      lastName: this.validateName(input.lastName, 'last name'),
+    };
+  }
+
+  // Empty means no email
+  static validateEmail(value: string): string {
+    const email = value.trim().toLowerCase();
+    if (email && !EMAIL_PATTERN.test(email)) {
+      throw new ProfileError('Please enter a valid email address', 'INVALID_EMAIL');
+    }
+    return email;
+  }
+
+  static isEmailVerified(user: User, email?: string): boolean {
+    return !!email && user.emailVerified && user.email === email;
+  }
+
+  // The auth email only changes once the user opens the link, which is
+  // what marks it verified
+  static async sendEmailVerification(user: User, email: string): Promise<void> {
+    try {
+      await verifyBeforeUpdateEmail(user, email);
+    } catch (error: any) {
+      console.error('Error sending verification email:', error);
+      throw new ProfileError(
+        error.code === 'auth/requires-recent-login'
+          ? 'Please sign in again to verify your email'
+          : 'Failed to send the verification email',
+        'VERIFICATION_FAILED'
+      );
+    }
+  }
+
+  static async completeOnboarding(user: User, input: OnboardingInput): Promise<void> {
+    const { firstName, lastName } = this.validateNames(input);
+    const email = this.validateEmail(input.email);
+    if (!input.acceptedTerms) {
+      throw new ProfileError('Please accept the terms to continue', 'TERMS_NOT_ACCEPTED');
+    }
+    if (!input.consentedToCollateral) {
+      throw new ProfileError('Please agree to the group collateral to continue', 'COLLATERAL_CONSENT_REQUIRED');
+    }
+
+    await this.saveDetails(user, { firstName, lastName }, email, {
+      termsVersion: TERMS_VERSION,
+      termsAcceptedAt: serverTimestamp(),
+      collateralConsentAt: serverTimestamp(),
+      onboardingCompletedAt: serverTimestamp(),
+    });
+
+    // Verification can be finished later from the profile screen
+    if (email && !this.isEmailVerified(user, email)) {
+      await this.sendEmailVerification(user, email).catch(() => undefined);
+    }
+  }
+
+  // Returns whether a verification email was sent for a changed address
+  static async updateDetails(user: User, names: NameInput, emailInput: string, currentEmail?: string): Promise<boolean> {
+    const validNames = this.validateNames(names);
+    const email = this.validateEmail(emailInput);
+
+    await this.saveDetails(user, validNames, email);
+
+    if (email && email !== currentEmail && !this.isEmailVerified(user, email)) {
+      await this.sendEmailVerification(user, email);
+      return true;
+    }
+    return false;
+  }
+
+  // `name` is kept for the screens that show members by a single name, and
+  // the auth display name is what group chat messages carry
+  private static async saveDetails(
+    user: User,
+    { firstName, lastName }: NameInput,
+    email: string,
+    extra: Record<string, unknown> = {}
+  ) {
+    const name = `${firstName} ${lastName}`;
+    await updateDoc(doc(db, 'users', user.uid), {
+      firstName,
+      lastName,
+      name,
+      email,
+      ...extra,
+      updatedAt: serverTimestamp(),
+    });
+    await updateProfile(user, { displayName: name });
+  }
+}
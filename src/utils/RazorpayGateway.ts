@@ -0,0 +1,50 @@
+import RazorpayCheckout, { CheckoutFailure } from 'react-native-razorpay';
+import { RAZORPAY_KEY_ID } from '@env';
+import { colors } from '../theme';
+import {
+  PaymentGateway,
+  GatewayOrder,
+  CheckoutPrefill,
+  CheckoutResult,
+  PaymentGatewayError,
+} from './PaymentGateway';
+
+// Razorpay's checkout error codes for a user backing out of the sheet
+const CHECKOUT_CANCELLED_CODES = [0, 2];
+
+export class RazorpayGateway implements PaymentGateway {
+  readonly name = 'razorpay' as const;
+
+  constructor(private keyId: string = RAZORPAY_KEY_ID) {
+    if (!keyId) {
+      throw new PaymentGatewayError('Razorpay is not configured', 'GATEWAY_NOT_CONFIGURED');
+    }
+  }
+
+  async checkout(order: GatewayOrder, description: string, prefill?: CheckoutPrefill): Promise<CheckoutResult> {
+    try {
+      const result = await RazorpayCheckout.open({
+        key: this.keyId,
+        amount: order.amount,
+        currency: order.currency,
+        order_id: order.id,
+        name: 'GatherPay',
+        description,
+        prefill,
+        theme: { color: colors.primary },
+      });
+
+      return {
+        orderId: result.razorpay_order_id,
+        paymentId: result.razorpay_payment_id,
+        signature: result.razorpay_signature,
+      };
+    } catch (error) {
+      const failure = error as CheckoutFailure;
+      if (CHECKOUT_CANCELLED_CODES.includes(failure?.code)) {
+        throw new PaymentGatewayError('Payment was cancelled', 'PAYMENT_CANCELLED');
+      }
+      throw new PaymentGatewayError(failure?.description || 'Payment failed', 'PAYMENT_FAILED');
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { db } from '../config/firebase';
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  getDocs,
+} from 'firebase/firestore';
+import { CoinOffset, DEFAULT_REWARD_CONFIG, RewardConfig, RewardRules } from '@shared/RewardRules';
+import { CoinEntry } from '../types';
+import { CloudFunctions } from './CloudFunctions';
+
+// Display only; coins are earned, spent and expired by the Cloud Functions,
+// and the defaults are replaced with their config on each sync
+let config: RewardConfig = { ...DEFAULT_REWARD_CONFIG };
+
+const toDate = (value: any): Date | undefined => value?.toDate ? value.toDate() : value;
+
+export class RewardEngine {
+  static getConfig(): RewardConfig {
+    return config;
+  }
+
+  static configure(overrides: Partial<RewardConfig>) {
+    config = { ...config, ...overrides };
+  }
+
+  static coinsToRupees(coins: number): number {
+    return RewardRules.coinsToRupees(config, coins);
+  }
+
+  static offsetFor(amount: number, coins: number): CoinOffset {
+    return RewardRules.offsetFor(config, amount, coins);
+  }
+
+  static async getEntries(userId: string, maxEntries: number = 50): Promise<CoinEntry[]> {
+    const snapshot = await getDocs(query(
+      collection(db, 'coin_entries'),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc'),
+      limit(maxEntries)
+    ));
+
+    return snapshot.docs.map(entry => {
+      const data = entry.data();
+      return {
+        id: entry.id,
+        ...data,
+        createdAt: toDate(data.createdAt) || new Date(),
+        expiresAt: toDate(data.expiresAt),
+      } as CoinEntry;
+    });
+  }
+
+  // Lapses expired lots and gives pre-ledger coins a lot of their own
+  static async sync(): Promise<{ expired: number; adopted: number }> {
+    const result = await CloudFunctions.call<
+      Record<string, never>,
+      { expired: number; adopted: number; config: RewardConfig }
+    >('syncRewardCoins', {});
+    this.configure(result.config);
+    return { expired: result.expired, adopted: result.adopted };
+  }
+
+  // Resolves to the rupee amount credited to the wallet
+  static async redeem(coins: number): Promise<number> {
+    const result = await CloudFunctions.call<{ coins: number }, { amount: number }>('redeemCoins', { coins });
+    return result.amount;
+  }
+}
@@ -0,0 +1,47 @@
+import TextRecognition, { TextRecognitionResult } from '@react-native-ml-kit/text-recognition';
+import { PlatformId } from '../config/platforms';
+import { ParsedReceipt } from '../types';
+import { ReceiptParser } from '@shared/ReceiptParser';
+
+// Text rows of the screenshot, top to bottom. ML Kit returns the price
+// column as separate blocks, so lines are put back into rows by their
+// vertical position.
+const rowsOf = (result: TextRecognitionResult): string[] => {
+  const lines = result.blocks.flatMap(block => block.lines);
+  if (lines.some(line => !line.frame)) {
+    return result.text.split('\n');
+  }
+
+  const rows: { top: number; height: number; parts: { left: number; text: string }[] }[] = [];
+  [...lines]
+    .sort((a, b) => a.frame!.top - b.frame!.top)
+    .forEach(line => {
+      const frame = line.frame!;
+      const middle = frame.top + frame.height / 2;
+      const row = rows.find(candidate =>
+        Math.abs(candidate.top + candidate.height / 2 - middle) < Math.min(candidate.height, frame.height) / 2);
+      if (row) {
+        row.parts.push({ left: frame.left, text: line.text });
+      } else {
+        rows.push({ top: frame.top, height: frame.height, parts: [{ left: frame.left, text: line.text }] });
+      }
+    });
+  return rows.map(row => row.parts.sort((a, b) => a.left - b.left).map(part => part.text).join(' '));
+};
+
+// Reads the leader's screenshot; the result is checked against the carts by
+// the same ScreenshotVerifier the Cloud Functions run
+export class ScreenshotReader {
+  // Reads the order summary on the device. Resolves to null when nothing
+  // could be read, including in builds without the text recognition module.
+  static async read(uri: string, platform?: PlatformId): Promise<ParsedReceipt | null> {
+    try {
+      const result = await TextRecognition.recognize(uri);
+      const receipt = ReceiptParser.parse(rowsOf(result), platform);
+      return ReceiptParser.isEmpty(receipt) ? null : receipt;
+    } catch (error) {
+      console.error('Error reading order screenshot:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { OrderSplit, SplitCharges, SplitOptions, SplitStrategyId } from '../types';
+import { Money } from '@shared/Money';
+import { SplitStrategies, SplitItem } from '@shared/SplitStrategies';
+import { RewardEngine } from './RewardEngine';
+
+export const SPLIT_STRATEGY_LABELS: Record<SplitStrategyId, { title: string; description: string }> = {
+  proportional: {
+    title: 'By MRP',
+    description: 'Tax, fees and discount split by what each member ordered',
+  },
+  equal_fees: {
+    title: 'Equal fees',
+    description: 'Delivery and handling split evenly; tax and discount by MRP',
+  },
+  coupon_items: {
+    title: 'Coupon items',
+    description: 'The discount goes only to the items the coupon covered',
+  },
+  single_tax_payer: {
+    title: 'One pays tax',
+    description: 'One member covers all the tax',
+  },
+  custom: {
+    title: 'Custom',
+    description: 'Enter each member\'s amount; it must add up to the order total',
+  },
+};
+
+type PreviewItem = SplitItem & { coinsToApply?: number };
+
+// Runs the strategies submitSplit runs so the leader can see the shares
+// before submitting; the Cloud Functions work them out again
+export class SplitPreview {
+  // The splits submitSplit would store, including each member's coins
+  static preview(items: PreviewItem[], charges: SplitCharges, options: SplitOptions): OrderSplit[] {
+    return SplitStrategies.calculate(items, charges, options).map((share, index) => {
+      const item = items[index];
+      const { coinsApplied, coinDiscount } = RewardEngine.offsetFor(share.shareAmount, item.coinsToApply || 0);
+      return {
+        userId: item.userId,
+        originalAmount: item.itemMRP,
+        taxShare: share.taxShare,
+        feeShare: share.feeShare,
+        discountShare: share.discountShare,
+        ...(share.adjustment !== 0 && { adjustment: share.adjustment }),
+        finalAmount: Money.of(share.shareAmount).subtract(Money.of(coinDiscount)).toRupees(),
+        ...(coinsApplied > 0 && { coinsApplied, coinDiscount }),
+        approved: false,
+      };
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { Transaction } from '../contexts/WalletContext';
+import { Money } from '@shared/Money';
 
 export class TransactionExport {
   static async exportToCSV(transactions: Transaction[], fileName: string = 'transactions.csv') {
@@ -17,7 +18,7 @@ export class TransactionExport {
       const rows = transactions.map(transaction => [
         new Date(transaction.timestamp).toLocaleString(),
         transaction.type,
-        transaction.amount,
+        Money.of(transaction.amount).toString(),
         transaction.description.replace(/,/g, ';'),
         transaction.status,
         transaction.id
@@ -74,6 +75,10 @@ export class TransactionExport {
   }
 
   static generateSummary(transactions: Transaction[]) {
+    // Totalled in paise so a long history doesn't pick up rounding errors
+    let credits = Money.ZERO;
+    let debits = Money.ZERO;
+    let transfers = Money.ZERO;
     const summary = {
       totalCredits: 0,
       totalDebits: 0,
@@ -95,14 +100,14 @@ export class TransactionExport {
         summary.successfulTransactions++;
         switch (transaction.type) {
           case 'credit':
-            summary.totalCredits += transaction.amount;
+            credits = credits.add(Money.of(transaction.amount));
             break;
           case 'debit':
-            summary.totalDebits += transaction.amount;
+            debits = debits.add(Money.of(transaction.amount));
             break;
           case 'transfer_in':
           case 'transfer_out':
-            summary.totalTransfers += transaction.amount;
+            transfers = transfers.add(Money.of(transaction.amount));
             break;
         }
       } else if (transaction.status === 'failed') {
@@ -110,6 +115,9 @@ export class TransactionExport {
       }
     });
 
+    summary.totalCredits = credits.toRupees();
+    summary.totalDebits = debits.toRupees();
+    summary.totalTransfers = transfers.toRupees();
     return summary;
   }
 } 
\ No newline at end of file